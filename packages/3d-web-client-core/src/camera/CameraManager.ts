@@ -4,7 +4,7 @@ import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import { CollisionsManager } from "../collisions/CollisionsManager";
 import { remap } from "../helpers/math-helpers";
 import { EventHandlerCollection } from "../input/EventHandlerCollection";
-import { camValues } from "../tweakpane/blades/cameraFolder";
+import { camValues, kartCamValues } from "../tweakpane/blades/cameraFolder";
 import { TweakPane } from "../tweakpane/TweakPane";
 import { getTweakpaneActive } from "../tweakpane/tweakPaneActivity";
 
@@ -12,11 +12,67 @@ const cameraPanSensitivity = 20;
 const scrollZoomSensitivity = 0.1;
 const pinchZoomSensitivity = 0.025;
 
+// Chase cameras follow behind the kart, whilst mounted cameras (hood and bumper) are fixed to it
+export type KartCameraMode = "closeChase" | "farChase" | "hood" | "bumper";
+
+// The order that the modes are cycled through
+export const kartCameraModes: ReadonlyArray<KartCameraMode> = [
+  "closeChase",
+  "farChase",
+  "hood",
+  "bumper",
+];
+
+export const defaultKartCameraMode: KartCameraMode = "farChase";
+
+const kartCameraModeStorageKey = "kartCameraMode";
+
+function isKartCameraMode(mode: unknown): mode is KartCameraMode {
+  return kartCameraModes.includes(mode as KartCameraMode);
+}
+
+function isMountedKartCameraMode(mode: KartCameraMode): mode is "hood" | "bumper" {
+  return mode === "hood" || mode === "bumper";
+}
+
+function loadKartCameraMode(): KartCameraMode {
+  try {
+    const stored = localStorage.getItem(kartCameraModeStorageKey);
+    if (isKartCameraMode(stored)) {
+      return stored;
+    }
+  } catch (error) {
+    console.warn("Unable to load the stored camera mode", error);
+  }
+  return defaultKartCameraMode;
+}
+
 export class CameraManager {
   public readonly camera: PerspectiveCamera;
   private flyCamera: PerspectiveCamera;
   private orbitControls: OrbitControls;
   private isMainCameraActive: boolean = true;
+  private lookingBack: boolean = false;
+
+  private kartCameraMode: KartCameraMode = loadKartCameraMode();
+  // The latest kart position (null until a kart is followed), which mounted and orbiting cameras move with
+  private kartPosition: Vector3 | null = null;
+  private mountedPosition: Vector3 = new Vector3();
+  private mountedLookAt: Vector3 = new Vector3();
+
+  private cinematic: boolean = false;
+  private orbitStartTime: number = 0;
+  private orbitStartAngle: number = 0;
+
+  // The pose that the current mode wants the camera to have, and the point that the camera is looking at
+  private desiredPosition: Vector3 = new Vector3();
+  private desiredLookAt: Vector3 = new Vector3();
+  private lookAt: Vector3 = new Vector3(0, 1.55, 0);
+
+  // Transitions blend from the pose at the start of the transition (relative to the kart, so that it keeps up)
+  private transitionProgress: number = 1;
+  private transitionFromPosition: Vector3 = new Vector3();
+  private transitionFromLookAt: Vector3 = new Vector3();
 
   public initialDistance: number = camValues.initialDistance;
   public minDistance: number = camValues.minDistance;
@@ -231,12 +287,150 @@ export class CameraManager {
     this.setTarget(target);
   }
 
+  // Whilst set, the kart camera looks behind the kart
+  public setLookingBack(lookingBack: boolean): void {
+    if (lookingBack !== this.lookingBack) {
+      this.lookingBack = lookingBack;
+      this.startTransition();
+    }
+  }
+
+  public getKartCameraMode(): KartCameraMode {
+    return this.kartCameraMode;
+  }
+
+  // The mode is remembered (in localStorage) for the next session
+  public setKartCameraMode(mode: KartCameraMode): void {
+    if (mode === this.kartCameraMode) {
+      return;
+    }
+    this.kartCameraMode = mode;
+    this.startTransition();
+    try {
+      if (mode === defaultKartCameraMode) {
+        localStorage.removeItem(kartCameraModeStorageKey);
+      } else {
+        localStorage.setItem(kartCameraModeStorageKey, mode);
+      }
+    } catch (error) {
+      console.warn("Unable to store the camera mode", error);
+    }
+  }
+
+  public cycleKartCameraMode(): void {
+    const index = kartCameraModes.indexOf(this.kartCameraMode);
+    this.setKartCameraMode(kartCameraModes[(index + 1) % kartCameraModes.length]);
+  }
+
+  public isCinematic(): boolean {
+    return this.cinematic;
+  }
+
+  // Whilst set, the camera slowly orbits the kart (e.g. in the lobby or once the race is over)
+  public setCinematic(cinematic: boolean): void {
+    if (cinematic === this.cinematic) {
+      return;
+    }
+    this.cinematic = cinematic;
+    this.startTransition();
+    if (cinematic) {
+      // Starts from the camera's current side of the kart
+      const center = this.getTransitionAnchor();
+      this.orbitStartAngle = Math.atan2(
+        this.camera.position.z - center.z,
+        this.camera.position.x - center.x,
+      );
+      this.orbitStartTime = performance.now();
+    }
+  }
+
+  private isMountedModeActive(): boolean {
+    return (
+      !this.cinematic && isMountedKartCameraMode(this.kartCameraMode) && this.kartPosition !== null
+    );
+  }
+
+  private getTransitionAnchor(): Vector3 {
+    return this.kartPosition ?? this.target;
+  }
+
+  private startTransition(): void {
+    const anchor = this.getTransitionAnchor();
+    this.transitionFromPosition.copy(this.camera.position).sub(anchor);
+    this.transitionFromLookAt.copy(this.lookAt).sub(anchor);
+    this.transitionProgress = 0;
+  }
+
+  private updateMountedPose(kartPosition: Vector3, kartRotation: Euler): void {
+    const parameters = this.kartCameraMode === "bumper" ? kartCamValues.bumper : kartCamValues.hood;
+    const kartForward = new Vector3(0, 0, 1).applyEuler(kartRotation);
+    const kartUp = new Vector3(0, 1, 0).applyEuler(kartRotation);
+    // Looking back mirrors the camera to the back of the kart
+    const direction = this.lookingBack ? -1 : 1;
+    this.mountedPosition
+      .copy(kartPosition)
+      .addScaledVector(kartForward, parameters.forwardOffset * direction)
+      .addScaledVector(kartUp, parameters.height);
+    this.mountedLookAt
+      .copy(this.mountedPosition)
+      .addScaledVector(kartForward, parameters.lookAhead * direction);
+  }
+
+  private updateOrbitPose(): void {
+    const center = this.getTransitionAnchor();
+    const elapsed = (performance.now() - this.orbitStartTime) / 1000;
+    const angle = this.orbitStartAngle + elapsed * kartCamValues.orbit.speed;
+    this.desiredPosition.set(
+      center.x + Math.cos(angle) * kartCamValues.orbit.radius,
+      center.y + kartCamValues.orbit.height,
+      center.z + Math.sin(angle) * kartCamValues.orbit.radius,
+    );
+    this.desiredLookAt.copy(center);
+  }
+
+  // Moves the camera to the desired pose, blending from the previous mode's pose during a transition
+  private applyDesiredPose(): void {
+    if (this.transitionProgress < 1) {
+      this.transitionProgress = Math.min(
+        1,
+        this.transitionProgress + kartCamValues.transitionSpeed,
+      );
+      // Smoothstep so that the camera eases in and out of the transition
+      const t = this.transitionProgress;
+      const blend = t * t * (3 - 2 * t);
+      const anchor = this.getTransitionAnchor();
+      this.desiredPosition
+        .sub(anchor)
+        .lerp(this.transitionFromPosition, 1 - blend)
+        .add(anchor);
+      this.desiredLookAt
+        .sub(anchor)
+        .lerp(this.transitionFromLookAt, 1 - blend)
+        .add(anchor);
+    }
+    this.camera.position.copy(this.desiredPosition);
+    this.lookAt.copy(this.desiredLookAt);
+    this.camera.lookAt(this.lookAt);
+  }
+
   public updateForKart(kartPosition: Vector3, kartVelocity: Vector3, kartRotation: Euler, isReversing: boolean = false): void {
-    // Debug logging
-    if (Math.random() < 0.01) { // Log occasionally to avoid spam
-      console.log("Camera updateForKart - isReversing:", isReversing);
+    // Looking back places the camera in front of the kart, as when reversing
+    const reversedView = isReversing !== this.lookingBack;
+
+    if (this.kartPosition === null) {
+      // Transitions become relative to the kart rather than the target, so keep any transition starting in place
+      this.transitionFromPosition.add(this.target).sub(kartPosition);
+      this.transitionFromLookAt.add(this.target).sub(kartPosition);
+      this.kartPosition = new Vector3();
     }
-    
+    this.kartPosition.copy(kartPosition);
+    if (isMountedKartCameraMode(this.kartCameraMode)) {
+      this.updateMountedPose(kartPosition, kartRotation);
+    }
+    // The chase camera is still updated in other modes so that switching back to it is smooth
+    const chaseParameters =
+      this.kartCameraMode === "closeChase" ? kartCamValues.closeChase : kartCamValues.farChase;
+
     // Disable manual camera controls when using kart camera
     this.disableManualControls();
 
@@ -246,9 +440,8 @@ export class CameraManager {
     const speedRatio = Math.min(speed / maxKartSpeed, 1);
 
     // Dynamic distance: closer when stationary, further back at high speed
-    // Start at 6m when stationary, pull back to 12m at max speed for higher speeds
-    const baseDistance = 6;
-    const maxDistance = 12; // Slightly increased for higher speeds
+    const baseDistance = chaseParameters.distance;
+    const maxDistance = chaseParameters.topSpeedDistance;
     // Smoother pull back: use a gentler curve to reduce jarring
     const smoothSpeedRatio = Math.pow(speedRatio, 0.6); // Gentler curve than sqrt
     const dynamicDistance = baseDistance + (maxDistance - baseDistance) * smoothSpeedRatio;
@@ -268,12 +461,12 @@ export class CameraManager {
       lookAheadPosition.add(velocityDirection.multiplyScalar(lookAheadDistance));
     } else {
       // Use kart facing direction when stationary/slow
-      const facingDirection = isReversing ? kartForward.clone().negate() : kartForward.clone();
+      const facingDirection = reversedView ? kartForward.clone().negate() : kartForward.clone();
       lookAheadPosition.add(facingDirection.multiplyScalar(0.5));
     }
 
     // Height offset: lower when going fast for speed sensation
-    const baseHeight = 2.5;
+    const baseHeight = chaseParameters.height;
     const speedHeightReduction = speedRatio * 0.3; // Reduced from 0.5 for gentler height changes
     const kartHeightOffset = baseHeight - speedHeightReduction;
 
@@ -285,7 +478,9 @@ export class CameraManager {
 
     // Position camera behind the direction of movement
     // When reversing, position camera in front of the kart (behind the direction of movement)
-    const cameraDirection = isReversing ? kartForwardNormalized.clone() : kartForwardNormalized.clone().negate();
+    const cameraDirection = reversedView
+      ? kartForwardNormalized.clone()
+      : kartForwardNormalized.clone().negate();
     const cameraOffset = cameraDirection.multiplyScalar(dynamicDistance);
     cameraOffset.y += kartHeightOffset; // Add height offset
 
@@ -304,7 +499,7 @@ export class CameraManager {
     const maxSwingAngle = Math.PI / 6; // 30 degrees - reasonable constraint for normal operation
 
     // Calculate optimal camera angle based on movement direction
-    const movementDirection = isReversing ? kartForward.clone().negate() : kartForward.clone();
+    const movementDirection = reversedView ? kartForward.clone().negate() : kartForward.clone();
     const optimalTheta = Math.atan2(movementDirection.z, movementDirection.x) + Math.PI;
 
     // Calculate how far the desired camera angle deviates from optimal
@@ -315,7 +510,7 @@ export class CameraManager {
     while (deviationFromOptimal < -Math.PI) deviationFromOptimal += 2 * Math.PI;
 
     // Only apply constraint when NOT reversing - allow complete freedom when reversing
-    if (!isReversing) {
+    if (!reversedView) {
       // Forward driving - apply normal constraint to prevent excessive swinging
       deviationFromOptimal = Math.max(-maxSwingAngle, Math.min(maxSwingAngle, deviationFromOptimal));
       if (Math.random() < 0.01) { // Debug occasionally
@@ -334,7 +529,7 @@ export class CameraManager {
     // SMOOTH CAMERA MOVEMENTS: Use interpolation instead of direct assignment
     // This prevents jarring camera movements during acceleration/deceleration
     // Made much more responsive to keep up with high-speed rotations and reverse transitions
-    const cameraSmoothing = isReversing ? 0.9 : 0.6; // Much more responsive when reversing
+    const cameraSmoothing = reversedView ? 0.9 : 0.6; // Much more responsive when reversing
     const distanceSmoothing = 0.3; // More responsive distance transitions
 
     // Calculate shortest path for theta to prevent long-way-around issues
@@ -447,11 +642,12 @@ export class CameraManager {
       this.orbitControls.update();
       return;
     }
+    const chasing = !this.cinematic && !this.isMountedModeActive();
     if (this.isLerping && this.lerpFactor < 1) {
       this.lerpFactor += 0.01 / this.lerpDuration;
       this.lerpFactor = Math.min(1, this.lerpFactor);
       this.target.lerpVectors(this.lerpTarget, this.finalTarget, this.easeOutExpo(this.lerpFactor));
-    } else {
+    } else if (chasing) {
       this.adjustCameraPosition();
     }
 
@@ -460,17 +656,27 @@ export class CameraManager {
     this.theta += (this.targetTheta - this.theta) * this.damping;
     this.phi += (this.targetPhi - this.phi) * this.damping;
 
-    const x = this.target.x + this.distance * Math.sin(this.phi) * Math.cos(this.theta);
-    const y = this.target.y + this.distance * Math.cos(this.phi);
-    const z = this.target.z + this.distance * Math.sin(this.phi) * Math.sin(this.theta);
-
     this.recomputeFoV();
+    if (this.cinematic) {
+      this.updateOrbitPose();
+    } else if (this.isMountedModeActive()) {
+      this.desiredPosition.copy(this.mountedPosition);
+      this.desiredLookAt.copy(this.mountedLookAt);
+      this.targetFOV =
+        this.kartCameraMode === "bumper" ? kartCamValues.bumper.fov : kartCamValues.hood.fov;
+    } else {
+      const x = this.target.x + this.distance * Math.sin(this.phi) * Math.cos(this.theta);
+      const y = this.target.y + this.distance * Math.cos(this.phi);
+      const z = this.target.z + this.distance * Math.sin(this.phi) * Math.sin(this.theta);
+      this.desiredPosition.set(x, y, z);
+      this.desiredLookAt.copy(this.target);
+    }
+
     this.fov += (this.targetFOV - this.fov) * this.zoomDamping;
     this.camera.fov = this.fov;
     this.camera.updateProjectionMatrix();
 
-    this.camera.position.set(x, y, z);
-    this.camera.lookAt(this.target);
+    this.applyDesiredPose();
 
     if (this.isLerping && this.lerpFactor >= 1) {
       this.isLerping = false;
@@ -1,3 +1,4 @@
+import { defaultKartSurface, KartSurfaceType } from "@mml-io/3d-web-kart-physics";
 import { Color, Group, Vector3, Quaternion } from "three";
 
 import { CameraManager } from "../camera/CameraManager";
@@ -9,6 +10,7 @@ import { CharacterSpeakingIndicator } from "./CharacterSpeakingIndicator";
 import { AnimationState } from "./CharacterState";
 import { CharacterTooltip } from "./CharacterTooltip";
 import { KartMesh, KartMeshConfig } from "./KartMesh";
+import { kartSurfaceEffects, kartSurfaceTrailSpeed } from "./kartSurfaceEffects";
 import { PathTrail } from "./PathTrail";
 
 export type AnimationConfig = {
@@ -68,7 +70,10 @@ export class Character extends Group {
   private lastSpeed: number = 0;
   private lastSteeringAngle: number = 0;
   private skidParticleSystems: PathTrail[] = []; // Path trails for each wheel
+  // Trails that have stopped (e.g. on a different surface) and are fading out
+  private fadingSkidTrails: PathTrail[] = [];
   private wasSkidding: boolean = false;
+  private skidSurface: KartSurfaceType = defaultKartSurface;
 
   public color: Color = new Color();
   public tooltip: CharacterTooltip;
@@ -222,26 +227,45 @@ export class Character extends Group {
     }
   }
 
-  public updateSkidMarks(isSkidding: boolean, wheelPositions: Vector3[], velocity?: Vector3) {
+  // Shows sparks from the rear wheels in the color of the mini-turbo tier (none for tier 0)
+  public updateDriftSparks(miniTurboTier: number) {
+    if (this.kartMesh && this.config.kartMode) {
+      this.kartMesh.updateDriftSparks(miniTurboTier);
+    }
+  }
+
+  public updateSkidMarks(
+    isSkidding: boolean,
+    wheelPositions: Vector3[],
+    velocity?: Vector3,
+    surface: KartSurfaceType = defaultKartSurface,
+  ) {
     if (!this.config.kartMode) return;
 
     // Update existing trails
     this.updatePathTrails();
 
-    if (isSkidding) {
-      if (!this.wasSkidding) {
-        // Start new trails when we begin skidding
+    // Some surfaces (e.g. dirt) leave a trail whenever the kart drives across them quickly
+    const speed = velocity ? velocity.length() : Math.abs(this.lastSpeed);
+    const leavesTrail =
+      isSkidding || (kartSurfaceEffects[surface].kicksUpTrail && speed > kartSurfaceTrailSpeed);
+
+    if (leavesTrail) {
+      if (!this.wasSkidding || surface !== this.skidSurface) {
+        // Start new trails when we begin skidding (or in the new surface's colors)
+        this.stopTrails();
+        this.skidSurface = surface;
         this.initializePathTrails(wheelPositions, velocity);
       }
 
       // Add points to existing trails
       this.addTrailPoints(wheelPositions, velocity);
-    } else if (!isSkidding && this.wasSkidding) {
+    } else if (this.wasSkidding) {
       // Stop trail creation when skidding ends
       this.stopTrails();
     }
 
-    this.wasSkidding = isSkidding;
+    this.wasSkidding = leavesTrail;
   }
 
   private addTrailPoints(wheelPositions: Vector3[], velocity?: Vector3) {
@@ -255,8 +279,7 @@ export class Character extends Group {
   }
 
   private initializePathTrails(wheelPositions: Vector3[], velocity?: Vector3) {
-    // Clean up existing trails first
-    this.cleanupPathTrails();
+    const effects = kartSurfaceEffects[this.skidSurface];
 
     // Create one trail per wheel with enhanced settings
     wheelPositions.forEach((position, index) => {
@@ -264,8 +287,8 @@ export class Character extends Group {
         maxPoints: 60, // Good length for performance
         baseWidth: 0.4, // Nice thick base width
         maxWidth: 1.0, // Very thick at high speed
-        color: new Color(0xeeeeee), // Bright white/light grey smoke core
-        glowColor: new Color(0x888888), // Medium grey smoke outer edge
+        color: new Color(effects.trailColor), // e.g. bright white/light grey smoke core on asphalt
+        glowColor: new Color(effects.trailGlowColor), // e.g. medium grey smoke outer edge on asphalt
         fadeTime: 3.5, // Trail fades over 3.5 seconds
         minDistance: 0.3, // Add point every 0.3 units
         speedThreshold: 25, // Max intensity at 25 units/second
@@ -286,11 +309,13 @@ export class Character extends Group {
     this.skidParticleSystems.forEach((trail) => {
       trail.stopTrail();
     });
+    this.fadingSkidTrails.push(...this.skidParticleSystems);
+    this.skidParticleSystems = [];
   }
 
   private updatePathTrails() {
     // Update all trails and remove empty ones
-    this.skidParticleSystems = this.skidParticleSystems.filter((trail) => {
+    const updateTrail = (trail: PathTrail) => {
       trail.update(1 / 60); // Assume 60fps for deltaTime
 
       if (trail.isEmpty()) {
@@ -301,16 +326,19 @@ export class Character extends Group {
       }
 
       return true;
-    });
+    };
+    this.skidParticleSystems = this.skidParticleSystems.filter(updateTrail);
+    this.fadingSkidTrails = this.fadingSkidTrails.filter(updateTrail);
   }
 
-  private cleanupPathTrails() {
-    // Clean up all existing trails
-    this.skidParticleSystems.forEach((trail) => {
+  // Removes all of the kart's trails immediately (e.g. when the kart leaves the scene)
+  public clearSkidMarks() {
+    [...this.skidParticleSystems, ...this.fadingSkidTrails].forEach((trail) => {
       this.config.composer.postPostScene.remove(trail);
       trail.dispose();
     });
     this.skidParticleSystems = [];
+    this.fadingSkidTrails = [];
   }
 
   public update(time: number, deltaTime: number) {
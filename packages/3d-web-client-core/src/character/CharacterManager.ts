@@ -1,10 +1,10 @@
+import { KartControlInput, KartPhysicsConfiguration } from "@mml-io/3d-web-kart-physics";
 import { PositionAndRotation } from "@mml-io/mml-web";
 import { Euler, Group, Quaternion, Vector3 } from "three";
 
 import { CameraManager } from "../camera/CameraManager";
 import { CollisionsManager } from "../collisions/CollisionsManager";
-import { KeyInputManager } from "../input/KeyInputManager";
-import { VirtualJoystick } from "../input/VirtualJoystick";
+import { KartInputManager } from "../input/KartInputManager";
 import { Composer } from "../rendering/composer";
 import { TimeManager } from "../time/TimeManager";
 import { TweakPane } from "../tweakpane/TweakPane";
@@ -14,6 +14,7 @@ import { CharacterModelLoader } from "./CharacterModelLoader";
 import { AnimationState, CharacterState } from "./CharacterState";
 import { KartController } from "./KartController";
 import { RemoteController } from "./RemoteController";
+import { SnapshotInterpolationConfig, SnapshotInterpolationStats } from "./SnapshotInterpolator";
 import { encodeCharacterAndCamera } from "./url-position";
 
 type SpawnPosition = {
@@ -59,8 +60,7 @@ export type CharacterManagerConfig = {
   collisionsManager: CollisionsManager;
   cameraManager: CameraManager;
   timeManager: TimeManager;
-  keyInputManager: KeyInputManager;
-  virtualJoystick?: VirtualJoystick;
+  kartInputManager: KartInputManager;
   remoteUserStates: Map<number, CharacterState>;
   sendUpdate: (update: CharacterState) => void;
   animationConfig: AnimationConfig;
@@ -70,6 +70,13 @@ export type CharacterManagerConfig = {
     characterDescription: CharacterDescription;
   };
   updateURLLocation?: boolean;
+  remoteInterpolationConfig?: Partial<SnapshotInterpolationConfig>;
+  onLocalPhysicsStep?: (tick: number, input: KartControlInput | null) => void;
+  // Called with the impact speed (m/s) whenever the local kart hits a wall or another kart
+  onLocalCollision?: (impactSpeed: number) => void;
+  physicsConfiguration?: KartPhysicsConfiguration;
+  // Drift whenever turning hard at speed instead of with the drift button
+  automaticDrift?: boolean;
 };
 
 export class CharacterManager {
@@ -89,6 +96,14 @@ export class CharacterManager {
   public readonly group: Group;
   private lastUpdateSentTime: number = 0;
 
+  // Whilst set, remote characters are driven by these states (e.g. from a replay) instead of the live states
+  private playbackStates: Map<number, CharacterState> | null = null;
+  private playbackFollowId: number | null = null;
+
+  // Whilst spectating, the camera follows a remote character instead of the local kart (if there is one)
+  private spectating: boolean = false;
+  private spectatedId: number | null = null;
+
   constructor(private config: CharacterManagerConfig) {
     this.group = new Group();
   }
@@ -131,11 +146,14 @@ export class CharacterManager {
       character: this.localCharacter,
       id: this.localClientId,
       collisionsManager: this.config.collisionsManager,
-      keyInputManager: this.config.keyInputManager,
-      virtualJoystick: this.config.virtualJoystick,
+      kartInputManager: this.config.kartInputManager,
       cameraManager: this.config.cameraManager,
       timeManager: this.config.timeManager,
       spawnConfiguration: this.config.spawnConfiguration,
+      onPhysicsStep: this.config.onLocalPhysicsStep,
+      onCollision: this.config.onLocalCollision,
+      physicsConfiguration: this.config.physicsConfiguration,
+      automaticDrift: this.config.automaticDrift,
     });
     this.localCharacter.position.set(spawnPosition.x, spawnPosition.y, spawnPosition.z);
     this.localCharacter.rotation.set(spawnRotation.x, spawnRotation.y, spawnRotation.z);
@@ -170,9 +188,54 @@ export class CharacterManager {
     return respawnButton;
   }
 
+  public getPhysicsConfiguration(): KartPhysicsConfiguration | undefined {
+    return this.config.physicsConfiguration;
+  }
+
+  public setPhysicsConfiguration(physicsConfiguration: KartPhysicsConfiguration | undefined) {
+    this.config.physicsConfiguration = physicsConfiguration;
+    if (this.localCharacterSpawned) {
+      this.localController.setPhysicsConfiguration(physicsConfiguration);
+    }
+  }
+
+  public setAutomaticDrift(automaticDrift: boolean) {
+    this.config.automaticDrift = automaticDrift;
+    if (this.localCharacterSpawned) {
+      this.localController.getPhysics().setAutomaticDrift(automaticDrift);
+    }
+  }
+
+  // Passes the server's acknowledgement of the local kart's inputs (and any correction) to its controller
+  public reconcileLocalKart(inputSequence: number, correction: CharacterState | null) {
+    if (this.localCharacterSpawned) {
+      this.localController.reconcile(inputSequence, correction);
+    }
+  }
+
   public setupTweakPane(tweakPane: TweakPane) {
-    // TODO: Update TweakPane to work with KartController
-    // tweakPane.setupCharacterController(this.localController);
+    tweakPane.setupKartPhysics(this.config.physicsConfiguration, (physicsConfiguration) => {
+      this.setPhysicsConfiguration(physicsConfiguration);
+    });
+  }
+
+  public updateTweakPane(tweakPane: TweakPane) {
+    if (this.localCharacterSpawned) {
+      tweakPane.updateKartPhysicsData(this.localController.getPhysics());
+    }
+  }
+
+  // The snapshot buffer health of each remote kart that has received a snapshot
+  public getRemoteInterpolationStats(): Array<SnapshotInterpolationStats> {
+    const now = performance.now();
+    const stats: Array<SnapshotInterpolationStats> = [];
+    for (const [, controller] of this.remoteCharacterControllers) {
+      const controllerStats = controller.getInterpolationStats(now);
+      if (controllerStats) {
+        stats.push(controllerStats);
+      }
+    }
+    return stats;
   }
 
   public spawnRemoteCharacter(
@@ -200,7 +263,11 @@ export class CharacterManager {
     this.remoteCharacters.set(id, character);
     character.position.set(spawnPosition.x, spawnPosition.y, spawnPosition.z);
     character.rotation.set(spawnRotation.x, spawnRotation.y, spawnRotation.z);
-    const remoteController = new RemoteController({ character, id });
+    const remoteController = new RemoteController({
+      character,
+      id,
+      interpolationConfig: this.config.remoteInterpolationConfig,
+    });
     this.remoteCharacterControllers.set(id, remoteController);
     this.group.add(character);
   }
@@ -218,12 +285,23 @@ export class CharacterManager {
     };
   }
 
-  public clear() {
+  private despawnRemoteCharacter(id: number, character: Character) {
+    character.speakingIndicator?.dispose();
+    character.clearSkidMarks();
+    this.group.remove(character);
+    this.remoteCharacters.delete(id);
+    this.remoteCharacterControllers.delete(id);
+    this.config.collisionsManager.removeKartBody(id);
+  }
+
+  private clearRemoteCharacters() {
     for (const [id, character] of this.remoteCharacters) {
-      this.group.remove(character);
-      this.remoteCharacters.delete(id);
-      this.remoteCharacterControllers.delete(id);
+      this.despawnRemoteCharacter(id, character);
     }
+  }
+
+  public clear() {
+    this.clearRemoteCharacters();
     if (this.localCharacter) {
       this.group.remove(this.localCharacter);
       this.localCharacter = null;
@@ -260,7 +338,100 @@ export class CharacterManager {
     }
   }
 
+  /*
+   Replaces the live remote characters with characters driven by the given states (which can change between frames).
+   The local kart is hidden and frozen, and the camera follows the character with followId (if present).
+  */
+  public startPlayback(states: Map<number, CharacterState>, followId: number | null) {
+    this.clearRemoteCharacters();
+    this.playbackStates = states;
+    this.playbackFollowId = followId;
+    if (this.localCharacter) {
+      this.localCharacter.visible = false;
+    }
+  }
+
+  public stopPlayback() {
+    if (this.playbackStates === null) {
+      return;
+    }
+    this.clearRemoteCharacters();
+    this.playbackStates = null;
+    this.playbackFollowId = null;
+    if (this.localCharacter) {
+      this.localCharacter.visible = true;
+    }
+  }
+
+  public isPlayingBack(): boolean {
+    return this.playbackStates !== null;
+  }
+
+  public isSpectating(): boolean {
+    return this.spectating;
+  }
+
+  public setSpectating(spectating: boolean) {
+    this.spectating = spectating;
+    if (!spectating) {
+      this.spectatedId = null;
+    }
+  }
+
+  // The remote character that the camera is following whilst spectating (null if there is no-one to follow)
+  public getSpectatedId(): number | null {
+    return this.spectatedId;
+  }
+
+  // Follows the next (or previous) remote character in order of their ids
+  public spectateNext(direction: 1 | -1 = 1) {
+    const ids = Array.from(this.remoteCharacters.keys()).sort((a, b) => a - b);
+    if (ids.length === 0) {
+      return;
+    }
+    const index = this.spectatedId !== null ? ids.indexOf(this.spectatedId) : -1;
+    if (index === -1) {
+      this.spectatedId = direction === 1 ? ids[0] : ids[ids.length - 1];
+    } else {
+      this.spectatedId = ids[(index + direction + ids.length) % ids.length];
+    }
+  }
+
+  // Whether the camera is following a kart (either the local kart or a spectated one)
+  public isFollowingKart(): boolean {
+    if (this.spectating || this.playbackStates !== null) {
+      return this.remoteCharacters.size > 0;
+    }
+    return this.localCharacter !== null;
+  }
+
+  // Returns the id of the character that the camera followed (which falls back to any character if followId is absent)
+  private followRemoteCharacter(
+    states: Map<number, CharacterState>,
+    followId: number | null,
+  ): number | null {
+    if (followId === null || !this.remoteCharacters.has(followId)) {
+      followId = this.remoteCharacters.keys().next().value ?? null;
+    }
+    if (followId === null) {
+      return null;
+    }
+    const character = this.remoteCharacters.get(followId)!;
+    const kart = states.get(followId)?.kart;
+    const velocity = kart
+      ? new Vector3(kart.velocity.x, kart.velocity.y, kart.velocity.z)
+      : new Vector3();
+    this.config.cameraManager.updateForKart(
+      character.position,
+      velocity,
+      character.rotation,
+      kart?.reversing ?? false,
+    );
+    return followId;
+  }
+
   public update() {
+    const playbackStates = this.playbackStates;
     if (this.localCharacter) {
       this.localCharacter.update(this.config.timeManager.time, this.config.timeManager.deltaTime);
       if (this.speakingCharacters.has(this.localClientId)) {
@@ -269,7 +440,9 @@ export class CharacterManager {
         );
       }
 
-      this.localController.update();
+      if (playbackStates === null) {
+        this.localController.update();
+      }
       const currentTime = new Date().getTime();
       const timeSinceLastUpdate = currentTime - this.lastUpdateSentTime;
       if (timeSinceLastUpdate > 30) {
@@ -278,27 +451,44 @@ export class CharacterManager {
         this.config.sendUpdate(this.localController.networkState);
       }
 
-      // Use kart-optimized camera with speed-responsive distance and look-ahead
-      const kartPosition = this.localCharacter.position;
-      const kartVelocity = this.localController.getVelocity();
-      const kartRotation = this.localCharacter.rotation;
-      const isReversing = this.localController.isInReverse();
-      this.config.cameraManager.updateForKart(kartPosition, kartVelocity, kartRotation, isReversing);
+      if (playbackStates === null && !this.spectating) {
+        // Use kart-optimized camera with speed-responsive distance and look-ahead
+        const kartPosition = this.localCharacter.position;
+        const kartVelocity = this.localController.getVelocity();
+        const kartRotation = this.localCharacter.rotation;
+        const isReversing = this.localController.isInReverse();
+        this.config.cameraManager.updateForKart(
+          kartPosition,
+          kartVelocity,
+          kartRotation,
+          isReversing,
+        );
+      }
 
-      // Update skid marks based on kart state
-      const isSkidding = this.localController.isCreatingSkidMarks();
-      const wheelPositions = this.localController.getWheelPositions();
-      const velocity = this.localController.getVelocity(); // Get velocity for speed-based trail intensity
-      this.localCharacter.updateSkidMarks(isSkidding, wheelPositions, velocity);
+      if (playbackStates === null) {
+        // Update skid marks based on kart state
+        const isSkidding = this.localController.isCreatingSkidMarks();
+        const wheelPositions = this.localController.getWheelPositions();
+        const velocity = this.localController.getVelocity(); // Get velocity for speed-based trail intensity
+        const physics = this.localController.getPhysics();
+        this.localCharacter.updateSkidMarks(isSkidding, wheelPositions, velocity, physics.surface);
+        this.localCharacter.updateDriftSparks(physics.getMiniTurboTier());
+      }
+    }
 
-      for (const [id, update] of this.config.remoteUserStates) {
+    if (this.localCharacter || this.spectating) {
+      const remoteUserStates = playbackStates ?? this.config.remoteUserStates;
+      for (const [id, update] of remoteUserStates) {
         if (this.remoteCharacters.has(id) && this.speakingCharacters.has(id)) {
           const character = this.remoteCharacters.get(id);
           character?.speakingIndicator?.setSpeaking(this.speakingCharacters.get(id)!);
         }
         const { position } = update;
 
-        if (!this.remoteCharacters.has(id) && this.localCharacterSpawned === true) {
+        if (
+          !this.remoteCharacters.has(id) &&
+          (this.localCharacterSpawned === true || this.spectating)
+        ) {
           const characterInfo = this.config.characterResolve(id);
           this.spawnRemoteCharacter(
             id,
@@ -315,19 +505,36 @@ export class CharacterManager {
             this.config.timeManager.time,
             this.config.timeManager.deltaTime,
           );
+          // Used by the local kart's collisions on the next frame
+          const collisionBody = characterController.getCollisionBody(performance.now());
+          if (collisionBody && playbackStates === null) {
+            this.config.collisionsManager.setKartBody(id, collisionBody);
+          } else {
+            this.config.collisionsManager.removeKartBody(id);
+          }
         }
       }
 
+      // Karts that have left (or, with interest management, gone out of range) are despawned, and spawned again above
+      // when they come back
       for (const [id, character] of this.remoteCharacters) {
-        if (!this.config.remoteUserStates.has(id)) {
-          character.speakingIndicator?.dispose();
-          this.group.remove(character);
-          this.remoteCharacters.delete(id);
-          this.remoteCharacterControllers.delete(id);
+        if (!remoteUserStates.has(id)) {
+          this.despawnRemoteCharacter(id, character);
         }
       }
 
+      // Follow the character after it has been moved for this frame
+      if (playbackStates !== null) {
+        this.followRemoteCharacter(playbackStates, this.playbackFollowId);
+      } else if (this.spectating) {
+        this.spectatedId = this.followRemoteCharacter(
+          this.config.remoteUserStates,
+          this.spectatedId,
+        );
+      }
+
       if (
+        this.localCharacter &&
         this.config.updateURLLocation &&
         this.config.timeManager.frame % 60 === 0 &&
         document.hasFocus() &&
@@ -8,6 +8,25 @@ export enum AnimationState {
   "doubleJump" = 6,
 }
 
+export type KartState = {
+  velocity: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  steering: number;
+  throttle: number;
+  drifting: boolean;
+  skidding: boolean;
+  reversing: boolean;
+  // The index of the surface in kartSurfaceTypes (omitted for the default surface)
+  surface?: number;
+  // The mini-turbo charged by the current drift (0 to 3, omitted when there is none)
+  miniTurboTier?: number;
+  // The number of physics steps the local kart has run, which the server acknowledges (only sent by the local kart)
+  inputSequence?: number;
+};
+
 export type CharacterState = {
   id: number;
   position: {
@@ -16,7 +35,10 @@ export type CharacterState = {
     z: number;
   };
   rotation: {
+    // Only karts send the pitch and roll components - characters only rotate about the vertical axis
+    quaternionX?: number;
     quaternionY: number;
+    quaternionZ?: number;
     quaternionW: number;
   };
   camPosition?: {
@@ -29,4 +51,5 @@ export type CharacterState = {
     w: number;
   };
   state: AnimationState;
+  kart?: KartState;
 };
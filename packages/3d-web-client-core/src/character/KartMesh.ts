@@ -1,11 +1,17 @@
 import {
+  AdditiveBlending,
   BoxGeometry,
+  BufferAttribute,
+  BufferGeometry,
   Group,
   Mesh,
   MeshBasicMaterial,
   Vector3,
   CylinderGeometry,
   Object3D,
+  Material,
+  Points,
+  PointsMaterial,
 } from "three";
 
 import { CharacterModelLoader } from "./CharacterModelLoader";
@@ -16,8 +22,14 @@ export interface KartMeshConfig {
   showWheels?: boolean;
   modelUrl?: string; // Optional GLB file URL
   characterModelLoader?: CharacterModelLoader; // For loading GLB assets
+  material?: Material; // Replaces the materials of every part of the kart (e.g. to render a ghost)
+  castShadow?: boolean;
 }
 
+// The colors of the sparks for each mini-turbo tier (blue, orange then purple)
+const driftSparkColors = [0x4fb4ff, 0xff9a1f, 0xd36bff];
+const driftSparkCount = 12;
+
 export class KartMesh extends Group {
   private kartBody: Mesh;
   private kartSeat: Mesh;
@@ -26,6 +38,8 @@ export class KartMesh extends Group {
   private wheelRadius: number = 0.25; // Realistic wheel radius
   private wheelWidth: number = 0.15; // Wheel thickness
   private loadedModel: Object3D | null = null; // For GLB model
+  private driftSparks: Points[] = []; // One set of sparks per rear wheel
+  private driftSparkMaterial: PointsMaterial | null = null;
   
   // Wheel positions - adjusted for realistic kart proportions
   // Y position set so bottom of wheel touches ground (y = 0)
@@ -36,7 +50,7 @@ export class KartMesh extends Group {
     new Vector3(0.7, this.wheelRadius, -0.8), // Rear right
   ];
 
-  constructor(config: KartMeshConfig = {}) {
+  constructor(private config: KartMeshConfig = {}) {
     super();
 
     // Load GLB model if provided, otherwise create programmatic mesh
@@ -50,6 +64,7 @@ export class KartMesh extends Group {
       if (config.showWheels !== false) {
         this.createWheels(config.wheelColor || 0x333333);
       }
+      this.applyMaterialOverrides(this);
     }
 
     // Set up initial transform
@@ -77,6 +92,7 @@ export class KartMesh extends Group {
             child.receiveShadow = true;
           }
         });
+        this.applyMaterialOverrides(model);
         
         console.log("Kart GLB model loaded successfully with shadows enabled");
       } else {
@@ -94,6 +110,27 @@ export class KartMesh extends Group {
     // Fallback to programmatic mesh if GLB loading fails
     this.createKartBody(0x4287f5);
     this.createWheels(0x333333);
+    this.applyMaterialOverrides(this);
+  }
+
+  private applyMaterialOverrides(object: Object3D): void {
+    const { material, castShadow } = this.config;
+    object.traverse((child: Object3D) => {
+      if (child instanceof Mesh) {
+        if (material && child.material !== material) {
+          // The replaced material is no longer referenced by this kart, so it is disposed of here
+          if (Array.isArray(child.material)) {
+            child.material.forEach((childMaterial) => childMaterial.dispose());
+          } else {
+            child.material.dispose();
+          }
+          child.material = material;
+        }
+        if (castShadow === false) {
+          child.castShadow = false;
+        }
+      }
+    });
   }
 
   private createKartBody(kartColor: number): void {
@@ -185,6 +222,58 @@ export class KartMesh extends Group {
     });
   }
 
+  private createDriftSparks(): void {
+    this.driftSparkMaterial = new PointsMaterial({
+      size: 0.12,
+      transparent: true,
+      blending: AdditiveBlending,
+      depthWrite: false,
+    });
+    for (const wheelPosition of this.wheelPositions.slice(2)) {
+      const geometry = new BufferGeometry();
+      geometry.setAttribute(
+        "position",
+        new BufferAttribute(new Float32Array(driftSparkCount * 3), 3),
+      );
+      const sparks = new Points(geometry, this.driftSparkMaterial);
+      // Just behind the bottom of the wheel
+      sparks.position.set(wheelPosition.x, 0.05, wheelPosition.z - 0.1);
+      sparks.frustumCulled = false;
+      this.driftSparks.push(sparks);
+      this.add(sparks);
+    }
+  }
+
+  public updateDriftSparks(miniTurboTier: number): void {
+    if (miniTurboTier <= 0) {
+      this.driftSparks.forEach((sparks) => {
+        sparks.visible = false;
+      });
+      return;
+    }
+    if (this.driftSparks.length === 0) {
+      this.createDriftSparks();
+    }
+    const tierIndex = Math.min(miniTurboTier, driftSparkColors.length) - 1;
+    this.driftSparkMaterial!.color.setHex(driftSparkColors[tierIndex]);
+
+    // The sparks flicker by being scattered again every frame - higher tiers throw them further
+    const spread = 0.15 + 0.1 * miniTurboTier;
+    this.driftSparks.forEach((sparks) => {
+      sparks.visible = true;
+      const positions = sparks.geometry.getAttribute("position") as BufferAttribute;
+      for (let i = 0; i < driftSparkCount; i++) {
+        positions.setXYZ(
+          i,
+          (Math.random() - 0.5) * spread,
+          Math.random() * spread,
+          -Math.random() * spread * 2,
+        );
+      }
+      positions.needsUpdate = true;
+    });
+  }
+
   public setKartColor(color: number): void {
     if (this.loadedModel) {
       // For GLB models, you might want to traverse and update materials
@@ -261,6 +350,11 @@ export class KartMesh extends Group {
       }
     });
 
+    this.driftSparks.forEach((sparks) => {
+      sparks.geometry.dispose();
+    });
+    this.driftSparkMaterial?.dispose();
+
     // Remove from parent
     this.removeFromParent();
   }
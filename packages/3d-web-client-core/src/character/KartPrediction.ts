@@ -0,0 +1,135 @@
+import { KartControlInput, KartPhysics, KartPhysicsState } from "@mml-io/3d-web-kart-physics";
+import { Quaternion, Vector3 } from "three";
+
+import { CharacterState } from "./CharacterState";
+
+// The parts of the kart physics that are stepped again when a correction is replayed
+export type PredictedKartPhysics = Pick<
+  KartPhysics,
+  "position" | "quaternion" | "getState" | "setState" | "step"
+>;
+
+// The simulated transform before the latest physics step, which the kart is rendered part way from
+export type PhysicsTransform = {
+  position: Vector3;
+  quaternion: Quaternion;
+};
+
+// A physics step that the server hasn't acknowledged yet, kept so that it can be replayed after a correction
+type PredictedStep = {
+  // The input sequence after the step
+  inputSequence: number;
+  input: KartControlInput | null;
+  // The state of the kart after the step
+  state: KartPhysicsState;
+};
+
+// Steps are kept until the server acknowledges them, or for this many steps at most (e.g. if the server doesn't)
+const maxPredictedSteps = 240;
+// Corrections that move the kart further than this (in meters) are snapped to rather than smoothed
+const maxSmoothedCorrectionDistance = 4;
+// How quickly (per second) the difference between the shown and corrected positions is smoothed away
+const correctionSmoothingRate = 10;
+
+/*
+ Keeps the physics steps that the local kart has predicted until the server acknowledges them, so that a correction
+ from the server can be applied to the step that it was made at and the later steps replayed on top of it.
+*/
+export class KartPrediction {
+  private predictedSteps: Array<PredictedStep> = [];
+  // The offset from the simulated position that the kart is shown at whilst a correction is smoothed away
+  public readonly correctionOffset = new Vector3();
+
+  constructor(
+    private physics: PredictedKartPhysics,
+    private stepDuration: number,
+  ) {}
+
+  // Records the physics step that has just been run
+  public addStep(inputSequence: number, input: KartControlInput | null): void {
+    this.predictedSteps.push({ inputSequence, input, state: this.physics.getState() });
+    if (this.predictedSteps.length > maxPredictedSteps) {
+      this.predictedSteps.shift();
+    }
+  }
+
+  public getPredictedStepCount(): number {
+    return this.predictedSteps.length;
+  }
+
+  public smoothCorrection(deltaTime: number): void {
+    this.correctionOffset.multiplyScalar(Math.exp(-correctionSmoothingRate * deltaTime));
+  }
+
+  /*
+   Applies the server's acknowledgement of the kart's inputs. If the server corrected the kart, the physics continues
+   from the corrected state by replaying the inputs that the server hasn't processed yet (against the current
+   collisions), and the kart is moved to its new position gradually unless it is far from it. The previous transform is
+   updated as the steps are replayed. Returns whether the physics was corrected.
+  */
+  public reconcile(
+    inputSequence: number,
+    correction: CharacterState | null,
+    previousTransform: PhysicsTransform,
+    alpha: number,
+  ): boolean {
+    const index = this.predictedSteps.findIndex((step) => step.inputSequence === inputSequence);
+    if (index === -1) {
+      // The input is from before the kart was moved (e.g. respawned) or has already been forgotten
+      return false;
+    }
+    // The acknowledged step is kept as the starting point for later corrections
+    this.predictedSteps.splice(0, index);
+    if (correction === null) {
+      return false;
+    }
+
+    const shownPosition = new Vector3().lerpVectors(
+      previousTransform.position,
+      this.physics.position,
+      alpha,
+    );
+    const [acknowledged, ...unacknowledged] = this.predictedSteps;
+    const { rotation, kart } = correction;
+    acknowledged.state = {
+      ...acknowledged.state,
+      position: { ...correction.position },
+      quaternion:
+        kart && rotation.quaternionX !== undefined && rotation.quaternionZ !== undefined
+          ? {
+              x: rotation.quaternionX,
+              y: rotation.quaternionY,
+              z: rotation.quaternionZ,
+              w: rotation.quaternionW,
+            }
+          : acknowledged.state.quaternion,
+      velocity: kart ? { ...kart.velocity } : { x: 0, y: 0, z: 0 },
+    };
+    this.physics.setState(acknowledged.state);
+    previousTransform.position.copy(this.physics.position);
+    previousTransform.quaternion.copy(this.physics.quaternion);
+    for (const step of unacknowledged) {
+      previousTransform.position.copy(this.physics.position);
+      previousTransform.quaternion.copy(this.physics.quaternion);
+      this.physics.step(step.input, this.stepDuration);
+      step.state = this.physics.getState();
+    }
+
+    const correctedPosition = new Vector3().lerpVectors(
+      previousTransform.position,
+      this.physics.position,
+      alpha,
+    );
+    this.correctionOffset.add(shownPosition.sub(correctedPosition));
+    if (this.correctionOffset.length() > maxSmoothedCorrectionDistance) {
+      this.correctionOffset.set(0, 0, 0);
+    }
+    return true;
+  }
+
+  // Forgets the predicted steps (which can't be replayed across a move) and any correction that is being smoothed
+  public clear(): void {
+    this.predictedSteps = [];
+    this.correctionOffset.set(0, 0, 0);
+  }
+}
@@ -5,7 +5,6 @@ import { CollisionMeshState, CollisionsManager } from "../collisions/CollisionsM
 import { KeyInputManager } from "../input/KeyInputManager";
 import { VirtualJoystick } from "../input/VirtualJoystick";
 import { TimeManager } from "../time/TimeManager";
-import { characterControllerValues } from "../tweakpane/blades/characterControlsFolder";
 
 import { Character } from "./Character";
 import { SpawnConfigurationState } from "./CharacterManager";
@@ -13,6 +12,20 @@ import { AnimationState, CharacterState } from "./CharacterState";
 
 const downVector = new Vector3(0, -1, 0);
 
+export const characterControllerValues = {
+  gravity: 35.5,
+  jumpForce: 18,
+  doubleJumpForce: 17.7,
+  coyoteJump: 120,
+  airResistance: 0.5,
+  groundResistance: 0,
+  airControlModifier: 0.05,
+  groundWalkControl: 0.75,
+  groundRunControl: 1.0,
+  baseControlMultiplier: 200,
+  minimumSurfaceAngle: 0.905,
+};
+
 export type LocalControllerConfig = {
   id: number;
   character: Character;
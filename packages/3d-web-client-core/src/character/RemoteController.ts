@@ -1,21 +1,64 @@
-import { Quaternion, Vector3 } from "three";
+import {
+  defaultKartSurface,
+  KartCollisionBody,
+  kartCollisionDimensions,
+  kartSurfaceTypes,
+} from "@mml-io/3d-web-kart-physics";
+import { Matrix4, Quaternion, Vector3 } from "three";
 
 import { Character } from "./Character";
-import { AnimationState, CharacterState } from "./CharacterState";
+import { AnimationState, CharacterState, KartState } from "./CharacterState";
+import {
+  defaultSnapshotInterpolationConfig,
+  SnapshotInterpolationConfig,
+  SnapshotInterpolationStats,
+  SnapshotInterpolator,
+} from "./SnapshotInterpolator";
 
 export type RemoteControllerConfig = {
   id: number;
   character: Character;
+  interpolationConfig?: Partial<SnapshotInterpolationConfig>;
 };
 
 const tempQuaternion = new Quaternion();
+const tempVelocity = new Vector3();
+const tempMatrix = new Matrix4();
+
+// Matches the rear wheel placement used for the local kart's skid marks
+const rearWheelOffsets = [new Vector3(-0.7, 0, -0.8), new Vector3(0.7, 0, -0.8)];
+
+// Milliseconds without an update after which a kart is no longer collidable (its position is too uncertain)
+const maxCollisionUpdateAge = 1000;
 
 export class RemoteController {
   public currentAnimation: AnimationState = AnimationState.idle;
 
   public networkState: CharacterState;
 
+  private interpolationConfig: SnapshotInterpolationConfig;
+  private interpolator: SnapshotInterpolator;
+  private lastReceivedUpdate: CharacterState | null = null;
+  private lastReceivedTime: number = 0;
+  private sampledPosition = new Vector3();
+  private sampledQuaternion = new Quaternion();
+  private previousSampledPosition = new Vector3();
+  private previousSampledQuaternion = new Quaternion();
+  // Visual offset that hides the jump when a new snapshot corrects an extrapolated position
+  private correctionOffset = new Vector3();
+  private collisionBody: KartCollisionBody = {
+    position: new Vector3(),
+    quaternion: new Quaternion(),
+    velocity: new Vector3(),
+    ...kartCollisionDimensions,
+  };
+
   constructor(private config: RemoteControllerConfig) {
+    this.interpolationConfig = {
+      ...defaultSnapshotInterpolationConfig,
+      ...config.interpolationConfig,
+    };
+    this.interpolator = new SnapshotInterpolator(this.interpolationConfig);
     this.networkState = {
       id: this.config.id,
       position: {
@@ -35,21 +78,108 @@ export class RemoteController {
     if (!this.config.character) {
       return;
     }
-    this.updateFromNetwork(clientUpdate);
+    this.updateFromNetwork(clientUpdate, deltaTime);
+    if (clientUpdate.kart) {
+      this.updateKartVisuals(clientUpdate.kart, deltaTime);
+    }
     this.config.character.update(time, deltaTime);
   }
 
-  private updateFromNetwork(clientUpdate: CharacterState): void {
-    const { position, rotation, state } = clientUpdate;
-    const distanceSquared = this.config.character.position.distanceToSquared(position);
-    if (distanceSquared > 5 * 5) {
-      // More than 5m of movement in a tick - the character is likely teleporting rather than just moving quickly - snap to the new position
-      this.config.character.position.copy(position);
+  /*
+   Remote karts are rendered in the past (see SnapshotInterpolator), so colliding with the rendered kart would mean
+   colliding with where it was rather than where it is. The collision body is instead the latest received state
+   extrapolated to the present using the kart's networked velocity.
+  */
+  public getCollisionBody(now: number): KartCollisionBody | null {
+    const update = this.lastReceivedUpdate;
+    if (!update) {
+      return null;
+    }
+    const age = now - this.lastReceivedTime;
+    if (age > maxCollisionUpdateAge) {
+      return null;
+    }
+    const body = this.collisionBody;
+    body.position.set(update.position.x, update.position.y, update.position.z);
+    body.quaternion
+      .set(
+        update.rotation.quaternionX ?? 0,
+        update.rotation.quaternionY,
+        update.rotation.quaternionZ ?? 0,
+        update.rotation.quaternionW,
+      )
+      .normalize();
+    if (update.kart) {
+      body.velocity.set(update.kart.velocity.x, update.kart.velocity.y, update.kart.velocity.z);
+      const extrapolationSeconds =
+        Math.min(Math.max(age, 0), this.interpolationConfig.maxExtrapolation) / 1000;
+      body.position.addScaledVector(body.velocity, extrapolationSeconds);
     } else {
-      this.config.character.position.lerp(new Vector3(position.x, position.y, position.z), 0.15);
+      body.velocity.set(0, 0, 0);
+    }
+    return body;
+  }
+
+  // The health of the kart's snapshot buffer (null until a snapshot has been received)
+  public getInterpolationStats(now: number): SnapshotInterpolationStats | null {
+    return this.interpolator.getStats(now);
+  }
+
+  private updateKartVisuals(kart: KartState, deltaTime: number): void {
+    const velocity = tempVelocity.set(kart.velocity.x, kart.velocity.y, kart.velocity.z);
+    const speed = velocity.length();
+    // Wheels spin backwards when reversing
+    const displaySpeed = kart.reversing ? -speed : speed;
+    this.config.character.updateKartMovement(displaySpeed, kart.steering, deltaTime);
+
+    const kartMatrix = tempMatrix.compose(
+      this.config.character.position,
+      this.config.character.quaternion,
+      this.config.character.scale,
+    );
+    const wheelPositions = rearWheelOffsets.map((offset) => {
+      const wheelPosition = offset.clone().applyMatrix4(kartMatrix);
+      // Slightly above the kart's base to avoid z-fighting with the ground
+      wheelPosition.y += 0.02;
+      return wheelPosition;
+    });
+    // Surfaces added by newer clients are shown as the default surface
+    const surface = kartSurfaceTypes[kart.surface ?? 0] ?? defaultKartSurface;
+    this.config.character.updateSkidMarks(kart.skidding, wheelPositions, velocity, surface);
+    this.config.character.updateDriftSparks(kart.miniTurboTier ?? 0);
+  }
+
+  private updateFromNetwork(clientUpdate: CharacterState, deltaTime: number): void {
+    // Wall-clock time is used (rather than the TimeManager's clamped time) as snapshots are timed by their arrival
+    const now = performance.now();
+    if (clientUpdate !== this.lastReceivedUpdate) {
+      // A new packet has been received since the last frame
+      this.lastReceivedUpdate = clientUpdate;
+      this.lastReceivedTime = now;
+      const hadSample = this.interpolator.sample(
+        now,
+        0,
+        this.previousSampledPosition,
+        this.previousSampledQuaternion,
+      );
+      const continuous = this.interpolator.addSnapshot(clientUpdate, now);
+      if (hadSample && continuous) {
+        this.interpolator.sample(now, 0, this.sampledPosition, this.sampledQuaternion);
+        this.correctionOffset.add(this.previousSampledPosition.sub(this.sampledPosition));
+      } else {
+        this.correctionOffset.set(0, 0, 0);
+      }
+    }
+
+    if (this.interpolator.sample(now, deltaTime, this.sampledPosition, this.sampledQuaternion)) {
+      this.correctionOffset.multiplyScalar(
+        Math.exp(-this.interpolationConfig.correctionSmoothing * deltaTime),
+      );
+      this.config.character.position.copy(this.sampledPosition).add(this.correctionOffset);
+      this.config.character.quaternion.copy(this.sampledQuaternion);
     }
-    const rotationQuaternion = tempQuaternion.set(0, rotation.quaternionY, 0, rotation.quaternionW);
-    this.config.character.quaternion.slerp(rotationQuaternion, 0.6);
+
+    const { state } = clientUpdate;
     if (state !== this.currentAnimation) {
       this.currentAnimation = state;
       this.config.character.updateAnimation(state);
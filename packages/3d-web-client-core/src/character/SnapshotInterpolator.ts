@@ -0,0 +1,239 @@
+import { Quaternion, Vector3 } from "three";
+
+import { clamp } from "../helpers/math-helpers";
+
+import { CharacterState } from "./CharacterState";
+
+export type SnapshotInterpolationConfig = {
+  // Milliseconds that remote karts are rendered behind the latest received snapshot
+  interpolationDelay: number;
+  // Upper bound for the delay once it has been increased to cover jitter
+  maxInterpolationDelay: number;
+  // How many multiples of the measured jitter are added to the expected packet interval to produce the delay
+  jitterMultiplier: number;
+  // Milliseconds that a kart is extrapolated (dead reckoned) beyond its latest snapshot before it is held in place
+  maxExtrapolation: number;
+  // Movement between consecutive snapshots beyond this distance is treated as a teleport
+  teleportDistance: number;
+  // Rate (per second) at which visual corrections are blended out after a misprediction
+  correctionSmoothing: number;
+};
+
+export const defaultSnapshotInterpolationConfig: SnapshotInterpolationConfig = {
+  interpolationDelay: 100,
+  maxInterpolationDelay: 300,
+  jitterMultiplier: 2,
+  maxExtrapolation: 250,
+  teleportDistance: 20,
+  correctionSmoothing: 10,
+};
+
+export type SnapshotInterpolationStats = {
+  // Milliseconds that the kart is currently rendered behind its latest snapshot's timestamp
+  delay: number;
+  // Measured variation in milliseconds of the time between snapshots arriving
+  jitter: number;
+  // Milliseconds of snapshots buffered ahead of the render time (negative if the kart is being extrapolated)
+  bufferedTime: number;
+};
+
+type Snapshot = {
+  time: number;
+  position: Vector3;
+  quaternion: Quaternion;
+  // Only available if the sender included a kart payload
+  velocity: Vector3 | null;
+};
+
+const maxSnapshots = 32;
+// Weight of each new sample in the smoothed packet interval and jitter estimates
+const estimateSmoothing = 0.1;
+// How strongly snapshot timestamps follow their (jittery) arrival time rather than the expected arrival time
+const timestampCorrection = 0.25;
+// Snapshot timestamps are never allowed to drift further than this from their arrival time
+const maxTimestampDrift = 100;
+
+const tempVector = new Vector3();
+const tempVector2 = new Vector3();
+
+/*
+ Buffers timestamped snapshots of a remote character so that it can be rendered slightly in the past, interpolating
+ between the two snapshots either side of the render time. Packets arrive with variable spacing, so the timestamps are
+ smoothed towards the expected packet interval and the render delay grows to cover the measured jitter. When no
+ snapshot is available for the render time (e.g. a packet is late) the character is extrapolated using its velocity.
+*/
+export class SnapshotInterpolator {
+  private snapshots: Array<Snapshot> = [];
+  private lastArrivalTime: number | null = null;
+  private meanPacketInterval: number = 1000 / 30;
+  private jitter: number = 0;
+  private currentDelay: number;
+
+  constructor(private config: SnapshotInterpolationConfig = defaultSnapshotInterpolationConfig) {
+    this.currentDelay = config.interpolationDelay;
+  }
+
+  public getJitter(): number {
+    return this.jitter;
+  }
+
+  public getCurrentDelay(): number {
+    return this.currentDelay;
+  }
+
+  // Returns null if there are no snapshots
+  public getStats(now: number): SnapshotInterpolationStats | null {
+    if (this.snapshots.length === 0) {
+      return null;
+    }
+    const latest = this.snapshots[this.snapshots.length - 1];
+    return {
+      delay: this.currentDelay,
+      jitter: this.jitter,
+      bufferedTime: latest.time - (now - this.currentDelay),
+    };
+  }
+
+  public clear() {
+    this.snapshots = [];
+    this.lastArrivalTime = null;
+  }
+
+  // Returns false if the snapshot is not continuous with the previous snapshots (e.g. the character teleported)
+  public addSnapshot(state: CharacterState, arrivalTime: number): boolean {
+    const position = new Vector3(state.position.x, state.position.y, state.position.z);
+    const quaternion = new Quaternion(
+      state.rotation.quaternionX ?? 0,
+      state.rotation.quaternionY,
+      state.rotation.quaternionZ ?? 0,
+      state.rotation.quaternionW,
+    ).normalize();
+    const velocity = state.kart
+      ? new Vector3(state.kart.velocity.x, state.kart.velocity.y, state.kart.velocity.z)
+      : null;
+
+    let previous: Snapshot | undefined = this.snapshots[this.snapshots.length - 1];
+    if (previous && previous.position.distanceTo(position) > this.config.teleportDistance) {
+      // The character moved further than it could have done by driving - don't interpolate across the gap
+      this.clear();
+      previous = undefined;
+    }
+
+    let time = arrivalTime;
+    if (previous && this.lastArrivalTime !== null) {
+      const interval = arrivalTime - this.lastArrivalTime;
+      this.meanPacketInterval += (interval - this.meanPacketInterval) * estimateSmoothing;
+      this.jitter +=
+        (Math.abs(interval - this.meanPacketInterval) - this.jitter) * estimateSmoothing;
+
+      const expectedTime = previous.time + this.meanPacketInterval;
+      time = expectedTime + (arrivalTime - expectedTime) * timestampCorrection;
+      time = clamp(time, arrivalTime - maxTimestampDrift, arrivalTime + maxTimestampDrift);
+      // Snapshots must remain in order
+      time = Math.max(time, previous.time + 1);
+    }
+    this.lastArrivalTime = arrivalTime;
+
+    this.snapshots.push({ time, position, quaternion, velocity });
+    if (this.snapshots.length > maxSnapshots) {
+      this.snapshots.shift();
+    }
+    return previous !== undefined;
+  }
+
+  private updateDelay(deltaTime: number) {
+    const targetDelay = clamp(
+      this.meanPacketInterval + this.jitter * this.config.jitterMultiplier,
+      this.config.interpolationDelay,
+      this.config.maxInterpolationDelay,
+    );
+    // Change the delay gradually so that the render time doesn't jump
+    this.currentDelay += (targetDelay - this.currentDelay) * clamp(deltaTime, 0, 1);
+  }
+
+  // Returns false if there are no snapshots to sample from
+  public sample(
+    now: number,
+    deltaTime: number,
+    outPosition: Vector3,
+    outQuaternion: Quaternion,
+  ): boolean {
+    if (this.snapshots.length === 0) {
+      return false;
+    }
+    this.updateDelay(deltaTime);
+    const renderTime = now - this.currentDelay;
+
+    // Discard snapshots that are no longer needed (always keeping one before the render time)
+    while (this.snapshots.length > 2 && this.snapshots[1].time <= renderTime) {
+      this.snapshots.shift();
+    }
+
+    const from = this.snapshots[0];
+    if (renderTime <= from.time) {
+      outPosition.copy(from.position);
+      outQuaternion.copy(from.quaternion);
+      return true;
+    }
+    if (this.snapshots.length === 1) {
+      this.extrapolate(from, null, renderTime, outPosition, outQuaternion);
+      return true;
+    }
+
+    const to = this.snapshots[1];
+    if (renderTime >= to.time) {
+      // The render time is beyond the latest snapshot - the next packet is late
+      this.extrapolate(to, from, renderTime, outPosition, outQuaternion);
+      return true;
+    }
+
+    const duration = to.time - from.time;
+    const t = (renderTime - from.time) / duration;
+    this.interpolate(from, to, t, duration / 1000, outPosition);
+    outQuaternion.slerpQuaternions(from.quaternion, to.quaternion, t);
+    return true;
+  }
+
+  private interpolate(from: Snapshot, to: Snapshot, t: number, seconds: number, out: Vector3) {
+    if (from.velocity === null || to.velocity === null) {
+      out.lerpVectors(from.position, to.position, t);
+      return;
+    }
+    // Cubic Hermite interpolation uses the velocities so that the kart follows curves rather than cutting corners
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const h00 = 2 * t3 - 3 * t2 + 1;
+    const h10 = t3 - 2 * t2 + t;
+    const h01 = -2 * t3 + 3 * t2;
+    const h11 = t3 - t2;
+    out
+      .copy(from.position)
+      .multiplyScalar(h00)
+      .addScaledVector(from.velocity, h10 * seconds)
+      .addScaledVector(to.position, h01)
+      .addScaledVector(to.velocity, h11 * seconds);
+  }
+
+  private extrapolate(
+    latest: Snapshot,
+    previous: Snapshot | null,
+    renderTime: number,
+    outPosition: Vector3,
+    outQuaternion: Quaternion,
+  ) {
+    const extrapolationSeconds =
+      Math.min(renderTime - latest.time, this.config.maxExtrapolation) / 1000;
+    let velocity: Vector3 | null = latest.velocity;
+    if (velocity === null && previous !== null && latest.time > previous.time) {
+      velocity = tempVector
+        .copy(latest.position)
+        .sub(previous.position)
+        .divideScalar((latest.time - previous.time) / 1000);
+    }
+    outPosition.copy(latest.position);
+    if (velocity !== null) {
+      outPosition.add(tempVector2.copy(velocity).multiplyScalar(extrapolationSeconds));
+    }
+    outQuaternion.copy(latest.quaternion);
+  }
+}
@@ -0,0 +1,21 @@
+import { KartSurfaceType } from "@mml-io/3d-web-kart-physics";
+
+export type KartSurfaceEffects = {
+  // The colors of the trails left by the wheels
+  trailColor: number;
+  trailGlowColor: number;
+  // Whether driving across the surface leaves a trail even without skidding (e.g. dust thrown up from dirt)
+  kicksUpTrail: boolean;
+};
+
+// Surfaces that kick up a trail only do so above this speed
+export const kartSurfaceTrailSpeed = 5;
+
+export const kartSurfaceEffects: { [key in KartSurfaceType]: KartSurfaceEffects } = {
+  asphalt: { trailColor: 0xeeeeee, trailGlowColor: 0x888888, kicksUpTrail: false },
+  grass: { trailColor: 0x7cc95a, trailGlowColor: 0x3d7a2a, kicksUpTrail: true },
+  dirt: { trailColor: 0xc49a62, trailGlowColor: 0x6b4f2a, kicksUpTrail: true },
+  ice: { trailColor: 0xe8f8ff, trailGlowColor: 0x9fd8ff, kicksUpTrail: false },
+  boost: { trailColor: 0xffd24a, trailGlowColor: 0xff8a1f, kicksUpTrail: false },
+  slow: { trailColor: 0xb07cc6, trailGlowColor: 0x5b2c6f, kicksUpTrail: false },
+};
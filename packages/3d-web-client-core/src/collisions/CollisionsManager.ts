@@ -1,3 +1,11 @@
+import {
+  getKartOverlap,
+  isKartSurfaceType,
+  KartCollisionBody,
+  KartContact,
+  KartSurfaceType,
+} from "@mml-io/3d-web-kart-physics";
+import { RaceVolume } from "@mml-io/3d-web-kart-race";
 import { MElement, MMLCollisionTrigger } from "@mml-io/mml-web";
 import {
   Box3,
@@ -30,8 +38,39 @@ export type CollisionMeshState = {
   meshBVH: MeshBVH;
   debugGroup?: Group;
   trackCollisions: boolean;
+  // The surface that karts drive on (null for the default surface)
+  surface: KartSurfaceType | null;
+};
+
+export type RaceVolumeMarker =
+  | { type: "checkpoint"; index: number }
+  | { type: "finish-line" }
+  | { type: "item-box"; id: string };
+
+type RaceVolumeState = {
+  source: Group;
+  marker: RaceVolumeMarker;
+  // The bounds of the meshes within the group relative to the group
+  localBounds: Box3;
+};
+
+export type RaceTrackVolumes = {
+  checkpoints: Array<RaceVolume>;
+  startFinishLine: RaceVolume | null;
 };
 
+export type ItemBoxVolume = {
+  id: string;
+  volume: RaceVolume;
+  // The group of the MML element that declared the item box
+  source: Group;
+};
+
+const raceCheckpointAttribute = "race-checkpoint";
+const raceFinishLineAttribute = "race-finish-line";
+const itemBoxAttribute = "kart-item-box";
+const kartSurfaceAttribute = "kart-surface";
+
 export class CollisionsManager {
   private debug: boolean = false;
   private scene: Scene;
@@ -48,6 +87,9 @@ export class CollisionsManager {
   private tempSegment2 = new Line3();
 
   public collisionMeshState: Map<Group, CollisionMeshState> = new Map();
+  private raceVolumeState: Map<Group, RaceVolumeState> = new Map();
+  // Other karts (keyed by connection id) that the local kart can collide with
+  private kartBodies: Map<number, KartCollisionBody> = new Map();
   private collisionTrigger: MMLCollisionTrigger<Group>;
   private previouslyCollidingElements: null | Map<
     Group,
@@ -106,7 +148,11 @@ export class CollisionsManager {
     return [minimumDistance, minimumNormal, minimumHit, minimumPoint];
   }
 
-  private createCollisionMeshState(group: Group, trackCollisions: boolean): CollisionMeshState {
+  private createCollisionMeshState(
+    group: Group,
+    trackCollisions: boolean,
+    surface: KartSurfaceType | null,
+  ): CollisionMeshState {
     const geometries: Array<BufferGeometry> = [];
     group.updateWorldMatrix(true, false);
     const invertedRootMatrix = this.tempMatrix.copy(group.matrixWorld).invert();
@@ -160,6 +206,7 @@ export class CollisionsManager {
       meshBVH,
       matrix: group.matrixWorld.clone(),
       trackCollisions,
+      surface,
     };
     if (this.debug) {
       // Have to cast to add the boundsTree property to the geometry so that the MeshBVHHelper can find it
@@ -183,11 +230,159 @@ export class CollisionsManager {
     return meshState;
   }
 
+  private getRaceVolumeMarker(mElement: MElement): RaceVolumeMarker | null {
+    const checkpointAttribute = mElement.getAttribute(raceCheckpointAttribute);
+    if (checkpointAttribute !== null) {
+      const index = parseInt(checkpointAttribute, 10);
+      if (isNaN(index) || index < 0) {
+        console.warn(`Invalid ${raceCheckpointAttribute} value: ${checkpointAttribute}`);
+        return null;
+      }
+      return { type: "checkpoint", index };
+    }
+    if (mElement.hasAttribute(raceFinishLineAttribute)) {
+      return { type: "finish-line" };
+    }
+    const itemBoxId = mElement.getAttribute(itemBoxAttribute);
+    if (itemBoxId !== null) {
+      if (itemBoxId.length === 0) {
+        console.warn(`Item boxes require an id: ${itemBoxAttribute}="<id>"`);
+        return null;
+      }
+      return { type: "item-box", id: itemBoxId };
+    }
+    return null;
+  }
+
+  // The surface declared by the kart-surface="<type>" attribute (e.g. grass, ice or boost)
+  private getKartSurface(mElement: MElement): KartSurfaceType | null {
+    const surfaceAttribute = mElement.getAttribute(kartSurfaceAttribute);
+    if (surfaceAttribute === null) {
+      return null;
+    }
+    if (!isKartSurfaceType(surfaceAttribute)) {
+      console.warn(`Invalid ${kartSurfaceAttribute} value: ${surfaceAttribute}`);
+      return null;
+    }
+    return surfaceAttribute;
+  }
+
+  private createRaceVolumeState(group: Group, marker: RaceVolumeMarker): RaceVolumeState {
+    group.updateWorldMatrix(true, true);
+    const invertedRootMatrix = this.tempMatrix.copy(group.matrixWorld).invert();
+    const localBounds = new Box3();
+    group.traverse((child: Object3D) => {
+      const asMesh = child as Mesh;
+      if (asMesh.isMesh) {
+        if (!asMesh.geometry.boundingBox) {
+          asMesh.geometry.computeBoundingBox();
+        }
+        this.tempBox
+          .copy(asMesh.geometry.boundingBox!)
+          .applyMatrix4(this.tempMatrix2.multiplyMatrices(invertedRootMatrix, asMesh.matrixWorld));
+        localBounds.union(this.tempBox);
+      }
+    });
+    return { source: group, marker, localBounds };
+  }
+
+  private toRaceVolume(raceVolumeState: RaceVolumeState): RaceVolume {
+    const { source, localBounds } = raceVolumeState;
+    source.updateWorldMatrix(true, false);
+    const worldPosition = this.tempVector;
+    const worldScale = this.tempVector2;
+    source.matrixWorld.decompose(worldPosition, this.tempQuaternion, worldScale);
+    const center = localBounds.getCenter(this.tempVector3).applyMatrix4(source.matrixWorld);
+    const size = localBounds.getSize(new Vector3()).multiply(worldScale);
+    // Race volumes are only rotated around the vertical axis
+    const rotationY = this.tempEuler.setFromQuaternion(this.tempQuaternion, "YXZ").y;
+    return {
+      position: { x: center.x, y: center.y, z: center.z },
+      size: { x: Math.abs(size.x), y: Math.abs(size.y), z: Math.abs(size.z) },
+      rotationY,
+    };
+  }
+
+  /*
+   Returns the checkpoints (ordered by their index) and start/finish line declared by MML elements with the
+   race-checkpoint="<index>" and race-finish-line attributes.
+  */
+  public getRaceTrackVolumes(): RaceTrackVolumes {
+    const checkpoints: Array<[number, RaceVolume]> = [];
+    let startFinishLine: RaceVolume | null = null;
+    for (const raceVolumeState of this.raceVolumeState.values()) {
+      const raceVolume = this.toRaceVolume(raceVolumeState);
+      if (raceVolumeState.marker.type === "checkpoint") {
+        checkpoints.push([raceVolumeState.marker.index, raceVolume]);
+      } else if (raceVolumeState.marker.type === "finish-line") {
+        startFinishLine = raceVolume;
+      }
+    }
+    checkpoints.sort(([a], [b]) => a - b);
+    return {
+      checkpoints: checkpoints.map(([, raceVolume]) => raceVolume),
+      startFinishLine,
+    };
+  }
+
+  // Returns the item boxes declared by MML elements with the kart-item-box="<id>" attribute
+  public getItemBoxVolumes(): Array<ItemBoxVolume> {
+    const itemBoxes: Array<ItemBoxVolume> = [];
+    for (const raceVolumeState of this.raceVolumeState.values()) {
+      if (raceVolumeState.marker.type === "item-box") {
+        itemBoxes.push({
+          id: raceVolumeState.marker.id,
+          volume: this.toRaceVolume(raceVolumeState),
+          source: raceVolumeState.source,
+        });
+      }
+    }
+    return itemBoxes;
+  }
+
+  public setKartBody(id: number, body: KartCollisionBody): void {
+    this.kartBodies.set(id, body);
+  }
+
+  public removeKartBody(id: number): void {
+    this.kartBodies.delete(id);
+  }
+
+  /*
+   Overlaps shallower than the tolerance are ignored (and the tolerance is subtracted from deeper overlaps) so that small
+   disagreements between where a remote kart is reported to be and where it really is don't produce phantom hits.
+  */
+  public getKartContacts(body: KartCollisionBody, tolerance: number = 0): Array<KartContact> {
+    const contacts: Array<KartContact> = [];
+    for (const [id, otherBody] of this.kartBodies) {
+      const overlap = getKartOverlap(body, otherBody);
+      if (overlap && overlap.penetration > tolerance) {
+        contacts.push({
+          id,
+          normal: overlap.normal,
+          penetration: overlap.penetration - tolerance,
+          velocity: otherBody.velocity,
+        });
+      }
+    }
+    return contacts;
+  }
+
   public addMeshesGroup(group: Group, mElement?: MElement): void {
     if (mElement) {
+      const raceVolumeMarker = this.getRaceVolumeMarker(mElement);
+      if (raceVolumeMarker) {
+        // Race volumes and item boxes are only used to track progress and pickups - karts drive through them
+        this.raceVolumeState.set(group, this.createRaceVolumeState(group, raceVolumeMarker));
+        return;
+      }
       this.collisionTrigger.addCollider(group, mElement);
     }
-    const meshState = this.createCollisionMeshState(group, mElement !== undefined);
+    const meshState = this.createCollisionMeshState(
+      group,
+      mElement !== undefined,
+      mElement ? this.getKartSurface(mElement) : null,
+    );
     if (meshState.debugGroup) {
       this.scene.add(meshState.debugGroup);
     }
@@ -210,6 +405,9 @@ export class CollisionsManager {
   }
 
   public removeMeshesGroup(group: Group): void {
+    if (this.raceVolumeState.delete(group)) {
+      return;
+    }
     this.collisionTrigger.removeCollider(group);
     const meshState = this.collisionMeshState.get(group);
     if (meshState) {
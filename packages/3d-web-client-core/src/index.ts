@@ -1,4 +1,9 @@
-export { CameraManager } from "./camera/CameraManager";
+export {
+  CameraManager,
+  KartCameraMode,
+  defaultKartCameraMode,
+  kartCameraModes,
+} from "./camera/CameraManager";
 export { CharacterDescription, AnimationConfig } from "./character/Character";
 export {
   CharacterManager,
@@ -8,14 +13,96 @@ export {
 export * from "./character/url-position";
 export * from "./helpers/math-helpers";
 export { CharacterModelLoader } from "./character/CharacterModelLoader";
-export { CharacterState, AnimationState } from "./character/CharacterState";
+export {
+  SnapshotInterpolationConfig,
+  SnapshotInterpolationStats,
+  SnapshotInterpolator,
+  defaultSnapshotInterpolationConfig,
+} from "./character/SnapshotInterpolator";
+export { CharacterState, AnimationState, KartState } from "./character/CharacterState";
 export { Key, KeyInputManager } from "./input/KeyInputManager";
 export { VirtualJoystick } from "./input/VirtualJoystick";
+export {
+  BindableKartInputSource,
+  KartInputAction,
+  KartInputBindings,
+  KartInputSource,
+  kartInputActionLabels,
+  kartInputActions,
+} from "./input/KartInputSource";
+export { KartInputManager } from "./input/KartInputManager";
+export {
+  KeyboardKartInputSource,
+  KeyboardKartInputSourceConfig,
+  defaultKeyboardKartBindings,
+} from "./input/KeyboardKartInputSource";
+export { KeyBindingsPanel } from "./input/KeyBindingsPanel";
+export {
+  GamepadKartControl,
+  GamepadKartInputSource,
+  GamepadKartInputSourceConfig,
+  defaultGamepadDeadzone,
+  defaultGamepadKartBindings,
+  defaultGamepadResponseCurve,
+} from "./input/GamepadKartInputSource";
+export { GamepadStatusIndicator } from "./input/GamepadStatusIndicator";
+export {
+  VirtualJoystickKartControl,
+  VirtualJoystickKartInputSource,
+  defaultVirtualJoystickKartBindings,
+} from "./input/VirtualJoystickKartInputSource";
+export {
+  TouchKartControl,
+  TouchKartControls,
+  TouchKartControlsConfig,
+  defaultTouchKartBindings,
+} from "./input/TouchKartControls";
+export { ScriptedKartInputSource } from "./input/ScriptedKartInputSource";
 export { MMLCompositionScene } from "./mml/MMLCompositionScene";
 export { TweakPane } from "./tweakpane/TweakPane";
 export { Composer } from "./rendering/composer";
+export { FixedTimestep } from "./time/FixedTimestep";
 export { TimeManager } from "./time/TimeManager";
-export { CollisionsManager } from "./collisions/CollisionsManager";
+export {
+  CollisionsManager,
+  ItemBoxVolume,
+  RaceTrackVolumes,
+  RaceVolumeMarker,
+} from "./collisions/CollisionsManager";
+export {
+  RaceConfiguration,
+  RaceManager,
+  RaceManagerConfig,
+  RaceStartOptions,
+  RaceStateSnapshot,
+  RaceStateStanding,
+} from "./race/RaceManager";
+export { RaceHUD, RaceHUDState, RaceHUDResult, formatRaceTime } from "./race/RaceHUD";
+export { GhostManager, GhostManagerConfig, GhostLapProgress } from "./race/GhostManager";
+export { GhostRacer } from "./race/GhostRacer";
+export {
+  ItemConfiguration,
+  ItemEvent,
+  ItemManager,
+  ItemManagerConfig,
+  ItemStateSnapshot,
+} from "./items/ItemManager";
+export { ItemHUD, ItemHUDState } from "./items/ItemHUD";
+export { SpectatorManager, SpectatorManagerConfig } from "./spectator/SpectatorManager";
+export { SpectatorHUD, SpectatorHUDState } from "./spectator/SpectatorHUD";
+export {
+  decodeReplay,
+  encodeReplay,
+  Replay,
+  ReplayEvent,
+  ReplayInputEvent,
+  ReplayRemoveEvent,
+  ReplayStateEvent,
+  REPLAY_FORMAT_VERSION,
+} from "./replay/ReplayFormat";
+export { ReplayRecorder, ReplayRecorderConfig } from "./replay/ReplayRecorder";
+export { ReplayPlayer, ReplayPlayerConfig } from "./replay/ReplayPlayer";
+export { ReplayControls, ReplayControlsConfig } from "./replay/ReplayControls";
 export { Sun } from "./sun/Sun";
 export { GroundPlane } from "./ground-plane/GroundPlane";
 export { LoadingScreenConfig, LoadingScreen } from "./loading-screen/LoadingScreen";
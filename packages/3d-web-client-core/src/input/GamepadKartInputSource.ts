@@ -0,0 +1,210 @@
+import { EventHandlerCollection } from "./EventHandlerCollection";
+import { BindableKartInputSource, KartInputBindings } from "./KartInputSource";
+
+/*
+ A button (whose value is analog for triggers) or one direction of an axis. Indices follow the "standard" gamepad
+ mapping: https://w3c.github.io/gamepad/#remapping
+*/
+export type GamepadKartControl =
+  | { type: "button"; index: number }
+  | { type: "axis"; index: number; direction: 1 | -1 };
+
+export const defaultGamepadKartBindings: KartInputBindings<GamepadKartControl> = {
+  // Right trigger or A
+  accelerate: [
+    { type: "button", index: 7 },
+    { type: "button", index: 0 },
+  ],
+  // Left trigger or B
+  brake: [
+    { type: "button", index: 6 },
+    { type: "button", index: 1 },
+  ],
+  // Left stick or d-pad
+  steerLeft: [
+    { type: "axis", index: 0, direction: -1 },
+    { type: "button", index: 14 },
+  ],
+  steerRight: [
+    { type: "axis", index: 0, direction: 1 },
+    { type: "button", index: 15 },
+  ],
+  // Right shoulder
+  drift: [{ type: "button", index: 5 }],
+  // Left shoulder or X
+  useItem: [
+    { type: "button", index: 4 },
+    { type: "button", index: 2 },
+  ],
+  // View / back
+  respawn: [{ type: "button", index: 8 }],
+  // Right stick click
+  lookBack: [{ type: "button", index: 11 }],
+  // Y
+  cycleCamera: [{ type: "button", index: 3 }],
+  // Menu
+  toggleCamera: [{ type: "button", index: 9 }],
+};
+
+const buttonLabels = [
+  "A",
+  "B",
+  "X",
+  "Y",
+  "LB",
+  "RB",
+  "LT",
+  "RT",
+  "View",
+  "Menu",
+  "LS",
+  "RS",
+  "D-pad up",
+  "D-pad down",
+  "D-pad left",
+  "D-pad right",
+  "Home",
+];
+
+export type GamepadKartInputSourceConfig = {
+  bindings?: Partial<KartInputBindings<GamepadKartControl>>;
+  // Stick values up to this (between 0 and 1) are ignored so that sticks that don't quite center don't move the kart
+  deadzone?: number;
+  // The exponent applied to stick values beyond the deadzone - values above 1 give finer control near the center
+  responseCurve?: number;
+  // Set to false to disable vibration
+  rumble?: boolean;
+};
+
+export const defaultGamepadDeadzone = 0.15;
+export const defaultGamepadResponseCurve = 1.5;
+
+type GamepadConnectionListener = (gamepads: Array<Gamepad>) => void;
+
+/*
+ Reads the connected gamepads. Gamepads are polled (rather than sending events), so the latest state is read whenever
+ an action's value is requested. Gamepads can be connected and disconnected at any time.
+*/
+export class GamepadKartInputSource extends BindableKartInputSource<GamepadKartControl> {
+  private eventHandlerCollection = new EventHandlerCollection();
+  private connectionListeners = new Set<GamepadConnectionListener>();
+  // The end time and strength of the current vibration, so that weaker vibrations don't interrupt it
+  private rumbleEndTime = 0;
+  private rumbleIntensity = 0;
+
+  constructor(private config: GamepadKartInputSourceConfig = {}) {
+    super(defaultGamepadKartBindings, config.bindings);
+    if (typeof window !== "undefined") {
+      this.eventHandlerCollection.add(window, "gamepadconnected", () =>
+        this.handleConnectionChange(),
+      );
+      this.eventHandlerCollection.add(window, "gamepaddisconnected", () =>
+        this.handleConnectionChange(),
+      );
+    }
+  }
+
+  public updateConfig(config: Partial<Omit<GamepadKartInputSourceConfig, "bindings">>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  public getGamepads(): Array<Gamepad> {
+    if (typeof navigator === "undefined" || !navigator.getGamepads) {
+      return [];
+    }
+    return navigator.getGamepads().filter((gamepad): gamepad is Gamepad => gamepad !== null);
+  }
+
+  // The listener is called with the connected gamepads whenever one is connected or disconnected
+  public addConnectionListener(listener: GamepadConnectionListener) {
+    this.connectionListeners.add(listener);
+  }
+
+  public removeConnectionListener(listener: GamepadConnectionListener) {
+    this.connectionListeners.delete(listener);
+  }
+
+  private handleConnectionChange() {
+    const gamepads = this.getGamepads();
+    for (const listener of this.connectionListeners) {
+      listener(gamepads);
+    }
+  }
+
+  // Applies the deadzone and response curve to a stick value between 0 and 1
+  private shapeAxisValue(value: number): number {
+    const deadzone = this.config.deadzone ?? defaultGamepadDeadzone;
+    if (value <= deadzone) {
+      return 0;
+    }
+    // Rescaled so that the value still starts from 0 at the edge of the deadzone
+    const rescaled = Math.min((value - deadzone) / (1 - deadzone), 1);
+    return Math.pow(rescaled, this.config.responseCurve ?? defaultGamepadResponseCurve);
+  }
+
+  protected isSameControl(a: GamepadKartControl, b: GamepadKartControl): boolean {
+    if (a.type === "axis" && b.type === "axis") {
+      return a.index === b.index && a.direction === b.direction;
+    }
+    return a.type === b.type && a.index === b.index;
+  }
+
+  protected getControlValue(control: GamepadKartControl): number {
+    let value = 0;
+    for (const gamepad of this.getGamepads()) {
+      if (control.type === "button") {
+        value = Math.max(value, gamepad.buttons[control.index]?.value ?? 0);
+      } else {
+        const axisValue = (gamepad.axes[control.index] ?? 0) * control.direction;
+        value = Math.max(value, this.shapeAxisValue(axisValue));
+      }
+    }
+    return value;
+  }
+
+  public getControlLabel(control: GamepadKartControl): string {
+    if (control.type === "button") {
+      return buttonLabels[control.index] ?? `Button ${control.index}`;
+    }
+    const stick = control.index < 2 ? "Left stick" : control.index < 4 ? "Right stick" : "Axis";
+    const horizontal = control.index % 2 === 0;
+    const direction = horizontal
+      ? control.direction < 0
+        ? "left"
+        : "right"
+      : control.direction < 0
+        ? "up"
+        : "down";
+    return `${stick} ${direction}`;
+  }
+
+  // Vibrates the connected gamepads with an intensity between 0 and 1 for duration milliseconds
+  public rumble(intensity: number, duration: number) {
+    if (this.config.rumble === false) {
+      return;
+    }
+    const now = performance.now();
+    if (now < this.rumbleEndTime && intensity <= this.rumbleIntensity) {
+      return;
+    }
+    this.rumbleEndTime = now + duration;
+    this.rumbleIntensity = intensity;
+    for (const gamepad of this.getGamepads()) {
+      // Not every browser or gamepad supports vibration
+      gamepad.vibrationActuator
+        ?.playEffect("dual-rumble", {
+          duration,
+          strongMagnitude: Math.min(intensity, 1),
+          weakMagnitude: Math.min(intensity, 1),
+        })
+        .catch(() => {
+          // Vibration is a nice-to-have - ignore failures
+        });
+    }
+  }
+
+  public dispose() {
+    this.eventHandlerCollection.clear();
+    this.connectionListeners.clear();
+  }
+}
@@ -0,0 +1,51 @@
+import { GamepadKartInputSource } from "./GamepadKartInputSource";
+
+// Shows whether a gamepad is connected (and hides when none are)
+export class GamepadStatusIndicator {
+  public readonly element: HTMLDivElement;
+
+  private connectionListener = (gamepads: Array<Gamepad>) => {
+    this.update(gamepads);
+  };
+
+  constructor(
+    private holderElement: HTMLElement,
+    private gamepadInputSource: GamepadKartInputSource,
+  ) {
+    this.element = document.createElement("div");
+    this.element.className = "gamepad-status";
+    this.element.style.position = "absolute";
+    this.element.style.bottom = "52px";
+    this.element.style.right = "8px";
+    this.element.style.zIndex = "102";
+    this.element.style.backgroundColor = "rgba(0, 0, 0, 0.7)";
+    this.element.style.color = "#ffffff";
+    this.element.style.borderRadius = "8px";
+    this.element.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+    this.element.style.padding = "6px 8px";
+    this.element.style.fontSize = "12px";
+    this.element.style.fontFamily = "Helvetica, sans-serif";
+    this.element.style.userSelect = "none";
+    this.element.style.pointerEvents = "none";
+    this.holderElement.append(this.element);
+
+    this.gamepadInputSource.addConnectionListener(this.connectionListener);
+    this.update(this.gamepadInputSource.getGamepads());
+  }
+
+  private update(gamepads: Array<Gamepad>) {
+    if (gamepads.length === 0) {
+      this.element.style.display = "none";
+      return;
+    }
+    this.element.style.display = "block";
+    this.element.textContent =
+      gamepads.length === 1 ? "Controller connected" : `${gamepads.length} controllers connected`;
+    this.element.title = gamepads.map((gamepad) => gamepad.id).join("\n");
+  }
+
+  public dispose() {
+    this.gamepadInputSource.removeConnectionListener(this.connectionListener);
+    this.element.remove();
+  }
+}
@@ -0,0 +1,113 @@
+import { KartControlInput } from "@mml-io/3d-web-kart-physics";
+
+import { KartInputAction, KartInputSource, kartInputActions } from "./KartInputSource";
+
+// Analog values at or above this count as pressing a digital action (e.g. a half-pulled trigger bound to drift)
+const digitalActionThreshold = 0.5;
+
+type KartInputActionListener = () => void;
+
+/*
+ Combines the input from every source (keyboard, touch, gamepads, scripts etc.) into the kart's controls. Each action
+ takes the strongest value from any source, so that e.g. holding a key and lightly pressing a stick doesn't add up to
+ more than full input.
+*/
+export class KartInputManager {
+  private sources: Array<KartInputSource> = [];
+  private actionListeners = new Map<KartInputAction, Set<KartInputActionListener>>();
+  private pressedActions = new Set<KartInputAction>();
+
+  constructor(sources: Array<KartInputSource> = []) {
+    for (const source of sources) {
+      this.addSource(source);
+    }
+  }
+
+  public addSource(source: KartInputSource) {
+    if (!this.sources.includes(source)) {
+      this.sources.push(source);
+    }
+  }
+
+  public removeSource(source: KartInputSource) {
+    this.sources = this.sources.filter((existing) => existing !== source);
+  }
+
+  public getSources(): ReadonlyArray<KartInputSource> {
+    return this.sources;
+  }
+
+  public getActionValue(action: KartInputAction): number {
+    let value = 0;
+    for (const source of this.sources) {
+      value = Math.max(value, source.getActionValue(action));
+    }
+    return value;
+  }
+
+  // Returns the label of the first source that has a control bound to the action
+  public getActionLabel(action: KartInputAction): string | null {
+    for (const source of this.sources) {
+      const label = source.getActionLabel?.(action);
+      if (label) {
+        return label;
+      }
+    }
+    return null;
+  }
+
+  // Whether the action is held down (from any source) - for actions that last as long as they are held
+  public isActionPressed(action: KartInputAction): boolean {
+    return this.getActionValue(action) >= digitalActionThreshold;
+  }
+
+  // The listener is called whenever the action is pressed (from any source)
+  public addActionListener(action: KartInputAction, listener: KartInputActionListener) {
+    let listeners = this.actionListeners.get(action);
+    if (!listeners) {
+      listeners = new Set();
+      this.actionListeners.set(action, listeners);
+    }
+    listeners.add(listener);
+  }
+
+  public removeActionListener(action: KartInputAction, listener: KartInputActionListener) {
+    this.actionListeners.get(action)?.delete(listener);
+  }
+
+  // Calls the listeners of actions that have been pressed since the last update (sources are polled once per frame)
+  public update() {
+    for (const action of kartInputActions) {
+      const pressed = this.getActionValue(action) >= digitalActionThreshold;
+      if (pressed && !this.pressedActions.has(action)) {
+        this.pressedActions.add(action);
+        for (const listener of this.actionListeners.get(action) ?? []) {
+          listener();
+        }
+      } else if (!pressed) {
+        this.pressedActions.delete(action);
+      }
+    }
+  }
+
+  // Returns null when there is no input so that the kart coasts
+  public getInput(): KartControlInput | null {
+    const throttle = this.getActionValue("accelerate") - this.getActionValue("brake");
+    // Positive steering turns left relative to the direction the kart is facing
+    const steering = this.getActionValue("steerLeft") - this.getActionValue("steerRight");
+    const drift = this.getActionValue("drift") >= digitalActionThreshold;
+    if (throttle === 0 && steering === 0 && !drift) {
+      return null;
+    }
+    return { throttle, steering, drift };
+  }
+
+  public dispose() {
+    for (const source of this.sources) {
+      source.dispose?.();
+    }
+    this.sources = [];
+    this.actionListeners.clear();
+    this.pressedActions.clear();
+  }
+}
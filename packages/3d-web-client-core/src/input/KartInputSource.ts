@@ -0,0 +1,142 @@
+/*
+ The actions that input sources can drive. Opposing driving actions (e.g. accelerate and brake) are combined into axes
+ and the others are triggered when they are pressed.
+*/
+export type KartInputAction =
+  | "accelerate"
+  | "brake"
+  | "steerLeft"
+  | "steerRight"
+  | "drift"
+  | "useItem"
+  | "respawn"
+  | "lookBack"
+  | "cycleCamera"
+  | "toggleCamera";
+
+export const kartInputActions: ReadonlyArray<KartInputAction> = [
+  "accelerate",
+  "brake",
+  "steerLeft",
+  "steerRight",
+  "drift",
+  "useItem",
+  "respawn",
+  "lookBack",
+  "cycleCamera",
+  "toggleCamera",
+];
+
+export const kartInputActionLabels: Record<KartInputAction, string> = {
+  accelerate: "Throttle",
+  brake: "Brake / reverse",
+  steerLeft: "Steer left",
+  steerRight: "Steer right",
+  drift: "Drift",
+  useItem: "Use item",
+  respawn: "Respawn",
+  lookBack: "Look back",
+  cycleCamera: "Change camera",
+  toggleCamera: "Fly camera",
+};
+
+// Maps each action to the controls (keys, buttons, axes etc.) of a source that trigger it
+export type KartInputBindings<TControl> = Record<KartInputAction, Array<TControl>>;
+
+export interface KartInputSource {
+  // Returns how strongly (between 0 and 1) the action is being requested
+  getActionValue(action: KartInputAction): number;
+  // A short name for the control that triggers the action (e.g. "E" or "RT") to show in hints
+  getActionLabel?(action: KartInputAction): string | null;
+  dispose?(): void;
+}
+
+function cloneBindings<TControl>(
+  bindings: KartInputBindings<TControl>,
+): KartInputBindings<TControl> {
+  const cloned = {} as KartInputBindings<TControl>;
+  for (const action of kartInputActions) {
+    cloned[action] = [...bindings[action]];
+  }
+  return cloned;
+}
+
+/*
+ An input source whose controls can be rebound whilst running. An action's value is the strongest value of the
+ controls bound to it, so digital controls (e.g. keys) report 0 or 1 and analog controls (e.g. sticks) anything between.
+*/
+export abstract class BindableKartInputSource<TControl> implements KartInputSource {
+  private bindings: KartInputBindings<TControl>;
+
+  protected constructor(
+    private defaultBindings: KartInputBindings<TControl>,
+    bindings?: Partial<KartInputBindings<TControl>>,
+  ) {
+    this.bindings = cloneBindings({ ...defaultBindings, ...bindings });
+  }
+
+  protected abstract getControlValue(control: TControl): number;
+
+  public abstract getControlLabel(control: TControl): string;
+
+  protected isSameControl(a: TControl, b: TControl): boolean {
+    return a === b;
+  }
+
+  // Called whenever the bindings are changed (e.g. to store them)
+  protected onBindingsChanged(): void {}
+
+  public getActionValue(action: KartInputAction): number {
+    let value = 0;
+    for (const control of this.bindings[action]) {
+      value = Math.max(value, this.getControlValue(control));
+    }
+    return Math.min(value, 1);
+  }
+
+  public getActionLabel(action: KartInputAction): string | null {
+    const control = this.bindings[action][0];
+    return control !== undefined ? this.getControlLabel(control) : null;
+  }
+
+  public getBindings(): KartInputBindings<TControl> {
+    return cloneBindings(this.bindings);
+  }
+
+  public getActionBindings(action: KartInputAction): Array<TControl> {
+    return [...this.bindings[action]];
+  }
+
+  public getDefaultBindings(): KartInputBindings<TControl> {
+    return cloneBindings(this.defaultBindings);
+  }
+
+  // Replaces the controls bound to the action
+  public setActionBindings(action: KartInputAction, controls: Array<TControl>) {
+    this.bindings[action] = [...controls];
+    this.onBindingsChanged();
+  }
+
+  // Returns the other actions that the control is bound to
+  public getConflictingActions(action: KartInputAction, control: TControl): Array<KartInputAction> {
+    return kartInputActions.filter(
+      (otherAction) =>
+        otherAction !== action &&
+        this.bindings[otherAction].some((bound) => this.isSameControl(bound, control)),
+    );
+  }
+
+  // Returns whether any control is bound to more than one action
+  public hasConflicts(): boolean {
+    return kartInputActions.some((action) =>
+      this.bindings[action].some(
+        (control) => this.getConflictingActions(action, control).length > 0,
+      ),
+    );
+  }
+
+  public resetBindings() {
+    this.bindings = cloneBindings(this.defaultBindings);
+    this.onBindingsChanged();
+  }
+}
@@ -0,0 +1,244 @@
+import { KartInputAction, kartInputActionLabels, kartInputActions } from "./KartInputSource";
+import { KeyboardKartInputSource } from "./KeyboardKartInputSource";
+
+// Each action can be bound to this many keys
+const slotsPerAction = 2;
+
+type CapturingSlot = { action: KartInputAction; slot: number };
+
+/*
+ A settings panel for rebinding the keyboard controls. Clicking one of an action's slots waits for the next key press;
+ a key that is already bound to another action is moved rather than bound twice. Escape cancels and Backspace or Delete
+ clears the slot.
+*/
+export class KeyBindingsPanel {
+  public readonly element: HTMLDivElement;
+  public readonly toggleButton: HTMLButtonElement;
+
+  private keyDownListener = this.onKeyDown.bind(this);
+  private keyUpListener = this.onKeyUp.bind(this);
+  private rows: HTMLDivElement;
+  private noticeText: HTMLDivElement;
+  private capturing: CapturingSlot | null = null;
+  // The key that set a binding - its key up is swallowed so that it doesn't also trigger the action
+  private swallowKeyUp: string | null = null;
+
+  constructor(
+    private holderElement: HTMLElement,
+    private keyboardInputSource: KeyboardKartInputSource,
+  ) {
+    this.toggleButton = this.createButton("Controls", () => this.toggle());
+    this.toggleButton.className = "key-bindings-toggle";
+    this.toggleButton.style.position = "absolute";
+    this.toggleButton.style.bottom = "14px";
+    this.toggleButton.style.right = "8px";
+    this.toggleButton.style.zIndex = "102";
+    this.toggleButton.style.backgroundColor = "rgba(0, 0, 0, 0.7)";
+    this.toggleButton.style.borderRadius = "8px";
+    this.toggleButton.style.padding = "6px 8px";
+    this.holderElement.append(this.toggleButton);
+
+    this.element = document.createElement("div");
+    this.element.className = "key-bindings-panel";
+    this.element.style.position = "absolute";
+    this.element.style.top = "50%";
+    this.element.style.left = "50%";
+    this.element.style.transform = "translate(-50%, -50%)";
+    this.element.style.width = "min(420px, 90%)";
+    this.element.style.maxHeight = "80%";
+    this.element.style.overflowY = "auto";
+    this.element.style.padding = "12px 16px";
+    this.element.style.backgroundColor = "rgba(0, 0, 0, 0.85)";
+    this.element.style.borderRadius = "8px";
+    this.element.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+    this.element.style.color = "#ffffff";
+    this.element.style.fontFamily = "Helvetica, sans-serif";
+    this.element.style.fontSize = "13px";
+    this.element.style.zIndex = "103";
+    this.element.style.display = "none";
+
+    const title = document.createElement("div");
+    title.textContent = "Keyboard controls";
+    title.style.fontSize = "16px";
+    title.style.fontWeight = "bold";
+    title.style.marginBottom = "8px";
+    this.element.append(title);
+
+    this.rows = document.createElement("div");
+    this.element.append(this.rows);
+
+    this.noticeText = document.createElement("div");
+    this.noticeText.style.minHeight = "16px";
+    this.noticeText.style.margin = "8px 0";
+    this.noticeText.style.color = "#ffcc66";
+    this.element.append(this.noticeText);
+
+    const footer = document.createElement("div");
+    footer.style.display = "flex";
+    footer.style.justifyContent = "space-between";
+    footer.append(
+      this.createButton("Reset to defaults", () => {
+        this.keyboardInputSource.resetBindings();
+        this.capturing = null;
+        this.noticeText.textContent = "";
+        this.render();
+      }),
+    );
+    footer.append(this.createButton("Close", () => this.hide()));
+    this.element.append(footer);
+
+    this.holderElement.append(this.element);
+
+    // Registered on the window in the capture phase so that key presses are handled before the game sees them
+    window.addEventListener("keydown", this.keyDownListener, true);
+    window.addEventListener("keyup", this.keyUpListener, true);
+  }
+
+  public isOpen(): boolean {
+    return this.element.style.display !== "none";
+  }
+
+  public show() {
+    this.element.style.display = "block";
+    this.noticeText.textContent = "";
+    this.render();
+  }
+
+  public hide() {
+    this.element.style.display = "none";
+    this.capturing = null;
+  }
+
+  public toggle() {
+    if (this.isOpen()) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.style.cursor = "pointer";
+    button.style.color = "#ffffff";
+    button.style.backgroundColor = "rgba(255, 255, 255, 0.15)";
+    button.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+    button.style.borderRadius = "4px";
+    button.style.padding = "4px 8px";
+    button.style.fontFamily = "Helvetica, sans-serif";
+    button.style.fontSize = "12px";
+    button.addEventListener("click", (event: MouseEvent) => {
+      // Keeps the focus on the page so that the controls keep working once the panel is closed
+      button.blur();
+      event.stopPropagation();
+      onClick();
+    });
+    return button;
+  }
+
+  private render() {
+    this.rows.replaceChildren();
+    for (const action of kartInputActions) {
+      const keys = this.keyboardInputSource.getActionBindings(action);
+      const row = document.createElement("div");
+      row.style.display = "flex";
+      row.style.alignItems = "center";
+      row.style.gap = "6px";
+      row.style.padding = "3px 0";
+
+      const label = document.createElement("div");
+      label.textContent = kartInputActionLabels[action];
+      label.style.flexGrow = "1";
+      row.append(label);
+
+      for (let slot = 0; slot < slotsPerAction; slot++) {
+        const isCapturing = this.capturing?.action === action && this.capturing.slot === slot;
+        const key = keys[slot];
+        const text = isCapturing
+          ? "Press a key"
+          : key !== undefined
+            ? this.keyboardInputSource.getControlLabel(key)
+            : "-";
+        const button = this.createButton(text, () => {
+          this.capturing = { action, slot };
+          this.noticeText.textContent = "";
+          this.render();
+        });
+        button.style.width = "96px";
+        if (isCapturing) {
+          button.style.backgroundColor = "rgba(79, 180, 255, 0.4)";
+        } else if (
+          key !== undefined &&
+          this.keyboardInputSource.getConflictingActions(action, key).length > 0
+        ) {
+          // Only possible with bindings from configuration - rebinding moves keys instead
+          button.style.borderColor = "#ff6666";
+          button.title = "Also bound to another action";
+        }
+        row.append(button);
+      }
+      this.rows.append(row);
+    }
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    if (!this.capturing) {
+      return;
+    }
+    event.preventDefault();
+    event.stopImmediatePropagation();
+    const { action, slot } = this.capturing;
+    this.capturing = null;
+    const key = event.key.toLowerCase();
+    this.swallowKeyUp = key;
+
+    const keys = this.keyboardInputSource.getActionBindings(action);
+    if (key === "escape") {
+      this.render();
+      return;
+    }
+    if (key === "backspace" || key === "delete") {
+      keys.splice(slot, 1);
+      this.keyboardInputSource.setActionBindings(action, keys);
+      this.render();
+      return;
+    }
+
+    const conflictingActions = this.keyboardInputSource.getConflictingActions(action, key);
+    for (const conflictingAction of conflictingActions) {
+      this.keyboardInputSource.setActionBindings(
+        conflictingAction,
+        this.keyboardInputSource
+          .getActionBindings(conflictingAction)
+          .filter((boundKey) => boundKey !== key),
+      );
+    }
+    const otherKeys = keys.filter((boundKey, index) => index !== slot && boundKey !== key);
+    otherKeys.splice(Math.min(slot, otherKeys.length), 0, key);
+    this.keyboardInputSource.setActionBindings(action, otherKeys);
+
+    const keyLabel = this.keyboardInputSource.getControlLabel(key);
+    this.noticeText.textContent =
+      conflictingActions.length > 0
+        ? `${keyLabel} was unbound from ${conflictingActions
+            .map((conflictingAction) => kartInputActionLabels[conflictingAction])
+            .join(", ")}`
+        : "";
+    this.render();
+  }
+
+  private onKeyUp(event: KeyboardEvent) {
+    if (this.swallowKeyUp !== null && event.key.toLowerCase() === this.swallowKeyUp) {
+      this.swallowKeyUp = null;
+      event.stopImmediatePropagation();
+    }
+  }
+
+  public dispose() {
+    window.removeEventListener("keydown", this.keyDownListener, true);
+    window.removeEventListener("keyup", this.keyUpListener, true);
+    this.toggleButton.remove();
+    this.element.remove();
+  }
+}
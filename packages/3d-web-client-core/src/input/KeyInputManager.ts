@@ -9,6 +9,8 @@ export enum Key {
   SHIFT = "shift",
   SPACE = " ",
   C = "c",
+  E = "e",
+  R = "r",
 }
 
 type KeyCallback = () => void;
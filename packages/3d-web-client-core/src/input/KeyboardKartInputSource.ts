@@ -0,0 +1,109 @@
+import { BindableKartInputSource, KartInputBindings, kartInputActions } from "./KartInputSource";
+import { Key, KeyInputManager } from "./KeyInputManager";
+
+// Keys are identified by their lower-cased KeyboardEvent.key value (e.g. "w" or "arrowup")
+export const defaultKeyboardKartBindings: KartInputBindings<string> = {
+  accelerate: [Key.W, "arrowup"],
+  brake: [Key.S, "arrowdown"],
+  steerLeft: [Key.A, "arrowleft"],
+  steerRight: [Key.D, "arrowright"],
+  drift: [Key.SPACE],
+  useItem: [Key.E],
+  respawn: [Key.R],
+  lookBack: ["q"],
+  cycleCamera: ["v"],
+  toggleCamera: [Key.C],
+};
+
+export type KeyboardKartInputSourceConfig = {
+  // Overrides the default bindings (stored bindings take precedence)
+  bindings?: Partial<KartInputBindings<string>>;
+  // The localStorage key that rebound keys are stored under (null to not store them)
+  storageKey?: string | null;
+};
+
+const defaultStorageKey = "kartKeyBindings";
+
+const keyLabels: { [key: string]: string } = {
+  " ": "Space",
+  arrowup: "Up",
+  arrowdown: "Down",
+  arrowleft: "Left",
+  arrowright: "Right",
+};
+
+// Returns the valid bindings from stored data, ignoring unknown actions and malformed values
+function parseStoredBindings(stored: unknown): Partial<KartInputBindings<string>> {
+  if (typeof stored !== "object" || stored === null) {
+    throw new Error("Stored key bindings must be an object");
+  }
+  const bindings: Partial<KartInputBindings<string>> = {};
+  for (const action of kartInputActions) {
+    const keys = (stored as { [action: string]: unknown })[action];
+    if (Array.isArray(keys) && keys.every((key) => typeof key === "string")) {
+      bindings[action] = keys.map((key: string) => key.toLowerCase());
+    }
+  }
+  return bindings;
+}
+
+function getStorageKey(config: KeyboardKartInputSourceConfig): string | null {
+  return config.storageKey === undefined ? defaultStorageKey : config.storageKey;
+}
+
+function loadBindings(storageKey: string | null): Partial<KartInputBindings<string>> {
+  if (storageKey === null) {
+    return {};
+  }
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored !== null ? parseStoredBindings(JSON.parse(stored)) : {};
+  } catch (error) {
+    console.warn("Unable to load the stored key bindings", error);
+    return {};
+  }
+}
+
+export class KeyboardKartInputSource extends BindableKartInputSource<string> {
+  constructor(
+    private keyInputManager: KeyInputManager,
+    private config: KeyboardKartInputSourceConfig = {},
+  ) {
+    super(
+      { ...defaultKeyboardKartBindings, ...config.bindings },
+      loadBindings(getStorageKey(config)),
+    );
+  }
+
+  protected onBindingsChanged() {
+    const storageKey = getStorageKey(this.config);
+    if (storageKey === null) {
+      return;
+    }
+    try {
+      const bindings = JSON.stringify(this.getBindings());
+      if (bindings === JSON.stringify(this.getDefaultBindings())) {
+        // Nothing is stored for the defaults so that players pick up any changes to them
+        localStorage.removeItem(storageKey);
+      } else {
+        localStorage.setItem(storageKey, bindings);
+      }
+    } catch (error) {
+      console.warn("Unable to store the key bindings", error);
+    }
+  }
+
+  protected getControlValue(key: string): number {
+    return this.keyInputManager.isKeyPressed(key.toLowerCase()) ? 1 : 0;
+  }
+
+  public getControlLabel(key: string): string {
+    const lowerCaseKey = key.toLowerCase();
+    if (keyLabels[lowerCaseKey]) {
+      return keyLabels[lowerCaseKey];
+    }
+    return lowerCaseKey.length === 1
+      ? lowerCaseKey.toUpperCase()
+      : lowerCaseKey.charAt(0).toUpperCase() + lowerCaseKey.slice(1);
+  }
+}
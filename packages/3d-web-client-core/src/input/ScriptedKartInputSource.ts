@@ -0,0 +1,27 @@
+import { KartInputAction, KartInputSource } from "./KartInputSource";
+
+/*
+ Input that is set from code rather than by a device, e.g. for tutorials, automated tests or bots. The values persist
+ until they are changed or cleared.
+*/
+export class ScriptedKartInputSource implements KartInputSource {
+  private values = new Map<KartInputAction, number>();
+
+  public setActionValue(action: KartInputAction, value: number) {
+    this.values.set(action, Math.max(0, Math.min(1, value)));
+  }
+
+  public setActionValues(values: Partial<Record<KartInputAction, number>>) {
+    for (const [action, value] of Object.entries(values)) {
+      this.setActionValue(action as KartInputAction, value);
+    }
+  }
+
+  public clear() {
+    this.values.clear();
+  }
+
+  public getActionValue(action: KartInputAction): number {
+    return this.values.get(action) ?? 0;
+  }
+}
@@ -0,0 +1,325 @@
+import { EventHandlerCollection } from "./EventHandlerCollection";
+import { BindableKartInputSource, KartInputBindings } from "./KartInputSource";
+import { VirtualJoystick } from "./VirtualJoystick";
+
+// The on-screen controls (or tilting the device) that can be bound to kart actions
+export type TouchKartControl =
+  | "steerLeft"
+  | "steerRight"
+  | "accelerate"
+  | "brake"
+  | "drift"
+  | "item";
+
+export const defaultTouchKartBindings: KartInputBindings<TouchKartControl> = {
+  accelerate: ["accelerate"],
+  brake: ["brake"],
+  steerLeft: ["steerLeft"],
+  steerRight: ["steerRight"],
+  drift: ["drift"],
+  useItem: ["item"],
+  respawn: [],
+  lookBack: [],
+  cycleCamera: [],
+  toggleCamera: [],
+};
+
+const controlLabels: Record<TouchKartControl, string> = {
+  steerLeft: "Steer left",
+  steerRight: "Steer right",
+  accelerate: "Accelerate",
+  brake: "Brake",
+  drift: "Drift",
+  item: "Item",
+};
+
+export type TouchKartControlsConfig = {
+  bindings?: Partial<KartInputBindings<TouchKartControl>>;
+  // Steer by dragging a slider (the default) or by tilting the device
+  steeringMode?: "slider" | "tilt";
+  // Degrees of tilt that give full steering (defaults to 30)
+  maximumTiltAngle?: number;
+  // Puts the pedals and buttons on the left and the steering on the right
+  leftHanded?: boolean;
+  // Show the controls on devices without touch screens (e.g. for testing)
+  mouseSupport?: boolean;
+};
+
+type ButtonControl = Exclude<TouchKartControl, "steerLeft" | "steerRight">;
+
+const defaultMaximumTiltAngle = 30;
+const sliderWidth = 220;
+const sliderHeight = 70;
+const knobSize = 60;
+
+// iOS only sends orientation events after permission is requested in response to a user gesture
+type DeviceOrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<"granted" | "denied">;
+};
+
+/*
+ A mobile racing layout: a steering slider (or tilt steering) on one side, and accelerate and brake pedals with drift and
+ item buttons on the other. Steering is analog - its value is how far the slider is dragged or the device is tilted.
+*/
+export class TouchKartControls extends BindableKartInputSource<TouchKartControl> {
+  public readonly element: HTMLDivElement;
+
+  private eventHandlerCollection = new EventHandlerCollection();
+  private steeringArea: HTMLDivElement;
+  private sliderTrack: HTMLDivElement;
+  private sliderKnob: HTMLDivElement;
+  private buttonArea: HTMLDivElement;
+  private pedalRow: HTMLDivElement;
+  private buttonRow: HTMLDivElement;
+  private buttons = new Map<ButtonControl, HTMLDivElement>();
+
+  // Steering between -1 (full left) and 1 (full right)
+  private sliderSteering = 0;
+  private tiltSteering = 0;
+  private sliderPointerId: number | null = null;
+  private buttonPointers = new Map<number, ButtonControl>();
+  private orientationPermissionRequested = false;
+
+  constructor(
+    private holderElement: HTMLElement,
+    private config: TouchKartControlsConfig = {},
+  ) {
+    super(defaultTouchKartBindings, config.bindings);
+
+    this.element = document.createElement("div");
+    this.element.className = "touch-kart-controls";
+    const style = this.element.style;
+    style.position = "absolute";
+    style.width = "100%";
+    style.bottom = "20px";
+    style.zIndex = "10000";
+    style.alignItems = "flex-end";
+    style.justifyContent = "space-between";
+    style.pointerEvents = "none";
+    style.padding = "20px";
+    style.boxSizing = "border-box";
+    style.userSelect = "none";
+
+    this.steeringArea = document.createElement("div");
+    this.sliderTrack = document.createElement("div");
+    this.sliderTrack.style.position = "relative";
+    this.sliderTrack.style.width = `${sliderWidth}px`;
+    this.sliderTrack.style.height = `${sliderHeight}px`;
+    this.sliderTrack.style.borderRadius = `${sliderHeight / 2}px`;
+    this.sliderTrack.style.border = "2px solid rgba(200,200,200,0.5)";
+    this.sliderTrack.style.backgroundColor = "rgba(0,0,0,0.2)";
+    this.sliderTrack.style.pointerEvents = "auto";
+    this.sliderTrack.style.touchAction = "none";
+    this.sliderKnob = document.createElement("div");
+    this.sliderKnob.style.position = "absolute";
+    this.sliderKnob.style.top = `${(sliderHeight - knobSize) / 2}px`;
+    this.sliderKnob.style.width = `${knobSize}px`;
+    this.sliderKnob.style.height = `${knobSize}px`;
+    this.sliderKnob.style.borderRadius = "50%";
+    this.sliderKnob.style.backgroundColor = "rgba(200,200,200,0.4)";
+    this.sliderKnob.style.border = "1px solid rgba(200,200,200,0.8)";
+    this.sliderKnob.style.pointerEvents = "none";
+    this.sliderTrack.append(this.sliderKnob);
+    this.steeringArea.append(this.sliderTrack);
+    this.element.append(this.steeringArea);
+
+    this.buttonArea = document.createElement("div");
+    this.buttonArea.style.display = "flex";
+    this.buttonArea.style.flexDirection = "column";
+    this.buttonArea.style.gap = "12px";
+    this.buttonRow = document.createElement("div");
+    this.buttonRow.style.display = "flex";
+    this.buttonRow.style.gap = "12px";
+    this.buttonRow.append(this.createButton("item", "ITEM", 70, 70));
+    this.buttonRow.append(this.createButton("drift", "DRIFT", 90, 70));
+    this.pedalRow = document.createElement("div");
+    this.pedalRow.style.display = "flex";
+    this.pedalRow.style.alignItems = "flex-end";
+    this.pedalRow.style.gap = "12px";
+    this.pedalRow.append(this.createButton("brake", "BRAKE", 70, 90));
+    this.pedalRow.append(this.createButton("accelerate", "GO", 90, 130));
+    this.buttonArea.append(this.buttonRow);
+    this.buttonArea.append(this.pedalRow);
+    this.element.append(this.buttonArea);
+
+    this.holderElement.append(this.element);
+
+    this.sliderTrack.addEventListener("pointerdown", this.onSliderPointerDown.bind(this));
+    this.eventHandlerCollection.add(document, "pointermove", this.onPointerMove.bind(this));
+    this.eventHandlerCollection.add(document, "pointerup", this.onPointerUp.bind(this));
+    this.eventHandlerCollection.add(document, "pointercancel", this.onPointerUp.bind(this));
+    this.eventHandlerCollection.add(
+      window,
+      "deviceorientation",
+      this.onDeviceOrientation.bind(this),
+    );
+
+    this.applyConfig();
+  }
+
+  public updateConfig(config: Partial<Omit<TouchKartControlsConfig, "bindings">>) {
+    this.config = { ...this.config, ...config };
+    this.applyConfig();
+  }
+
+  private applyConfig() {
+    const visible = VirtualJoystick.checkForTouch() || this.config.mouseSupport === true;
+    this.element.style.display = visible ? "flex" : "none";
+    // Mirrored so that the pedals stay under the thumb of the player's dominant hand
+    const direction = this.config.leftHanded ? "row-reverse" : "row";
+    this.element.style.flexDirection = direction;
+    this.pedalRow.style.flexDirection = direction;
+    this.buttonRow.style.flexDirection = direction;
+    this.sliderTrack.style.display = this.config.steeringMode === "tilt" ? "none" : "block";
+    this.sliderSteering = 0;
+    this.sliderPointerId = null;
+    this.updateKnob();
+  }
+
+  private createButton(
+    control: ButtonControl,
+    text: string,
+    width: number,
+    height: number,
+  ): HTMLDivElement {
+    const button = document.createElement("div");
+    button.textContent = text;
+    const style = button.style;
+    style.width = `${width}px`;
+    style.height = `${height}px`;
+    style.display = "flex";
+    style.alignItems = "center";
+    style.justifyContent = "center";
+    style.borderRadius = "16px";
+    style.fontFamily = "Helvetica, sans-serif";
+    style.fontSize = "14px";
+    style.fontWeight = "bold";
+    style.color = "rgba(220,220,220,1)";
+    style.backgroundColor = "rgba(200,200,200,0.3)";
+    style.border = "1px solid rgba(200,200,200,0.8)";
+    style.pointerEvents = "auto";
+    style.touchAction = "none";
+    style.userSelect = "none";
+    button.addEventListener("pointerdown", (event: PointerEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      this.requestOrientationPermission();
+      this.buttonPointers.set(event.pointerId, control);
+      this.updateButtonStyles();
+    });
+    button.addEventListener("contextmenu", (event: Event) => event.preventDefault());
+    this.buttons.set(control, button);
+    return button;
+  }
+
+  private updateButtonStyles() {
+    const pressed = new Set(this.buttonPointers.values());
+    for (const [control, button] of this.buttons) {
+      button.style.backgroundColor = pressed.has(control)
+        ? "rgba(200,200,200,0.6)"
+        : "rgba(200,200,200,0.3)";
+    }
+  }
+
+  private requestOrientationPermission() {
+    if (this.config.steeringMode !== "tilt" || this.orientationPermissionRequested) {
+      return;
+    }
+    this.orientationPermissionRequested = true;
+    const orientationEvent = window.DeviceOrientationEvent as
+      | DeviceOrientationEventWithPermission
+      | undefined;
+    orientationEvent?.requestPermission?.().catch((error) => {
+      console.warn("Unable to use tilt steering", error);
+    });
+  }
+
+  private onSliderPointerDown(event: PointerEvent) {
+    event.preventDefault();
+    event.stopPropagation();
+    if (this.sliderPointerId === null) {
+      this.sliderPointerId = event.pointerId;
+      this.updateSlider(event);
+    }
+  }
+
+  private onPointerMove(event: PointerEvent) {
+    if (event.pointerId === this.sliderPointerId) {
+      event.preventDefault();
+      this.updateSlider(event);
+    }
+  }
+
+  private onPointerUp(event: PointerEvent) {
+    if (event.pointerId === this.sliderPointerId) {
+      // The slider springs back to the center
+      this.sliderPointerId = null;
+      this.sliderSteering = 0;
+      this.updateKnob();
+    }
+    if (this.buttonPointers.delete(event.pointerId)) {
+      this.updateButtonStyles();
+    }
+  }
+
+  private updateSlider(event: PointerEvent) {
+    const rect = this.sliderTrack.getBoundingClientRect();
+    const travel = (rect.width - knobSize) / 2;
+    const offset = event.clientX - (rect.left + rect.width / 2);
+    this.sliderSteering = Math.max(-1, Math.min(1, offset / travel));
+    this.updateKnob();
+  }
+
+  private updateKnob() {
+    const travel = (sliderWidth - knobSize) / 2;
+    this.sliderKnob.style.left = `${travel + this.sliderSteering * travel}px`;
+  }
+
+  private onDeviceOrientation(event: DeviceOrientationEvent) {
+    if (event.beta === null || event.gamma === null) {
+      return;
+    }
+    // Which way is "sideways" depends on how the device is being held
+    const angle =
+      typeof screen !== "undefined" && screen.orientation ? screen.orientation.angle : 0;
+    let tilt: number;
+    if (angle === 90) {
+      tilt = event.beta;
+    } else if (angle === 270 || angle === -90) {
+      tilt = -event.beta;
+    } else {
+      tilt = event.gamma;
+    }
+    const maximumTiltAngle = this.config.maximumTiltAngle ?? defaultMaximumTiltAngle;
+    this.tiltSteering = Math.max(-1, Math.min(1, tilt / maximumTiltAngle));
+  }
+
+  private getSteering(): number {
+    return this.config.steeringMode === "tilt" ? this.tiltSteering : this.sliderSteering;
+  }
+
+  protected getControlValue(control: TouchKartControl): number {
+    switch (control) {
+      case "steerLeft":
+        return Math.max(0, -this.getSteering());
+      case "steerRight":
+        return Math.max(0, this.getSteering());
+      default:
+        for (const pressedControl of this.buttonPointers.values()) {
+          if (pressedControl === control) {
+            return 1;
+          }
+        }
+        return 0;
+    }
+  }
+
+  public getControlLabel(control: TouchKartControl): string {
+    return controlLabels[control];
+  }
+
+  public dispose() {
+    this.eventHandlerCollection.clear();
+    this.element.remove();
+  }
+}
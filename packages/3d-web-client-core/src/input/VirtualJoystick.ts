@@ -17,6 +17,8 @@ export class VirtualJoystick {
   private joystickCenterElement: HTMLSpanElement;
   private joystickPointerId: number | null = null;
   private joystickOutput: { direction: number; isSprinting: boolean } | null = null;
+  // The stick's offset from its center (-1 to 1 on each axis, with positive y being down)
+  private stickPosition: { x: number; y: number } | null = null;
 
   private jumpButton: HTMLButtonElement;
   private jumpPointerId: number | null = null;
@@ -197,6 +199,7 @@ export class VirtualJoystick {
 
   private clearJoystickState = (): void => {
     this.joystickOutput = null;
+    this.stickPosition = null;
     this.joystickCenterElement.style.left = `${this.radius - this.innerRadius}px`;
     this.joystickCenterElement.style.top = `${this.radius - this.innerRadius}px`;
   };
@@ -218,6 +221,15 @@ export class VirtualJoystick {
     const speed = distance / this.radius;
     const isSprinting = speed > sprintingThreshold;
     this.joystickOutput = { direction, isSprinting };
+    this.stickPosition = { x: constrainedX / this.radius, y: constrainedY / this.radius };
+  }
+
+  public getStickPosition(): { x: number; y: number } | null {
+    return this.stickPosition;
+  }
+
+  public isButtonPressed(): boolean {
+    return this.jumpPointerId !== null;
   }
 
   public getOutput(): { direction: number | null; isSprinting: boolean; jump: boolean } | null {
@@ -0,0 +1,59 @@
+import { BindableKartInputSource, KartInputBindings } from "./KartInputSource";
+import { VirtualJoystick } from "./VirtualJoystick";
+
+// A direction that the on-screen stick can be pushed in, or the on-screen button
+export type VirtualJoystickKartControl = "up" | "down" | "left" | "right" | "button";
+
+export const defaultVirtualJoystickKartBindings: KartInputBindings<VirtualJoystickKartControl> = {
+  accelerate: ["up"],
+  brake: ["down"],
+  steerLeft: ["left"],
+  steerRight: ["right"],
+  drift: ["button"],
+  useItem: [],
+  respawn: [],
+  lookBack: [],
+  cycleCamera: [],
+  toggleCamera: [],
+};
+
+const controlLabels: Record<VirtualJoystickKartControl, string> = {
+  up: "Stick up",
+  down: "Stick down",
+  left: "Stick left",
+  right: "Stick right",
+  button: "Button",
+};
+
+export class VirtualJoystickKartInputSource extends BindableKartInputSource<VirtualJoystickKartControl> {
+  constructor(
+    private virtualJoystick: VirtualJoystick,
+    bindings?: Partial<KartInputBindings<VirtualJoystickKartControl>>,
+  ) {
+    super(defaultVirtualJoystickKartBindings, bindings);
+  }
+
+  public getControlLabel(control: VirtualJoystickKartControl): string {
+    return controlLabels[control];
+  }
+
+  protected getControlValue(control: VirtualJoystickKartControl): number {
+    if (control === "button") {
+      return this.virtualJoystick.isButtonPressed() ? 1 : 0;
+    }
+    const stick = this.virtualJoystick.getStickPosition();
+    if (!stick) {
+      return 0;
+    }
+    switch (control) {
+      case "up":
+        return Math.max(0, -stick.y);
+      case "down":
+        return Math.max(0, stick.y);
+      case "left":
+        return Math.max(0, -stick.x);
+      case "right":
+        return Math.max(0, stick.x);
+    }
+  }
+}
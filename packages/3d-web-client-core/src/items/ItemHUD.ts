@@ -0,0 +1,101 @@
+export type ItemHUDState = {
+  // The item held by the local user
+  item: { name: string; color: number } | null;
+  // Milliseconds until the local user's shield runs out (0 without a shield)
+  shieldRemaining: number;
+  useKeyLabel: string;
+};
+
+function toCSSColor(color: number): string {
+  return `#${color.toString(16).padStart(6, "0")}`;
+}
+
+export class ItemHUD {
+  public readonly element: HTMLDivElement;
+
+  private slot: HTMLDivElement;
+  private swatch: HTMLDivElement;
+  private nameText: HTMLDivElement;
+  private hintText: HTMLDivElement;
+  private shieldText: HTMLDivElement;
+
+  constructor(private holderElement: HTMLElement) {
+    this.element = document.createElement("div");
+    this.element.className = "item-hud";
+    this.element.style.position = "absolute";
+    this.element.style.top = "14px";
+    this.element.style.left = "50%";
+    this.element.style.transform = "translateX(-50%)";
+    this.element.style.pointerEvents = "none";
+    this.element.style.zIndex = "101";
+    this.element.style.color = "#ffffff";
+    this.element.style.fontFamily = "Helvetica, sans-serif";
+    this.element.style.userSelect = "none";
+    this.element.style.textAlign = "center";
+    this.element.style.display = "none";
+
+    this.slot = document.createElement("div");
+    this.slot.style.width = "64px";
+    this.slot.style.height = "64px";
+    this.slot.style.margin = "0 auto";
+    this.slot.style.display = "flex";
+    this.slot.style.alignItems = "center";
+    this.slot.style.justifyContent = "center";
+    this.slot.style.backgroundColor = "rgba(0, 0, 0, 0.7)";
+    this.slot.style.borderRadius = "8px";
+    this.slot.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+    this.element.append(this.slot);
+
+    this.swatch = document.createElement("div");
+    this.swatch.style.width = "36px";
+    this.swatch.style.height = "36px";
+    this.swatch.style.borderRadius = "50%";
+    this.slot.append(this.swatch);
+
+    this.nameText = document.createElement("div");
+    this.nameText.style.marginTop = "4px";
+    this.nameText.style.fontSize = "14px";
+    this.nameText.style.fontWeight = "bold";
+    this.nameText.style.textShadow = "0 0 4px rgba(0, 0, 0, 0.8)";
+    this.element.append(this.nameText);
+
+    this.hintText = document.createElement("div");
+    this.hintText.style.fontSize = "11px";
+    this.hintText.style.opacity = "0.8";
+    this.hintText.style.textShadow = "0 0 4px rgba(0, 0, 0, 0.8)";
+    this.element.append(this.hintText);
+
+    this.shieldText = document.createElement("div");
+    this.shieldText.style.marginTop = "4px";
+    this.shieldText.style.fontSize = "12px";
+    this.shieldText.style.fontFamily = "monospace";
+    this.shieldText.style.textShadow = "0 0 4px rgba(0, 0, 0, 0.8)";
+    this.element.append(this.shieldText);
+
+    this.holderElement.append(this.element);
+  }
+
+  public hide() {
+    this.element.style.display = "none";
+  }
+
+  public update(state: ItemHUDState) {
+    this.element.style.display = "block";
+    if (state.item) {
+      this.swatch.style.display = "block";
+      this.swatch.style.backgroundColor = toCSSColor(state.item.color);
+      this.nameText.textContent = state.item.name;
+      this.hintText.textContent = state.useKeyLabel ? `Press ${state.useKeyLabel} to use` : "";
+    } else {
+      this.swatch.style.display = "none";
+      this.nameText.textContent = "";
+      this.hintText.textContent = "";
+    }
+    this.shieldText.textContent =
+      state.shieldRemaining > 0 ? `Shield ${Math.ceil(state.shieldRemaining / 1000)}s` : "";
+  }
+
+  public dispose() {
+    this.element.remove();
+  }
+}
@@ -0,0 +1,295 @@
+import {
+  KartItemDefinition,
+  KartItemRegistry,
+  RaceVector3,
+  defaultKartItems,
+  segmentIntersectsRaceVolume,
+} from "@mml-io/3d-web-kart-race";
+import {
+  UserNetworkingItemEvent,
+  UserNetworkingItemStateMessage,
+} from "@mml-io/3d-web-user-networking";
+import {
+  BufferGeometry,
+  CylinderGeometry,
+  Group,
+  Mesh,
+  MeshBasicMaterial,
+  SphereGeometry,
+} from "three";
+
+import { CharacterManager } from "../character/CharacterManager";
+import { CollisionsManager } from "../collisions/CollisionsManager";
+import { KartInputManager } from "../input/KartInputManager";
+
+import { ItemHUD } from "./ItemHUD";
+
+export type ItemConfiguration = {
+  // Items to register in addition to the default items - these should match the items registered on the server
+  items?: Array<KartItemDefinition>;
+  // Set to false to only register the given items
+  includeDefaultItems?: boolean;
+};
+
+// The item state received from the server, with durations relative to when it was sent
+export type ItemStateSnapshot = Omit<UserNetworkingItemStateMessage, "type">;
+
+export type ItemEvent = UserNetworkingItemEvent;
+
+export type ItemManagerConfig = {
+  holderElement: HTMLElement;
+  collisionsManager: CollisionsManager;
+  characterManager: CharacterManager;
+  kartInputManager: KartInputManager;
+  itemConfiguration?: ItemConfiguration;
+  sendItemPickup: (boxId: string, position: RaceVector3) => void;
+  sendItemUse: () => void;
+  onItemEvent?: (event: ItemEvent) => void;
+};
+
+// Milliseconds before asking to collect the same item box again (e.g. if the server rejected the request)
+const pickupRequestInterval = 1000;
+const projectileMeshRadius = 0.4;
+const shieldMeshRadius = 1.6;
+// Objects are raised so that they sit on (rather than in) the ground beneath karts
+const projectileHeight = 0.5;
+const hazardHeight = 0.03;
+
+function createItemRegistry(itemConfiguration: ItemConfiguration | undefined): KartItemRegistry {
+  const includeDefaultItems = itemConfiguration?.includeDefaultItems ?? true;
+  return new KartItemRegistry([
+    ...(includeDefaultItems ? defaultKartItems : []),
+    ...(itemConfiguration?.items ?? []),
+  ]);
+}
+
+/*
+ Shows the items that the server (which is authoritative) reports, asks the server to collect the item boxes that the
+ local kart drives through (declared in MML with the kart-item-box="<id>" attribute) and applies the effects of items
+ to the local kart.
+*/
+export class ItemManager {
+  public readonly group = new Group();
+  private registry: KartItemRegistry;
+  private hud: ItemHUD;
+  private serverState: { snapshot: ItemStateSnapshot; receivedAt: number } | null = null;
+  private entityMeshes = new Map<number, Mesh>();
+  private shieldMeshes = new Map<number, Mesh>();
+  private shieldGeometry = new SphereGeometry(shieldMeshRadius, 24, 16);
+  private shieldMaterial = new MeshBasicMaterial({
+    color: 0x3fa9ff,
+    transparent: true,
+    opacity: 0.25,
+    depthWrite: false,
+  });
+  private previousPosition: RaceVector3 | null = null;
+  private pickupRequestTimes = new Map<string, number>();
+  private useItemListener = () => {
+    this.useItem();
+  };
+
+  constructor(private config: ItemManagerConfig) {
+    this.registry = createItemRegistry(config.itemConfiguration);
+    this.hud = new ItemHUD(this.config.holderElement);
+    this.config.kartInputManager.addActionListener("useItem", this.useItemListener);
+  }
+
+  public updateItemConfiguration(itemConfiguration: ItemConfiguration | undefined) {
+    this.config.itemConfiguration = itemConfiguration;
+    this.registry = createItemRegistry(itemConfiguration);
+  }
+
+  public getRegistry(): KartItemRegistry {
+    return this.registry;
+  }
+
+  public applyServerItemState(snapshot: ItemStateSnapshot) {
+    this.serverState = { snapshot, receivedAt: Date.now() };
+  }
+
+  public applyServerItemEvent(event: ItemEvent) {
+    const localClientId = this.getLocalClientId();
+    const physics = this.config.characterManager.localController?.getPhysics();
+    if (event.id === localClientId && physics) {
+      if (event.type === "use" && event.boost) {
+        physics.applyBoost(event.boost.speed, event.boost.duration);
+      } else if (event.type === "hit") {
+        physics.spinOut(event.spinOutDuration);
+      }
+    }
+    this.config.onItemEvent?.(event);
+  }
+
+  // Clears any state received from a server (e.g. after a disconnection)
+  public clearServerState() {
+    this.serverState = null;
+    this.pickupRequestTimes.clear();
+  }
+
+  // Asks the server to use the local user's item
+  public useItem() {
+    if (this.getLocalPlayer()?.item) {
+      this.config.sendItemUse();
+    }
+  }
+
+  private getLocalClientId(): number | null {
+    const { localCharacter, localController } = this.config.characterManager;
+    if (!localCharacter || !localController) {
+      return null;
+    }
+    return localController.networkState.id;
+  }
+
+  private getLocalPlayer(): ItemStateSnapshot["players"][number] | null {
+    const localClientId = this.getLocalClientId();
+    return this.serverState?.snapshot.players.find((player) => player.id === localClientId) ?? null;
+  }
+
+  public update() {
+    if (!this.serverState) {
+      // Items are only available when the server tracks them
+      this.hud.hide();
+      this.group.visible = false;
+      return;
+    }
+    this.group.visible = true;
+    const now = Date.now();
+    const { snapshot, receivedAt } = this.serverState;
+    const snapshotAge = now - receivedAt;
+
+    const respawningItemBoxes = new Set(
+      snapshot.itemBoxes
+        .filter((itemBox) => itemBox.respawnRemaining > snapshotAge)
+        .map((itemBox) => itemBox.id),
+    );
+    this.updateItemBoxes(respawningItemBoxes, now);
+    this.updateEntities(snapshot, snapshotAge);
+    this.updateShields(snapshot, snapshotAge);
+
+    const localPlayer = this.getLocalPlayer();
+    const item = localPlayer?.item ? this.registry.get(localPlayer.item) : null;
+    this.hud.update({
+      item: localPlayer?.item
+        ? { name: item?.name ?? localPlayer.item, color: item?.color ?? 0xffffff }
+        : null,
+      shieldRemaining: Math.max(0, (localPlayer?.shieldRemaining ?? 0) - snapshotAge),
+      useKeyLabel: this.config.kartInputManager.getActionLabel("useItem") ?? "",
+    });
+  }
+
+  private updateItemBoxes(respawningItemBoxes: Set<string>, now: number) {
+    const localCharacter = this.config.characterManager.localCharacter;
+    const position = localCharacter
+      ? { x: localCharacter.position.x, y: localCharacter.position.y, z: localCharacter.position.z }
+      : null;
+    // The whole path since the last frame is checked so that fast karts can't skip over item boxes
+    const from = this.previousPosition ?? position;
+    this.previousPosition = position;
+    const canCollect = position !== null && from !== null && !this.getLocalPlayer()?.item;
+
+    for (const itemBox of this.config.collisionsManager.getItemBoxVolumes()) {
+      const respawning = respawningItemBoxes.has(itemBox.id);
+      itemBox.source.visible = !respawning;
+      if (!canCollect || respawning) {
+        continue;
+      }
+      const lastRequestTime = this.pickupRequestTimes.get(itemBox.id);
+      if (lastRequestTime !== undefined && now - lastRequestTime < pickupRequestInterval) {
+        continue;
+      }
+      if (segmentIntersectsRaceVolume(itemBox.volume, from, position)) {
+        this.pickupRequestTimes.set(itemBox.id, now);
+        this.config.sendItemPickup(itemBox.id, itemBox.volume.position);
+      }
+    }
+  }
+
+  private createEntityMesh(itemId: string): Mesh {
+    const item = this.registry.get(itemId);
+    const material = new MeshBasicMaterial({ color: item?.color ?? 0xffffff });
+    let geometry: BufferGeometry;
+    if (item?.effect.type === "hazard") {
+      geometry = new CylinderGeometry(item.effect.radius, item.effect.radius, 0.05, 24);
+    } else {
+      geometry = new SphereGeometry(projectileMeshRadius, 16, 12);
+    }
+    const mesh = new Mesh(geometry, material);
+    mesh.userData.height = item?.effect.type === "hazard" ? hazardHeight : projectileHeight;
+    this.group.add(mesh);
+    return mesh;
+  }
+
+  private disposeMesh(mesh: Mesh) {
+    mesh.removeFromParent();
+    mesh.geometry.dispose();
+    (mesh.material as MeshBasicMaterial).dispose();
+  }
+
+  private updateEntities(snapshot: ItemStateSnapshot, snapshotAge: number) {
+    const entityIds = new Set<number>();
+    for (const entity of snapshot.entities) {
+      entityIds.add(entity.id);
+      let mesh = this.entityMeshes.get(entity.id);
+      if (!mesh) {
+        mesh = this.createEntityMesh(entity.itemId);
+        this.entityMeshes.set(entity.id, mesh);
+      }
+      // Projectiles are moved on from where they were when the state was sent
+      const age = snapshotAge / 1000;
+      mesh.position.set(
+        entity.position.x + entity.velocity.x * age,
+        entity.position.y + entity.velocity.y * age + mesh.userData.height,
+        entity.position.z + entity.velocity.z * age,
+      );
+    }
+    for (const [id, mesh] of this.entityMeshes) {
+      if (!entityIds.has(id)) {
+        this.disposeMesh(mesh);
+        this.entityMeshes.delete(id);
+      }
+    }
+  }
+
+  private updateShields(snapshot: ItemStateSnapshot, snapshotAge: number) {
+    const localClientId = this.getLocalClientId();
+    const shieldedIds = new Set<number>();
+    for (const player of snapshot.players) {
+      const character =
+        player.id === localClientId
+          ? this.config.characterManager.localCharacter
+          : this.config.characterManager.remoteCharacters.get(player.id);
+      if (!character || player.shieldRemaining <= snapshotAge) {
+        continue;
+      }
+      shieldedIds.add(player.id);
+      let mesh = this.shieldMeshes.get(player.id);
+      if (!mesh) {
+        mesh = new Mesh(this.shieldGeometry, this.shieldMaterial);
+        this.shieldMeshes.set(player.id, mesh);
+        this.group.add(mesh);
+      }
+      mesh.position.copy(character.position);
+      mesh.position.y += projectileHeight;
+    }
+    for (const [id, mesh] of this.shieldMeshes) {
+      if (!shieldedIds.has(id)) {
+        mesh.removeFromParent();
+        this.shieldMeshes.delete(id);
+      }
+    }
+  }
+
+  public dispose() {
+    this.config.kartInputManager.removeActionListener("useItem", this.useItemListener);
+    for (const mesh of this.entityMeshes.values()) {
+      this.disposeMesh(mesh);
+    }
+    this.entityMeshes.clear();
+    this.shieldMeshes.clear();
+    this.shieldGeometry.dispose();
+    this.shieldMaterial.dispose();
+    this.group.removeFromParent();
+    this.hud.dispose();
+  }
+}
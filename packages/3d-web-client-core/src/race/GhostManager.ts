@@ -0,0 +1,195 @@
+import {
+  GhostLap,
+  GhostLapRecorder,
+  RaceQuaternion,
+  RaceVector3,
+  validateGhostLap,
+} from "@mml-io/3d-web-kart-race";
+import { Group, MeshBasicMaterial } from "three";
+
+import { GhostRacer } from "./GhostRacer";
+
+export type GhostManagerConfig = {
+  // Ghosts are added to this group
+  group: Group;
+  // The localStorage key that the personal-best lap is stored under (null to only keep it in memory)
+  storageKey?: string | null;
+  // Called when the local user sets a new personal-best lap (e.g. to submit it to a server)
+  onPersonalBest?: (ghost: GhostLap) => void;
+};
+
+// The local user's progress in the current race
+export type GhostLapProgress = {
+  // Whether the local user is the only participant (ghosts are only shown in time trials)
+  timeTrial: boolean;
+  racing: boolean;
+  finished: boolean;
+  lapTimes: Array<number>;
+  // Milliseconds since the start of the current lap
+  currentLapTime: number;
+  position: RaceVector3;
+  rotation: RaceQuaternion;
+};
+
+const defaultStorageKey = "ghostLap";
+// Recording only starts with the first lap if the race was joined within this many milliseconds of it starting
+const raceStartTolerance = 1000;
+
+function createGhostMaterial(color: number): MeshBasicMaterial {
+  return new MeshBasicMaterial({
+    color,
+    transparent: true,
+    opacity: 0.35,
+    depthWrite: false,
+  });
+}
+
+/*
+ Records the local user's laps, keeps their personal best and shows ghosts driving the personal best (and any laps
+ downloaded from a server) during time trials.
+*/
+export class GhostManager {
+  private recorder = new GhostLapRecorder();
+  private personalBest: GhostLap | null = null;
+  private personalBestRacer: GhostRacer | null = null;
+  private remoteRacers: Array<GhostRacer> = [];
+  private completedLaps: number | null = null;
+
+  private personalBestMaterial = createGhostMaterial(0x66e0ff);
+  private remoteMaterial = createGhostMaterial(0xff66d9);
+
+  constructor(private config: GhostManagerConfig) {
+    this.personalBest = this.loadPersonalBest();
+    this.updatePersonalBestRacer();
+  }
+
+  private getStorageKey(): string | null {
+    return this.config.storageKey === undefined ? defaultStorageKey : this.config.storageKey;
+  }
+
+  private loadPersonalBest(): GhostLap | null {
+    const storageKey = this.getStorageKey();
+    if (storageKey === null) {
+      return null;
+    }
+    try {
+      const stored = localStorage.getItem(storageKey);
+      return stored !== null ? validateGhostLap(JSON.parse(stored)) : null;
+    } catch (error) {
+      console.warn("Unable to load the stored ghost lap", error);
+      return null;
+    }
+  }
+
+  private savePersonalBest() {
+    const storageKey = this.getStorageKey();
+    if (storageKey === null) {
+      return;
+    }
+    try {
+      if (this.personalBest) {
+        localStorage.setItem(storageKey, JSON.stringify(this.personalBest));
+      } else {
+        localStorage.removeItem(storageKey);
+      }
+    } catch (error) {
+      console.warn("Unable to store the ghost lap", error);
+    }
+  }
+
+  private updatePersonalBestRacer() {
+    if (this.personalBestRacer) {
+      this.personalBestRacer.dispose();
+      this.personalBestRacer = null;
+    }
+    if (this.personalBest) {
+      this.personalBestRacer = new GhostRacer(this.personalBest, this.personalBestMaterial);
+      this.personalBestRacer.visible = false;
+      this.config.group.add(this.personalBestRacer);
+    }
+  }
+
+  public getPersonalBest(): GhostLap | null {
+    return this.personalBest;
+  }
+
+  public clearPersonalBest() {
+    this.personalBest = null;
+    this.savePersonalBest();
+    this.updatePersonalBestRacer();
+  }
+
+  // Replaces the ghosts of other players' laps (e.g. records downloaded from a server)
+  public setRemoteGhosts(ghosts: Array<GhostLap>) {
+    for (const racer of this.remoteRacers) {
+      racer.dispose();
+    }
+    this.remoteRacers = ghosts.map((ghost) => {
+      const racer = new GhostRacer(ghost, this.remoteMaterial);
+      racer.visible = false;
+      this.config.group.add(racer);
+      return racer;
+    });
+  }
+
+  public update(progress: GhostLapProgress | null) {
+    this.updateRecording(progress);
+
+    const visible = progress !== null && progress.timeTrial && !progress.finished;
+    const racers = this.personalBestRacer
+      ? [this.personalBestRacer, ...this.remoteRacers]
+      : this.remoteRacers;
+    for (const racer of racers) {
+      racer.visible = visible;
+      if (visible) {
+        racer.update(progress.racing ? progress.currentLapTime : 0);
+      }
+    }
+  }
+
+  private updateRecording(progress: GhostLapProgress | null) {
+    if (progress === null || !progress.racing) {
+      this.recorder.stop();
+      this.completedLaps = null;
+      return;
+    }
+
+    const completedLaps = progress.lapTimes.length;
+    if (this.completedLaps === null) {
+      // Laps can only be recorded from their start, so a race that was joined late is recorded from the next lap
+      if (
+        !progress.finished &&
+        completedLaps === 0 &&
+        progress.currentLapTime < raceStartTolerance
+      ) {
+        this.recorder.start();
+        this.recorder.record(0, progress.position, progress.rotation);
+      }
+    } else if (completedLaps > this.completedLaps) {
+      const lapTime = progress.lapTimes[completedLaps - 1];
+      const lap = this.recorder.finishLap(lapTime, progress.position, progress.rotation);
+      if (lap && (this.personalBest === null || lap.lapTime < this.personalBest.lapTime)) {
+        this.personalBest = lap;
+        this.savePersonalBest();
+        this.updatePersonalBestRacer();
+        this.config.onPersonalBest?.(lap);
+      }
+    }
+    this.completedLaps = completedLaps;
+    if (progress.finished) {
+      this.recorder.stop();
+      return;
+    }
+    this.recorder.record(progress.currentLapTime, progress.position, progress.rotation);
+  }
+
+  public dispose() {
+    this.personalBestRacer?.dispose();
+    for (const racer of this.remoteRacers) {
+      racer.dispose();
+    }
+    this.remoteRacers = [];
+    this.personalBestMaterial.dispose();
+    this.remoteMaterial.dispose();
+  }
+}
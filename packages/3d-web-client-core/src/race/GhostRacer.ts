@@ -0,0 +1,34 @@
+import { GhostLap, sampleGhostLap } from "@mml-io/3d-web-kart-race";
+import { Group, Material } from "three";
+
+import { KartMesh } from "../character/KartMesh";
+
+/*
+ A kart that drives a recorded lap. Ghosts are purely visual - they are never registered with the CollisionsManager, so
+ karts drive straight through them.
+*/
+export class GhostRacer extends Group {
+  private kartMesh: KartMesh;
+
+  constructor(
+    public readonly lap: GhostLap,
+    material: Material,
+  ) {
+    super();
+    this.kartMesh = new KartMesh({ material, castShadow: false });
+    this.add(this.kartMesh);
+    this.update(0);
+  }
+
+  // time is in milliseconds since the start of the lap
+  public update(time: number) {
+    const sample = sampleGhostLap(this.lap, time);
+    this.position.set(sample.position.x, sample.position.y, sample.position.z);
+    this.quaternion.set(sample.rotation.x, sample.rotation.y, sample.rotation.z, sample.rotation.w);
+  }
+
+  public dispose() {
+    this.kartMesh.dispose();
+    this.removeFromParent();
+  }
+}
@@ -0,0 +1,184 @@
+import { RacePhase } from "@mml-io/3d-web-kart-race";
+
+export type RaceHUDResult = {
+  position: number;
+  username: string;
+  totalTime: number | null;
+};
+
+export type RaceHUDState = {
+  phase: RacePhase;
+  countdownRemaining: number | null;
+  lap: number;
+  totalLaps: number;
+  currentLapTime: number;
+  bestLapTime: number | null;
+  position: number | null;
+  participantCount: number;
+  finished: boolean;
+  results: Array<RaceHUDResult>;
+};
+
+export function formatRaceTime(milliseconds: number): string {
+  const minutes = Math.floor(milliseconds / 60000);
+  const seconds = Math.floor((milliseconds % 60000) / 1000);
+  const remainder = Math.floor(milliseconds % 1000);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}.${remainder.toString().padStart(3, "0")}`;
+}
+
+export class RaceHUD {
+  public readonly element: HTMLDivElement;
+
+  private statusPanel: HTMLDivElement;
+  private lapText: HTMLDivElement;
+  private positionText: HTMLDivElement;
+  private lapTimeText: HTMLDivElement;
+  private bestLapText: HTMLDivElement;
+  private countdownText: HTMLDivElement;
+  private resultsPanel: HTMLDivElement;
+
+  private lastResultsKey: string | null = null;
+
+  constructor(private holderElement: HTMLElement) {
+    this.element = document.createElement("div");
+    this.element.className = "race-hud";
+    this.element.style.position = "absolute";
+    this.element.style.top = "0";
+    this.element.style.left = "0";
+    this.element.style.width = "100%";
+    this.element.style.height = "100%";
+    this.element.style.pointerEvents = "none";
+    this.element.style.zIndex = "101";
+    this.element.style.color = "#ffffff";
+    this.element.style.fontFamily = "Helvetica, sans-serif";
+    this.element.style.userSelect = "none";
+    this.element.style.display = "none";
+
+    this.statusPanel = document.createElement("div");
+    this.statusPanel.style.position = "absolute";
+    this.statusPanel.style.top = "14px";
+    this.statusPanel.style.right = "8px";
+    this.statusPanel.style.padding = "8px 12px";
+    this.statusPanel.style.backgroundColor = "rgba(0, 0, 0, 0.7)";
+    this.statusPanel.style.borderRadius = "8px";
+    this.statusPanel.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+    this.statusPanel.style.textAlign = "right";
+    this.element.append(this.statusPanel);
+
+    this.positionText = document.createElement("div");
+    this.positionText.style.fontSize = "28px";
+    this.positionText.style.fontWeight = "bold";
+    this.statusPanel.append(this.positionText);
+
+    this.lapText = document.createElement("div");
+    this.lapText.style.fontSize = "16px";
+    this.statusPanel.append(this.lapText);
+
+    this.lapTimeText = document.createElement("div");
+    this.lapTimeText.style.fontSize = "14px";
+    this.lapTimeText.style.fontFamily = "monospace";
+    this.statusPanel.append(this.lapTimeText);
+
+    this.bestLapText = document.createElement("div");
+    this.bestLapText.style.fontSize = "12px";
+    this.bestLapText.style.fontFamily = "monospace";
+    this.bestLapText.style.opacity = "0.8";
+    this.statusPanel.append(this.bestLapText);
+
+    this.countdownText = document.createElement("div");
+    this.countdownText.style.position = "absolute";
+    this.countdownText.style.top = "30%";
+    this.countdownText.style.width = "100%";
+    this.countdownText.style.textAlign = "center";
+    this.countdownText.style.fontSize = "96px";
+    this.countdownText.style.fontWeight = "bold";
+    this.countdownText.style.textShadow = "0 0 12px rgba(0, 0, 0, 0.8)";
+    this.element.append(this.countdownText);
+
+    this.resultsPanel = document.createElement("div");
+    this.resultsPanel.style.position = "absolute";
+    this.resultsPanel.style.top = "50%";
+    this.resultsPanel.style.left = "50%";
+    this.resultsPanel.style.transform = "translate(-50%, -50%)";
+    this.resultsPanel.style.minWidth = "240px";
+    this.resultsPanel.style.padding = "12px 16px";
+    this.resultsPanel.style.backgroundColor = "rgba(0, 0, 0, 0.7)";
+    this.resultsPanel.style.borderRadius = "8px";
+    this.resultsPanel.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+    this.resultsPanel.style.display = "none";
+    this.element.append(this.resultsPanel);
+
+    this.holderElement.append(this.element);
+  }
+
+  public hide() {
+    this.element.style.display = "none";
+  }
+
+  public update(state: RaceHUDState) {
+    if (state.phase === "idle") {
+      this.hide();
+      return;
+    }
+    this.element.style.display = "block";
+
+    if (state.phase === "countdown" && state.countdownRemaining !== null) {
+      this.countdownText.textContent = Math.ceil(state.countdownRemaining / 1000).toString();
+    } else if (state.phase === "racing" && state.lap === 0 && state.currentLapTime < 1000) {
+      this.countdownText.textContent = "GO!";
+    } else if (state.finished) {
+      this.countdownText.textContent = "FINISHED";
+    } else {
+      this.countdownText.textContent = "";
+    }
+
+    this.positionText.textContent =
+      state.position !== null ? `${state.position}/${state.participantCount}` : "";
+    this.lapText.textContent = `Lap ${Math.min(state.lap + 1, state.totalLaps)}/${state.totalLaps}`;
+    this.lapTimeText.textContent = formatRaceTime(state.currentLapTime);
+    this.bestLapText.textContent =
+      state.bestLapTime !== null ? `Best ${formatRaceTime(state.bestLapTime)}` : "";
+
+    this.updateResults(state);
+  }
+
+  private updateResults(state: RaceHUDState) {
+    if (state.phase !== "finished") {
+      this.resultsPanel.style.display = "none";
+      this.lastResultsKey = null;
+      return;
+    }
+    this.resultsPanel.style.display = "block";
+    const resultsKey = JSON.stringify(state.results);
+    if (resultsKey === this.lastResultsKey) {
+      return;
+    }
+    this.lastResultsKey = resultsKey;
+
+    this.resultsPanel.textContent = "";
+    const title = document.createElement("div");
+    title.textContent = "Results";
+    title.style.fontSize = "20px";
+    title.style.fontWeight = "bold";
+    title.style.marginBottom = "8px";
+    this.resultsPanel.append(title);
+    for (const result of state.results) {
+      const row = document.createElement("div");
+      row.style.display = "flex";
+      row.style.justifyContent = "space-between";
+      row.style.gap = "16px";
+      row.style.fontSize = "14px";
+      const name = document.createElement("span");
+      name.textContent = `${result.position}. ${result.username}`;
+      const time = document.createElement("span");
+      time.style.fontFamily = "monospace";
+      time.textContent = result.totalTime !== null ? formatRaceTime(result.totalTime) : "DNF";
+      row.append(name, time);
+      this.resultsPanel.append(row);
+    }
+  }
+
+  public dispose() {
+    this.element.remove();
+  }
+}
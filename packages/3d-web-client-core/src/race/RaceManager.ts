@@ -0,0 +1,328 @@
+import {
+  RacePhase,
+  RaceSession,
+  RaceSessionEvent,
+  RaceTrackConfig,
+} from "@mml-io/3d-web-kart-race";
+
+import { CharacterManager } from "../character/CharacterManager";
+import { CharacterState } from "../character/CharacterState";
+import { CollisionsManager } from "../collisions/CollisionsManager";
+
+import { GhostManager } from "./GhostManager";
+import { RaceHUD } from "./RaceHUD";
+
+export type RaceConfiguration = {
+  // Replaces the checkpoints and start/finish line declared in MML
+  track?: Pick<RaceTrackConfig, "checkpoints" | "startFinishLine">;
+  laps?: number;
+  countdownDuration?: number;
+  finishTimeout?: number;
+};
+
+export type RaceStartOptions = {
+  track?: RaceTrackConfig;
+  laps?: number;
+  countdownDuration?: number;
+};
+
+export type RaceStateStanding = {
+  id: number;
+  position: number;
+  lap: number;
+  lapTimes: Array<number>;
+  bestLapTime: number | null;
+  totalTime: number | null;
+};
+
+// The state of a race at the time it was created, with durations relative to that time
+export type RaceStateSnapshot = {
+  phase: RacePhase;
+  laps: number;
+  countdownRemaining: number | null;
+  elapsedTime: number;
+  standings: Array<RaceStateStanding>;
+};
+
+export type RaceManagerConfig = {
+  holderElement: HTMLElement;
+  collisionsManager: CollisionsManager;
+  characterManager: CharacterManager;
+  remoteUserStates: Map<number, CharacterState>;
+  resolveUsername: (clientId: number) => string;
+  raceConfiguration?: RaceConfiguration;
+  onRaceEvent?: (event: RaceSessionEvent) => void;
+  ghostManager?: GhostManager;
+};
+
+const defaultLaps = 3;
+
+/*
+ Displays the state of a race, which is either received from the server (which is authoritative) or, when racing
+ without a server that tracks races, from a session that is run locally.
+*/
+export class RaceManager {
+  private localSession: RaceSession | null = null;
+  private serverState: { snapshot: RaceStateSnapshot; receivedAt: number } | null = null;
+  private serverResults: Array<RaceStateStanding> | null = null;
+  private localRaceFinished = false;
+  // The latest state of the current race (null when there is no race)
+  private latestSnapshot: RaceStateSnapshot | null = null;
+  private hud: RaceHUD;
+
+  constructor(private config: RaceManagerConfig) {
+    this.hud = new RaceHUD(this.config.holderElement);
+  }
+
+  public updateRaceConfiguration(raceConfiguration: RaceConfiguration | undefined) {
+    this.config.raceConfiguration = raceConfiguration;
+  }
+
+  // Returns a racer's position in the current race (null if there is no race or they are not in it)
+  public getRacePosition(clientId: number): { position: number; participantCount: number } | null {
+    const standing = this.latestSnapshot?.standings.find((standing) => standing.id === clientId);
+    if (!this.latestSnapshot || !standing) {
+      return null;
+    }
+    return { position: standing.position, participantCount: this.latestSnapshot.standings.length };
+  }
+
+  public getLocalSession(): RaceSession | null {
+    return this.localSession;
+  }
+
+  // Whether the local player has finished the current race (until the next race starts)
+  public isLocalRaceFinished(): boolean {
+    return this.localRaceFinished;
+  }
+
+  public applyServerRaceState(snapshot: RaceStateSnapshot) {
+    // The server's state takes precedence over any local session
+    this.localSession = null;
+    this.serverState = { snapshot, receivedAt: Date.now() };
+    if (snapshot.phase === "idle" || snapshot.phase === "countdown") {
+      this.serverResults = null;
+    }
+  }
+
+  public applyServerRaceResults(results: Array<RaceStateStanding>) {
+    this.serverResults = results;
+  }
+
+  // Clears any state received from a server (e.g. after a disconnection)
+  public clearServerState() {
+    this.serverState = null;
+    this.serverResults = null;
+  }
+
+  private resolveTrack(options: RaceStartOptions): RaceTrackConfig | null {
+    if (options.track) {
+      return options.track;
+    }
+    const laps = options.laps ?? this.config.raceConfiguration?.laps ?? defaultLaps;
+    const configuredTrack = this.config.raceConfiguration?.track;
+    if (configuredTrack) {
+      return { ...configuredTrack, laps };
+    }
+    const { checkpoints, startFinishLine } = this.config.collisionsManager.getRaceTrackVolumes();
+    if (startFinishLine === null || checkpoints.length === 0) {
+      return null;
+    }
+    return { checkpoints, startFinishLine, laps };
+  }
+
+  // Starts a race that is only tracked by this client
+  public startLocalRace(options: RaceStartOptions = {}) {
+    if (this.serverState !== null) {
+      console.warn("Unable to start a local race whilst the server is tracking races");
+      return;
+    }
+    const track = this.resolveTrack(options);
+    if (track === null) {
+      console.warn("Unable to start race: no checkpoints or start/finish line have been declared");
+      return;
+    }
+    this.localSession = new RaceSession({
+      track,
+      countdownDuration:
+        options.countdownDuration ?? this.config.raceConfiguration?.countdownDuration,
+      finishTimeout: this.config.raceConfiguration?.finishTimeout,
+      onEvent: (event: RaceSessionEvent) => {
+        this.config.onRaceEvent?.(event);
+      },
+    });
+    const now = Date.now();
+    this.updateLocalParticipants(now);
+    this.localSession.startCountdown(now);
+  }
+
+  public abortLocalRace() {
+    if (this.localSession) {
+      this.localSession.abort(Date.now());
+      this.localSession = null;
+    }
+  }
+
+  private getLocalClientId(): number | null {
+    const { localCharacter, localController } = this.config.characterManager;
+    if (!localCharacter || !localController) {
+      return null;
+    }
+    return localController.networkState.id;
+  }
+
+  private updateLocalParticipants(now: number) {
+    if (!this.localSession) {
+      return;
+    }
+    const participantIds = new Set<number>(this.config.remoteUserStates.keys());
+    const localClientId = this.getLocalClientId();
+    if (localClientId !== null) {
+      participantIds.add(localClientId);
+    }
+    for (const participantId of this.localSession.getParticipantIds()) {
+      if (!participantIds.has(participantId)) {
+        this.localSession.removeParticipant(participantId, now);
+      }
+    }
+    for (const participantId of participantIds) {
+      this.localSession.addParticipant(participantId);
+    }
+  }
+
+  private updateLocalSession(now: number): RaceStateSnapshot | null {
+    if (!this.localSession) {
+      return null;
+    }
+    this.updateLocalParticipants(now);
+    this.localSession.update(now);
+
+    const localClientId = this.getLocalClientId();
+    const localCharacter = this.config.characterManager.localCharacter;
+    if (localClientId !== null && localCharacter) {
+      this.localSession.updateParticipantPosition(localClientId, localCharacter.position, now);
+    }
+    for (const [id, remoteUserState] of this.config.remoteUserStates) {
+      this.localSession.updateParticipantPosition(id, remoteUserState.position, now);
+    }
+
+    return {
+      phase: this.localSession.getPhase(),
+      laps: this.localSession.track.laps,
+      countdownRemaining: this.localSession.getCountdownRemaining(now),
+      elapsedTime: this.localSession.getElapsedTime(now),
+      standings: this.localSession.getStandings().map((standing) => ({
+        id: standing.participantId,
+        position: standing.position,
+        lap: standing.lap,
+        lapTimes: standing.lapTimes,
+        bestLapTime: standing.bestLapTime,
+        totalTime: standing.totalTime,
+      })),
+    };
+  }
+
+  public update() {
+    const now = Date.now();
+    let snapshot: RaceStateSnapshot | null;
+    let snapshotAge = 0;
+    if (this.serverState) {
+      snapshot = this.serverState.snapshot;
+      snapshotAge = now - this.serverState.receivedAt;
+    } else {
+      snapshot = this.updateLocalSession(now);
+    }
+
+    const localController = this.config.characterManager.localController;
+    this.latestSnapshot = snapshot && snapshot.phase !== "idle" ? snapshot : null;
+    if (!snapshot || snapshot.phase === "idle") {
+      this.localRaceFinished = false;
+      localController?.setControlsLocked(false);
+      this.hud.hide();
+      this.config.ghostManager?.update(null);
+      return;
+    }
+    localController?.setControlsLocked(snapshot.phase === "countdown");
+    const localStanding = this.getLocalStanding(snapshot);
+    this.localRaceFinished = localStanding !== null && localStanding.totalTime !== null;
+    this.updateHUD(snapshot, snapshotAge);
+    this.updateGhosts(snapshot, snapshotAge);
+  }
+
+  private getLocalStanding(snapshot: RaceStateSnapshot): RaceStateStanding | null {
+    const localClientId = this.getLocalClientId();
+    return snapshot.standings.find((standing) => standing.id === localClientId) ?? null;
+  }
+
+  private getCurrentLapTime(
+    snapshot: RaceStateSnapshot,
+    localStanding: RaceStateStanding | null,
+    snapshotAge: number,
+  ): number {
+    if (!localStanding) {
+      return 0;
+    }
+    if (localStanding.totalTime !== null) {
+      return localStanding.lapTimes[localStanding.lapTimes.length - 1] ?? 0;
+    }
+    if (snapshot.phase === "racing") {
+      const completedLapsTime = localStanding.lapTimes.reduce((total, time) => total + time, 0);
+      return Math.max(0, snapshot.elapsedTime + snapshotAge - completedLapsTime);
+    }
+    return 0;
+  }
+
+  private updateGhosts(snapshot: RaceStateSnapshot, snapshotAge: number) {
+    const ghostManager = this.config.ghostManager;
+    if (!ghostManager) {
+      return;
+    }
+    const localStanding = this.getLocalStanding(snapshot);
+    const localCharacter = this.config.characterManager.localCharacter;
+    if (!localStanding || !localCharacter) {
+      ghostManager.update(null);
+      return;
+    }
+    ghostManager.update({
+      timeTrial: snapshot.standings.length === 1,
+      racing: snapshot.phase === "racing",
+      finished: localStanding.totalTime !== null,
+      lapTimes: localStanding.lapTimes,
+      currentLapTime: this.getCurrentLapTime(snapshot, localStanding, snapshotAge),
+      position: localCharacter.position,
+      rotation: localCharacter.quaternion,
+    });
+  }
+
+  private updateHUD(snapshot: RaceStateSnapshot, snapshotAge: number) {
+    const localStanding = this.getLocalStanding(snapshot);
+    const finished = localStanding !== null && localStanding.totalTime !== null;
+    const currentLapTime = this.getCurrentLapTime(snapshot, localStanding, snapshotAge);
+
+    const results = this.serverResults ?? snapshot.standings;
+    this.hud.update({
+      phase: snapshot.phase,
+      countdownRemaining:
+        snapshot.countdownRemaining !== null
+          ? Math.max(0, snapshot.countdownRemaining - snapshotAge)
+          : null,
+      lap: localStanding?.lap ?? 0,
+      totalLaps: snapshot.laps,
+      currentLapTime,
+      bestLapTime: localStanding?.bestLapTime ?? null,
+      position: localStanding?.position ?? null,
+      participantCount: snapshot.standings.length,
+      finished,
+      results: results.map((standing) => ({
+        position: standing.position,
+        username: this.config.resolveUsername(standing.id),
+        totalTime: standing.totalTime,
+      })),
+    });
+  }
+
+  public dispose() {
+    this.localSession = null;
+    this.hud.dispose();
+  }
+}
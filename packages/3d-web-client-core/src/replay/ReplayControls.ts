@@ -0,0 +1,125 @@
+import { formatRaceTime } from "../race/RaceHUD";
+
+import { ReplayPlayer } from "./ReplayPlayer";
+
+export type ReplayControlsConfig = {
+  holderElement: HTMLElement;
+  player: ReplayPlayer;
+  onClose: () => void;
+};
+
+const playbackSpeeds = [0.25, 0.5, 1, 2, 4];
+
+export class ReplayControls {
+  public readonly element: HTMLDivElement;
+
+  private playButton: HTMLButtonElement;
+  private scrubber: HTMLInputElement;
+  private timeText: HTMLSpanElement;
+  private speedSelect: HTMLSelectElement;
+  private isScrubbing: boolean = false;
+
+  constructor(private config: ReplayControlsConfig) {
+    this.element = document.createElement("div");
+    this.element.className = "replay-controls";
+    this.element.style.position = "absolute";
+    this.element.style.bottom = "14px";
+    this.element.style.left = "50%";
+    this.element.style.transform = "translateX(-50%)";
+    this.element.style.width = "min(640px, 90%)";
+    this.element.style.display = "flex";
+    this.element.style.alignItems = "center";
+    this.element.style.gap = "8px";
+    this.element.style.padding = "8px 12px";
+    this.element.style.backgroundColor = "rgba(0, 0, 0, 0.7)";
+    this.element.style.borderRadius = "8px";
+    this.element.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+    this.element.style.color = "#ffffff";
+    this.element.style.fontFamily = "Helvetica, sans-serif";
+    this.element.style.fontSize = "12px";
+    this.element.style.zIndex = "102";
+
+    this.playButton = this.createButton("", () => {
+      if (this.config.player.isPlaying()) {
+        this.config.player.pause();
+      } else {
+        this.config.player.play();
+      }
+      this.update();
+    });
+    this.playButton.style.minWidth = "56px";
+    this.element.append(this.playButton);
+
+    this.scrubber = document.createElement("input");
+    this.scrubber.type = "range";
+    this.scrubber.min = "0";
+    this.scrubber.max = this.config.player.getDuration().toString();
+    this.scrubber.step = "1";
+    this.scrubber.style.flexGrow = "1";
+    this.scrubber.addEventListener("pointerdown", () => {
+      this.isScrubbing = true;
+    });
+    this.scrubber.addEventListener("pointerup", () => {
+      this.isScrubbing = false;
+    });
+    this.scrubber.addEventListener("input", () => {
+      this.config.player.seek(parseFloat(this.scrubber.value));
+      this.updateTimeText();
+    });
+    this.element.append(this.scrubber);
+
+    this.timeText = document.createElement("span");
+    this.timeText.style.fontFamily = "monospace";
+    this.timeText.style.whiteSpace = "nowrap";
+    this.element.append(this.timeText);
+
+    this.speedSelect = document.createElement("select");
+    for (const speed of playbackSpeeds) {
+      const option = document.createElement("option");
+      option.value = speed.toString();
+      option.textContent = `${speed}x`;
+      this.speedSelect.append(option);
+    }
+    this.speedSelect.value = this.config.player.getSpeed().toString();
+    this.speedSelect.addEventListener("change", () => {
+      this.config.player.setSpeed(parseFloat(this.speedSelect.value));
+    });
+    this.element.append(this.speedSelect);
+
+    this.element.append(this.createButton("Close", () => this.config.onClose()));
+
+    this.update();
+    this.config.holderElement.append(this.element);
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.style.cursor = "pointer";
+    button.style.color = "#ffffff";
+    button.style.backgroundColor = "rgba(255, 255, 255, 0.15)";
+    button.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+    button.style.borderRadius = "4px";
+    button.style.padding = "4px 8px";
+    button.addEventListener("click", onClick);
+    return button;
+  }
+
+  private updateTimeText() {
+    const player = this.config.player;
+    this.timeText.textContent = `${formatRaceTime(player.getTime())} / ${formatRaceTime(player.getDuration())}`;
+  }
+
+  public update() {
+    const player = this.config.player;
+    this.playButton.textContent = player.isPlaying() ? "Pause" : "Play";
+    if (!this.isScrubbing) {
+      this.scrubber.value = player.getTime().toString();
+    }
+    this.updateTimeText();
+  }
+
+  public dispose() {
+    this.element.remove();
+  }
+}
@@ -0,0 +1,197 @@
+import { KartControlInput } from "@mml-io/3d-web-kart-physics";
+import { UserNetworkingCodec } from "@mml-io/3d-web-user-networking";
+
+import { CharacterState } from "../character/CharacterState";
+
+export type ReplayStateEvent = { type: "state"; time: number; state: CharacterState };
+export type ReplayRemoveEvent = { type: "remove"; time: number; id: number };
+// An input applied to the local kart for a single physics step (null if no controls were pressed)
+export type ReplayInputEvent = {
+  type: "input";
+  time: number;
+  tick: number;
+  input: KartControlInput | null;
+};
+
+export type ReplayEvent = ReplayStateEvent | ReplayRemoveEvent | ReplayInputEvent;
+
+export type Replay = {
+  // The id of the user that made the recording (their states are recorded alongside the remote users)
+  localId: number | null;
+  // Wall-clock time (milliseconds since the epoch) that the recording started
+  startTime: number;
+  // Milliseconds
+  duration: number;
+  physicsTickRate: number;
+  // Ordered by time - event times are milliseconds since the start of the recording
+  events: Array<ReplayEvent>;
+};
+
+/*
+ Replays are stored as a short header followed by a flat list of timestamped records. Character states are stored
+ using the same encoding that is used to send them over the network, so the format follows the codec (including the
+ kart payload) rather than duplicating it.
+
+ Header: magic (4 bytes) | version (uint8) | physics tick rate (uint8) | local id (uint16, 0xffff for none) |
+         start time (float64) | duration (uint32)
+ Record: type (uint8) | time (uint32) | payload
+
+ Inputs are stored with the same precision as the kart payload's steering and throttle (1/127).
+*/
+export const REPLAY_FORMAT_VERSION = 1;
+
+const replayMagic = [0x4b, 0x52, 0x50, 0x4c]; // "KRPL"
+const headerLength = 20;
+const noLocalId = 0xffff;
+
+const stateRecordType = 0;
+const removeRecordType = 1;
+const inputRecordType = 2;
+
+const inputFlagActive = 1 << 0;
+const inputFlagDrift = 1 << 1;
+
+function clampInt8(value: number): number {
+  return Math.max(-127, Math.min(127, Math.round(value)));
+}
+
+function toUint32(value: number): number {
+  return Math.max(0, Math.min(0xffffffff, Math.round(value)));
+}
+
+function checkRecordLength(bytes: Uint8Array, offset: number, recordLength: number) {
+  if (offset + recordLength > bytes.byteLength) {
+    throw new Error("Replay is truncated");
+  }
+}
+
+export function encodeReplay(replay: Replay): Uint8Array {
+  const encodedStates = new Map<ReplayStateEvent, Uint8Array>();
+  let length = headerLength;
+  for (const event of replay.events) {
+    length += 5;
+    switch (event.type) {
+      case "state": {
+        const encoded = UserNetworkingCodec.encodeUpdate(event.state);
+        encodedStates.set(event, encoded);
+        length += 1 + encoded.byteLength;
+        break;
+      }
+      case "remove":
+        length += 2;
+        break;
+      case "input":
+        length += 7;
+        break;
+    }
+  }
+
+  const bytes = new Uint8Array(length);
+  const dataView = new DataView(bytes.buffer);
+  bytes.set(replayMagic, 0);
+  dataView.setUint8(4, REPLAY_FORMAT_VERSION);
+  dataView.setUint8(5, replay.physicsTickRate);
+  dataView.setUint16(6, replay.localId ?? noLocalId);
+  dataView.setFloat64(8, replay.startTime);
+  dataView.setUint32(16, toUint32(replay.duration));
+
+  let offset = headerLength;
+  for (const event of replay.events) {
+    dataView.setUint32(offset + 1, toUint32(event.time));
+    switch (event.type) {
+      case "state": {
+        const encoded = encodedStates.get(event)!;
+        dataView.setUint8(offset, stateRecordType);
+        dataView.setUint8(offset + 5, encoded.byteLength);
+        bytes.set(encoded, offset + 6);
+        offset += 6 + encoded.byteLength;
+        break;
+      }
+      case "remove":
+        dataView.setUint8(offset, removeRecordType);
+        dataView.setUint16(offset + 5, event.id);
+        offset += 7;
+        break;
+      case "input":
+        dataView.setUint8(offset, inputRecordType);
+        dataView.setUint32(offset + 5, event.tick);
+        dataView.setInt8(offset + 9, clampInt8((event.input?.throttle ?? 0) * 127));
+        dataView.setInt8(offset + 10, clampInt8((event.input?.steering ?? 0) * 127));
+        dataView.setUint8(
+          offset + 11,
+          (event.input ? inputFlagActive : 0) | (event.input?.drift ? inputFlagDrift : 0),
+        );
+        offset += 12;
+        break;
+    }
+  }
+  return bytes;
+}
+
+export function decodeReplay(buffer: ArrayBuffer | Uint8Array): Replay {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const dataView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < headerLength || replayMagic.some((value, i) => bytes[i] !== value)) {
+    throw new Error("Not a replay file");
+  }
+  const version = dataView.getUint8(4);
+  if (version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay version: ${version}`);
+  }
+  const localId = dataView.getUint16(6);
+  const replay: Replay = {
+    physicsTickRate: dataView.getUint8(5),
+    localId: localId === noLocalId ? null : localId,
+    startTime: dataView.getFloat64(8),
+    duration: dataView.getUint32(16),
+    events: [],
+  };
+
+  let offset = headerLength;
+  while (offset < bytes.byteLength) {
+    checkRecordLength(bytes, offset, 5);
+    const type = dataView.getUint8(offset);
+    const time = dataView.getUint32(offset + 1);
+    switch (type) {
+      case stateRecordType: {
+        checkRecordLength(bytes, offset, 6);
+        const stateLength = dataView.getUint8(offset + 5);
+        const start = bytes.byteOffset + offset + 6;
+        checkRecordLength(bytes, offset, 6 + stateLength);
+        const state = UserNetworkingCodec.decodeUpdate(
+          bytes.buffer.slice(start, start + stateLength) as ArrayBuffer,
+        );
+        replay.events.push({ type: "state", time, state });
+        offset += 6 + stateLength;
+        break;
+      }
+      case removeRecordType:
+        checkRecordLength(bytes, offset, 7);
+        replay.events.push({ type: "remove", time, id: dataView.getUint16(offset + 5) });
+        offset += 7;
+        break;
+      case inputRecordType: {
+        checkRecordLength(bytes, offset, 12);
+        const flags = dataView.getUint8(offset + 11);
+        replay.events.push({
+          type: "input",
+          time,
+          tick: dataView.getUint32(offset + 5),
+          input:
+            flags & inputFlagActive
+              ? {
+                  throttle: dataView.getInt8(offset + 9) / 127,
+                  steering: dataView.getInt8(offset + 10) / 127,
+                  drift: (flags & inputFlagDrift) !== 0,
+                }
+              : null,
+        });
+        offset += 12;
+        break;
+      }
+      default:
+        throw new Error(`Unknown replay record type: ${type}`);
+    }
+  }
+  return replay;
+}
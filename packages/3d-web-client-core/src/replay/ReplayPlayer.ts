@@ -0,0 +1,100 @@
+import { CharacterState } from "../character/CharacterState";
+
+import { Replay } from "./ReplayFormat";
+
+export type ReplayPlayerConfig = {
+  onEnded?: () => void;
+};
+
+/*
+ Plays a replay back by maintaining the latest recorded state of each user at the current playback time. The states
+ map is intended to be used in place of the live remote user states so that the existing remote character handling
+ (spawning, interpolation, kart visuals) is reused for playback.
+*/
+export class ReplayPlayer {
+  public readonly states = new Map<number, CharacterState>();
+
+  private time: number = 0;
+  private speed: number = 1;
+  private playing: boolean = false;
+  private nextEventIndex: number = 0;
+
+  constructor(
+    public readonly replay: Replay,
+    private config: ReplayPlayerConfig = {},
+  ) {}
+
+  public getDuration(): number {
+    return this.replay.duration;
+  }
+
+  // Milliseconds since the start of the replay
+  public getTime(): number {
+    return this.time;
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  public isPlaying(): boolean {
+    return this.playing;
+  }
+
+  public play() {
+    if (this.time >= this.replay.duration) {
+      this.seek(0);
+    }
+    this.playing = true;
+  }
+
+  public pause() {
+    this.playing = false;
+  }
+
+  public setSpeed(speed: number) {
+    if (!(speed > 0)) {
+      throw new Error("Replay speed must be greater than 0");
+    }
+    this.speed = speed;
+  }
+
+  public seek(time: number) {
+    const targetTime = Math.max(0, Math.min(time, this.replay.duration));
+    if (targetTime < this.time) {
+      // Events can only be applied forwards, so rebuild the states from the start
+      this.states.clear();
+      this.nextEventIndex = 0;
+    }
+    this.time = targetTime;
+    this.applyEventsUntil(targetTime);
+  }
+
+  // deltaTime is in seconds
+  public update(deltaTime: number) {
+    if (!this.playing) {
+      return;
+    }
+    this.time = Math.min(this.time + deltaTime * 1000 * this.speed, this.replay.duration);
+    this.applyEventsUntil(this.time);
+    if (this.time >= this.replay.duration) {
+      this.playing = false;
+      if (this.config.onEnded) {
+        this.config.onEnded();
+      }
+    }
+  }
+
+  private applyEventsUntil(time: number) {
+    const events = this.replay.events;
+    while (this.nextEventIndex < events.length && events[this.nextEventIndex].time <= time) {
+      const event = events[this.nextEventIndex];
+      if (event.type === "state") {
+        this.states.set(event.state.id, event.state);
+      } else if (event.type === "remove") {
+        this.states.delete(event.id);
+      }
+      this.nextEventIndex++;
+    }
+  }
+}
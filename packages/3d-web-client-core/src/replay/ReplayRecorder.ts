@@ -0,0 +1,77 @@
+import { KartControlInput } from "@mml-io/3d-web-kart-physics";
+
+import { CharacterState } from "../character/CharacterState";
+
+import { encodeReplay, Replay, ReplayEvent } from "./ReplayFormat";
+
+export type ReplayRecorderConfig = {
+  localId: number | null;
+  physicsTickRate: number;
+};
+
+function cloneState(state: CharacterState): CharacterState {
+  return {
+    id: state.id,
+    position: { ...state.position },
+    rotation: { ...state.rotation },
+    state: state.state,
+    kart: state.kart ? { ...state.kart, velocity: { ...state.kart.velocity } } : undefined,
+  };
+}
+
+export class ReplayRecorder {
+  private events: Array<ReplayEvent> = [];
+  private startWallTime: number;
+  private startTime: number;
+  private lastTime: number = 0;
+
+  // Times are in milliseconds from a monotonic clock (e.g. performance.now())
+  constructor(
+    private config: ReplayRecorderConfig,
+    now: number,
+  ) {
+    this.startTime = now;
+    this.startWallTime = Date.now();
+  }
+
+  private getTime(now: number): number {
+    // Events must stay in order even if the clock is adjusted
+    this.lastTime = Math.max(this.lastTime, now - this.startTime);
+    return this.lastTime;
+  }
+
+  public recordState(state: CharacterState, now: number) {
+    this.events.push({ type: "state", time: this.getTime(now), state: cloneState(state) });
+  }
+
+  public recordRemoval(id: number, now: number) {
+    this.events.push({ type: "remove", time: this.getTime(now), id });
+  }
+
+  public recordInput(tick: number, input: KartControlInput | null, now: number) {
+    this.events.push({
+      type: "input",
+      time: this.getTime(now),
+      tick,
+      input: input ? { ...input } : null,
+    });
+  }
+
+  public getDuration(): number {
+    return this.lastTime;
+  }
+
+  public toReplay(): Replay {
+    return {
+      localId: this.config.localId,
+      startTime: this.startWallTime,
+      duration: this.lastTime,
+      physicsTickRate: this.config.physicsTickRate,
+      events: this.events.slice(),
+    };
+  }
+
+  public encode(): Uint8Array {
+    return encodeReplay(this.toReplay());
+  }
+}
@@ -0,0 +1,100 @@
+export type SpectatorHUDState = {
+  username: string;
+  // The spectated racer's position in the current race (null if they aren't racing)
+  position: number | null;
+  participantCount: number;
+};
+
+// Shows who is being spectated, with buttons to switch to the previous or next racer
+export class SpectatorHUD {
+  public readonly element: HTMLDivElement;
+
+  private usernameText: HTMLDivElement;
+  private positionText: HTMLDivElement;
+
+  constructor(
+    private holderElement: HTMLElement,
+    onPrevious: () => void,
+    onNext: () => void,
+  ) {
+    this.element = document.createElement("div");
+    this.element.className = "spectator-hud";
+    this.element.style.position = "absolute";
+    this.element.style.bottom = "14px";
+    this.element.style.left = "50%";
+    this.element.style.transform = "translateX(-50%)";
+    this.element.style.display = "flex";
+    this.element.style.alignItems = "center";
+    this.element.style.gap = "12px";
+    this.element.style.padding = "6px 8px";
+    this.element.style.backgroundColor = "rgba(0, 0, 0, 0.7)";
+    this.element.style.borderRadius = "8px";
+    this.element.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+    this.element.style.color = "#ffffff";
+    this.element.style.fontFamily = "Helvetica, sans-serif";
+    this.element.style.userSelect = "none";
+    this.element.style.zIndex = "102";
+
+    const details = document.createElement("div");
+    details.style.minWidth = "140px";
+    details.style.textAlign = "center";
+
+    const label = document.createElement("div");
+    label.textContent = "SPECTATING";
+    label.style.fontSize = "10px";
+    label.style.letterSpacing = "1px";
+    label.style.opacity = "0.7";
+    details.append(label);
+
+    this.usernameText = document.createElement("div");
+    this.usernameText.style.fontSize = "16px";
+    this.usernameText.style.fontWeight = "bold";
+    details.append(this.usernameText);
+
+    this.positionText = document.createElement("div");
+    this.positionText.style.fontSize = "12px";
+    details.append(this.positionText);
+
+    this.element.append(this.createButton("<", onPrevious));
+    this.element.append(details);
+    this.element.append(this.createButton(">", onNext));
+
+    this.holderElement.append(this.element);
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.style.cursor = "pointer";
+    button.style.color = "#ffffff";
+    button.style.backgroundColor = "rgba(255, 255, 255, 0.15)";
+    button.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+    button.style.borderRadius = "4px";
+    button.style.width = "32px";
+    button.style.height = "32px";
+    button.style.fontSize = "16px";
+    button.addEventListener("click", (event: MouseEvent) => {
+      // Keeps the focus on the page so that the controls keep working
+      button.blur();
+      event.stopPropagation();
+      onClick();
+    });
+    return button;
+  }
+
+  // Shows the spectated racer, or that there is no-one to spectate (when state is null)
+  public update(state: SpectatorHUDState | null) {
+    if (state === null) {
+      this.usernameText.textContent = "Waiting for racers";
+      this.positionText.textContent = "";
+      return;
+    }
+    this.usernameText.textContent = state.username;
+    this.positionText.textContent =
+      state.position !== null ? `Position ${state.position} / ${state.participantCount}` : "";
+  }
+
+  public dispose() {
+    this.element.remove();
+  }
+}
@@ -0,0 +1,80 @@
+import { CharacterManager } from "../character/CharacterManager";
+import { KartInputManager } from "../input/KartInputManager";
+import { RaceManager } from "../race/RaceManager";
+
+import { SpectatorHUD } from "./SpectatorHUD";
+
+export type SpectatorManagerConfig = {
+  holderElement: HTMLElement;
+  characterManager: CharacterManager;
+  kartInputManager: KartInputManager;
+  raceManager?: RaceManager;
+  resolveUsername: (clientId: number) => string;
+};
+
+/*
+ Follows remote racers with the kart camera instead of driving the local kart (if there is one). The steering controls
+ (or the on-screen buttons) switch between racers.
+*/
+export class SpectatorManager {
+  private hud: SpectatorHUD | null = null;
+  private previousListener = () => {
+    this.spectateNext(-1);
+  };
+  private nextListener = () => {
+    this.spectateNext(1);
+  };
+
+  constructor(private config: SpectatorManagerConfig) {}
+
+  public isSpectating(): boolean {
+    return this.config.characterManager.isSpectating();
+  }
+
+  public setSpectating(spectating: boolean) {
+    if (spectating === this.isSpectating()) {
+      return;
+    }
+    this.config.characterManager.setSpectating(spectating);
+    const { kartInputManager } = this.config;
+    if (spectating) {
+      this.hud = new SpectatorHUD(
+        this.config.holderElement,
+        this.previousListener,
+        this.nextListener,
+      );
+      kartInputManager.addActionListener("steerLeft", this.previousListener);
+      kartInputManager.addActionListener("steerRight", this.nextListener);
+    } else {
+      this.hud?.dispose();
+      this.hud = null;
+      kartInputManager.removeActionListener("steerLeft", this.previousListener);
+      kartInputManager.removeActionListener("steerRight", this.nextListener);
+    }
+  }
+
+  public spectateNext(direction: 1 | -1 = 1) {
+    this.config.characterManager.spectateNext(direction);
+  }
+
+  public update() {
+    if (!this.hud) {
+      return;
+    }
+    const spectatedId = this.config.characterManager.getSpectatedId();
+    if (spectatedId === null) {
+      this.hud.update(null);
+      return;
+    }
+    const racePosition = this.config.raceManager?.getRacePosition(spectatedId) ?? null;
+    this.hud.update({
+      username: this.config.resolveUsername(spectatedId),
+      position: racePosition?.position ?? null,
+      participantCount: racePosition?.participantCount ?? 0,
+    });
+  }
+
+  public dispose() {
+    this.setSpectating(false);
+  }
+}
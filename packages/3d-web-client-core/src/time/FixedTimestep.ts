@@ -0,0 +1,46 @@
+/*
+ Converts variable frame times into a whole number of fixed-duration steps. Time that doesn't add up to a full step is
+ carried over to the next frame, and the fraction of a step that remains (alpha) can be used to interpolate between
+ the last two steps when rendering.
+*/
+export class FixedTimestep {
+  // The total number of steps that have been run
+  public tick: number = 0;
+
+  private accumulator: number = 0;
+
+  constructor(
+    // Seconds per step
+    public readonly stepDuration: number = 1 / 60,
+    // Prevents a long frame (e.g. after the tab was hidden) from running an unbounded number of steps
+    private maxStepsPerUpdate: number = 8,
+  ) {
+    if (!(stepDuration > 0)) {
+      throw new Error("Fixed timestep step duration must be greater than 0");
+    }
+  }
+
+  // Adds the frame's elapsed time (in seconds) and returns the number of steps that should be run
+  public advance(deltaTime: number): number {
+    this.accumulator += Math.max(0, deltaTime);
+    let steps = Math.floor(this.accumulator / this.stepDuration);
+    if (steps > this.maxStepsPerUpdate) {
+      // Drop the time that can't be caught up on rather than falling further and further behind
+      steps = this.maxStepsPerUpdate;
+      this.accumulator = steps * this.stepDuration + (this.accumulator % this.stepDuration);
+    }
+    this.accumulator -= steps * this.stepDuration;
+    this.tick += steps;
+    return steps;
+  }
+
+  // The fraction (0 to 1) of a step that has elapsed since the last step
+  public get alpha(): number {
+    return Math.min(this.accumulator / this.stepDuration, 1);
+  }
+
+  public reset() {
+    this.accumulator = 0;
+    this.tick = 0;
+  }
+}
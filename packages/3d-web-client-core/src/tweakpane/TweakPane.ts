@@ -1,3 +1,5 @@
+import { KartPhysics, KartPhysicsConfiguration } from "@mml-io/3d-web-kart-physics";
+import { UserNetworkingClientNetworkStats } from "@mml-io/3d-web-user-networking";
 import * as EssentialsPlugin from "@tweakpane/plugin-essentials";
 import {
   BloomEffect,
@@ -11,7 +13,7 @@ import { Scene, WebGLRenderer } from "three";
 import { FolderApi, Pane } from "tweakpane";
 
 import { CameraManager } from "../camera/CameraManager";
-import { LocalController } from "../character/LocalController";
+import { SnapshotInterpolationStats } from "../character/SnapshotInterpolator";
 import { EventHandlerCollection } from "../input/EventHandlerCollection";
 import { BrightnessContrastSaturation } from "../rendering/post-effects/bright-contrast-sat";
 import { GaussGrainEffect } from "../rendering/post-effects/gauss-grain";
@@ -20,9 +22,10 @@ import { TimeManager } from "../time/TimeManager";
 
 import { BrightnessContrastSaturationFolder } from "./blades/bcsFolder";
 import { CameraFolder } from "./blades/cameraFolder";
-import { CharacterControlsFolder } from "./blades/characterControlsFolder";
 import { CharacterFolder } from "./blades/characterFolder";
 import { EnvironmentFolder } from "./blades/environmentFolder";
+import { KartPhysicsFolder } from "./blades/kartPhysicsFolder";
+import { NetworkStatsFolder } from "./blades/networkStatsFolder";
 import { PostExtrasFolder } from "./blades/postExtrasFolder";
 import { RendererFolder, rendererValues } from "./blades/rendererFolder";
 import { RendererStatsFolder } from "./blades/rendererStatsFolder";
@@ -35,6 +38,7 @@ export class TweakPane {
   private gui: Pane;
 
   private renderStatsFolder: RendererStatsFolder;
+  private networkStatsFolder: NetworkStatsFolder;
   private rendererFolder: RendererFolder;
   private toneMappingFolder: ToneMappingFolder;
   private ssaoFolder: SSAOFolder;
@@ -44,7 +48,7 @@ export class TweakPane {
   private character: CharacterFolder;
   private environment: EnvironmentFolder;
   private camera: CameraFolder;
-  private characterControls: CharacterControlsFolder;
+  private kartPhysics: KartPhysicsFolder;
 
   private export: FolderApi;
 
@@ -93,6 +97,7 @@ export class TweakPane {
     document.head.appendChild(styleElement);
 
     this.renderStatsFolder = new RendererStatsFolder(this.gui, true);
+    this.networkStatsFolder = new NetworkStatsFolder(this.gui, true);
     this.rendererFolder = new RendererFolder(this.gui, false);
     this.toneMappingFolder = new ToneMappingFolder(this.gui, false);
     this.ssaoFolder = new SSAOFolder(this.gui, false);
@@ -101,7 +106,7 @@ export class TweakPane {
     this.character = new CharacterFolder(this.gui, false);
     this.environment = new EnvironmentFolder(this.gui, false);
     this.camera = new CameraFolder(this.gui, false);
-    this.characterControls = new CharacterControlsFolder(this.gui, false);
+    this.kartPhysics = new KartPhysicsFolder(this.gui, false);
 
     this.toneMappingFolder.folder.hidden = rendererValues.toneMapping === 5 ? false : true;
 
@@ -193,20 +198,30 @@ export class TweakPane {
     this.camera.setupChangeEvent(cameraManager);
   }
 
-  public setupCharacterController(localController: LocalController) {
-    this.characterControls.setupChangeEvent(localController);
+  public setupKartPhysics(
+    physicsConfiguration: KartPhysicsConfiguration | undefined,
+    onChange: (physicsConfiguration: KartPhysicsConfiguration) => void,
+  ) {
+    this.kartPhysics.setupChangeEvent(physicsConfiguration, onChange);
   }
 
   public updateStats(timeManager: TimeManager): void {
     this.renderStatsFolder.update(this.renderer, this.composer, timeManager);
   }
 
+  public updateNetworkStats(
+    networkStats: UserNetworkingClientNetworkStats,
+    interpolationStats: Array<SnapshotInterpolationStats>,
+  ): void {
+    this.networkStatsFolder.update(networkStats, interpolationStats);
+  }
+
   public updateCameraData(cameraManager: CameraManager) {
     this.camera.update(cameraManager);
   }
 
-  public updateCharacterData(localController: LocalController) {
-    this.characterControls.update(localController);
+  public updateKartPhysicsData(physics: KartPhysics) {
+    this.kartPhysics.update(physics);
   }
 
   private formatDateForFilename(): string {
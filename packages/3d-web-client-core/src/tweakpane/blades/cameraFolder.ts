@@ -28,9 +28,36 @@ export const camOptions = {
   zoomDamping: { min: 0.0, max: 2.0, step: 0.01 },
 };
 
+// The parameters of each kart camera mode, read by the CameraManager whenever they are used
+export const kartCamValues = {
+  // Chase cameras pull back from distance (when stationary) to topSpeedDistance as the kart speeds up
+  closeChase: { distance: 4.5, topSpeedDistance: 8, height: 1.8 },
+  farChase: { distance: 6, topSpeedDistance: 12, height: 2.5 },
+  // Mounted cameras are fixed to the kart, forwardOffset in front of its center
+  hood: { forwardOffset: 0.5, height: 0.95, lookAhead: 10, fov: 75 },
+  bumper: { forwardOffset: 1.15, height: 0.4, lookAhead: 10, fov: 80 },
+  // Circles the kart (or the camera's target when there is no kart) in radians per second
+  orbit: { radius: 9, height: 3.5, speed: 0.25 },
+  // The fraction of a transition between modes that is completed per frame
+  transitionSpeed: 0.04,
+};
+
+export const kartCamOptions = {
+  distance: { min: 1, max: 20, step: 0.1 },
+  topSpeedDistance: { min: 1, max: 30, step: 0.1 },
+  height: { min: 0, max: 10, step: 0.05 },
+  forwardOffset: { min: -2, max: 2, step: 0.05 },
+  lookAhead: { min: 1, max: 50, step: 0.5 },
+  fov: { min: 50, max: 110, step: 1 },
+  radius: { min: 2, max: 40, step: 0.5 },
+  speed: { min: -2, max: 2, step: 0.01 },
+  transitionSpeed: { min: 0.005, max: 1, step: 0.005 },
+};
+
 type CamData = {
   distance: string;
   FoV: string;
+  kartMode: string;
 };
 
 export class CameraFolder {
@@ -39,12 +66,14 @@ export class CameraFolder {
   private camData: CamData = {
     distance: "0",
     FoV: "0",
+    kartMode: "",
   };
 
   constructor(parentFolder: FolderApi, expand: boolean = false) {
     this.folder = parentFolder.addFolder({ title: "camera", expanded: expand });
     this.folder.addBinding(this.camData, "distance", { readonly: true });
     this.folder.addBinding(this.camData, "FoV", { readonly: true });
+    this.folder.addBinding(this.camData, "kartMode", { readonly: true });
     this.folder.addBinding(camValues, "initialDistance", camOptions.initialDistance);
     this.folder.addBinding(camValues, "minDistance", camOptions.minDistance);
     this.folder.addBinding(camValues, "maxDistance", camOptions.maxDistance);
@@ -54,6 +83,19 @@ export class CameraFolder {
     this.folder.addBinding(camValues, "damping", camOptions.damping);
     this.folder.addBinding(camValues, "zoomScale", camOptions.zoomScale);
     this.folder.addBinding(camValues, "zoomDamping", camOptions.zoomDamping);
+
+    // The kart camera parameters are bound directly as the CameraManager reads them each frame
+    const kartFolder = this.folder.addFolder({ title: "kart camera modes", expanded: false });
+    kartFolder.addBinding(kartCamValues, "transitionSpeed", kartCamOptions.transitionSpeed);
+    for (const [mode, values] of Object.entries(kartCamValues)) {
+      if (typeof values !== "object") {
+        continue;
+      }
+      const modeFolder = kartFolder.addFolder({ title: mode, expanded: false });
+      for (const key of Object.keys(values) as Array<keyof typeof kartCamOptions>) {
+        modeFolder.addBinding(values as Record<string, number>, key, kartCamOptions[key]);
+      }
+    }
   }
 
   public setupChangeEvent(cameraManager: CameraManager): void {
@@ -129,5 +171,8 @@ export class CameraFolder {
   public update(cameraManager: CameraManager): void {
     this.camData.distance = cameraManager.distance.toFixed(2);
     this.camData.FoV = cameraManager.fov.toFixed(2);
+    this.camData.kartMode = cameraManager.isCinematic()
+      ? "orbit"
+      : cameraManager.getKartCameraMode();
   }
 }
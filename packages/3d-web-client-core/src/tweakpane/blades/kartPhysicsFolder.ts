@@ -0,0 +1,147 @@
+import {
+  defaultKartPhysicsPreset,
+  isKartPhysicsPresetName,
+  KartPhysics,
+  KartPhysicsConfig,
+  KartPhysicsConfiguration,
+  kartPhysicsPresets,
+  resolveKartPhysicsConfig,
+} from "@mml-io/3d-web-kart-physics";
+import { BladeController, View } from "@tweakpane/core";
+import { BladeApi, FolderApi, TpChangeEvent } from "tweakpane";
+
+type BindingRange = { min: number; max: number; step: number };
+
+export const kartPhysicsOptions: { [key in keyof KartPhysicsConfig]: BindingRange } = {
+  maxSpeed: { min: 5, max: 250, step: 1 },
+  acceleration: { min: 5, max: 200, step: 1 },
+  deceleration: { min: 5, max: 200, step: 1 },
+  steeringSpeed: { min: 0.1, max: 5, step: 0.05 },
+  driftFactor: { min: 0, max: 1, step: 0.01 },
+  groundFriction: { min: 0.8, max: 1, step: 0.001 },
+  airResistance: { min: 0, max: 0.1, step: 0.001 },
+  bounceRestitution: { min: 0, max: 1, step: 0.01 },
+  throttleResponse: { min: 0.5, max: 30, step: 0.5 },
+  steeringResponse: { min: 0.5, max: 30, step: 0.5 },
+  inputDecayRate: { min: 0.5, max: 20, step: 0.5 },
+  highSpeedSteering: { min: 0.05, max: 1, step: 0.01 },
+  steeringFalloffSpeed: { min: 5, max: 100, step: 1 },
+  maxAngularVelocity: { min: 0.5, max: 10, step: 0.1 },
+  angularDamping: { min: 0.5, max: 1, step: 0.01 },
+  driftSteeringThreshold: { min: 0, max: 1, step: 0.01 },
+  driftSpeedThreshold: { min: 0, max: 60, step: 0.5 },
+  driftSteeringInfluence: { min: 0, max: 1, step: 0.01 },
+  driftFriction: { min: 0.9, max: 1, step: 0.001 },
+  driftHopSpeed: { min: 0, max: 6, step: 0.1 },
+  miniTurboChargeTime: { min: 0.1, max: 3, step: 0.05 },
+  miniTurboSpeed: { min: 0, max: 20, step: 0.5 },
+  miniTurboDuration: { min: 0, max: 2, step: 0.05 },
+  brakingFactor: { min: 0.1, max: 3, step: 0.05 },
+  brakingLateralFriction: { min: 0, max: 3, step: 0.025 },
+  reverseSpeedThreshold: { min: 0, max: 10, step: 0.1 },
+  coastingFriction: { min: 0.9, max: 1, step: 0.001 },
+  wallFriction: { min: 0, max: 1, step: 0.01 },
+  gravity: { min: 0, max: 40, step: 0.1 },
+  groundAlignmentRate: { min: 0.5, max: 40, step: 0.5 },
+  airAlignmentRate: { min: 0, max: 20, step: 0.25 },
+  maxGroundSlope: { min: 10, max: 85, step: 1 },
+  groundSnapDistance: { min: 0, max: 1, step: 0.01 },
+  launchSpeed: { min: 0, max: 20, step: 0.1 },
+  landingFriction: { min: 0, max: 0.2, step: 0.005 },
+};
+
+type KartData = {
+  speed: string;
+  grounded: string;
+  drifting: string;
+  reversing: string;
+  airTime: string;
+  miniTurbo: string;
+};
+
+const presetOptions = Object.fromEntries(
+  Object.keys(kartPhysicsPresets).map((preset) => [preset, preset]),
+);
+
+export class KartPhysicsFolder {
+  public folder: FolderApi;
+
+  private presetValue = { preset: defaultKartPhysicsPreset as string };
+  private physicsValues: KartPhysicsConfig = resolveKartPhysicsConfig();
+  private applyingPreset: boolean = false;
+
+  private kartData: KartData = {
+    speed: "0.00",
+    grounded: "true",
+    drifting: "false",
+    reversing: "false",
+    airTime: "0.00",
+    miniTurbo: "0",
+  };
+
+  constructor(parentFolder: FolderApi, expand: boolean = false) {
+    this.folder = parentFolder.addFolder({ title: "kart physics", expanded: expand });
+    this.folder.addBinding(this.kartData, "speed", { readonly: true });
+    this.folder.addBinding(this.kartData, "grounded", { readonly: true });
+    this.folder.addBinding(this.kartData, "drifting", { readonly: true });
+    this.folder.addBinding(this.kartData, "reversing", { readonly: true });
+    this.folder.addBinding(this.kartData, "airTime", { readonly: true });
+    this.folder.addBinding(this.kartData, "miniTurbo", { readonly: true });
+    this.folder.addBinding(this.presetValue, "preset", { options: presetOptions });
+    for (const key of Object.keys(kartPhysicsOptions) as Array<keyof KartPhysicsConfig>) {
+      this.folder.addBinding(this.physicsValues, key, kartPhysicsOptions[key]);
+    }
+  }
+
+  // The preset along with any values that have been changed from it
+  private getConfiguration(): KartPhysicsConfiguration {
+    const preset = isKartPhysicsPresetName(this.presetValue.preset)
+      ? this.presetValue.preset
+      : defaultKartPhysicsPreset;
+    const presetConfig = kartPhysicsPresets[preset];
+    const overrides: Partial<KartPhysicsConfig> = {};
+    for (const key of Object.keys(presetConfig) as Array<keyof KartPhysicsConfig>) {
+      if (this.physicsValues[key] !== presetConfig[key]) {
+        overrides[key] = this.physicsValues[key];
+      }
+    }
+    return Object.keys(overrides).length > 0 ? { preset, overrides } : { preset };
+  }
+
+  public setupChangeEvent(
+    physicsConfiguration: KartPhysicsConfiguration | undefined,
+    onChange: (physicsConfiguration: KartPhysicsConfiguration) => void,
+  ): void {
+    this.presetValue.preset = physicsConfiguration?.preset ?? defaultKartPhysicsPreset;
+    Object.assign(this.physicsValues, resolveKartPhysicsConfig(physicsConfiguration));
+    this.applyingPreset = true;
+    this.folder.refresh();
+    this.applyingPreset = false;
+
+    this.folder.on("change", (e: TpChangeEvent<unknown, BladeApi<BladeController<View>>>) => {
+      const target = (e.target as any).key;
+      if (!target || this.applyingPreset) return;
+      if (target === "preset") {
+        // Selecting a preset discards any values that were changed from the previous one
+        const preset = this.presetValue.preset;
+        if (!isKartPhysicsPresetName(preset)) return;
+        Object.assign(this.physicsValues, kartPhysicsPresets[preset]);
+        this.applyingPreset = true;
+        this.folder.refresh();
+        this.applyingPreset = false;
+      } else if (!(target in this.physicsValues)) {
+        return;
+      }
+      onChange(this.getConfiguration());
+    });
+  }
+
+  public update(physics: KartPhysics): void {
+    this.kartData.speed = physics.velocity.length().toFixed(2);
+    this.kartData.grounded = `${physics.isGrounded}`;
+    this.kartData.drifting = `${physics.isDrifting}`;
+    this.kartData.reversing = `${physics.isReversing}`;
+    this.kartData.airTime = physics.airTime.toFixed(2);
+    this.kartData.miniTurbo = `${physics.getMiniTurboTier()}`;
+  }
+}
@@ -0,0 +1,103 @@
+import { UserNetworkingClientNetworkStats } from "@mml-io/3d-web-user-networking";
+import { FolderApi } from "tweakpane";
+
+import { SnapshotInterpolationStats } from "../../character/SnapshotInterpolator";
+
+type NetworkStatsData = {
+  ping: string;
+  pingJitter: string;
+  packetLoss: string;
+  updateRate: string;
+  updateJitter: string;
+  bytesIn: string;
+  bytesOut: string;
+  remoteKarts: string;
+  interpDelay: string;
+  interpJitter: string;
+  minBuffered: string;
+  extrapolating: string;
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${Math.round(bytes)} B`;
+  }
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export class NetworkStatsFolder {
+  private folder: FolderApi;
+
+  private statsData: NetworkStatsData = {
+    ping: "-",
+    pingJitter: "-",
+    packetLoss: "-",
+    updateRate: "0",
+    updateJitter: "0",
+    bytesIn: "0",
+    bytesOut: "0",
+    remoteKarts: "0",
+    interpDelay: "-",
+    interpJitter: "-",
+    minBuffered: "-",
+    extrapolating: "0",
+  };
+
+  constructor(parentFolder: FolderApi, expanded: boolean = true) {
+    this.folder = parentFolder.addFolder({ title: "networkStats", expanded: expanded });
+    this.folder.addBinding(this.statsData, "ping", { readonly: true });
+    this.folder.addBinding(this.statsData, "pingJitter", { readonly: true });
+    this.folder.addBinding(this.statsData, "packetLoss", { readonly: true });
+    this.folder.addBinding(this.statsData, "updateRate", { readonly: true });
+    this.folder.addBinding(this.statsData, "updateJitter", { readonly: true });
+    this.folder.addBinding(this.statsData, "bytesIn", { readonly: true });
+    this.folder.addBinding(this.statsData, "bytesOut", { readonly: true });
+    this.folder.addBinding(this.statsData, "remoteKarts", { readonly: true });
+    this.folder.addBinding(this.statsData, "interpDelay", { readonly: true });
+    this.folder.addBinding(this.statsData, "interpJitter", { readonly: true });
+    this.folder.addBinding(this.statsData, "minBuffered", { readonly: true });
+    this.folder.addBinding(this.statsData, "extrapolating", { readonly: true });
+  }
+
+  public update(
+    networkStats: UserNetworkingClientNetworkStats,
+    interpolationStats: Array<SnapshotInterpolationStats>,
+  ): void {
+    const { latency, received, sent, frames } = networkStats;
+    this.statsData.ping = latency.rtt !== null ? `${Math.round(latency.rtt)} ms` : "-";
+    this.statsData.pingJitter = latency.rtt !== null ? `${latency.jitter.toFixed(1)} ms` : "-";
+    this.statsData.packetLoss =
+      latency.rtt !== null ? `${Math.round(latency.packetLoss * 100)}%` : "-";
+    this.statsData.updateRate = `${frames.messagesPerSecond.toFixed(1)}/s`;
+    this.statsData.updateJitter = `${networkStats.frameJitter.toFixed(1)} ms`;
+    this.statsData.bytesIn = `${formatBytes(received.bytesPerSecond)}/s`;
+    this.statsData.bytesOut = `${formatBytes(sent.bytesPerSecond)}/s`;
+
+    // The remote karts' interpolation buffers - a negative buffered time means that a kart has run out of snapshots
+    // and is being extrapolated
+    this.statsData.remoteKarts = interpolationStats.length.toString();
+    if (interpolationStats.length === 0) {
+      this.statsData.interpDelay = "-";
+      this.statsData.interpJitter = "-";
+      this.statsData.minBuffered = "-";
+      this.statsData.extrapolating = "0";
+      return;
+    }
+    let totalDelay = 0;
+    let maxJitter = 0;
+    let minBuffered = Infinity;
+    let extrapolating = 0;
+    for (const stats of interpolationStats) {
+      totalDelay += stats.delay;
+      maxJitter = Math.max(maxJitter, stats.jitter);
+      minBuffered = Math.min(minBuffered, stats.bufferedTime);
+      if (stats.bufferedTime < 0) {
+        extrapolating++;
+      }
+    }
+    this.statsData.interpDelay = `${Math.round(totalDelay / interpolationStats.length)} ms`;
+    this.statsData.interpJitter = `${maxJitter.toFixed(1)} ms`;
+    this.statsData.minBuffered = `${Math.round(minBuffered)} ms`;
+    this.statsData.extrapolating = extrapolating.toString();
+  }
+}
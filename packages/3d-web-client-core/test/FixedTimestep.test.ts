@@ -0,0 +1,57 @@
+import { FixedTimestep } from "../src/time/FixedTimestep";
+
+describe("FixedTimestep", () => {
+  test("should carry time that doesn't add up to a whole step over to the next frame", () => {
+    const fixedTimestep = new FixedTimestep(0.01);
+    expect(fixedTimestep.advance(0.025)).toEqual(2);
+    expect(fixedTimestep.alpha).toBeCloseTo(0.5, 5);
+    expect(fixedTimestep.advance(0.004)).toEqual(0);
+    expect(fixedTimestep.alpha).toBeCloseTo(0.9, 5);
+    expect(fixedTimestep.advance(0.001)).toEqual(1);
+    expect(fixedTimestep.alpha).toBeCloseTo(0, 5);
+    expect(fixedTimestep.tick).toEqual(3);
+  });
+
+  test("should run the same number of steps regardless of the frame rate", () => {
+    const slowFrames = new FixedTimestep(1 / 60);
+    const fastFrames = new FixedTimestep(1 / 60);
+    for (let i = 0; i < 30; i++) {
+      slowFrames.advance(1 / 30);
+    }
+    for (let i = 0; i < 144; i++) {
+      fastFrames.advance(1 / 144);
+    }
+    expect(slowFrames.tick).toEqual(60);
+    // Floating point error can leave the final step just short of being due
+    expect(Math.abs(fastFrames.tick - 60)).toBeLessThanOrEqual(1);
+  });
+
+  test("should limit the steps of a long frame and drop the time that can't be caught up on", () => {
+    const fixedTimestep = new FixedTimestep(0.125, 8);
+    // 24 and a half steps
+    expect(fixedTimestep.advance(3.0625)).toEqual(8);
+    // Only the fraction of a step is kept
+    expect(fixedTimestep.alpha).toEqual(0.5);
+    expect(fixedTimestep.advance(0.0625)).toEqual(1);
+    expect(fixedTimestep.tick).toEqual(9);
+  });
+
+  test("should ignore negative frame times", () => {
+    const fixedTimestep = new FixedTimestep(0.01);
+    expect(fixedTimestep.advance(-1)).toEqual(0);
+    expect(fixedTimestep.advance(0.01)).toEqual(1);
+  });
+
+  test("should start again from the first tick when reset", () => {
+    const fixedTimestep = new FixedTimestep(0.01);
+    fixedTimestep.advance(0.055);
+    fixedTimestep.reset();
+    expect(fixedTimestep.tick).toEqual(0);
+    expect(fixedTimestep.alpha).toEqual(0);
+  });
+
+  test("should reject step durations that aren't positive", () => {
+    expect(() => new FixedTimestep(0)).toThrow("must be greater than 0");
+    expect(() => new FixedTimestep(NaN)).toThrow("must be greater than 0");
+  });
+});
@@ -0,0 +1,69 @@
+import { KartInputManager } from "../src/input/KartInputManager";
+import { ScriptedKartInputSource } from "../src/input/ScriptedKartInputSource";
+
+describe("KartInputManager", () => {
+  test("should take the strongest value of each action from any source", () => {
+    const keyboard = new ScriptedKartInputSource();
+    const gamepad = new ScriptedKartInputSource();
+    const inputManager = new KartInputManager([keyboard, gamepad]);
+    expect(inputManager.getInput()).toEqual(null);
+
+    keyboard.setActionValues({ accelerate: 1, steerLeft: 1 });
+    gamepad.setActionValues({ accelerate: 0.4, steerLeft: 0.3, steerRight: 0.6 });
+    // Holding a key and lightly pressing a stick doesn't add up to more than full input
+    expect(inputManager.getInput()).toEqual({ throttle: 1, steering: 0.4, drift: false });
+
+    keyboard.clear();
+    gamepad.setActionValue("brake", 0.9);
+    expect(inputManager.getInput()).toEqual({ throttle: -0.5, steering: -0.3, drift: false });
+
+    inputManager.removeSource(gamepad);
+    expect(inputManager.getInput()).toEqual(null);
+  });
+
+  test("should only treat analog values of at least half as pressing digital actions", () => {
+    const source = new ScriptedKartInputSource();
+    const inputManager = new KartInputManager([source]);
+
+    source.setActionValue("drift", 0.49);
+    expect(inputManager.getInput()).toEqual(null);
+
+    source.setActionValue("drift", 0.5);
+    expect(inputManager.getInput()).toEqual({ throttle: 0, steering: 0, drift: true });
+  });
+
+  test("should call action listeners once each time an action is pressed", () => {
+    const keyboard = new ScriptedKartInputSource();
+    const gamepad = new ScriptedKartInputSource();
+    const inputManager = new KartInputManager([keyboard, gamepad]);
+    let itemUses = 0;
+    const useItem = () => itemUses++;
+    inputManager.addActionListener("useItem", useItem);
+
+    keyboard.setActionValue("useItem", 0.4);
+    inputManager.update();
+    expect(itemUses).toEqual(0);
+
+    keyboard.setActionValue("useItem", 1);
+    inputManager.update();
+    // Still held, including from another source
+    gamepad.setActionValue("useItem", 1);
+    inputManager.update();
+    keyboard.clear();
+    inputManager.update();
+    expect(itemUses).toEqual(1);
+
+    gamepad.clear();
+    inputManager.update();
+    gamepad.setActionValue("useItem", 0.8);
+    inputManager.update();
+    expect(itemUses).toEqual(2);
+
+    inputManager.removeActionListener("useItem", useItem);
+    gamepad.clear();
+    inputManager.update();
+    keyboard.setActionValue("useItem", 1);
+    inputManager.update();
+    expect(itemUses).toEqual(2);
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  BindableKartInputSource,
+  KartInputBindings,
+  kartInputActions,
+} from "../src/input/KartInputSource";
+
+// Binds every action to nothing apart from the given controls
+function createBindings(bindings: Partial<KartInputBindings<string>>): KartInputBindings<string> {
+  const allBindings = {} as KartInputBindings<string>;
+  for (const action of kartInputActions) {
+    allBindings[action] = bindings[action] ?? [];
+  }
+  return allBindings;
+}
+
+class TestKartInputSource extends BindableKartInputSource<string> {
+  public controlValues = new Map<string, number>();
+
+  constructor(bindings: Partial<KartInputBindings<string>>) {
+    super(createBindings(bindings));
+  }
+
+  protected getControlValue(control: string): number {
+    return this.controlValues.get(control) ?? 0;
+  }
+
+  public getControlLabel(control: string): string {
+    return control.toUpperCase();
+  }
+}
+
+describe("BindableKartInputSource", () => {
+  test("should use the strongest value of the controls bound to an action", () => {
+    const source = new TestKartInputSource({ accelerate: ["w", "trigger"] });
+    source.controlValues.set("trigger", 0.3);
+    expect(source.getActionValue("accelerate")).toEqual(0.3);
+    source.controlValues.set("w", 1);
+    expect(source.getActionValue("accelerate")).toEqual(1);
+    expect(source.getActionValue("brake")).toEqual(0);
+    expect(source.getActionLabel("accelerate")).toEqual("W");
+    expect(source.getActionLabel("brake")).toEqual(null);
+  });
+
+  test("should find the other actions that a control is bound to", () => {
+    const source = new TestKartInputSource({ accelerate: ["w"], drift: [" "], useItem: ["e"] });
+    expect(source.getConflictingActions("accelerate", "w")).toEqual([]);
+    expect(source.getConflictingActions("respawn", "e")).toEqual(["useItem"]);
+    expect(source.hasConflicts()).toEqual(false);
+
+    source.setActionBindings("respawn", ["e", "r"]);
+    source.setActionBindings("lookBack", ["e"]);
+    expect(source.getConflictingActions("respawn", "e")).toEqual(["useItem", "lookBack"]);
+    expect(source.getConflictingActions("respawn", "r")).toEqual([]);
+    expect(source.hasConflicts()).toEqual(true);
+
+    source.resetBindings();
+    expect(source.getActionBindings("respawn")).toEqual([]);
+    expect(source.hasConflicts()).toEqual(false);
+  });
+});
@@ -0,0 +1,144 @@
+import { KartControlInput, KartPhysicsState } from "@mml-io/3d-web-kart-physics";
+import { Quaternion, Vector3 } from "three";
+
+import { CharacterState } from "../src/character/CharacterState";
+import {
+  KartPrediction,
+  PhysicsTransform,
+  PredictedKartPhysics,
+} from "../src/character/KartPrediction";
+
+const stepDuration = 1 / 60;
+const throttle: KartControlInput = { throttle: 1, steering: 0, drift: false };
+
+// Drives along X at 1m per step at full throttle, so that replayed positions are easy to follow
+function createPhysics(): PredictedKartPhysics {
+  const velocity = new Vector3();
+  const physics = {
+    position: new Vector3(),
+    quaternion: new Quaternion(),
+    getState: (): KartPhysicsState =>
+      ({
+        position: { x: physics.position.x, y: physics.position.y, z: physics.position.z },
+        quaternion: {
+          x: physics.quaternion.x,
+          y: physics.quaternion.y,
+          z: physics.quaternion.z,
+          w: physics.quaternion.w,
+        },
+        velocity: { x: velocity.x, y: velocity.y, z: velocity.z },
+      }) as KartPhysicsState,
+    setState: (state: KartPhysicsState) => {
+      physics.position.set(state.position.x, state.position.y, state.position.z);
+      physics.quaternion.set(
+        state.quaternion.x,
+        state.quaternion.y,
+        state.quaternion.z,
+        state.quaternion.w,
+      );
+      velocity.set(state.velocity.x, state.velocity.y, state.velocity.z);
+    },
+    step: (input: KartControlInput | null, deltaTime: number) => {
+      velocity.set((input?.throttle ?? 0) / stepDuration, 0, 0);
+      physics.position.addScaledVector(velocity, deltaTime);
+    },
+  };
+  return physics as unknown as PredictedKartPhysics;
+}
+
+function createCorrection(x: number): CharacterState {
+  return {
+    id: 1,
+    position: { x, y: 0, z: 0 },
+    rotation: { quaternionX: 0, quaternionY: 0, quaternionZ: 0, quaternionW: 1 },
+    state: 0,
+    kart: {
+      velocity: { x: 1 / stepDuration, y: 0, z: 0 },
+      steering: 0,
+      throttle: 1,
+      drifting: false,
+      skidding: false,
+      reversing: false,
+    },
+  };
+}
+
+// Runs the given number of steps at full throttle in the same way as the kart controller
+function predictSteps(
+  physics: PredictedKartPhysics,
+  prediction: KartPrediction,
+  previousTransform: PhysicsTransform,
+  steps: number,
+) {
+  for (let inputSequence = 1; inputSequence <= steps; inputSequence++) {
+    previousTransform.position.copy(physics.position);
+    previousTransform.quaternion.copy(physics.quaternion);
+    physics.step(throttle, stepDuration);
+    prediction.addStep(inputSequence, throttle);
+  }
+}
+
+function createPredictedKart(steps: number) {
+  const physics = createPhysics();
+  const prediction = new KartPrediction(physics, stepDuration);
+  const previousTransform = { position: new Vector3(), quaternion: new Quaternion() };
+  predictSteps(physics, prediction, previousTransform, steps);
+  return { physics, prediction, previousTransform };
+}
+
+describe("KartPrediction", () => {
+  test("should forget acknowledged steps without moving the kart when there is no correction", () => {
+    const { physics, prediction, previousTransform } = createPredictedKart(5);
+    expect(prediction.reconcile(2, null, previousTransform, 0.5)).toEqual(false);
+    expect(physics.position.x).toBeCloseTo(5, 5);
+    expect(previousTransform.position.x).toBeCloseTo(4, 5);
+    expect(prediction.correctionOffset).toEqual(new Vector3());
+    // The acknowledged step is kept for later corrections
+    expect(prediction.getPredictedStepCount()).toEqual(4);
+
+    // Earlier steps have been forgotten
+    expect(prediction.reconcile(1, createCorrection(0), previousTransform, 0.5)).toEqual(false);
+    expect(physics.position.x).toBeCloseTo(5, 5);
+  });
+
+  test("should replay the unacknowledged steps from a correction and smooth the difference", () => {
+    const { physics, prediction, previousTransform } = createPredictedKart(5);
+    // The kart was shown half way between 4 and 5, but the server had it half a meter behind after the second step
+    expect(prediction.reconcile(2, createCorrection(1.5), previousTransform, 0.5)).toEqual(true);
+    expect(physics.position.x).toBeCloseTo(4.5, 5);
+    expect(previousTransform.position.x).toBeCloseTo(3.5, 5);
+    // The kart is still shown where it was and moves to the corrected position gradually
+    expect(prediction.correctionOffset.x).toBeCloseTo(0.5, 5);
+    prediction.smoothCorrection(0.1);
+    expect(prediction.correctionOffset.x).toBeCloseTo(0.5 * Math.exp(-1), 5);
+
+    // The replayed steps are the starting point for the next correction
+    expect(prediction.reconcile(4, createCorrection(3.5), previousTransform, 0.5)).toEqual(true);
+    expect(physics.position.x).toBeCloseTo(4.5, 5);
+    expect(prediction.correctionOffset.x).toBeCloseTo(0.5 * Math.exp(-1), 5);
+  });
+
+  test("should snap to corrections that move the kart too far to smooth", () => {
+    const { physics, prediction, previousTransform } = createPredictedKart(5);
+    // 5m behind where the kart was predicted to be after the second step
+    expect(prediction.reconcile(2, createCorrection(-3), previousTransform, 0.5)).toEqual(true);
+    expect(physics.position.x).toBeCloseTo(0, 5);
+    expect(prediction.correctionOffset).toEqual(new Vector3());
+  });
+
+  test("should not replay steps once the prediction has been cleared", () => {
+    const { physics, prediction, previousTransform } = createPredictedKart(5);
+    prediction.reconcile(2, createCorrection(1.5), previousTransform, 0.5);
+    // e.g. the kart was respawned
+    prediction.clear();
+    expect(prediction.getPredictedStepCount()).toEqual(0);
+    expect(prediction.correctionOffset).toEqual(new Vector3());
+    expect(prediction.reconcile(3, createCorrection(0), previousTransform, 0.5)).toEqual(false);
+    expect(physics.position.x).toBeCloseTo(4.5, 5);
+  });
+
+  test("should only keep a limited number of steps that haven't been acknowledged", () => {
+    const { prediction } = createPredictedKart(300);
+    expect(prediction.getPredictedStepCount()).toEqual(240);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  defaultKeyboardKartBindings,
+  KeyboardKartInputSource,
+} from "../src/input/KeyboardKartInputSource";
+import { KeyInputManager } from "../src/input/KeyInputManager";
+
+const storageKey = "testKartKeyBindings";
+
+class TestStorage {
+  private items = new Map<string, string>();
+
+  public getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  public setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  public removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+function createKeyInputManager(pressedKeys: Set<string>): KeyInputManager {
+  return { isKeyPressed: (key: string) => pressedKeys.has(key) } as KeyInputManager;
+}
+
+describe("KeyboardKartInputSource", () => {
+  let storage: TestStorage;
+
+  beforeEach(() => {
+    storage = new TestStorage();
+    (globalThis as { localStorage?: unknown }).localStorage = storage;
+  });
+
+  afterEach(() => {
+    delete (globalThis as { localStorage?: unknown }).localStorage;
+  });
+
+  test("should use stored bindings over the defaults", () => {
+    const pressedKeys = new Set(["i"]);
+    storage.setItem(storageKey, JSON.stringify({ accelerate: ["I", "ArrowUp"] }));
+    const source = new KeyboardKartInputSource(createKeyInputManager(pressedKeys), { storageKey });
+    expect(source.getActionBindings("accelerate")).toEqual(["i", "arrowup"]);
+    expect(source.getActionBindings("brake")).toEqual(defaultKeyboardKartBindings.brake);
+    expect(source.getActionValue("accelerate")).toEqual(1);
+    expect(source.getActionLabel("accelerate")).toEqual("I");
+  });
+
+  test("should ignore malformed stored bindings", () => {
+    const warnings: Array<unknown> = [];
+    const consoleWarn = console.warn;
+    console.warn = (...args: Array<unknown>) => warnings.push(args);
+    const keyInputManager = createKeyInputManager(new Set());
+
+    storage.setItem(storageKey, "{not json");
+    expect(new KeyboardKartInputSource(keyInputManager, { storageKey }).getBindings()).toEqual(
+      defaultKeyboardKartBindings,
+    );
+
+    storage.setItem(storageKey, JSON.stringify(["i"]));
+    expect(new KeyboardKartInputSource(keyInputManager, { storageKey }).getBindings()).toEqual(
+      defaultKeyboardKartBindings,
+    );
+
+    // Only the valid actions are used
+    storage.setItem(
+      storageKey,
+      JSON.stringify({ accelerate: "i", brake: ["k", 2], drift: ["Shift"], unknown: ["u"] }),
+    );
+    expect(new KeyboardKartInputSource(keyInputManager, { storageKey }).getBindings()).toEqual({
+      ...defaultKeyboardKartBindings,
+      drift: ["shift"],
+    });
+    console.warn = consoleWarn;
+    // Only the data that isn't JSON is reported, as the valid actions are taken from the rest
+    expect(warnings).toHaveLength(1);
+  });
+
+  test("should only store bindings that differ from the defaults", () => {
+    const source = new KeyboardKartInputSource(createKeyInputManager(new Set()), { storageKey });
+    source.setActionBindings("useItem", ["f"]);
+    expect(JSON.parse(storage.getItem(storageKey)!)).toEqual({
+      ...defaultKeyboardKartBindings,
+      useItem: ["f"],
+    });
+
+    source.setActionBindings("useItem", defaultKeyboardKartBindings.useItem);
+    expect(storage.getItem(storageKey)).toEqual(null);
+
+    source.setActionBindings("useItem", ["f"]);
+    source.resetBindings();
+    expect(storage.getItem(storageKey)).toEqual(null);
+  });
+
+  test("should not store bindings without a storage key", () => {
+    const source = new KeyboardKartInputSource(createKeyInputManager(new Set()), {
+      storageKey: null,
+    });
+    source.setActionBindings("useItem", ["f"]);
+    expect(source.getActionBindings("useItem")).toEqual(["f"]);
+    expect(storage.getItem("kartKeyBindings")).toEqual(null);
+  });
+});
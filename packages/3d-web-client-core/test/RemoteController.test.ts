@@ -0,0 +1,67 @@
+import { Euler, Quaternion, Vector3 } from "three";
+
+import { Character } from "../src/character/Character";
+import { CharacterState } from "../src/character/CharacterState";
+import { RemoteController } from "../src/character/RemoteController";
+
+// The parts of a character that the controller moves and animates
+function createCharacter(): Character {
+  return {
+    position: new Vector3(),
+    quaternion: new Quaternion(),
+    rotation: new Euler(),
+    scale: new Vector3(1, 1, 1),
+    update: () => {},
+    updateAnimation: () => {},
+    updateKartMovement: () => {},
+    updateSkidMarks: () => {},
+    updateDriftSparks: () => {},
+  } as unknown as Character;
+}
+
+function createKartState(x: number): CharacterState {
+  return {
+    id: 2,
+    position: { x, y: 0, z: 0 },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+    kart: {
+      velocity: { x: 10, y: 0, z: 0 },
+      steering: 0,
+      throttle: 1,
+      drifting: false,
+      skidding: false,
+      reversing: false,
+    },
+  };
+}
+
+describe("RemoteController", () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 1000;
+    // Snapshots are timed by the wall-clock time that they arrive at
+    performance.now = () => now;
+  });
+
+  afterEach(() => {
+    // Restores the original implementation from the prototype
+    delete (performance as { now?: () => number }).now;
+  });
+
+  test("should only add a snapshot when a new packet has been received", () => {
+    const character = createCharacter();
+    const controller = new RemoteController({ id: 2, character });
+    const held = createKartState(0);
+    controller.update(held, 0, 0);
+
+    // The same packet is passed in every frame until a new one arrives (e.g. whilst the server holds the kart)
+    now = 1050;
+    controller.update(held, 0, 0);
+    now = 1300;
+    controller.update(held, 0, 0);
+    // Extrapolated at 10 m/s from when the packet arrived to the render time (100ms behind) rather than from 1050
+    expect(character.position.x).toBeCloseTo(2, 5);
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  decodeReplay,
+  encodeReplay,
+  Replay,
+  REPLAY_FORMAT_VERSION,
+} from "../src/replay/ReplayFormat";
+
+function createReplay(): Replay {
+  return {
+    localId: 3,
+    startTime: 1700000000123.5,
+    duration: 2500,
+    physicsTickRate: 60,
+    events: [
+      {
+        type: "state",
+        time: 0,
+        state: {
+          id: 3,
+          position: { x: 1.5, y: 0.25, z: -20 },
+          rotation: { quaternionX: 0, quaternionY: 0.5, quaternionZ: 0, quaternionW: 0.5 },
+          state: 0,
+          kart: {
+            velocity: { x: 0, y: 0, z: 12.5 },
+            steering: 0.5,
+            throttle: 1,
+            drifting: true,
+            skidding: false,
+            reversing: false,
+          },
+        },
+      },
+      { type: "input", time: 16, tick: 1, input: { throttle: 1, steering: -0.5, drift: true } },
+      { type: "input", time: 33, tick: 2, input: null },
+      {
+        type: "state",
+        time: 100,
+        state: {
+          id: 4,
+          position: { x: -3, y: 2, z: 7 },
+          rotation: { quaternionY: 0, quaternionW: 1 },
+          state: 2,
+        },
+      },
+      { type: "remove", time: 2500, id: 4 },
+    ],
+  };
+}
+
+describe("ReplayFormat", () => {
+  test("should decode the replay that was encoded", () => {
+    const replay = createReplay();
+    const decoded = decodeReplay(encodeReplay(replay));
+    expect(decoded).toEqual({
+      ...replay,
+      events: [
+        {
+          ...replay.events[0],
+          // States are stored with the precision of network updates
+          state: expect.objectContaining({
+            id: 3,
+            position: { x: 1.5, y: 0.25, z: -20 },
+            kart: expect.objectContaining({ drifting: true, throttle: 1 }),
+          }),
+        },
+        // Inputs are stored with a precision of 1/127
+        {
+          type: "input",
+          time: 16,
+          tick: 1,
+          input: { throttle: 1, steering: expect.closeTo(-0.5, 2), drift: true },
+        },
+        replay.events[2],
+        { ...replay.events[3], state: expect.objectContaining({ id: 4, state: 2 }) },
+        replay.events[4],
+      ],
+    });
+  });
+
+  test("should decode replays without a local user from an offset in a larger buffer", () => {
+    const encoded = encodeReplay({ ...createReplay(), localId: null });
+    const buffer = new Uint8Array(encoded.byteLength + 8);
+    buffer.set(encoded, 8);
+    const decoded = decodeReplay(buffer.subarray(8));
+    expect(decoded.localId).toBeNull();
+    expect(decoded.events).toHaveLength(5);
+  });
+
+  test("should keep decoding replays recorded with version 1", () => {
+    // A replay with a single removal, as recorded by the first version of the format
+    const recorded = new Uint8Array([
+      0x4b, 0x52, 0x50, 0x4c, 0x01, 0x3c, 0x00, 0x03, 0x42, 0x78, 0xbc, 0xfe, 0x56, 0x87, 0xb8,
+      0x00, 0x00, 0x00, 0x09, 0xc4, 0x01, 0x00, 0x00, 0x09, 0xc4, 0x00, 0x04,
+    ]);
+    expect(decodeReplay(recorded)).toEqual({
+      localId: 3,
+      startTime: 1700000000123.5,
+      duration: 2500,
+      physicsTickRate: 60,
+      events: [{ type: "remove", time: 2500, id: 4 }],
+    });
+    // Changing the layout of replays requires a new version (and decoding the old one)
+    expect(REPLAY_FORMAT_VERSION).toEqual(1);
+  });
+
+  test("should reject files that aren't replays", () => {
+    expect(() => decodeReplay(new Uint8Array([1, 2, 3]))).toThrow("Not a replay file");
+    const encoded = encodeReplay(createReplay());
+    encoded[0] = 0;
+    expect(() => decodeReplay(encoded)).toThrow("Not a replay file");
+  });
+
+  test("should reject unsupported versions", () => {
+    const encoded = encodeReplay(createReplay());
+    encoded[4] = REPLAY_FORMAT_VERSION + 1;
+    expect(() => decodeReplay(encoded)).toThrow(
+      `Unsupported replay version: ${REPLAY_FORMAT_VERSION + 1}`,
+    );
+  });
+
+  test("should reject truncated replays", () => {
+    const encoded = encodeReplay(createReplay());
+    // Cut within each of the records
+    for (let length = 21; length < encoded.byteLength; length++) {
+      const truncated = encoded.slice(0, length);
+      let decoded: Replay | null = null;
+      try {
+        decoded = decodeReplay(truncated);
+      } catch (error) {
+        expect((error as Error).message).toEqual("Replay is truncated");
+      }
+      // Cutting exactly between records leaves a shorter, valid replay
+      if (decoded) {
+        expect(decoded.events.length).toBeLessThan(5);
+      }
+    }
+  });
+
+  test("should reject unknown record types", () => {
+    const encoded = encodeReplay(createReplay());
+    encoded[20] = 9;
+    expect(() => decodeReplay(encoded)).toThrow("Unknown replay record type: 9");
+  });
+});
@@ -0,0 +1,132 @@
+import { Quaternion, Vector3 } from "three";
+
+import { CharacterState } from "../src/character/CharacterState";
+import {
+  defaultSnapshotInterpolationConfig,
+  SnapshotInterpolator,
+} from "../src/character/SnapshotInterpolator";
+
+// Snapshots arrive exactly at the expected interval so that their timestamps are their arrival times
+const packetInterval = 1000 / 30;
+const delay = defaultSnapshotInterpolationConfig.interpolationDelay;
+
+function createState(
+  position: { x: number; y: number; z: number },
+  velocity?: { x: number; y: number; z: number },
+): CharacterState {
+  return {
+    id: 1,
+    position,
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+    kart: velocity
+      ? {
+          velocity,
+          steering: 0,
+          throttle: 1,
+          drifting: false,
+          skidding: false,
+          reversing: false,
+        }
+      : undefined,
+  };
+}
+
+// Samples the interpolator for the given render time without changing its delay
+function sampleAt(interpolator: SnapshotInterpolator, renderTime: number): Vector3 {
+  const position = new Vector3();
+  expect(interpolator.sample(renderTime + delay, 0, position, new Quaternion())).toEqual(true);
+  return position;
+}
+
+describe("SnapshotInterpolator", () => {
+  test("should interpolate between the snapshots either side of the render time", () => {
+    const interpolator = new SnapshotInterpolator();
+    expect(interpolator.addSnapshot(createState({ x: 0, y: 0, z: 0 }), 1000)).toEqual(false);
+    expect(
+      interpolator.addSnapshot(createState({ x: 2, y: 0, z: 4 }), 1000 + packetInterval),
+    ).toEqual(true);
+
+    expect(sampleAt(interpolator, 1000)).toEqual(new Vector3(0, 0, 0));
+    const halfway = sampleAt(interpolator, 1000 + packetInterval / 2);
+    expect(halfway.x).toBeCloseTo(1, 5);
+    expect(halfway.z).toBeCloseTo(2, 5);
+  });
+
+  test("should follow the curve between snapshots using their velocities", () => {
+    // A kart driving a quarter of a 10m circle at 10 m/s between two snapshots
+    const radius = 10;
+    const speed = 10;
+    const interval = ((Math.PI / 2) * radius * 1000) / speed;
+    const interpolator = new SnapshotInterpolator({
+      ...defaultSnapshotInterpolationConfig,
+      teleportDistance: 100,
+    });
+    interpolator.addSnapshot(createState({ x: radius, y: 0, z: 0 }, { x: 0, y: 0, z: speed }), 0);
+    interpolator.addSnapshot(
+      createState({ x: 0, y: 0, z: radius }, { x: -speed, y: 0, z: 0 }),
+      interval,
+    );
+    // The snapshot's timestamp is smoothed towards the expected packet interval, but by no more than 100ms
+    const secondSnapshotTime = interval - 100;
+
+    const halfway = sampleAt(interpolator, secondSnapshotTime / 2);
+    // Linear interpolation would cut the corner (at 7.07m from the center) rather than follow the arc
+    expect(halfway.length()).toBeGreaterThan(radius * Math.SQRT1_2 + 1);
+    expect(halfway.x).toBeCloseTo(halfway.z, 5);
+  });
+
+  test("should extrapolate with the velocity when packets stop, up to a limit", () => {
+    const interpolator = new SnapshotInterpolator();
+    interpolator.addSnapshot(createState({ x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 }), 1000);
+    interpolator.addSnapshot(
+      createState({ x: 1 / 3, y: 0, z: 0 }, { x: 10, y: 0, z: 0 }),
+      1000 + packetInterval,
+    );
+    const latestTime = 1000 + packetInterval;
+
+    expect(sampleAt(interpolator, latestTime + 100).x).toBeCloseTo(1 / 3 + 1, 5);
+    // Held in place once the kart has been extrapolated for the maximum time
+    const maxExtrapolation = defaultSnapshotInterpolationConfig.maxExtrapolation / 1000;
+    expect(sampleAt(interpolator, latestTime + 1000).x).toBeCloseTo(
+      1 / 3 + 10 * maxExtrapolation,
+      5,
+    );
+    expect(sampleAt(interpolator, latestTime + 5000).x).toBeCloseTo(
+      1 / 3 + 10 * maxExtrapolation,
+      5,
+    );
+  });
+
+  test("should extrapolate from the previous snapshot without velocities", () => {
+    const interpolator = new SnapshotInterpolator();
+    interpolator.addSnapshot(createState({ x: 0, y: 0, z: 0 }), 1000);
+    interpolator.addSnapshot(createState({ x: 1, y: 0, z: 0 }), 1000 + packetInterval);
+    // 30 m/s for 100ms
+    expect(sampleAt(interpolator, 1000 + packetInterval + 100).x).toBeCloseTo(4, 5);
+  });
+
+  test("should not interpolate across a teleport", () => {
+    const interpolator = new SnapshotInterpolator();
+    interpolator.addSnapshot(createState({ x: 0, y: 0, z: 0 }), 1000);
+    expect(
+      interpolator.addSnapshot(createState({ x: 100, y: 0, z: 0 }), 1000 + packetInterval),
+    ).toEqual(false);
+    expect(sampleAt(interpolator, 1000 + packetInterval / 2).x).toEqual(100);
+  });
+
+  test("should increase the delay to cover jittery packets", () => {
+    const interpolator = new SnapshotInterpolator();
+    let arrivalTime = 0;
+    for (let i = 0; i < 100; i++) {
+      // Packets alternate between arriving almost together and after a long gap
+      arrivalTime += i % 2 === 0 ? 5 : 295;
+      interpolator.addSnapshot(createState({ x: i * 0.1, y: 0, z: 0 }), arrivalTime);
+    }
+    expect(interpolator.getJitter()).toBeGreaterThan(100);
+    interpolator.sample(arrivalTime, 10, new Vector3(), new Quaternion());
+    expect(interpolator.getCurrentDelay()).toEqual(
+      defaultSnapshotInterpolationConfig.maxInterpolationDelay,
+    );
+  });
+});
@@ -11,18 +11,36 @@ import {
   decodeCharacterAndCamera,
   EnvironmentConfiguration,
   ErrorScreen,
+  GamepadKartInputSource,
+  GamepadKartInputSourceConfig,
+  GamepadStatusIndicator,
+  GhostManager,
   GroundPlane,
-  Key,
+  ItemConfiguration,
+  ItemManager,
+  KartInputManager,
+  KeyBindingsPanel,
+  KeyboardKartInputSource,
   KeyInputManager,
   LoadingScreen,
   LoadingScreenConfig,
   MMLCompositionScene,
+  decodeReplay,
+  RaceConfiguration,
+  RaceManager,
+  ReplayControls,
+  ReplayPlayer,
+  ReplayRecorder,
   TimeManager,
   TweakPane,
   SpawnConfiguration,
   SpawnConfigurationState,
-  VirtualJoystick,
+  SpectatorManager,
+  TouchKartControls,
+  TouchKartControlsConfig,
 } from "@mml-io/3d-web-client-core";
+import { KartControlInput, KartPhysicsConfiguration } from "@mml-io/3d-web-kart-physics";
+import { GhostLap, validateGhostLap } from "@mml-io/3d-web-kart-race";
 import {
   ChatNetworkingClient,
   ChatNetworkingClientChatMessage,
@@ -34,11 +52,19 @@ import {
 import {
   USER_NETWORKING_AUTHENTICATION_FAILED_ERROR_TYPE,
   USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE,
+  USER_NETWORKING_KICKED_ERROR_TYPE,
+  USER_NETWORKING_ITEM_PICKUP_MESSAGE_TYPE,
+  USER_NETWORKING_ITEM_USE_MESSAGE_TYPE,
   USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
   USER_NETWORKING_USER_UPDATE_MESSAGE_TYPE,
   UserData,
   UserNetworkingClient,
   UserNetworkingClientUpdate,
+  UserNetworkingInputAck,
+  UserNetworkingItemEvent,
+  UserNetworkingItemStateMessage,
+  UserNetworkingRaceResultsMessage,
+  UserNetworkingRaceStateMessage,
   UserNetworkingServerErrorType,
   WebsocketStatus,
 } from "@mml-io/3d-web-user-networking";
@@ -71,6 +97,13 @@ type MMLDocumentConfiguration = {
   };
 };
 
+export type GhostConfiguration = {
+  // The localStorage key that the personal-best lap is stored under (null to only keep it for the session)
+  storageKey?: string | null;
+  // The URL of the server's ghost records - personal bests are submitted to it and the fastest laps are downloaded
+  serverUrl?: string;
+};
+
 export type Networked3dWebExperienceClientConfig = {
   userNetworkAddress: string;
   sessionToken: string;
@@ -81,6 +114,9 @@ export type Networked3dWebExperienceClientConfig = {
   updateURLLocation?: boolean;
   onServerBroadcast?: (broadcast: { broadcastType: string; payload: any }) => void;
   loadingScreen?: LoadingScreenConfig;
+  ghosts?: GhostConfiguration;
+  // Join without a kart and follow the other racers instead
+  spectator?: boolean;
 } & UpdatableConfig;
 
 export type UpdatableConfig = {
@@ -92,8 +128,25 @@ export type UpdatableConfig = {
   allowCustomDisplayName?: boolean;
   enableTweakPane?: boolean;
   allowOrbitalCamera?: boolean;
+  raceConfiguration?: RaceConfiguration;
+  // The physics preset (arcade, simulation or beginner) and any overridden values for the local kart
+  physicsConfiguration?: KartPhysicsConfiguration;
+  // Drift whenever the kart is steered hard at speed instead of with the drift key (for players who can't hold it)
+  automaticDrift?: boolean;
+  // The gamepad's stick deadzone, response curve and whether it vibrates
+  gamepadConfiguration?: Omit<GamepadKartInputSourceConfig, "bindings">;
+  // The steering mode (slider or tilt) and layout of the on-screen controls shown on touch devices
+  touchControls?: Omit<TouchKartControlsConfig, "bindings">;
+  // Items that the server may give out in addition to (or instead of) the default items
+  itemConfiguration?: ItemConfiguration;
 };
 
+// Impacts at this speed (m/s) or faster vibrate the gamepad at full strength
+const fullRumbleImpactSpeed = 20;
+const collisionRumbleDuration = 150;
+const skidRumbleIntensity = 0.15;
+const skidRumbleDuration = 100;
+
 function normalizeSpawnConfiguration(spawnConfig?: SpawnConfiguration): SpawnConfigurationState {
   return {
     spawnPosition: {
@@ -134,11 +187,23 @@ export class Networked3dWebExperienceClient {
 
   private characterModelLoader = new CharacterModelLoader();
   private characterManager: CharacterManager;
+  private raceManager: RaceManager;
+  private itemManager: ItemManager;
+  private spectatorManager: SpectatorManager;
+  private ghostManager: GhostManager;
+
+  private replayRecorder: ReplayRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private replayControls: ReplayControls | null = null;
 
   private timeManager = new TimeManager();
 
   private keyInputManager = new KeyInputManager();
-  private virtualJoystick: VirtualJoystick;
+  private touchKartControls: TouchKartControls;
+  private kartInputManager: KartInputManager;
+  private gamepadInputSource: GamepadKartInputSource;
+  private gamepadStatusIndicator: GamepadStatusIndicator;
+  private keyBindingsPanel: KeyBindingsPanel;
 
   private mmlCompositionScene: MMLCompositionScene;
   private mmlFrames: { [key: string]: HTMLElement } = {};
@@ -194,10 +259,21 @@ export class Networked3dWebExperienceClient {
     this.cameraManager = new CameraManager(this.canvasHolder, this.collisionsManager);
     this.cameraManager.camera.add(this.audioListener);
 
-    this.virtualJoystick = new VirtualJoystick(this.element, {
-      radius: 70,
-      innerRadius: 20,
-      mouseSupport: false,
+    this.touchKartControls = new TouchKartControls(this.element, this.config.touchControls);
+
+    this.gamepadInputSource = new GamepadKartInputSource(this.config.gamepadConfiguration);
+    this.gamepadStatusIndicator = new GamepadStatusIndicator(this.element, this.gamepadInputSource);
+    const keyboardInputSource = new KeyboardKartInputSource(this.keyInputManager);
+    this.keyBindingsPanel = new KeyBindingsPanel(this.element, keyboardInputSource);
+    this.kartInputManager = new KartInputManager([
+      keyboardInputSource,
+      this.touchKartControls,
+      this.gamepadInputSource,
+    ]);
+    this.kartInputManager.addActionListener("respawn", () => {
+      if (this.spawnConfiguration.enableRespawnButton && this.characterManager.localCharacter) {
+        this.characterManager.localController.resetPosition();
+      }
     });
 
     this.composer = new Composer({
@@ -222,12 +298,15 @@ export class Networked3dWebExperienceClient {
     this.networkClient = new UserNetworkingClient({
       url: this.config.userNetworkAddress,
       sessionToken: this.config.sessionToken,
+      spectator: this.config.spectator,
       websocketFactory: (url: string) => new WebSocket(url),
       statusUpdateCallback: (status: WebsocketStatus) => {
         if (status === WebsocketStatus.Disconnected || status === WebsocketStatus.Reconnecting) {
           // The connection was lost after being established - the connection may be re-established with a different client ID
           this.characterManager.clear();
           this.remoteUserStates.clear();
+          this.raceManager.clearServerState();
+          this.itemManager.clearServerState();
           this.clientId = null;
         }
       },
@@ -247,8 +326,10 @@ export class Networked3dWebExperienceClient {
       ) => {
         if (userNetworkingClientUpdate === null) {
           this.remoteUserStates.delete(remoteClientId);
+          this.replayRecorder?.recordRemoval(remoteClientId, performance.now());
         } else {
           this.remoteUserStates.set(remoteClientId, userNetworkingClientUpdate);
+          this.replayRecorder?.recordState(userNetworkingClientUpdate, performance.now());
         }
       },
       clientProfileUpdated: (
@@ -272,6 +353,9 @@ export class Networked3dWebExperienceClient {
           case USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE:
             this.disposeWithError(error.message || "Server shutdown");
             break;
+          case USER_NETWORKING_KICKED_ERROR_TYPE:
+            this.disposeWithError(error.message || "Removed from the server");
+            break;
           default:
             console.error(`Unhandled server error: ${error.message}`);
             this.disposeWithError(error.message);
@@ -280,17 +364,27 @@ export class Networked3dWebExperienceClient {
       onServerBroadcast: (broadcast: { broadcastType: string; payload: any }) => {
         this.config.onServerBroadcast?.(broadcast);
       },
+      onRaceState: (raceState: UserNetworkingRaceStateMessage) => {
+        this.raceManager.applyServerRaceState(raceState);
+      },
+      onRaceResults: (raceResults: UserNetworkingRaceResultsMessage) => {
+        this.raceManager.applyServerRaceResults(raceResults.results);
+      },
+      onItemState: (itemState: UserNetworkingItemStateMessage) => {
+        this.itemManager.applyServerItemState(itemState);
+      },
+      onItemEvent: (itemEvent: UserNetworkingItemEvent) => {
+        this.itemManager.applyServerItemEvent(itemEvent);
+      },
+      onInputAck: (inputAck: UserNetworkingInputAck) => {
+        this.characterManager.reconcileLocalKart(inputAck.inputSequence, inputAck.correction);
+      },
     });
 
     if (this.config.allowOrbitalCamera) {
-      this.keyInputManager.createKeyBinding(Key.C, () => {
-        if (document.activeElement === document.body) {
-          // No input is selected - accept the key press
-          this.cameraManager.toggleFlyCamera();
-          this.composer.fitContainer();
-        }
-      });
+      this.kartInputManager.addActionListener("toggleCamera", this.toggleFlyCamera);
     }
+    this.kartInputManager.addActionListener("cycleCamera", this.cycleCameraMode);
 
     this.spawnConfiguration = normalizeSpawnConfiguration(this.config.spawnConfiguration);
 
@@ -300,13 +394,24 @@ export class Networked3dWebExperienceClient {
       collisionsManager: this.collisionsManager,
       cameraManager: this.cameraManager,
       timeManager: this.timeManager,
-      keyInputManager: this.keyInputManager,
-      virtualJoystick: this.virtualJoystick,
+      kartInputManager: this.kartInputManager,
       remoteUserStates: this.remoteUserStates,
       sendUpdate: (characterState: CharacterState) => {
         this.latestCharacterObject.characterState = characterState;
         this.networkClient.sendUpdate(characterState);
+        this.replayRecorder?.recordState(characterState, performance.now());
       },
+      onLocalPhysicsStep: (tick: number, input: KartControlInput | null) => {
+        this.replayRecorder?.recordInput(tick, input, performance.now());
+      },
+      onLocalCollision: (impactSpeed: number) => {
+        this.gamepadInputSource.rumble(
+          Math.min(impactSpeed / fullRumbleImpactSpeed, 1),
+          collisionRumbleDuration,
+        );
+      },
+      physicsConfiguration: this.config.physicsConfiguration,
+      automaticDrift: this.config.automaticDrift,
       animationConfig: this.config.animationConfig,
       spawnConfiguration: this.spawnConfiguration,
       characterResolve: (characterId: number) => {
@@ -316,7 +421,57 @@ export class Networked3dWebExperienceClient {
     });
     this.scene.add(this.characterManager.group);
 
-    if (this.spawnConfiguration.enableRespawnButton) {
+    this.ghostManager = new GhostManager({
+      group: this.characterManager.group,
+      storageKey: this.config.ghosts?.storageKey,
+      onPersonalBest: (ghost: GhostLap) => {
+        this.submitGhost(ghost);
+      },
+    });
+    this.fetchGhosts();
+
+    this.raceManager = new RaceManager({
+      holderElement: this.element,
+      collisionsManager: this.collisionsManager,
+      characterManager: this.characterManager,
+      remoteUserStates: this.remoteUserStates,
+      resolveUsername: (clientId: number) => {
+        return this.userProfiles.get(clientId)?.username ?? "Unknown";
+      },
+      raceConfiguration: this.config.raceConfiguration,
+      ghostManager: this.ghostManager,
+    });
+
+    this.itemManager = new ItemManager({
+      holderElement: this.element,
+      collisionsManager: this.collisionsManager,
+      characterManager: this.characterManager,
+      kartInputManager: this.kartInputManager,
+      itemConfiguration: this.config.itemConfiguration,
+      sendItemPickup: (boxId: string, position: { x: number; y: number; z: number }) => {
+        this.networkClient.sendMessage({
+          type: USER_NETWORKING_ITEM_PICKUP_MESSAGE_TYPE,
+          boxId,
+          position,
+        });
+      },
+      sendItemUse: () => {
+        this.networkClient.sendMessage({ type: USER_NETWORKING_ITEM_USE_MESSAGE_TYPE });
+      },
+    });
+    this.scene.add(this.itemManager.group);
+
+    this.spectatorManager = new SpectatorManager({
+      holderElement: this.element,
+      characterManager: this.characterManager,
+      kartInputManager: this.kartInputManager,
+      raceManager: this.raceManager,
+      resolveUsername: (clientId: number) => {
+        return this.userProfiles.get(clientId)?.username ?? "Unknown";
+      },
+    });
+
+    if (this.spawnConfiguration.enableRespawnButton && !this.config.spectator) {
       this.element.appendChild(this.characterManager.createRespawnButton());
     }
 
@@ -382,21 +537,23 @@ export class Networked3dWebExperienceClient {
       }
     }
 
+    if (config.physicsConfiguration !== undefined) {
+      this.characterManager.setPhysicsConfiguration(config.physicsConfiguration);
+    }
+
+    if (config.automaticDrift !== undefined) {
+      this.characterManager.setAutomaticDrift(config.automaticDrift);
+    }
+
     if (config.allowOrbitalCamera !== undefined) {
       if (config.allowOrbitalCamera === false) {
-        this.keyInputManager.removeKeyBinding(Key.C);
+        this.kartInputManager.removeActionListener("toggleCamera", this.toggleFlyCamera);
         if (this.cameraManager.isFlyCameraOn() === true) {
           // Disable the fly camera if it was enabled
           this.cameraManager.toggleFlyCamera();
         }
       } else if (config.allowOrbitalCamera === true) {
-        this.keyInputManager.createKeyBinding(Key.C, () => {
-          if (document.activeElement === document.body) {
-            // No input is selected - accept the key press
-            this.cameraManager.toggleFlyCamera();
-            this.composer.fitContainer();
-          }
-        });
+        this.kartInputManager.addActionListener("toggleCamera", this.toggleFlyCamera);
       }
     }
 
@@ -415,7 +572,11 @@ export class Networked3dWebExperienceClient {
     if (this.characterManager.localController) {
       this.characterManager.localController.updateSpawnConfig(this.spawnConfiguration);
     }
-    if (this.spawnConfiguration.enableRespawnButton && !this.respawnButton) {
+    if (
+      this.spawnConfiguration.enableRespawnButton &&
+      !this.respawnButton &&
+      !this.config.spectator
+    ) {
       this.respawnButton = this.characterManager.createRespawnButton();
       this.element.appendChild(this.respawnButton);
     } else if (!this.spawnConfiguration.enableRespawnButton && this.respawnButton) {
@@ -423,6 +584,22 @@ export class Networked3dWebExperienceClient {
       this.respawnButton = null;
     }
 
+    if (config.raceConfiguration !== undefined) {
+      this.raceManager.updateRaceConfiguration(config.raceConfiguration);
+    }
+
+    if (config.gamepadConfiguration !== undefined) {
+      this.gamepadInputSource.updateConfig(config.gamepadConfiguration);
+    }
+
+    if (config.touchControls !== undefined) {
+      this.touchKartControls.updateConfig(config.touchControls);
+    }
+
+    if (config.itemConfiguration !== undefined) {
+      this.itemManager.updateItemConfiguration(config.itemConfiguration);
+    }
+
     if (config.mmlDocuments) {
       this.setMMLDocuments(config.mmlDocuments);
     }
@@ -511,6 +688,8 @@ export class Networked3dWebExperienceClient {
       this.scene,
       this.composer.effectComposer,
     );
+    // The character controls are added once the local character has spawned
+    this.characterControllerPaneSet = false;
     this.cameraManager.setupTweakPane(this.tweakPane);
     this.composer.setupTweakPane(this.tweakPane);
   }
@@ -591,9 +770,167 @@ export class Networked3dWebExperienceClient {
     this.avatarSelectionUI.init();
   }
 
+  public startReplayRecording() {
+    if (this.replayRecorder) {
+      throw new Error("A replay is already being recorded");
+    }
+    const now = performance.now();
+    this.replayRecorder = new ReplayRecorder(
+      {
+        localId: this.clientId,
+        physicsTickRate: this.characterManager.localController?.getPhysicsTickRate() ?? 60,
+      },
+      now,
+    );
+    // Users that are already present wouldn't otherwise appear until they next move
+    for (const [, state] of this.remoteUserStates) {
+      this.replayRecorder.recordState(state, now);
+    }
+    if (this.latestCharacterObject.characterState) {
+      this.replayRecorder.recordState(this.latestCharacterObject.characterState, now);
+    }
+  }
+
+  public isRecordingReplay(): boolean {
+    return this.replayRecorder !== null;
+  }
+
+  // Returns the encoded replay (e.g. to be saved to a file)
+  public stopReplayRecording(): Uint8Array {
+    if (!this.replayRecorder) {
+      throw new Error("No replay is being recorded");
+    }
+    const encoded = this.replayRecorder.encode();
+    this.replayRecorder = null;
+    return encoded;
+  }
+
+  public playReplay(data: ArrayBuffer | Uint8Array) {
+    this.stopReplay();
+    const replay = decodeReplay(data);
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.replayControls = new ReplayControls({
+      holderElement: this.element,
+      player: this.replayPlayer,
+      onClose: () => this.stopReplay(),
+    });
+    this.characterManager.startPlayback(this.replayPlayer.states, replay.localId);
+    this.replayPlayer.play();
+  }
+
+  public stopReplay() {
+    if (!this.replayPlayer) {
+      return;
+    }
+    this.characterManager.stopPlayback();
+    this.replayControls?.dispose();
+    this.replayControls = null;
+    this.replayPlayer = null;
+  }
+
+  // The sources of the local kart's input, e.g. to rebind controls or to add a ScriptedKartInputSource
+  public getKartInputManager(): KartInputManager {
+    return this.kartInputManager;
+  }
+
+  public getPersonalBestGhost(): GhostLap | null {
+    return this.ghostManager.getPersonalBest();
+  }
+
+  public clearPersonalBestGhost() {
+    this.ghostManager.clearPersonalBest();
+  }
+
+  // Downloads the fastest laps from the server to be shown as ghosts
+  public async fetchGhosts(): Promise<void> {
+    const serverUrl = this.config.ghosts?.serverUrl;
+    if (!serverUrl) {
+      return;
+    }
+    try {
+      const response = await fetch(serverUrl);
+      if (!response.ok) {
+        throw new Error(`Unexpected response status: ${response.status}`);
+      }
+      const ghosts = await response.json();
+      if (!Array.isArray(ghosts)) {
+        throw new Error("Expected an array of ghost laps");
+      }
+      const validGhosts: Array<GhostLap> = [];
+      for (const ghost of ghosts) {
+        try {
+          validGhosts.push(validateGhostLap(ghost));
+        } catch (error) {
+          console.warn("Ignoring invalid ghost lap", error);
+        }
+      }
+      this.ghostManager.setRemoteGhosts(validGhosts);
+    } catch (error) {
+      console.warn("Unable to fetch ghost laps", error);
+    }
+  }
+
+  private async submitGhost(ghost: GhostLap): Promise<void> {
+    const serverUrl = this.config.ghosts?.serverUrl;
+    if (!serverUrl) {
+      return;
+    }
+    try {
+      const response = await fetch(serverUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionToken: this.config.sessionToken, ghost }),
+      });
+      if (!response.ok) {
+        throw new Error(`Unexpected response status: ${response.status}`);
+      }
+    } catch (error) {
+      console.warn("Unable to submit ghost lap", error);
+      return;
+    }
+    await this.fetchGhosts();
+  }
+
+  private toggleFlyCamera = () => {
+    if (document.activeElement === document.body) {
+      // No input is selected - accept the key press
+      this.cameraManager.toggleFlyCamera();
+      this.composer.fitContainer();
+    }
+  };
+
+  private cycleCameraMode = () => {
+    if (document.activeElement === document.body) {
+      // No input is selected - accept the key press
+      this.cameraManager.cycleKartCameraMode();
+    }
+  };
+
+  private updateSkidRumble() {
+    if (!this.characterManager.localCharacter) {
+      return;
+    }
+    const physics = this.characterManager.localController.getPhysics();
+    if (physics.isSkidding) {
+      this.gamepadInputSource.rumble(skidRumbleIntensity, skidRumbleDuration);
+    }
+  }
+
   public update(): void {
     this.timeManager.update();
+    this.replayPlayer?.update(this.timeManager.deltaTime);
+    this.replayControls?.update();
+    this.kartInputManager.update();
+    this.cameraManager.setLookingBack(this.kartInputManager.isActionPressed("lookBack"));
+    // The camera orbits whilst there is no kart to follow (e.g. before spawning) and once the race is over
+    this.cameraManager.setCinematic(
+      !this.characterManager.isFollowingKart() || this.raceManager.isLocalRaceFinished(),
+    );
     this.characterManager.update();
+    this.updateSkidRumble();
+    this.raceManager.update();
+    this.itemManager.update();
+    this.spectatorManager.update();
     this.voiceChatManager?.speakingParticipants.forEach((value: boolean, id: number) => {
       this.characterManager.setSpeakingCharacter(id, value);
     });
@@ -602,14 +939,17 @@ export class Networked3dWebExperienceClient {
     this.composer.render(this.timeManager);
     if (this.tweakPane?.guiVisible) {
       this.tweakPane.updateStats(this.timeManager);
+      this.tweakPane.updateNetworkStats(
+        this.networkClient.getNetworkStats(),
+        this.characterManager.getRemoteInterpolationStats(),
+      );
       this.tweakPane.updateCameraData(this.cameraManager);
       if (this.characterManager.localCharacter && this.characterManager.localController) {
         if (!this.characterControllerPaneSet) {
           this.characterControllerPaneSet = true;
           this.characterManager.setupTweakPane(this.tweakPane);
         } else {
-          // TODO: Update TweakPane to work with KartController
-          // this.tweakPane.updateCharacterData(this.characterManager.localController);
+          this.characterManager.updateTweakPane(this.tweakPane);
         }
       }
     }
@@ -628,6 +968,11 @@ export class Networked3dWebExperienceClient {
     if (this.clientId === null) {
       throw new Error("Client ID not set");
     }
+    if (this.config.spectator) {
+      // Spectators don't have a kart
+      this.spectatorManager.setSpectating(true);
+      return;
+    }
     const spawnPosition = new Vector3();
     spawnPosition.set(
       this.randomWithVariance(
@@ -696,6 +1041,14 @@ export class Networked3dWebExperienceClient {
     }
     this.mmlFrames = {};
     this.textChatUI?.dispose();
+    this.raceManager.dispose();
+    this.itemManager.dispose();
+    this.spectatorManager.dispose();
+    this.kartInputManager.dispose();
+    this.gamepadStatusIndicator.dispose();
+    this.keyBindingsPanel.dispose();
+    this.ghostManager.dispose();
+    this.stopReplay();
     this.mmlCompositionScene.dispose();
     this.composer.dispose();
     this.tweakPane?.dispose();
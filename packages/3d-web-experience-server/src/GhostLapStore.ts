@@ -0,0 +1,43 @@
+import { GhostLap, validateGhostLap } from "@mml-io/3d-web-kart-race";
+
+export type GhostLapStoreConfig = {
+  // The number of laps returned to clients
+  maxGhosts?: number;
+};
+
+const defaultMaxGhosts = 5;
+
+/*
+ Keeps the fastest lap submitted by each user so that clients can download them to race against as ghosts. Laps are
+ held in memory, so they are lost when the server restarts.
+
+ Users are identified by a key that is stable for the user (e.g. their session token) rather than by their username,
+ which any number of users can share.
+*/
+export class GhostLapStore {
+  private bestLapsByUser = new Map<string, GhostLap>();
+
+  constructor(private config: GhostLapStoreConfig = {}) {}
+
+  // Returns whether the lap replaced the user's previous best
+  public submit(userKey: string, username: string, lap: unknown): boolean {
+    const ghost = { ...validateGhostLap(lap), username };
+    const previousBest = this.bestLapsByUser.get(userKey);
+    if (previousBest && previousBest.lapTime <= ghost.lapTime) {
+      return false;
+    }
+    this.bestLapsByUser.set(userKey, ghost);
+    return true;
+  }
+
+  // The fastest laps, ordered by lap time
+  public getGhosts(): Array<GhostLap> {
+    return Array.from(this.bestLapsByUser.values())
+      .sort((a, b) => a.lapTime - b.lapTime)
+      .slice(0, this.config.maxGhosts ?? defaultMaxGhosts);
+  }
+
+  public clear() {
+    this.bestLapsByUser.clear();
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  ItemBoxConfig,
+  ItemSession,
+  ItemSessionEvent,
+  KartItemDefinition,
+  KartItemRegistry,
+} from "@mml-io/3d-web-kart-race";
+import {
+  FromUserNetworkingServerMessage,
+  USER_NETWORKING_ITEM_EVENT_MESSAGE_TYPE,
+  USER_NETWORKING_ITEM_STATE_MESSAGE_TYPE,
+  UserNetworkingClientUpdate,
+  UserNetworkingItemEvent,
+} from "@mml-io/3d-web-user-networking";
+
+export type ItemServerConfig = {
+  // The item boxes that clients can collect items from
+  itemBoxes: Array<ItemBoxConfig>;
+  // The items that item boxes give out (defaults to the built-in items)
+  definitions?: Array<KartItemDefinition>;
+  itemBoxRespawnTime?: number;
+  pickupDistance?: number;
+  // Milliseconds between item state messages whilst items are in the world
+  stateUpdateRate?: number;
+  sendMessage: (message: FromUserNetworkingServerMessage) => void;
+  onItemEvent?: (event: ItemSessionEvent) => void;
+};
+
+const defaultStateUpdateRate = 50;
+
+function toNetworkEvent(event: ItemSessionEvent): UserNetworkingItemEvent {
+  switch (event.type) {
+    case "pickup":
+      return { type: "pickup", id: event.participantId, itemId: event.itemId, boxId: event.boxId };
+    case "use": {
+      const effect = event.item.effect;
+      return {
+        type: "use",
+        id: event.participantId,
+        itemId: event.item.id,
+        boost:
+          effect.type === "boost" ? { speed: effect.speed, duration: effect.duration } : undefined,
+      };
+    }
+    case "hit":
+      return {
+        type: "hit",
+        id: event.participantId,
+        ownerId: event.ownerId,
+        itemId: event.itemId,
+        spinOutDuration: event.hit.spinOutDuration,
+      };
+    case "blocked":
+      return {
+        type: "blocked",
+        id: event.participantId,
+        ownerId: event.ownerId,
+        itemId: event.itemId,
+      };
+  }
+}
+
+/*
+ Owns the items for all connected clients so that every client agrees on who collected which item box and which karts
+ were hit. Clients only ask to collect item boxes (which they find in MML) and to use their items - the server checks
+ that their karts are close enough to where it was configured to have the box they ask for, and decides which item it
+ gives.
+*/
+export class ItemServer {
+  public readonly registry: KartItemRegistry;
+  private session: ItemSession;
+  private stateIntervalTimer: NodeJS.Timeout;
+  // Set when the state has changed since it was last sent
+  private stateChanged = false;
+  private itemBoxCooldownCount = 0;
+
+  constructor(private config: ItemServerConfig) {
+    this.registry = new KartItemRegistry(config.definitions);
+    this.session = new ItemSession({
+      registry: this.registry,
+      itemBoxes: config.itemBoxes,
+      itemBoxRespawnTime: config.itemBoxRespawnTime,
+      pickupDistance: config.pickupDistance,
+      onEvent: (event: ItemSessionEvent) => {
+        this.handleItemEvent(event);
+      },
+    });
+    this.stateIntervalTimer = setInterval(
+      this.tick.bind(this),
+      this.config.stateUpdateRate ?? defaultStateUpdateRate,
+    );
+  }
+
+  private handleItemEvent(event: ItemSessionEvent) {
+    this.config.onItemEvent?.(event);
+    this.config.sendMessage({
+      type: USER_NETWORKING_ITEM_EVENT_MESSAGE_TYPE,
+      event: toNetworkEvent(event),
+    });
+    this.stateChanged = true;
+  }
+
+  private tick() {
+    const now = Date.now();
+    this.session.update(now);
+    // Item boxes respawning isn't an event, so the state is also sent when fewer boxes are waiting to respawn
+    const itemBoxCooldownCount = this.session.getItemBoxCooldowns(now).length;
+    if (itemBoxCooldownCount !== this.itemBoxCooldownCount) {
+      this.itemBoxCooldownCount = itemBoxCooldownCount;
+      this.stateChanged = true;
+    }
+    // Moving projectiles are sent continuously
+    if (this.stateChanged || this.session.getEntities().length > 0) {
+      this.stateChanged = false;
+      this.sendState(now);
+    }
+  }
+
+  public addClient(clientId: number) {
+    this.session.addParticipant(clientId);
+    // Sent so that the new client sees the item boxes that have been collected
+    this.stateChanged = true;
+  }
+
+  public removeClient(clientId: number) {
+    this.session.removeParticipant(clientId);
+    this.stateChanged = true;
+  }
+
+  public updateClient(clientId: number, update: UserNetworkingClientUpdate) {
+    if (!this.session.getParticipantIds().includes(clientId)) {
+      this.addClient(clientId);
+    }
+    // The heading is the rotation around the vertical axis (a kart's pitch and roll are ignored)
+    const heading = 2 * Math.atan2(update.rotation.quaternionY, update.rotation.quaternionW);
+    this.session.updateParticipantPosition(clientId, update.position, heading);
+  }
+
+  public collectItemBox(clientId: number, boxId: string): boolean {
+    return this.session.collectItemBox(clientId, boxId, Date.now());
+  }
+
+  public useItem(clientId: number): KartItemDefinition | null {
+    return this.session.useItem(clientId, Date.now());
+  }
+
+  public giveItem(clientId: number, itemId: string) {
+    this.session.giveItem(clientId, itemId);
+    this.stateChanged = true;
+  }
+
+  private sendState(now: number) {
+    this.config.sendMessage({
+      type: USER_NETWORKING_ITEM_STATE_MESSAGE_TYPE,
+      itemBoxes: this.session.getItemBoxCooldowns(now),
+      players: this.session.getParticipantStates(now).map((state) => ({
+        id: state.participantId,
+        item: state.item,
+        shieldRemaining: state.shieldRemaining,
+      })),
+      entities: this.session.getEntities().map((entity) => ({
+        id: entity.id,
+        itemId: entity.itemId,
+        ownerId: entity.ownerId,
+        position: entity.position,
+        velocity: entity.velocity,
+      })),
+    });
+  }
+
+  public dispose() {
+    clearInterval(this.stateIntervalTimer);
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  KartPhysicsConfiguration,
+  kartSurfaces,
+  maxMiniTurboTier,
+  resolveKartPhysicsConfig,
+} from "@mml-io/3d-web-kart-physics";
+import { KartItemDefinition } from "@mml-io/3d-web-kart-race";
+import {
+  UserNetworkingMovementValidator,
+  UserNetworkingSpawnArea,
+  UserNetworkingUpdateViolation,
+} from "@mml-io/3d-web-user-networking";
+
+export type KartMovementValidationConfig = {
+  /*
+   The physics configurations that clients can drive karts with (defaults to the default preset). This should include
+   every preset that clients can switch to, as the limits allow for the fastest of them.
+  */
+  physicsConfigurations?: Array<KartPhysicsConfiguration>;
+  // Where karts spawn and respawn (matching the clients' spawn configuration) - without these karts can't respawn
+  spawnAreas?: Array<UserNetworkingSpawnArea>;
+  // "clamp" (the default) corrects offending updates, "reject" discards them
+  correction?: "clamp" | "reject";
+  // Meters that a kart can move beyond what the physics allows before the move counts as a teleport
+  teleportTolerance?: number;
+  // Called for each violation with the number of violations the client has made, e.g. to kick or flag the player
+  onViolation?: (
+    clientId: number,
+    violation: UserNetworkingUpdateViolation,
+    violationCount: number,
+  ) => void;
+};
+
+// Leaves room for the rounding of velocities in updates and for differences in frame timing between clients
+const movementLimitMargin = 1.1;
+
+/*
+ Derives the movement limits from the fastest of the kart physics configurations, allowing for the fastest surface, the
+ biggest boost (from a mini-turbo or an item) and being hit by another kart. Items that are registered after the server
+ has started aren't accounted for.
+*/
+export function createKartMovementValidator(
+  config: KartMovementValidationConfig,
+  itemDefinitions: Array<KartItemDefinition>,
+): UserNetworkingMovementValidator {
+  const physicsConfigs = (config.physicsConfigurations ?? [{}]).map((physicsConfiguration) =>
+    resolveKartPhysicsConfig(physicsConfiguration),
+  );
+  if (physicsConfigs.length === 0) {
+    throw new Error("Movement validation requires at least one kart physics configuration");
+  }
+  const surfaces = Object.values(kartSurfaces);
+  let maxBoostSpeed = Math.max(
+    ...physicsConfigs.map((physics) => physics.miniTurboSpeed * maxMiniTurboTier),
+  );
+  for (const definition of itemDefinitions) {
+    if (definition.effect.type === "boost") {
+      maxBoostSpeed = Math.max(maxBoostSpeed, definition.effect.speed);
+    }
+  }
+  const maxSurfaceImpulse = Math.max(...surfaces.map((surface) => surface.impulse));
+  const maxSpeedMultiplier = Math.max(...surfaces.map((surface) => surface.maxSpeedMultiplier));
+  const maxDrivingSpeed =
+    Math.max(...physicsConfigs.map((physics) => physics.maxSpeed)) * maxSpeedMultiplier +
+    maxBoostSpeed;
+  /*
+   A kart takes its half of the bounce from another kart's velocity along the contact normal, so a kart driving at top
+   speed can knock another one up to (1 + restitution) / 2 of that speed. The knock can be at an angle to the kart's
+   own velocity, which isn't capped outside of acceleration, so it can also take the kart beyond the top speed.
+  */
+  const maxRestitution = Math.max(...physicsConfigs.map((physics) => physics.bounceRestitution));
+  const maxCollisionImpulse = ((1 + maxRestitution) / 2) * maxDrivingSpeed;
+  return new UserNetworkingMovementValidator({
+    maxSpeed: Math.hypot(maxDrivingSpeed, maxCollisionImpulse) * movementLimitMargin,
+    maxAcceleration:
+      Math.max(...physicsConfigs.map((physics) => physics.acceleration)) * movementLimitMargin,
+    speedImpulse: (maxSurfaceImpulse + maxBoostSpeed + maxCollisionImpulse) * movementLimitMargin,
+    teleportTolerance: config.teleportTolerance,
+    spawnAreas: config.spawnAreas,
+    correction: config.correction,
+  });
+}
@@ -1,3 +1,9 @@
+import {
+  defaultKartItems,
+  ItemBoxConfig,
+  KartItemDefinition,
+  RaceTrackConfig,
+} from "@mml-io/3d-web-kart-race";
 import {
   CHAT_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
   CHAT_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
@@ -8,6 +14,11 @@ import {
   USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
   UserData,
   UserIdentity,
+  UserNetworkingClientUpdate,
+  UserNetworkingConnectionStats,
+  UserNetworkingInterestConfig,
+  UserNetworkingItemPickupMessage,
+  UserNetworkingRaceStanding,
   UserNetworkingServer,
 } from "@mml-io/3d-web-user-networking";
 import cors from "cors";
@@ -15,7 +26,14 @@ import express from "express";
 import enableWs from "express-ws";
 import WebSocket from "ws";
 
+import { GhostLapStore } from "./GhostLapStore";
+import { ItemServer } from "./ItemServer";
+import {
+  createKartMovementValidator,
+  KartMovementValidationConfig,
+} from "./KartMovementValidation";
 import { MMLDocumentsServer } from "./MMLDocumentsServer";
+import { RaceServer } from "./RaceServer";
 import { websocketDirectoryChangeListener } from "./websocketDirectoryChangeListener";
 
 type UserAuthenticator = {
@@ -36,6 +54,8 @@ export const defaultSessionTokenPlaceholder = "SESSION.TOKEN.PLACEHOLDER";
 
 export type Networked3dWebExperienceServerConfig = {
   connectionLimit?: number;
+  // The maximum number of spectators, who join without a kart (defaults to no limit, 0 to not allow spectators)
+  spectatorLimit?: number;
   networkPath: string;
   webClientServing: {
     indexUrl: string;
@@ -57,8 +77,39 @@ export type Networked3dWebExperienceServerConfig = {
     documentsUrl: string;
   };
   userAuthenticator: UserAuthenticator;
+  race?: {
+    // The track is required by the server to validate progress (MML-declared volumes are only known to clients)
+    track: RaceTrackConfig;
+    countdownDuration?: number;
+    finishTimeout?: number;
+  };
+  items?: {
+    // The item boxes are required by the server to validate pickups (MML-declared item boxes are only known to clients)
+    itemBoxes: Array<ItemBoxConfig>;
+    // The items that item boxes give out (defaults to the built-in items) - clients should register the same items
+    definitions?: Array<KartItemDefinition>;
+    // Milliseconds before a collected item box can be collected again
+    itemBoxRespawnTime?: number;
+    // The furthest (in meters) that a client can be from an item box that it collects
+    pickupDistance?: number;
+  };
+  // Checks the movement of karts against the kart physics, correcting (or rejecting) updates from modified clients
+  movementValidation?: KartMovementValidationConfig;
+  /*
+   Sends each racer the karts near it (by distance and view) at the rates of the tiers, and not the karts beyond them.
+   Race standings come from the race server (when racing is enabled), so distant karts still appear in them.
+  */
+  interestManagement?: UserNetworkingInterestConfig;
+  ghostServing?: {
+    // Clients download the fastest laps from (GET) and submit their personal bests to (POST) this URL
+    ghostsUrl: string;
+    maxGhosts?: number;
+    // Milliseconds that a submitted lap time may differ from a lap recorded by the race server (if racing is enabled)
+    lapTimeTolerance?: number;
+  };
 };
 
+const defaultLapTimeTolerance = 500;
 export class Networked3dWebExperienceServer {
   public userNetworkingServer: UserNetworkingServer;
 
@@ -66,6 +117,12 @@ export class Networked3dWebExperienceServer {
 
   public mmlDocumentsServer?: MMLDocumentsServer;
 
+  public raceServer?: RaceServer;
+
+  public itemServer?: ItemServer;
+
+  public ghostLapStore?: GhostLapStore;
+
   constructor(private config: Networked3dWebExperienceServerConfig) {
     if (this.config.mmlServing) {
       const { documentsWatchPath, documentsDirectoryRoot } = this.config.mmlServing;
@@ -80,8 +137,36 @@ export class Networked3dWebExperienceServer {
       });
     }
 
+    if (this.config.race) {
+      this.raceServer = new RaceServer({
+        track: this.config.race.track,
+        countdownDuration: this.config.race.countdownDuration,
+        finishTimeout: this.config.race.finishTimeout,
+        sendMessage: (message) => {
+          this.userNetworkingServer.sendMessageToAllClients(message);
+        },
+      });
+    }
+
+    if (this.config.items) {
+      this.itemServer = new ItemServer({
+        itemBoxes: this.config.items.itemBoxes,
+        definitions: this.config.items.definitions,
+        itemBoxRespawnTime: this.config.items.itemBoxRespawnTime,
+        pickupDistance: this.config.items.pickupDistance,
+        sendMessage: (message) => {
+          this.userNetworkingServer.sendMessageToAllClients(message);
+        },
+      });
+    }
+
+    if (this.config.ghostServing) {
+      this.ghostLapStore = new GhostLapStore({ maxGhosts: this.config.ghostServing.maxGhosts });
+    }
+
     this.userNetworkingServer = new UserNetworkingServer({
       connectionLimit: config.connectionLimit,
+      spectatorLimit: config.spectatorLimit,
       onClientConnect: (
         clientId: number,
         sessionToken: string,
@@ -106,7 +191,27 @@ export class Networked3dWebExperienceServer {
         if (this.chatNetworkingServer) {
           this.chatNetworkingServer.disconnectClientId(clientId);
         }
+        this.raceServer?.removeClient(clientId);
+        this.itemServer?.removeClient(clientId);
+      },
+      onClientUpdate: (clientId: number, update: UserNetworkingClientUpdate): void => {
+        this.raceServer?.updateClientPosition(clientId, update.position);
+        this.itemServer?.updateClient(clientId, update);
       },
+      onClientItemPickup: (clientId: number, message: UserNetworkingItemPickupMessage): void => {
+        this.itemServer?.collectItemBox(clientId, message.boxId);
+      },
+      onClientItemUse: (clientId: number): void => {
+        this.itemServer?.useItem(clientId);
+      },
+      updateValidator: this.config.movementValidation
+        ? createKartMovementValidator(
+            this.config.movementValidation,
+            this.config.items ? (this.config.items.definitions ?? defaultKartItems) : [],
+          )
+        : undefined,
+      onClientViolation: this.config.movementValidation?.onViolation,
+      interest: this.config.interestManagement,
     });
   }
 
@@ -115,6 +220,96 @@ export class Networked3dWebExperienceServer {
     this.userNetworkingServer.updateUserCharacter(clientId, userData);
   }
 
+  // Disconnects the client from the user and chat networking, telling it why if a message is given
+  public kickClient(clientId: number, message?: string) {
+    this.userNetworkingServer.kickClient(clientId, message);
+  }
+
+  // Returns the round trip time, packet loss and traffic of the client's connection (null if it isn't connected)
+  public getClientNetworkStats(clientId: number): UserNetworkingConnectionStats | null {
+    return this.userNetworkingServer.getClientNetworkStats(clientId);
+  }
+
+  private getRaceServer(): RaceServer {
+    if (!this.raceServer) {
+      throw new Error("Racing is not enabled - a race track must be provided in the server config");
+    }
+    return this.raceServer;
+  }
+
+  public startRace() {
+    this.getRaceServer().startRace();
+  }
+
+  public abortRace(): boolean {
+    return this.getRaceServer().abortRace();
+  }
+
+  public resetRace(track?: RaceTrackConfig) {
+    this.getRaceServer().resetRace(track);
+  }
+
+  public getRaceStandings(): Array<UserNetworkingRaceStanding> {
+    return this.getRaceServer().getStandings();
+  }
+
+  private getItemServer(): ItemServer {
+    if (!this.itemServer) {
+      throw new Error("Items are not enabled - items must be configured in the server config");
+    }
+    return this.itemServer;
+  }
+
+  // Adds an item that item boxes can give out (clients should register the same item)
+  public registerItem(definition: KartItemDefinition) {
+    this.getItemServer().registry.register(definition);
+  }
+
+  public giveItem(clientId: number, itemId: string) {
+    this.getItemServer().giveItem(clientId, itemId);
+  }
+
+  // Laps can only be verified if the server is tracking races - otherwise clients are trusted to time their own laps
+  private isRecordedLapTime(clientId: number, lapTime: unknown): boolean {
+    if (!this.raceServer) {
+      return true;
+    }
+    if (typeof lapTime !== "number") {
+      return false;
+    }
+    const tolerance = this.config.ghostServing?.lapTimeTolerance ?? defaultLapTimeTolerance;
+    const standing = this.raceServer.getStandings().find((standing) => standing.id === clientId);
+    return (
+      standing !== undefined &&
+      standing.lapTimes.some((recordedLapTime) => Math.abs(recordedLapTime - lapTime) <= tolerance)
+    );
+  }
+
+  private handleGhostSubmission(req: express.Request, res: express.Response) {
+    const ghostLapStore = this.ghostLapStore!;
+    const { sessionToken, ghost } = req.body ?? {};
+    const client =
+      typeof sessionToken === "string"
+        ? this.config.userAuthenticator.getClientIdForSessionToken(sessionToken)
+        : null;
+    const userData = client ? this.userNetworkingServer.getUserData(client.id) : null;
+    if (!client || !userData) {
+      res.status(401).send("Unknown session");
+      return;
+    }
+    if (!this.isRecordedLapTime(client.id, ghost?.lapTime)) {
+      res.status(403).send("Lap time does not match a lap recorded by the server");
+      return;
+    }
+    try {
+      ghostLapStore.submit(sessionToken, userData.username, ghost);
+    } catch (error) {
+      res.status(400).send((error as Error).message);
+      return;
+    }
+    res.sendStatus(204);
+  }
+
   public dispose(errorMessage?: string) {
     this.userNetworkingServer.dispose(
       errorMessage
@@ -139,6 +334,8 @@ export class Networked3dWebExperienceServer {
     if (this.mmlDocumentsServer) {
       this.mmlDocumentsServer.dispose();
     }
+    this.raceServer?.dispose();
+    this.itemServer?.dispose();
   }
 
   registerExpressRoutes(app: enableWs.Application) {
@@ -188,6 +385,24 @@ export class Networked3dWebExperienceServer {
       });
     }
 
+    const ghostServing = this.config.ghostServing;
+    const ghostLapStore = this.ghostLapStore;
+    if (ghostServing && ghostLapStore) {
+      app.get(ghostServing.ghostsUrl, cors(), (req: express.Request, res: express.Response) => {
+        res.json(ghostLapStore.getGhosts());
+      });
+      // Submissions are JSON, so browsers check that other origins are allowed first
+      app.options(ghostServing.ghostsUrl, cors());
+      app.post(
+        ghostServing.ghostsUrl,
+        cors(),
+        express.json({ limit: "2mb" }),
+        (req: express.Request, res: express.Response) => {
+          this.handleGhostSubmission(req, res);
+        },
+      );
+    }
+
     if (this.config.assetServing) {
       // Serve assets with CORS allowing all origins
       app.use(
@@ -0,0 +1,165 @@
+import {
+  RacePhase,
+  RaceSession,
+  RaceSessionEvent,
+  RaceStanding,
+  RaceTrackConfig,
+  RaceVector3,
+} from "@mml-io/3d-web-kart-race";
+import {
+  FromUserNetworkingServerMessage,
+  USER_NETWORKING_RACE_RESULTS_MESSAGE_TYPE,
+  USER_NETWORKING_RACE_STATE_MESSAGE_TYPE,
+  UserNetworkingRaceStanding,
+} from "@mml-io/3d-web-user-networking";
+
+export type RaceServerConfig = {
+  track: RaceTrackConfig;
+  countdownDuration?: number;
+  finishTimeout?: number;
+  // Milliseconds between race state messages whilst a race is in progress
+  stateUpdateRate?: number;
+  sendMessage: (message: FromUserNetworkingServerMessage) => void;
+  onRaceEvent?: (event: RaceSessionEvent) => void;
+};
+
+const defaultStateUpdateRate = 250;
+
+function toNetworkStanding(standing: RaceStanding): UserNetworkingRaceStanding {
+  return {
+    id: standing.participantId,
+    position: standing.position,
+    lap: standing.lap,
+    nextCheckpointIndex: standing.nextCheckpointIndex,
+    lapTimes: standing.lapTimes,
+    bestLapTime: standing.bestLapTime,
+    totalTime: standing.totalTime,
+  };
+}
+
+/*
+ Owns the race state for all connected clients. Progress is only evaluated from the positions the server receives, so
+ checkpoints must be passed in order from the server's perspective for laps to count.
+*/
+export class RaceServer {
+  private session: RaceSession;
+  private participantIds = new Set<number>();
+  private stateIntervalTimer: NodeJS.Timeout;
+
+  constructor(private config: RaceServerConfig) {
+    this.session = this.createSession(config.track);
+    this.stateIntervalTimer = setInterval(
+      this.tick.bind(this),
+      this.config.stateUpdateRate ?? defaultStateUpdateRate,
+    );
+  }
+
+  private createSession(track: RaceTrackConfig): RaceSession {
+    const session = new RaceSession({
+      track,
+      countdownDuration: this.config.countdownDuration,
+      finishTimeout: this.config.finishTimeout,
+      onEvent: (event: RaceSessionEvent) => {
+        this.handleRaceEvent(event);
+      },
+    });
+    for (const participantId of this.participantIds) {
+      session.addParticipant(participantId);
+    }
+    return session;
+  }
+
+  private handleRaceEvent(event: RaceSessionEvent) {
+    this.config.onRaceEvent?.(event);
+    if (event.type === "phase" && event.phase === "finished") {
+      this.sendState();
+      this.sendResults();
+    } else if (event.type !== "checkpoint") {
+      // Phase changes, completed laps and finishes are sent immediately rather than waiting for the next tick
+      this.sendState();
+    }
+  }
+
+  private tick() {
+    const now = Date.now();
+    this.session.update(now);
+    if (this.session.getPhase() !== "idle") {
+      this.sendState(now);
+    }
+  }
+
+  public getPhase(): RacePhase {
+    return this.session.getPhase();
+  }
+
+  public getTrack(): RaceTrackConfig {
+    return this.session.track;
+  }
+
+  public getStandings(): Array<UserNetworkingRaceStanding> {
+    return this.session.getStandings().map(toNetworkStanding);
+  }
+
+  public addClient(clientId: number) {
+    this.participantIds.add(clientId);
+    this.session.addParticipant(clientId);
+  }
+
+  public removeClient(clientId: number) {
+    this.participantIds.delete(clientId);
+    this.session.removeParticipant(clientId, Date.now());
+  }
+
+  public updateClientPosition(clientId: number, position: RaceVector3) {
+    if (!this.participantIds.has(clientId)) {
+      this.addClient(clientId);
+    }
+    this.session.updateParticipantPosition(clientId, position, Date.now());
+  }
+
+  public startRace() {
+    this.session.startCountdown(Date.now());
+  }
+
+  // Cancels a countdown or a race in progress, discarding any progress
+  public abortRace(): boolean {
+    const phase = this.session.getPhase();
+    if (phase !== "countdown" && phase !== "racing") {
+      return false;
+    }
+    this.session.abort(Date.now());
+    return true;
+  }
+
+  // Returns to the idle phase (discarding any results) and optionally replaces the track for the next race
+  public resetRace(track?: RaceTrackConfig) {
+    const previousPhase = this.session.getPhase();
+    this.session = this.createSession(track ?? this.session.track);
+    if (previousPhase !== "idle") {
+      this.sendState();
+    }
+  }
+
+  private sendState(now: number = Date.now()) {
+    this.config.sendMessage({
+      type: USER_NETWORKING_RACE_STATE_MESSAGE_TYPE,
+      phase: this.session.getPhase(),
+      laps: this.session.track.laps,
+      countdownRemaining: this.session.getCountdownRemaining(now),
+      elapsedTime: this.session.getElapsedTime(now),
+      standings: this.getStandings(),
+    });
+  }
+
+  private sendResults() {
+    this.config.sendMessage({
+      type: USER_NETWORKING_RACE_RESULTS_MESSAGE_TYPE,
+      laps: this.session.track.laps,
+      results: this.getStandings(),
+    });
+  }
+
+  public dispose() {
+    clearInterval(this.stateIntervalTimer);
+  }
+}
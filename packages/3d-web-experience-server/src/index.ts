@@ -1,3 +1,7 @@
+export * from "./GhostLapStore";
+export * from "./ItemServer";
+export * from "./KartMovementValidation";
 export * from "./MMLDocumentsServer";
 export * from "./Networked3dWebExperienceServer";
+export * from "./RaceServer";
 export * from "./websocketDirectoryChangeListener";
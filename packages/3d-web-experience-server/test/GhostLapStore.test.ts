@@ -0,0 +1,75 @@
+import { GhostLap } from "@mml-io/3d-web-kart-race";
+
+import { GhostLapStore } from "../src/GhostLapStore";
+
+function createLap(lapTime: number): GhostLap {
+  return {
+    lapTime,
+    samples: [
+      { time: 0, position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0, w: 1 } },
+      { time: lapTime, position: { x: 10, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0, w: 1 } },
+    ],
+  };
+}
+
+describe("GhostLapStore", () => {
+  test("should only replace a user's lap with a faster one", () => {
+    const store = new GhostLapStore();
+    expect(store.submit("session-a", "racer", createLap(30000))).toEqual(true);
+    expect(store.submit("session-a", "racer", createLap(31000))).toEqual(false);
+    expect(store.submit("session-a", "racer", createLap(30000))).toEqual(false);
+    expect(store.getGhosts().map((ghost) => ghost.lapTime)).toEqual([30000]);
+
+    expect(store.submit("session-a", "racer", createLap(29000))).toEqual(true);
+    expect(store.getGhosts()).toEqual([{ ...createLap(29000), username: "racer" }]);
+  });
+
+  test("should keep the laps of users that share a username", () => {
+    const store = new GhostLapStore();
+    store.submit("session-a", "racer", createLap(30000));
+    store.submit("session-b", "racer", createLap(32000));
+    expect(store.getGhosts().map((ghost) => ghost.lapTime)).toEqual([30000, 32000]);
+  });
+
+  test("should return the fastest laps up to the maximum", () => {
+    const store = new GhostLapStore({ maxGhosts: 2 });
+    store.submit("session-a", "a", createLap(33000));
+    store.submit("session-b", "b", createLap(31000));
+    store.submit("session-c", "c", createLap(32000));
+    expect(store.getGhosts().map((ghost) => ghost.username)).toEqual(["b", "c"]);
+
+    store.clear();
+    expect(store.getGhosts()).toEqual([]);
+  });
+
+  test("should label laps with the server's username rather than the submitted one", () => {
+    const store = new GhostLapStore();
+    store.submit("session-a", "racer", { ...createLap(30000), username: "someone else" });
+    expect(store.getGhosts()[0].username).toEqual("racer");
+  });
+
+  test("should reject invalid laps without replacing the user's best", () => {
+    const store = new GhostLapStore();
+    store.submit("session-a", "racer", createLap(30000));
+
+    expect(() => store.submit("session-a", "racer", null)).toThrow("A ghost lap must be an object");
+    expect(() => store.submit("session-a", "racer", { ...createLap(20000), lapTime: -1 })).toThrow(
+      "Invalid ghost lap time: -1",
+    );
+    expect(() => store.submit("session-a", "racer", { ...createLap(20000), samples: [] })).toThrow(
+      "A ghost lap requires between 2 and",
+    );
+    const unordered = createLap(20000);
+    unordered.samples.reverse();
+    expect(() => store.submit("session-a", "racer", unordered)).toThrow(
+      "Ghost lap samples must be ordered by time within the lap",
+    );
+    const invalidSample = createLap(20000);
+    (invalidSample.samples[1].position as { x: unknown }).x = "10";
+    expect(() => store.submit("session-a", "racer", invalidSample)).toThrow(
+      "Invalid ghost lap sample",
+    );
+
+    expect(store.getGhosts().map((ghost) => ghost.lapTime)).toEqual([30000]);
+  });
+});
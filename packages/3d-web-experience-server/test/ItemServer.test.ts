@@ -0,0 +1,227 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { KartItemDefinition } from "@mml-io/3d-web-kart-race";
+import {
+  UserData,
+  UserNetworkingClient,
+  UserNetworkingClientUpdate,
+  UserNetworkingItemEvent,
+  UserNetworkingItemStateMessage,
+  UserNetworkingItemPickupMessage,
+  UserNetworkingServer,
+} from "@mml-io/3d-web-user-networking";
+import express from "express";
+import enableWs from "express-ws";
+
+import { ItemServer } from "../src/ItemServer";
+
+import { createWaitable, waitUntil } from "./test-utils";
+
+// The only item that item boxes give out, so that pickups are predictable
+const boost: KartItemDefinition = {
+  id: "boost",
+  name: "Boost",
+  color: 0xffffff,
+  weight: 1,
+  effect: { type: "boost", speed: 10, duration: 1 },
+};
+
+// Wires the item server to the user networking in the same way as Networked3dWebExperienceServer
+function startItemServer(port: number) {
+  const itemServer = new ItemServer({
+    itemBoxes: [
+      { id: "near-box", position: { x: 2, y: 0, z: 0 } },
+      { id: "other-box", position: { x: -2, y: 0, z: 0 } },
+      { id: "far-box", position: { x: 50, y: 0, z: 0 } },
+    ],
+    definitions: [boost],
+    itemBoxRespawnTime: 3000,
+    pickupDistance: 5,
+    stateUpdateRate: 20,
+    sendMessage: (message) => {
+      userNetworkingServer.sendMessageToAllClients(message);
+    },
+  });
+  const userNetworkingServer = new UserNetworkingServer({
+    onClientConnect: (clientId: number): UserData | null => {
+      return {
+        username: `racer${clientId}`,
+        characterDescription: { meshFileUrl: "http://example.com/racer.glb" },
+      };
+    },
+    onClientUserIdentityUpdate: (): UserData | null => {
+      return null;
+    },
+    onClientDisconnect: (clientId: number): void => {
+      itemServer.removeClient(clientId);
+    },
+    onClientUpdate: (clientId: number, update: UserNetworkingClientUpdate) => {
+      itemServer.updateClient(clientId, update);
+    },
+    onClientItemPickup: (clientId: number, message: UserNetworkingItemPickupMessage): void => {
+      itemServer.collectItemBox(clientId, message.boxId);
+    },
+    onClientItemUse: (clientId: number): void => {
+      itemServer.useItem(clientId);
+    },
+  });
+
+  const { app } = enableWs(express());
+  app.ws("/user-networking", (ws) => {
+    userNetworkingServer.connectClient(ws);
+  });
+  const listener = app.listen(port);
+  return {
+    itemServer,
+    stop: async () => {
+      await waitUntil(
+        () => (userNetworkingServer as any).allClientsById.size === 0,
+        "wait for server to see the removal of the clients",
+      );
+      itemServer.dispose();
+      userNetworkingServer.dispose();
+      listener.close();
+    },
+  };
+}
+
+async function connectClient(port: number) {
+  const [identityPromise, identityResolve] = await createWaitable<number>();
+  const itemStates: Array<UserNetworkingItemStateMessage> = [];
+  const itemEvents: Array<UserNetworkingItemEvent> = [];
+  const client = new UserNetworkingClient({
+    url: `ws://localhost:${port}/user-networking`,
+    sessionToken: "session-token",
+    websocketFactory: (url) => new WebSocket(url),
+    statusUpdateCallback: () => {},
+    assignedIdentity: (clientId: number) => {
+      identityResolve(clientId);
+    },
+    clientUpdate: () => {},
+    clientProfileUpdated: () => {},
+    onServerError: (error) => {
+      console.error("Received server error", error);
+    },
+    onItemState: (itemState) => {
+      itemStates.push(itemState);
+    },
+    onItemEvent: (itemEvent) => {
+      itemEvents.push(itemEvent);
+    },
+  });
+  const id = await identityPromise;
+  client.sendUpdate({
+    id,
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+  });
+  // The server sends the item state once it has added the client
+  await waitUntil(
+    () => itemStates.some((itemState) => itemState.players.some((player) => player.id === id)),
+    "wait for the server to add the client",
+  );
+  return { id, client, itemStates, itemEvents };
+}
+
+function getLatestPlayers(itemStates: Array<UserNetworkingItemStateMessage>) {
+  return itemStates[itemStates.length - 1].players;
+}
+
+describe("ItemServer", () => {
+  test("should only give items from item boxes that clients are close to and that have respawned", async () => {
+    const { stop } = startItemServer(8602);
+    const racer = await connectClient(8602);
+
+    // The far box is too far from the kart's position on the server, wherever the client claims the box is
+    racer.client.sendMessage({
+      type: "item_pickup",
+      boxId: "far-box",
+      position: { x: 0, y: 0, z: 0 },
+    });
+    // Only the item boxes that the server knows about give items
+    racer.client.sendMessage({
+      type: "item_pickup",
+      boxId: "made-up-box",
+      position: { x: 0, y: 0, z: 0 },
+    });
+    racer.client.sendMessage({
+      type: "item_pickup",
+      boxId: "near-box",
+      position: { x: 2, y: 0, z: 0 },
+    });
+    await waitUntil(() => racer.itemEvents.length === 1, "wait for the pickup");
+    expect(racer.itemEvents).toEqual([
+      { type: "pickup", id: racer.id, itemId: "boost", boxId: "near-box" },
+    ]);
+    await waitUntil(
+      () => getLatestPlayers(racer.itemStates)[0].item === "boost",
+      "wait for the item state",
+    );
+    expect(racer.itemStates[racer.itemStates.length - 1].itemBoxes).toEqual([
+      { id: "near-box", respawnRemaining: expect.any(Number) },
+    ]);
+
+    racer.client.sendMessage({ type: "item_use" });
+    await waitUntil(() => racer.itemEvents.length === 2, "wait for the item to be used");
+    expect(racer.itemEvents[1]).toEqual({
+      type: "use",
+      id: racer.id,
+      itemId: "boost",
+      boost: { speed: 10, duration: 1 },
+    });
+    await waitUntil(
+      () => getLatestPlayers(racer.itemStates)[0].item === null,
+      "wait for the used item to be removed",
+    );
+
+    // The collected box hasn't respawned yet, so only the other box gives an item
+    racer.client.sendMessage({
+      type: "item_pickup",
+      boxId: "near-box",
+      position: { x: 2, y: 0, z: 0 },
+    });
+    racer.client.sendMessage({
+      type: "item_pickup",
+      boxId: "other-box",
+      position: { x: -2, y: 0, z: 0 },
+    });
+    await waitUntil(() => racer.itemEvents.length === 3, "wait for the second pickup");
+    expect(racer.itemEvents[2]).toMatchObject({ type: "pickup", boxId: "other-box" });
+
+    racer.client.stop();
+    await stop();
+  });
+
+  test("should share item state between clients and forget clients that leave", async () => {
+    const { itemServer, stop } = startItemServer(8603);
+    const first = await connectClient(8603);
+    const second = await connectClient(8603);
+
+    itemServer.giveItem(first.id, "boost");
+    await waitUntil(
+      () =>
+        getLatestPlayers(second.itemStates).some(
+          (player) => player.id === first.id && player.item === "boost",
+        ),
+      "wait for the second client to see the first client's item",
+    );
+    // Using an item that the client doesn't hold does nothing
+    expect(itemServer.useItem(second.id)).toBeNull();
+
+    first.client.stop();
+    await waitUntil(
+      () => getLatestPlayers(second.itemStates).every((player) => player.id !== first.id),
+      "wait for the first client to be removed",
+    );
+    expect(getLatestPlayers(second.itemStates)).toEqual([
+      { id: second.id, item: null, shieldRemaining: 0 },
+    ]);
+    expect(second.itemEvents).toEqual([]);
+
+    second.client.stop();
+    await stop();
+  });
+});
@@ -0,0 +1,54 @@
+import { UserNetworkingClientUpdate } from "@mml-io/3d-web-user-networking";
+
+import { createKartMovementValidator } from "../src/KartMovementValidation";
+
+function createUpdate(speed: number): UserNetworkingClientUpdate {
+  return {
+    id: 1,
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+    kart: {
+      velocity: { x: speed, y: 0, z: 0 },
+      steering: 0,
+      throttle: 1,
+      drifting: false,
+      skidding: false,
+      reversing: false,
+    },
+  };
+}
+
+describe("createKartMovementValidator", () => {
+  test("should allow for the fastest of the physics configurations that clients can use", () => {
+    // Faster than an arcade kart can go, but not a simulation kart (180 m/s) on a boost pad with a mini-turbo
+    const simulationSpeed = 280;
+
+    const arcadeValidator = createKartMovementValidator({}, []);
+    expect(
+      arcadeValidator.validateUpdate(1, createUpdate(simulationSpeed), 0).violations,
+    ).toMatchObject([{ type: "speed" }]);
+
+    const validator = createKartMovementValidator(
+      { physicsConfigurations: [{ preset: "arcade" }, { preset: "simulation" }] },
+      [],
+    );
+    expect(validator.validateUpdate(1, createUpdate(simulationSpeed), 0).violations).toEqual([]);
+
+    expect(() => createKartMovementValidator({ physicsConfigurations: [] }, [])).toThrow(
+      "Movement validation requires at least one kart physics configuration",
+    );
+  });
+
+  test("should allow karts to be knocked up to speed by other karts", () => {
+    const validator = createKartMovementValidator({}, []);
+    validator.validateUpdate(1, createUpdate(0), 0);
+    // A stopped kart that is hit by a kart at top speed (120 m/s) takes 80% of its speed with the default restitution
+    expect(validator.validateUpdate(1, createUpdate(96), 100).violations).toEqual([]);
+    // Faster than any collision can knock it
+    expect(validator.validateUpdate(1, createUpdate(400), 200).violations).toMatchObject([
+      { type: "acceleration" },
+      { type: "speed" },
+    ]);
+  });
+});
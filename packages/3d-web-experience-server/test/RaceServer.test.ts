@@ -0,0 +1,220 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { RaceTrackConfig, RaceVector3 } from "@mml-io/3d-web-kart-race";
+import {
+  UserData,
+  UserNetworkingClient,
+  UserNetworkingClientUpdate,
+  UserNetworkingRaceResultsMessage,
+  UserNetworkingRaceStateMessage,
+  UserNetworkingServer,
+} from "@mml-io/3d-web-user-networking";
+import express from "express";
+import enableWs from "express-ws";
+
+import { RaceServer, RaceServerConfig } from "../src/RaceServer";
+
+import { createWaitable, waitUntil } from "./test-utils";
+
+// A straight track along X: checkpoints at x=10 and x=20, start/finish line at x=0
+const track: RaceTrackConfig = {
+  checkpoints: [
+    { position: { x: 10, y: 0, z: 0 }, size: { x: 1, y: 4, z: 10 } },
+    { position: { x: 20, y: 0, z: 0 }, size: { x: 1, y: 4, z: 10 } },
+  ],
+  startFinishLine: { position: { x: 0, y: 0, z: 0 }, size: { x: 1, y: 4, z: 10 } },
+  laps: 1,
+};
+
+// Both checkpoints and back over the start/finish line
+const lapPositions: Array<RaceVector3> = [
+  { x: 15, y: 0, z: 0 },
+  { x: 25, y: 0, z: 0 },
+  { x: 25, y: 0, z: 8 },
+  { x: -5, y: 0, z: 8 },
+  { x: -5, y: 0, z: 0 },
+  { x: 2, y: 0, z: 0 },
+];
+
+function createUpdate(id: number, position: RaceVector3): UserNetworkingClientUpdate {
+  return { id, position, rotation: { quaternionY: 0, quaternionW: 1 }, state: 0 };
+}
+
+// Wires the race server to the user networking in the same way as Networked3dWebExperienceServer
+function startRaceServer(port: number, config: Omit<RaceServerConfig, "track" | "sendMessage">) {
+  const receivedUpdates: Array<number> = [];
+  const raceServer = new RaceServer({
+    ...config,
+    track,
+    sendMessage: (message) => {
+      userNetworkingServer.sendMessageToAllClients(message);
+    },
+  });
+  const userNetworkingServer = new UserNetworkingServer({
+    onClientConnect: (clientId: number): UserData | null => {
+      return {
+        username: `racer${clientId}`,
+        characterDescription: { meshFileUrl: "http://example.com/racer.glb" },
+      };
+    },
+    onClientUserIdentityUpdate: (): UserData | null => {
+      return null;
+    },
+    onClientDisconnect: (clientId: number): void => {
+      raceServer.removeClient(clientId);
+    },
+    onClientUpdate: (clientId: number, update: UserNetworkingClientUpdate) => {
+      raceServer.updateClientPosition(clientId, update.position);
+      receivedUpdates.push(clientId);
+    },
+  });
+
+  const { app } = enableWs(express());
+  app.ws("/user-networking", (ws) => {
+    userNetworkingServer.connectClient(ws);
+  });
+  const listener = app.listen(port);
+  return {
+    raceServer,
+    userNetworkingServer,
+    receivedUpdates,
+    stop: async () => {
+      await waitUntil(
+        () => (userNetworkingServer as any).allClientsById.size === 0,
+        "wait for server to see the removal of the clients",
+      );
+      raceServer.dispose();
+      userNetworkingServer.dispose();
+      listener.close();
+    },
+  };
+}
+
+async function connectClient(port: number) {
+  const [identityPromise, identityResolve] = await createWaitable<number>();
+  const raceStates: Array<UserNetworkingRaceStateMessage> = [];
+  const raceResults: Array<UserNetworkingRaceResultsMessage> = [];
+  const client = new UserNetworkingClient({
+    url: `ws://localhost:${port}/user-networking`,
+    sessionToken: "session-token",
+    websocketFactory: (url) => new WebSocket(url),
+    statusUpdateCallback: () => {},
+    assignedIdentity: (clientId: number) => {
+      identityResolve(clientId);
+    },
+    clientUpdate: () => {},
+    clientProfileUpdated: () => {},
+    onServerError: (error) => {
+      console.error("Received server error", error);
+    },
+    onRaceState: (raceState) => {
+      raceStates.push(raceState);
+    },
+    onRaceResults: (results) => {
+      raceResults.push(results);
+    },
+  });
+  const id = await identityPromise;
+  return { id, client, raceStates, raceResults };
+}
+
+function getStandingIds(raceStates: Array<UserNetworkingRaceStateMessage>): Array<number> {
+  return raceStates[raceStates.length - 1].standings.map((standing) => standing.id);
+}
+
+describe("RaceServer", () => {
+  test("should broadcast each phase of a race to clients and the results once it finishes", async () => {
+    const { raceServer, receivedUpdates, stop } = startRaceServer(8600, {
+      countdownDuration: 200,
+      stateUpdateRate: 20,
+    });
+    const racer = await connectClient(8600);
+    racer.client.sendUpdate(createUpdate(racer.id, { x: -2, y: 0, z: 0 }));
+    await waitUntil(() => receivedUpdates.length === 1, "wait for the server to see the racer");
+    // Nothing is sent whilst idle
+    expect(racer.raceStates).toEqual([]);
+
+    raceServer.startRace();
+    await waitUntil(
+      () => racer.raceStates.some((raceState) => raceState.phase === "racing"),
+      "wait for the race to start",
+    );
+    expect(racer.raceStates[0]).toMatchObject({ phase: "countdown", laps: 1, elapsedTime: 0 });
+    expect(racer.raceStates[0].countdownRemaining).toBeGreaterThan(0);
+    expect(getStandingIds(racer.raceStates)).toEqual([racer.id]);
+
+    for (const position of lapPositions) {
+      racer.client.sendUpdate(createUpdate(racer.id, position));
+    }
+    await waitUntil(() => racer.raceResults.length === 1, "wait for the race results");
+    expect(racer.raceStates[racer.raceStates.length - 1].phase).toEqual("finished");
+    expect(racer.raceResults[0].results).toHaveLength(1);
+    expect(racer.raceResults[0].results[0]).toMatchObject({ id: racer.id, position: 1, lap: 1 });
+    expect(racer.raceResults[0].results[0].totalTime).toBeGreaterThan(0);
+    expect(raceServer.getPhase()).toEqual("finished");
+
+    // Resetting returns the clients to the idle phase
+    const stateCount = racer.raceStates.length;
+    raceServer.resetRace();
+    await waitUntil(() => racer.raceStates.length > stateCount, "wait for the reset");
+    expect(racer.raceStates[racer.raceStates.length - 1]).toMatchObject({
+      phase: "idle",
+      standings: [],
+    });
+
+    racer.client.stop();
+    await stop();
+  });
+
+  test("should add and remove racers that join and leave during the countdown and the race", async () => {
+    const { raceServer, receivedUpdates, stop } = startRaceServer(8601, {
+      countdownDuration: 500,
+      stateUpdateRate: 20,
+    });
+    const first = await connectClient(8601);
+    first.client.sendUpdate(createUpdate(first.id, { x: -2, y: 0, z: 0 }));
+    await waitUntil(
+      () => receivedUpdates.length === 1,
+      "wait for the server to see the first racer",
+    );
+
+    raceServer.startRace();
+    // The second racer joins during the countdown and the first leaves before the race starts
+    const second = await connectClient(8601);
+    second.client.sendUpdate(createUpdate(second.id, { x: -2, y: 0, z: 2 }));
+    await waitUntil(
+      () => receivedUpdates.length === 2,
+      "wait for the server to see the second racer",
+    );
+    expect(raceServer.getPhase()).toEqual("countdown");
+    first.client.stop();
+    await waitUntil(
+      () => second.raceStates.some((raceState) => raceState.phase === "racing"),
+      "wait for the race to start",
+    );
+    expect(getStandingIds(second.raceStates)).toEqual([second.id]);
+
+    // The third racer joins whilst racing and takes part from the start time
+    const third = await connectClient(8601);
+    third.client.sendUpdate(createUpdate(third.id, { x: -2, y: 0, z: -2 }));
+    await waitUntil(
+      () => third.raceStates.length > 0 && getStandingIds(third.raceStates).length === 2,
+      "wait for the third racer to appear in the standings",
+    );
+    expect(getStandingIds(third.raceStates).sort()).toEqual([second.id, third.id].sort());
+
+    // Leaving during the race removes the racer from the standings
+    second.client.stop();
+    await waitUntil(
+      () => getStandingIds(third.raceStates).length === 1,
+      "wait for the second racer to be removed from the standings",
+    );
+    expect(getStandingIds(third.raceStates)).toEqual([third.id]);
+    expect(raceServer.getPhase()).toEqual("racing");
+
+    third.client.stop();
+    await stop();
+  });
+});
@@ -0,0 +1,3 @@
+import { handleLibraryBuild } from "../../utils/build-library";
+
+handleLibraryBuild();
@@ -0,0 +1,1127 @@
+import { Quaternion, Vector3 } from "three";
+
+import { KartCollisionBody, kartCollisionDimensions, KartContact } from "./kartCollisions";
+import { defaultKartSurface, KartSurfaceType, kartSurfaces } from "./KartSurfaces";
+
+/*
+ Friction and damping factors (groundFriction, coastingFriction, driftFriction, angularDamping and
+ driftSteeringInfluence) are what is kept (or blended) per step at referenceStepRate, and are scaled to the actual step
+ duration so that the kart handles the same at any tick rate.
+*/
+export interface KartPhysicsConfig {
+  maxSpeed: number;
+  acceleration: number;
+  deceleration: number;
+  steeringSpeed: number;
+  driftFactor: number;
+  groundFriction: number;
+  airResistance: number;
+  bounceRestitution: number;
+
+  // Input response (per second)
+  throttleResponse: number;
+  steeringResponse: number;
+  inputDecayRate: number;
+
+  // Steering curve - turning is reduced from full effectiveness to highSpeedSteering at steeringFalloffSpeed
+  highSpeedSteering: number;
+  steeringFalloffSpeed: number;
+  maxAngularVelocity: number;
+  angularDamping: number;
+
+  // Drifting starts when steering harder than driftSteeringThreshold above driftSpeedThreshold (after a hop when drifting
+  // manually)
+  driftSteeringThreshold: number;
+  driftSpeedThreshold: number;
+  // How much the kart's heading pulls its velocity round each step whilst drifting (0 keeps all momentum)
+  driftSteeringInfluence: number;
+  driftFriction: number;
+  // The upward speed of the hop that starts a manual drift
+  driftHopSpeed: number;
+
+  // Mini-turbo - each tier takes miniTurboChargeTime seconds of manual drifting to charge and releasing the drift adds
+  // miniTurboSpeed and miniTurboDuration seconds of boost (without ground friction) per tier
+  miniTurboChargeTime: number;
+  miniTurboSpeed: number;
+  miniTurboDuration: number;
+
+  // Braking
+  brakingFactor: number;
+  brakingLateralFriction: number;
+  reverseSpeedThreshold: number;
+
+  coastingFriction: number;
+  wallFriction: number;
+  gravity: number;
+
+  // Slopes and airtime
+  // How quickly (per second) the kart tilts to match the ground beneath it, and levels out whilst airborne
+  groundAlignmentRate: number;
+  airAlignmentRate: number;
+  // Surfaces steeper than this (in degrees) are walls rather than ground
+  maxGroundSlope: number;
+  // Meters between the bottom of the kart and the ground within which the kart stays on the ground
+  groundSnapDistance: number;
+  // The speed away from the ground (e.g. off the lip of a ramp) at which the kart leaves it
+  launchSpeed: number;
+  // The share of speed lost per m/s of speed into the ground when landing
+  landingFriction: number;
+}
+
+export const defaultKartPhysicsConfig: KartPhysicsConfig = {
+  maxSpeed: 120, // Reduced from 200 for better balance
+  acceleration: 70,
+  deceleration: 70,
+  steeringSpeed: 1.8,
+  driftFactor: 0.4,
+  groundFriction: 0.95,
+  airResistance: 0.008,
+  bounceRestitution: 0.6,
+
+  throttleResponse: 8,
+  steeringResponse: 12,
+  inputDecayRate: 3, // Slow decay for more momentum and sliding
+
+  highSpeedSteering: 0.5,
+  steeringFalloffSpeed: 30,
+  maxAngularVelocity: 4,
+  angularDamping: 0.92,
+
+  driftSteeringThreshold: 0.3,
+  driftSpeedThreshold: 15,
+  driftSteeringInfluence: 0.15,
+  driftFriction: 0.985, // Less friction than normal driving for longer slides
+  driftHopSpeed: 1.5,
+
+  miniTurboChargeTime: 0.8,
+  miniTurboSpeed: 4,
+  miniTurboDuration: 0.4,
+
+  brakingFactor: 0.9,
+  brakingLateralFriction: 0.675,
+  reverseSpeedThreshold: 2,
+
+  coastingFriction: 0.995,
+  wallFriction: 0.7,
+  gravity: 9.8,
+
+  groundAlignmentRate: 12,
+  airAlignmentRate: 2,
+  maxGroundSlope: 50,
+  groundSnapDistance: 0.1,
+  launchSpeed: 3,
+  landingFriction: 0.02,
+};
+
+export interface KartControlInput {
+  throttle: number;
+  steering: number;
+  drift: boolean;
+}
+
+export type KartRaycastHit = {
+  distance: number;
+  normal: Vector3;
+  point: Vector3;
+  // The surface of the geometry that was hit (defaults to asphalt)
+  surface?: KartSurfaceType;
+};
+
+// The world that the kart is simulated in (e.g. the MML scene on the client, or a test track)
+export type KartCollisionQueries = {
+  raycast(
+    origin: Vector3,
+    direction: Vector3,
+    maximumDistance: number | null,
+  ): KartRaycastHit | null;
+  // Other karts that the kart can collide with - overlaps shallower than the tolerance should be ignored
+  getKartContacts?(body: KartCollisionBody, tolerance: number): Array<KartContact>;
+};
+
+export type KartPhysicsOptions = {
+  collisions: KartCollisionQueries;
+  physicsConfig?: Partial<KartPhysicsConfig>;
+  // Drift whenever turning hard at speed rather than with the drift button (an accessibility option - there is no
+  // mini-turbo)
+  automaticDrift?: boolean;
+  // Meters of overlap with another kart that are ignored to absorb latency in its networked position
+  kartCollisionTolerance?: number;
+};
+
+// A plain (serializable) snapshot of everything that affects the next step
+export type KartPhysicsState = {
+  position: { x: number; y: number; z: number };
+  quaternion: { x: number; y: number; z: number; w: number };
+  velocity: { x: number; y: number; z: number };
+  angularVelocity: number;
+  throttleInput: number;
+  steeringInput: number;
+  isDrifting: boolean;
+  isGrounded: boolean;
+  isSkidding: boolean;
+  isReversing: boolean;
+  airTime: number;
+  surface: KartSurfaceType;
+  driftDirection: number;
+  driftCharge: number;
+  driftButtonHeld: boolean;
+  boostTime: number;
+  boostSpeed: number;
+  spinOutTime: number;
+};
+
+const defaultKartCollisionTolerance = 0.15;
+export const maxMiniTurboTier = 3;
+// Landing never takes away more than this share of the kart's speed
+const maxLandingSpeedLoss = 0.5;
+// The share of the kart's speed that is kept when it spins out, and how quickly it spins (radians per second)
+const spinOutSpeedRetained = 0.3;
+const spinOutRotationSpeed = 4 * Math.PI;
+
+// The contact points used to find the ground's slope beneath the kart (in the kart's local space)
+const wheelOffsets = [
+  new Vector3(-0.7, 0, 0.8),
+  new Vector3(0.7, 0, 0.8),
+  new Vector3(-0.7, 0, -0.8),
+  new Vector3(0.7, 0, -0.8),
+];
+// Wheels are probed from above so that the ground is still found when a wheel has sunk into a slope
+const wheelProbeHeight = 1;
+
+// The step rate (per second) that the per-step friction and damping factors are tuned for
+const referenceStepRate = 60;
+
+// Converts a factor that is applied once per step at the reference rate to one for a step of deltaTime seconds
+function perStepFactor(factor: number, deltaTime: number): number {
+  return Math.pow(factor, deltaTime * referenceStepRate);
+}
+
+const up = new Vector3(0, 1, 0);
+const down = new Vector3(0, -1, 0);
+const tempQuaternion = new Quaternion();
+const tempVector = new Vector3();
+const identityQuaternion = new Quaternion();
+
+type GroundContact = {
+  // The height of the ground beneath the kart's center
+  height: number;
+  normal: Vector3;
+  surface: KartSurfaceType;
+};
+
+/*
+ The kart simulation, independent of rendering and input devices so that it can be run anywhere (e.g. in tests or on
+ the server). Each call to step advances the simulation by the given time using only the input, the current state and
+ the collision queries, so running the same inputs with the same step durations always produces the same result.
+*/
+export class KartPhysics {
+  public position = new Vector3();
+  public quaternion = new Quaternion();
+  public velocity = new Vector3();
+  public angularVelocity: number = 0;
+  public throttleInput: number = 0;
+  public steeringInput: number = 0;
+  public isDrifting: boolean = false;
+  public isGrounded: boolean = true;
+  public isSkidding: boolean = false;
+  public isReversing: boolean = false;
+  // Seconds since the kart left the ground (0 whilst grounded)
+  public airTime: number = 0;
+  // The speed into the ground if the kart landed during the last step (0 otherwise)
+  public landingImpact: number = 0;
+  // The speed into walls or other karts if the kart hit any during the last step (0 otherwise)
+  public collisionImpact: number = 0;
+  // The surface that the kart is on (or last touched whilst airborne)
+  public surface: KartSurfaceType = defaultKartSurface;
+  // The direction of the current manual drift (1 for left, -1 for right and 0 when not drifting manually)
+  public driftDirection: number = 0;
+  // Seconds of mini-turbo charge built up during the current manual drift
+  public driftCharge: number = 0;
+  // Seconds of boost (from a mini-turbo or an item) remaining
+  public boostTime: number = 0;
+  // How far the kart may exceed its maximum speed whilst boosting
+  public boostSpeed: number = 0;
+  // Seconds remaining of a spin out, during which the controls are ignored
+  public spinOutTime: number = 0;
+  private driftButtonHeld: boolean = false;
+
+  private physicsConfig: KartPhysicsConfig;
+  private kartBounds = {
+    width: 1.4,
+    height: 0.5, // Adjusted for new wheel positioning - bottom of wheels at ground level
+    length: 1.8,
+  };
+  private collisionBody: KartCollisionBody = {
+    position: new Vector3(),
+    quaternion: new Quaternion(),
+    velocity: new Vector3(),
+    ...kartCollisionDimensions,
+  };
+
+  constructor(private options: KartPhysicsOptions) {
+    this.physicsConfig = { ...defaultKartPhysicsConfig, ...options.physicsConfig };
+  }
+
+  public getConfig(): KartPhysicsConfig {
+    return { ...this.physicsConfig };
+  }
+
+  public updateConfig(physicsConfig: Partial<KartPhysicsConfig>) {
+    this.physicsConfig = { ...this.physicsConfig, ...physicsConfig };
+  }
+
+  public getForward(target: Vector3): Vector3 {
+    return target.set(0, 0, 1).applyQuaternion(this.quaternion);
+  }
+
+  public setAutomaticDrift(automaticDrift: boolean) {
+    this.options.automaticDrift = automaticDrift;
+    this.endManualDrift();
+  }
+
+  public isAutomaticDrift(): boolean {
+    return this.options.automaticDrift ?? false;
+  }
+
+  // The mini-turbo that releasing the current drift would give (0 when it hasn't charged yet)
+  public getMiniTurboTier(): number {
+    if (this.driftDirection === 0) {
+      return 0;
+    }
+    return Math.min(
+      Math.floor(this.driftCharge / this.physicsConfig.miniTurboChargeTime),
+      maxMiniTurboTier,
+    );
+  }
+
+  public getUp(target: Vector3): Vector3 {
+    return target.set(0, 1, 0).applyQuaternion(this.quaternion);
+  }
+
+  // Places the kart (at rest) at the given transform - without a rotation the kart keeps its heading but is levelled
+  public reset(position: Vector3, quaternion?: Quaternion) {
+    this.position.copy(position);
+    if (quaternion) {
+      this.quaternion.copy(quaternion);
+    } else {
+      const forward = this.getForward(tempVector);
+      this.quaternion.setFromAxisAngle(up, Math.atan2(forward.x, forward.z));
+    }
+    this.velocity.set(0, 0, 0);
+    this.angularVelocity = 0;
+    this.throttleInput = 0;
+    this.steeringInput = 0;
+    this.isDrifting = false;
+    this.airTime = 0;
+    this.landingImpact = 0;
+    this.collisionImpact = 0;
+    this.driftButtonHeld = false;
+    this.boostTime = 0;
+    this.boostSpeed = 0;
+    this.spinOutTime = 0;
+    this.endManualDrift();
+  }
+
+  // Pushes the kart forwards by speed (m/s) and lets it exceed its maximum speed by as much for duration seconds
+  public applyBoost(speed: number, duration: number) {
+    const forward = this.getForward(tempVector);
+    this.velocity.addScaledVector(forward, speed);
+    this.boostSpeed = Math.max(this.boostTime > 0 ? this.boostSpeed : 0, speed);
+    this.boostTime = Math.max(this.boostTime, duration);
+  }
+
+  // Spins the kart around, taking away most of its speed and ignoring the controls for duration seconds
+  public spinOut(duration: number) {
+    this.velocity.multiplyScalar(spinOutSpeedRetained);
+    this.spinOutTime = Math.max(this.spinOutTime, duration);
+    this.boostTime = 0;
+    this.boostSpeed = 0;
+    this.endManualDrift();
+  }
+
+  public getState(): KartPhysicsState {
+    return {
+      position: { x: this.position.x, y: this.position.y, z: this.position.z },
+      quaternion: {
+        x: this.quaternion.x,
+        y: this.quaternion.y,
+        z: this.quaternion.z,
+        w: this.quaternion.w,
+      },
+      velocity: { x: this.velocity.x, y: this.velocity.y, z: this.velocity.z },
+      angularVelocity: this.angularVelocity,
+      throttleInput: this.throttleInput,
+      steeringInput: this.steeringInput,
+      isDrifting: this.isDrifting,
+      isGrounded: this.isGrounded,
+      isSkidding: this.isSkidding,
+      isReversing: this.isReversing,
+      airTime: this.airTime,
+      surface: this.surface,
+      driftDirection: this.driftDirection,
+      driftCharge: this.driftCharge,
+      driftButtonHeld: this.driftButtonHeld,
+      boostTime: this.boostTime,
+      boostSpeed: this.boostSpeed,
+      spinOutTime: this.spinOutTime,
+    };
+  }
+
+  public setState(state: KartPhysicsState) {
+    this.position.set(state.position.x, state.position.y, state.position.z);
+    this.quaternion.set(
+      state.quaternion.x,
+      state.quaternion.y,
+      state.quaternion.z,
+      state.quaternion.w,
+    );
+    this.velocity.set(state.velocity.x, state.velocity.y, state.velocity.z);
+    this.angularVelocity = state.angularVelocity;
+    this.throttleInput = state.throttleInput;
+    this.steeringInput = state.steeringInput;
+    this.isDrifting = state.isDrifting;
+    this.isGrounded = state.isGrounded;
+    this.isSkidding = state.isSkidding;
+    this.isReversing = state.isReversing;
+    this.airTime = state.airTime;
+    this.surface = state.surface;
+    this.driftDirection = state.driftDirection;
+    this.driftCharge = state.driftCharge;
+    this.driftButtonHeld = state.driftButtonHeld;
+    this.boostTime = state.boostTime;
+    this.boostSpeed = state.boostSpeed;
+    this.spinOutTime = state.spinOutTime;
+  }
+
+  // Advances the simulation by deltaTime seconds (a null input means no controls are being pressed)
+  public step(input: KartControlInput | null, deltaTime: number): void {
+    this.collisionImpact = 0;
+    this.boostTime = Math.max(this.boostTime - deltaTime, 0);
+    const isSpinningOut = this.spinOutTime > 0;
+    if (isSpinningOut) {
+      this.spinOutTime = Math.max(this.spinOutTime - deltaTime, 0);
+      input = null;
+    }
+    if (input) {
+      this.processInput(input, deltaTime);
+    } else {
+      // No input - coast with inertia (gradually reduce inputs to 0)
+      this.applyInputDecay(deltaTime);
+    }
+    if (!this.isAutomaticDrift()) {
+      this.updateManualDrift(input, deltaTime);
+    }
+
+    // Always update physics and position for proper inertia
+    if (this.isGrounded) {
+      // The wheels only push the kart along whilst they are touching the ground
+      this.updateLinearVelocity(deltaTime);
+    }
+    this.updateAngularVelocity(deltaTime);
+    this.applyGravity(deltaTime);
+    this.applyResistance(deltaTime);
+    if (this.isGrounded && !isSpinningOut) {
+      this.processDrift(deltaTime);
+    }
+    if (isSpinningOut) {
+      // The kart keeps sliding in the direction it was travelling whilst it spins
+      this.quaternion.multiply(
+        tempQuaternion.setFromAxisAngle(up, spinOutRotationSpeed * deltaTime),
+      );
+    }
+    this.updateTransform(deltaTime);
+
+    this.maintainGroundContact(deltaTime);
+    this.updateSkiddingState();
+  }
+
+  private processInput(input: KartControlInput, deltaTime: number): void {
+    this.throttleInput = this.smoothInput(
+      this.throttleInput,
+      input.throttle,
+      this.physicsConfig.throttleResponse * deltaTime,
+    );
+
+    // Realistic steering: invert when reversing (front wheels control direction, but moving backward)
+    let effectiveSteering = this.isReversing ? -input.steering : input.steering;
+    if (this.driftDirection !== 0) {
+      // Whilst drifting the kart always turns into the drift - steering only tightens or widens the turn
+      const steeringIntoDrift = input.steering * this.driftDirection;
+      effectiveSteering = this.driftDirection * (0.4 + 0.3 * (steeringIntoDrift + 1));
+    }
+    this.steeringInput = this.smoothInput(
+      this.steeringInput,
+      effectiveSteering,
+      this.physicsConfig.steeringResponse * deltaTime,
+    );
+
+    if (this.isAutomaticDrift()) {
+      // Automatic drift when turning hard at speed - improved for high speeds
+      const speed = this.velocity.length();
+      const isHardTurning =
+        Math.abs(this.steeringInput) > this.physicsConfig.driftSteeringThreshold;
+      const isMovingFast = speed > this.physicsConfig.driftSpeedThreshold;
+      // Enter drift state when turning hard at speed
+      this.isDrifting = isHardTurning && isMovingFast && Math.abs(this.throttleInput) > 0.1;
+    }
+  }
+
+  /*
+   Pressing the drift button makes the kart hop. Landing (or steering hard whilst the button is still held) starts a
+   drift in the direction being steered, which charges a mini-turbo that is released along with the button.
+  */
+  private updateManualDrift(input: KartControlInput | null, deltaTime: number): void {
+    const held = input?.drift ?? false;
+    const pressed = held && !this.driftButtonHeld;
+    this.driftButtonHeld = held;
+    const speed = this.velocity.length();
+
+    if (this.driftDirection !== 0) {
+      if (!held) {
+        this.releaseMiniTurbo();
+        this.endManualDrift();
+      } else if (speed < this.physicsConfig.driftSpeedThreshold / 2) {
+        // Too slow to keep drifting - the charge is lost
+        this.endManualDrift();
+      } else {
+        // Steering into the drift charges the mini-turbo faster
+        const steeringIntoDrift = Math.max((input?.steering ?? 0) * this.driftDirection, 0);
+        this.driftCharge += deltaTime * (0.5 + 0.5 * steeringIntoDrift);
+      }
+    } else if (input && held) {
+      const isMovingFast = speed > this.physicsConfig.driftSpeedThreshold && !this.isReversing;
+      if (pressed && this.isGrounded) {
+        this.velocity.addScaledVector(this.getUp(tempVector), this.physicsConfig.driftHopSpeed);
+        this.isGrounded = false;
+      } else if (
+        this.isGrounded &&
+        isMovingFast &&
+        input.throttle > 0.1 &&
+        Math.abs(input.steering) > this.physicsConfig.driftSteeringThreshold
+      ) {
+        this.driftDirection = Math.sign(input.steering);
+        this.driftCharge = 0;
+      }
+    }
+    this.isDrifting = this.driftDirection !== 0;
+  }
+
+  private releaseMiniTurbo(): void {
+    const tier = this.getMiniTurboTier();
+    if (tier === 0) {
+      return;
+    }
+    this.applyBoost(
+      this.physicsConfig.miniTurboSpeed * tier,
+      this.physicsConfig.miniTurboDuration * tier,
+    );
+  }
+
+  private endManualDrift(): void {
+    this.driftDirection = 0;
+    this.driftCharge = 0;
+    this.isDrifting = false;
+  }
+
+  private smoothInput(current: number, target: number, rate: number): number {
+    const difference = target - current;
+    const maxChange = rate * Math.sign(difference);
+
+    if (Math.abs(difference) <= Math.abs(maxChange)) {
+      return target;
+    }
+
+    return current + maxChange;
+  }
+
+  private applyInputDecay(deltaTime: number): void {
+    const inputDecayRate = this.physicsConfig.inputDecayRate;
+
+    this.throttleInput = this.smoothInput(this.throttleInput, 0, inputDecayRate * deltaTime);
+    this.steeringInput = this.smoothInput(this.steeringInput, 0, inputDecayRate * deltaTime);
+    this.isDrifting = false; // Stop drifting when no input
+  }
+
+  private updateLinearVelocity(deltaTime: number): void {
+    if (Math.abs(this.throttleInput) > 0.01) {
+      const maxSpeed =
+        this.physicsConfig.maxSpeed * kartSurfaces[this.surface].maxSpeedMultiplier +
+        (this.boostTime > 0 ? this.boostSpeed : 0);
+      if (this.throttleInput > 0) {
+        // FORWARD ACCELERATION - normal acceleration in forward direction
+        this.isReversing = false; // Exit reverse mode when going forward
+        const accelerationForce = this.throttleInput * this.physicsConfig.acceleration;
+        const forwardDirection = this.getForward(new Vector3());
+        this.velocity.add(forwardDirection.multiplyScalar(accelerationForce * deltaTime));
+
+        const currentSpeed = this.velocity.length();
+        if (currentSpeed > maxSpeed) {
+          this.velocity.normalize().multiplyScalar(maxSpeed);
+        }
+      } else {
+        // REVERSE OR BRAKING - check if we should reverse or brake
+        const currentSpeed = this.velocity.length();
+
+        // Enter reverse mode if nearly stopped and pressing brake
+        if (currentSpeed < this.physicsConfig.reverseSpeedThreshold && this.throttleInput < -0.1) {
+          this.isReversing = true;
+        }
+
+        // Stay in reverse mode while holding brake/reverse input
+        if (this.isReversing && this.throttleInput < -0.1) {
+          // REVERSE ACCELERATION - move backward at full speed for cool reverse drifts
+          const reverseAcceleration =
+            Math.abs(this.throttleInput) * this.physicsConfig.acceleration; // Full acceleration, not reduced
+          const backwardDirection = this.getForward(new Vector3()).negate();
+          this.velocity.add(backwardDirection.multiplyScalar(reverseAcceleration * deltaTime));
+
+          // Allow full reverse speed - same as forward for reverse drifts
+          if (this.velocity.length() > maxSpeed) {
+            this.velocity.normalize().multiplyScalar(maxSpeed);
+          }
+        } else {
+          // BRAKING - speed reduction plus directional friction to stop lateral slides
+          this.isReversing = false; // Exit reverse mode when braking at higher speeds
+          const brakingIntensity = Math.abs(this.throttleInput);
+
+          if (currentSpeed > 0.1) {
+            // SPEED-DEPENDENT BRAKING: smoother transition, less abrupt at low speeds
+            let speedFactor;
+            if (currentSpeed < 15) {
+              speedFactor = 1.3; // Gentler 1.3x braking effectiveness at very low speeds
+            } else if (currentSpeed < 40) {
+              speedFactor = 1.1; // Slight boost at low-medium speeds
+            } else {
+              speedFactor = Math.max(0.3, 1 - currentSpeed / 100); // Normal curve for higher speeds
+            }
+            const adjustedBrakingIntensity = brakingIntensity * speedFactor;
+
+            const speedReduction =
+              1 - adjustedBrakingIntensity * this.physicsConfig.brakingFactor * deltaTime;
+            const directionFriction =
+              1 - adjustedBrakingIntensity * this.physicsConfig.brakingLateralFriction * deltaTime;
+
+            // Apply both effects to the entire velocity vector
+            this.velocity.multiplyScalar(speedReduction * directionFriction);
+
+            // Stop completely at very low speeds
+            if (this.velocity.length() < 0.5) {
+              this.velocity.multiplyScalar(0.9);
+              if (this.velocity.length() < 0.1) {
+                this.velocity.set(0, 0, 0);
+              }
+            }
+          }
+        }
+      }
+    } else {
+      // No throttle input - exit reverse mode
+      this.isReversing = false;
+    }
+  }
+
+  private updateAngularVelocity(deltaTime: number): void {
+    if (Math.abs(this.steeringInput) > 0.01) {
+      const forwardSpeed = this.velocity.length();
+
+      // REALISTIC STEERING: Need minimum speed to turn, reduced effectiveness at very low speeds
+      if (forwardSpeed > 0.5) {
+        // Calculate steering effectiveness based on speed
+        let steeringEffectiveness;
+        if (forwardSpeed < 3) {
+          // Very low speeds: severely reduced steering (realistic - hard to turn when barely moving)
+          steeringEffectiveness = 0.2;
+        } else if (forwardSpeed < 8) {
+          // Low speeds: reduced steering effectiveness
+          steeringEffectiveness = 0.5;
+        } else {
+          // Normal speed-dependent steering for higher speeds
+          const lowSpeedFactor = 1.0; // Full turning at moderate speeds
+          const highSpeedReduction = this.physicsConfig.highSpeedSteering;
+          const speedForMaxReduction = this.physicsConfig.steeringFalloffSpeed;
+
+          const speedRatio = Math.min(forwardSpeed / speedForMaxReduction, 1);
+          steeringEffectiveness =
+            lowSpeedFactor - speedRatio * (lowSpeedFactor - highSpeedReduction);
+        }
+
+        // Apply steering relative to current facing direction
+        const steeringForce =
+          this.steeringInput * steeringEffectiveness * this.physicsConfig.steeringSpeed * 2;
+        this.angularVelocity += steeringForce * deltaTime;
+
+        // Limit maximum angular velocity based on steering effectiveness
+        const maxAngularVelocity = this.physicsConfig.maxAngularVelocity * steeringEffectiveness;
+        this.angularVelocity = Math.max(
+          -maxAngularVelocity,
+          Math.min(maxAngularVelocity, this.angularVelocity),
+        );
+      }
+    }
+
+    // Apply angular velocity to rotation (in LOCAL space, not world space)
+    // This ensures steering is always relative to current facing direction
+    this.quaternion.multiply(tempQuaternion.setFromAxisAngle(up, this.angularVelocity * deltaTime));
+
+    // Apply angular friction/damping when not steering or when stationary
+    if (Math.abs(this.steeringInput) < 0.01 || this.velocity.length() < 0.5) {
+      this.angularVelocity *= perStepFactor(this.physicsConfig.angularDamping, deltaTime);
+    }
+  }
+
+  private applyResistance(deltaTime: number): void {
+    const speed = this.velocity.length();
+
+    // Simple air resistance - reduced when braking for better slides
+    const isBraking = this.throttleInput < -0.1;
+    const airResistanceMultiplier = isBraking ? 0.3 : 1.0; // 70% less air resistance when braking
+    const airResistance = speed * this.physicsConfig.airResistance * airResistanceMultiplier;
+    const airResistanceVector = this.velocity
+      .clone()
+      .normalize()
+      .multiplyScalar(-airResistance * deltaTime);
+    this.velocity.add(airResistanceVector);
+
+    // Ground friction - apply to forward and reverse movement (a mini-turbo carries the kart without it)
+    if (this.isGrounded && this.boostTime === 0) {
+      if (Math.abs(this.throttleInput) < 0.01) {
+        // Coasting - minimal friction for sliding
+        this.velocity.multiplyScalar(perStepFactor(this.physicsConfig.coastingFriction, deltaTime));
+      } else if ((this.throttleInput > 0 || this.isReversing) && !this.isDrifting) {
+        // Driving forward or reversing normally - apply grip
+        this.velocity.multiplyScalar(perStepFactor(this.physicsConfig.groundFriction, deltaTime));
+      }
+      // No additional friction when braking - let it slide naturally
+
+      // Off-road surfaces (e.g. grass) slow the kart down
+      this.velocity.multiplyScalar(Math.exp(-kartSurfaces[this.surface].drag * deltaTime));
+    }
+  }
+
+  private processDrift(deltaTime: number): void {
+    if (this.isDrifting) {
+      // ENHANCED MOMENTUM PRESERVATION: Much stronger preservation of original direction
+      const forward = this.getForward(new Vector3());
+      const speed = this.velocity.length();
+      if (speed > 0.1) {
+        // Calculate how much the velocity direction differs from where the car is pointing
+        const velocityDirection = this.velocity.clone().normalize();
+
+        // STRONGER momentum preservation based on speed - faster = more preservation
+        const speedFactor = Math.min(speed / 40, 1); // Scale with speed up to 40 units
+        const baseSteeringInfluence =
+          this.physicsConfig.driftSteeringInfluence * kartSurfaces[this.surface].grip;
+        const steeringInfluence =
+          1 - perStepFactor(1 - baseSteeringInfluence * (1 - speedFactor * 0.5), deltaTime); // Even less at high speeds
+        const momentumPreservation = 1 - steeringInfluence;
+
+        // Preserve most of the original momentum direction
+        const preservedVelocity = velocityDirection.multiplyScalar(speed * momentumPreservation);
+        // Add small steering influence based on car's forward direction
+        const steeringVelocity = forward.multiplyScalar(speed * steeringInfluence);
+        // Combine preserved momentum with steering influence
+        this.velocity.copy(preservedVelocity.add(steeringVelocity));
+
+        // Apply drift-specific friction (less than normal driving)
+        this.velocity.multiplyScalar(perStepFactor(this.physicsConfig.driftFriction, deltaTime));
+      }
+    } else {
+      // Normal driving: gradually align velocity with car direction
+      const forward = this.getForward(new Vector3());
+      const speed = this.velocity.length();
+
+      if (speed > 0.1) {
+        // PRESERVE MOMENTUM during braking - don't snap to new direction
+        const isBraking = this.throttleInput < -0.1;
+
+        if (isBraking) {
+          // During braking: NO alignment to fully preserve sliding momentum
+          // Let the kart slide in whatever direction it's moving - pure momentum preservation
+          // Only the braking force itself will slow you down, not change direction
+        } else {
+          // Normal driving: gradually align velocity with car direction
+          const speedFactor = Math.min(speed / 40, 1); // Less alignment at higher speeds
+          const baseAlignmentRate = 1.5 * deltaTime * kartSurfaces[this.surface].grip; // Reduced base rate
+          const alignmentRate = baseAlignmentRate * (1 - speedFactor * 0.8); // Much more reduction at high speeds
+          const targetVelocity = forward.multiplyScalar(speed);
+          this.velocity.lerp(targetVelocity, alignmentRate);
+        }
+      }
+    }
+  }
+
+  private updateTransform(deltaTime: number): void {
+    // Apply movement
+    const deltaMovement = this.velocity.clone().multiplyScalar(deltaTime);
+    this.position.add(deltaMovement);
+
+    // Check for collisions and apply collision response
+    this.handleCollisions();
+  }
+
+  private handleCollisions(): void {
+    // Check for collisions using multiple raycasts around the kart perimeter
+    const collisionChecks = this.performCollisionChecks();
+
+    if (collisionChecks.length > 0) {
+      // Handle the collision response
+      this.applyCollisionResponse(collisionChecks);
+    }
+
+    this.handleKartCollisions();
+  }
+
+  private performCollisionChecks(): Array<{
+    normal: Vector3;
+    distance: number;
+    point: Vector3;
+  }> {
+    const kartPosition = this.position;
+    const kartBounds = this.kartBounds;
+    const collisions: Array<{
+      normal: Vector3;
+      distance: number;
+      point: Vector3;
+    }> = [];
+
+    // Get kart's forward and right directions
+    const forward = this.getForward(new Vector3());
+    const right = new Vector3().crossVectors(forward, up).normalize();
+
+    // Define collision check points around the kart perimeter
+    const checkPoints = [
+      // Front center
+      kartPosition.clone().add(forward.clone().multiplyScalar(kartBounds.length / 2)),
+      // Front left
+      kartPosition
+        .clone()
+        .add(forward.clone().multiplyScalar(kartBounds.length / 2))
+        .add(right.clone().multiplyScalar(-kartBounds.width / 2)),
+      // Front right
+      kartPosition
+        .clone()
+        .add(forward.clone().multiplyScalar(kartBounds.length / 2))
+        .add(right.clone().multiplyScalar(kartBounds.width / 2)),
+      // Left side
+      kartPosition.clone().add(right.clone().multiplyScalar(-kartBounds.width / 2)),
+      // Right side
+      kartPosition.clone().add(right.clone().multiplyScalar(kartBounds.width / 2)),
+      // Rear center
+      kartPosition.clone().add(forward.clone().multiplyScalar(-kartBounds.length / 2)),
+      // Rear left
+      kartPosition
+        .clone()
+        .add(forward.clone().multiplyScalar(-kartBounds.length / 2))
+        .add(right.clone().multiplyScalar(-kartBounds.width / 2)),
+      // Rear right
+      kartPosition
+        .clone()
+        .add(forward.clone().multiplyScalar(-kartBounds.length / 2))
+        .add(right.clone().multiplyScalar(kartBounds.width / 2)),
+    ];
+
+    // Check each point for collisions
+    checkPoints.forEach((checkPoint) => {
+      // Cast rays in multiple directions from each check point
+      const rayDirections = [
+        forward.clone(),
+        forward.clone().negate(),
+        right.clone(),
+        right.clone().negate(),
+      ];
+
+      rayDirections.forEach((direction) => {
+        const hit = this.options.collisions.raycast(
+          checkPoint,
+          direction,
+          kartBounds.length / 2 + 0.1, // Small collision margin
+        );
+
+        if (hit) {
+          const { distance, normal, point } = hit;
+          // Add height constraint: only process collisions within reasonable height range of kart
+          const heightDifference = Math.abs(point.y - kartPosition.y);
+          const maxCollisionHeight = kartBounds.height + 2; // Kart height + 2 meters tolerance
+
+          if (
+            distance < kartBounds.length / 2 + 0.05 &&
+            heightDifference <= maxCollisionHeight &&
+            !this.isDrivable(normal)
+          ) {
+            collisions.push({
+              normal: normal.clone(),
+              distance,
+              point: point.clone(),
+            });
+          }
+        }
+      });
+    });
+
+    return collisions;
+  }
+
+  private applyCollisionResponse(
+    collisions: Array<{ normal: Vector3; distance: number; point: Vector3 }>,
+  ): void {
+    if (collisions.length === 0) return;
+
+    // Calculate average collision normal
+    const avgNormal = new Vector3();
+    collisions.forEach((collision) => {
+      avgNormal.add(collision.normal);
+    });
+    avgNormal.divideScalar(collisions.length).normalize();
+
+    // Calculate penetration depth
+    const minDistance = Math.min(...collisions.map((c) => c.distance));
+    const penetration = Math.max(0, this.kartBounds.length / 2 - minDistance + 0.05);
+
+    // Position correction - push kart out of collision
+    if (penetration > 0.001) {
+      this.position.add(avgNormal.clone().multiplyScalar(penetration));
+    }
+
+    // Velocity response - bounce and friction
+    this.handleVelocityCollisionResponse(avgNormal);
+  }
+
+  private handleVelocityCollisionResponse(normal: Vector3): void {
+    const speed = this.velocity.length();
+
+    if (speed < 0.1) return; // Skip if barely moving
+
+    // Separate velocity into normal and tangential components
+    const velocityNormal = this.velocity.clone().projectOnVector(normal);
+    this.collisionImpact = Math.max(this.collisionImpact, -this.velocity.dot(normal));
+    const velocityTangent = this.velocity.clone().sub(velocityNormal);
+
+    // Apply bounce to normal component
+    const bounceVelocity = velocityNormal
+      .clone()
+      .multiplyScalar(-this.physicsConfig.bounceRestitution);
+
+    // Apply friction to tangential component
+    const frictionVelocity = velocityTangent
+      .clone()
+      .multiplyScalar(this.physicsConfig.wallFriction);
+
+    // Combine bounce and friction
+    this.velocity.copy(bounceVelocity.add(frictionVelocity));
+
+    // Limit bounce velocity to prevent excessive forces
+    const maxBounceSpeed = this.physicsConfig.maxSpeed * 0.8;
+    if (this.velocity.length() > maxBounceSpeed) {
+      this.velocity.normalize().multiplyScalar(maxBounceSpeed);
+    }
+
+    // Add some rotational effect from the collision
+    const impactForce = Math.min(speed / this.physicsConfig.maxSpeed, 1);
+    const rotationalImpulse = impactForce * 0.5; // Moderate spin from collision
+
+    // Determine spin direction based on collision angle
+    const forward = this.getForward(new Vector3());
+    const collisionAngle = normal.dot(forward);
+
+    if (Math.abs(collisionAngle) < 0.7) {
+      // Side collision
+      const spinDirection = normal.clone().cross(up).dot(forward);
+      this.angularVelocity += spinDirection * rotationalImpulse;
+    }
+  }
+
+  /*
+   Each client only moves its own kart, so the kart takes its half of an equal-mass collision and the other kart's
+   owner applies the other half when it sees the same overlap.
+  */
+  private handleKartCollisions(): void {
+    if (!this.options.collisions.getKartContacts) {
+      return;
+    }
+    const body = this.collisionBody;
+    body.position.copy(this.position);
+    body.quaternion.copy(this.quaternion);
+    body.velocity.copy(this.velocity);
+    const contacts = this.options.collisions.getKartContacts(
+      body,
+      this.options.kartCollisionTolerance ?? defaultKartCollisionTolerance,
+    );
+
+    for (const contact of contacts) {
+      this.position.addScaledVector(contact.normal, contact.penetration / 2);
+
+      const relativeVelocity = this.velocity.clone().sub(contact.velocity);
+      const separatingVelocity = relativeVelocity.dot(contact.normal);
+      if (separatingVelocity >= 0) {
+        // Already moving apart (e.g. the overlap is left over from a previous step)
+        continue;
+      }
+      this.collisionImpact = Math.max(this.collisionImpact, -separatingVelocity);
+      const impulse = (-(1 + this.physicsConfig.bounceRestitution) * separatingVelocity) / 2;
+      this.velocity.addScaledVector(contact.normal, impulse);
+
+      // Glancing blows to the side of the kart nudge it round
+      const forward = this.getForward(new Vector3());
+      if (Math.abs(contact.normal.dot(forward)) < 0.7) {
+        const impactForce = Math.min(impulse / this.physicsConfig.maxSpeed, 1);
+        const spinDirection = contact.normal.clone().cross(up).dot(forward);
+        this.angularVelocity += spinDirection * impactForce * 0.5;
+      }
+    }
+  }
+
+  private updateSkiddingState(): void {
+    const speed = this.velocity.length();
+
+    if (!this.isGrounded || speed < 3) {
+      this.isSkidding = false;
+      return;
+    }
+
+    // PROPER LATERAL SLIP DETECTION - the key to realistic skid marks!
+    const forward = this.getForward(new Vector3());
+    const velocityDirection = this.velocity.clone().normalize();
+
+    // Calculate how much the velocity differs from the forward direction (lateral slip)
+    const forwardAlignment = forward.dot(velocityDirection);
+    const lateralSlipAmount = 1 - Math.abs(forwardAlignment); // 0 = no slip, 1 = full sideways
+
+    // Calculate various skidding conditions
+    const hardBraking = this.throttleInput < -0.3 && speed > 5;
+    const isLateralSlipping = lateralSlipAmount > 0.3; // Significant sideways movement
+    const isDriftingFast = this.isDrifting && speed > 8;
+    const hardTurningAtSpeed = Math.abs(this.steeringInput) > 0.5 && speed > 12;
+
+    // Skid marks trigger when there's actual lateral slip OR heavy braking
+    this.isSkidding = isLateralSlipping || hardBraking || isDriftingFast || hardTurningAtSpeed;
+  }
+
+  // Surfaces that face upwards enough to drive on (e.g. ramps) are driven over rather than bounced off
+  private isDrivable(normal: Vector3): boolean {
+    return normal.y >= Math.cos((this.physicsConfig.maxGroundSlope * Math.PI) / 180);
+  }
+
+  private applyGravity(deltaTime: number): void {
+    if (this.isGrounded) {
+      // Only the part of gravity along the slope moves the kart (it rolls back down hills)
+      const groundNormal = this.getUp(tempVector);
+      this.velocity.y -= this.physicsConfig.gravity * deltaTime;
+      this.velocity.addScaledVector(
+        groundNormal,
+        this.physicsConfig.gravity * deltaTime * groundNormal.y,
+      );
+    } else {
+      this.velocity.y -= this.physicsConfig.gravity * deltaTime;
+    }
+  }
+
+  /*
+   The ground is probed beneath each wheel so that the kart can tilt to follow ramps and banked turns. The slope is
+   taken from the four contact points when they are all found (so that a kart crossing the edge of a ramp sits across
+   it) and from the ground beneath the center otherwise.
+  */
+  private findGround(): GroundContact | null {
+    const centerHit = this.options.collisions.raycast(this.position, down, null);
+    if (!centerHit) {
+      return null;
+    }
+    const points: Array<Vector3> = [];
+    for (const offset of wheelOffsets) {
+      const origin = offset.clone().applyQuaternion(this.quaternion).add(this.position);
+      origin.y += wheelProbeHeight;
+      const hit = this.options.collisions.raycast(origin, down, null);
+      if (hit && this.isDrivable(hit.normal)) {
+        points.push(hit.point);
+      }
+    }
+
+    const normal = centerHit.normal.clone();
+    if (points.length === wheelOffsets.length) {
+      const [frontLeft, frontRight, rearLeft, rearRight] = points;
+      const diagonal = frontLeft.clone().sub(rearRight);
+      normal.crossVectors(frontRight.clone().sub(rearLeft), diagonal).normalize();
+      if (normal.y < 0) {
+        normal.negate();
+      }
+    }
+    if (!this.isDrivable(normal)) {
+      // Too steep to drive on (e.g. the top of a wall) - the kart stays level
+      normal.copy(up);
+    }
+    return {
+      height: this.position.y - centerHit.distance,
+      normal,
+      surface: centerHit.surface ?? defaultKartSurface,
+    };
+  }
+
+  private maintainGroundContact(deltaTime: number): void {
+    const wasGrounded = this.isGrounded;
+    this.landingImpact = 0;
+
+    const ground = this.findGround();
+    const halfHeight = this.kartBounds.height / 2;
+    // The distance between the bottom of the kart and the ground
+    const gap = ground ? this.position.y - halfHeight - ground.height : Number.POSITIVE_INFINITY;
+    const speedFromGround = ground ? this.velocity.dot(ground.normal) : 0;
+    // Leaving the ground faster than the launch speed (e.g. off the lip of a ramp) starts a jump
+    const launching = wasGrounded && speedFromGround > this.physicsConfig.launchSpeed;
+
+    // A kart that is already airborne and still rising (e.g. hopping) isn't pulled back down onto the ground
+    const rising = !wasGrounded && speedFromGround > 0 && gap > 0;
+
+    if (ground && gap <= this.physicsConfig.groundSnapDistance && !launching && !rising) {
+      this.isGrounded = true;
+      if (!wasGrounded) {
+        this.landingImpact = Math.max(0, -speedFromGround);
+        const speedLoss = Math.min(
+          this.landingImpact * this.physicsConfig.landingFriction,
+          maxLandingSpeedLoss,
+        );
+        this.velocity.multiplyScalar(1 - speedLoss);
+      }
+      this.airTime = 0;
+
+      // Drive along the surface rather than into (or off) it
+      this.velocity.addScaledVector(ground.normal, -this.velocity.dot(ground.normal));
+
+      if (!wasGrounded || ground.surface !== this.surface) {
+        this.surface = ground.surface;
+        this.applySurfaceImpulse();
+      }
+
+      const targetHeight = ground.height + halfHeight;
+      if (this.position.y < targetHeight) {
+        // Never leave the kart inside the ground (e.g. after a fast landing)
+        this.position.y = targetHeight;
+      } else {
+        const heightDifference = targetHeight - this.position.y;
+        this.position.y += heightDifference * 10 * deltaTime;
+      }
+      this.alignTo(ground.normal, this.physicsConfig.groundAlignmentRate, deltaTime);
+    } else {
+      this.isGrounded = false;
+      this.airTime += deltaTime;
+      this.alignTo(up, this.physicsConfig.airAlignmentRate, deltaTime);
+    }
+  }
+
+  // Boost pads push the kart forwards and slow zones hold it back (without pushing it backwards)
+  private applySurfaceImpulse(): void {
+    const impulse = kartSurfaces[this.surface].impulse;
+    if (impulse === 0) {
+      return;
+    }
+    const forward = this.getForward(tempVector);
+    const forwardSpeed = Math.max(this.velocity.dot(forward), 0);
+    this.velocity.addScaledVector(forward, Math.max(impulse, -forwardSpeed));
+  }
+
+  // Tilts the kart towards having the given up direction, keeping its heading
+  private alignTo(targetUp: Vector3, rate: number, deltaTime: number): void {
+    const currentUp = this.getUp(tempVector);
+    tempQuaternion.setFromUnitVectors(currentUp, targetUp);
+    tempQuaternion.slerp(identityQuaternion, Math.exp(-rate * deltaTime));
+    this.quaternion.premultiply(tempQuaternion).normalize();
+  }
+}
@@ -0,0 +1,74 @@
+import { defaultKartPhysicsConfig, KartPhysicsConfig } from "./KartPhysics";
+
+export type KartPhysicsPresetName = "arcade" | "simulation" | "beginner";
+
+// A serializable description of a kart's tuning: a named preset with any individual values overridden
+export type KartPhysicsConfiguration = {
+  preset?: KartPhysicsPresetName;
+  overrides?: Partial<KartPhysicsConfig>;
+};
+
+export const defaultKartPhysicsPreset: KartPhysicsPresetName = "arcade";
+
+/*
+ The tuning styles from the physics specification. Arcade is the default tuning and the other presets scale it by the
+ specification's relative values (e.g. simulation has 5/8 of arcade's acceleration and 1.5x its top speed).
+*/
+export const kartPhysicsPresets: { [key in KartPhysicsPresetName]: KartPhysicsConfig } = {
+  arcade: { ...defaultKartPhysicsConfig },
+  simulation: {
+    ...defaultKartPhysicsConfig,
+    maxSpeed: 180,
+    acceleration: 44,
+    // Top speed is mostly limited by ground friction, so less drag is what makes this preset faster
+    groundFriction: 0.98,
+    deceleration: 60,
+    steeringSpeed: 1.6,
+    // Steering depends much more on speed
+    highSpeedSteering: 0.35,
+    steeringFalloffSpeed: 45,
+    driftSpeedThreshold: 20,
+    driftSteeringInfluence: 0.25,
+    driftFriction: 0.975,
+    inputDecayRate: 4,
+  },
+  beginner: {
+    ...defaultKartPhysicsConfig,
+    // A hard limit rather than extra drag, so the kart still accelerates quickly up to it
+    maxSpeed: 18,
+    acceleration: 88,
+    deceleration: 90,
+    steeringSpeed: 2.2,
+    highSpeedSteering: 0.7,
+    driftSteeringThreshold: 0.4,
+    driftSteeringInfluence: 0.25,
+    driftFriction: 0.99,
+    brakingFactor: 1.2,
+  },
+};
+
+export function isKartPhysicsPresetName(value: unknown): value is KartPhysicsPresetName {
+  return (
+    typeof value === "string" && Object.prototype.hasOwnProperty.call(kartPhysicsPresets, value)
+  );
+}
+
+export function resolveKartPhysicsConfig(
+  configuration: KartPhysicsConfiguration = {},
+): KartPhysicsConfig {
+  const preset = configuration.preset ?? defaultKartPhysicsPreset;
+  if (!isKartPhysicsPresetName(preset)) {
+    throw new Error(`Unknown kart physics preset: ${preset}`);
+  }
+  const config = { ...kartPhysicsPresets[preset] };
+  for (const [key, value] of Object.entries(configuration.overrides ?? {})) {
+    if (!(key in config)) {
+      throw new Error(`Unknown kart physics value: ${key}`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`Invalid kart physics value for ${key}: ${value}`);
+    }
+    config[key as keyof KartPhysicsConfig] = value;
+  }
+  return config;
+}
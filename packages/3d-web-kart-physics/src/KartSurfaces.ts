@@ -0,0 +1,30 @@
+// The order is used to send surfaces over the network, so new surfaces must be added to the end
+export const kartSurfaceTypes = ["asphalt", "grass", "dirt", "ice", "boost", "slow"] as const;
+
+export type KartSurfaceType = (typeof kartSurfaceTypes)[number];
+
+export type KartSurfaceProperties = {
+  // How strongly the kart's velocity is pulled towards its heading (1 is full grip, lower values slide more)
+  grip: number;
+  // Speed lost per second whilst driving on the surface (on top of the kart's ground friction)
+  drag: number;
+  // Scales the kart's maximum speed
+  maxSpeedMultiplier: number;
+  // Speed (m/s) added along the kart's heading when it drives onto the surface - negative values slow it down
+  impulse: number;
+};
+
+export const defaultKartSurface: KartSurfaceType = "asphalt";
+
+export const kartSurfaces: { [key in KartSurfaceType]: KartSurfaceProperties } = {
+  asphalt: { grip: 1, drag: 0, maxSpeedMultiplier: 1, impulse: 0 },
+  grass: { grip: 0.7, drag: 2, maxSpeedMultiplier: 0.6, impulse: 0 },
+  dirt: { grip: 0.5, drag: 0.8, maxSpeedMultiplier: 0.8, impulse: 0 },
+  ice: { grip: 0.1, drag: 0, maxSpeedMultiplier: 1, impulse: 0 },
+  boost: { grip: 1, drag: 0, maxSpeedMultiplier: 1.5, impulse: 15 },
+  slow: { grip: 0.8, drag: 4, maxSpeedMultiplier: 0.4, impulse: -8 },
+};
+
+export function isKartSurfaceType(value: unknown): value is KartSurfaceType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(kartSurfaces, value);
+}
@@ -0,0 +1,4 @@
+export * from "./KartPhysics";
+export * from "./kartCollisions";
+export * from "./KartPhysicsPresets";
+export * from "./KartSurfaces";
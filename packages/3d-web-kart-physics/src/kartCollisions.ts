@@ -0,0 +1,102 @@
+import { Quaternion, Vector3 } from "three";
+
+export type KartCollisionBody = {
+  position: Vector3;
+  quaternion: Quaternion;
+  velocity: Vector3;
+  halfWidth: number;
+  halfLength: number;
+  height: number;
+};
+
+// The footprint shared by every kart (local and remote) - slightly taller than the kart to allow for uneven ground
+export const kartCollisionDimensions = {
+  halfWidth: 0.7,
+  halfLength: 0.9,
+  height: 1,
+};
+
+export type KartOverlap = {
+  // Points away from the other kart (the direction to push this kart to separate them)
+  normal: Vector3;
+  penetration: number;
+};
+
+export type KartContact = {
+  id: number;
+  // Points away from the other kart
+  normal: Vector3;
+  penetration: number;
+  // The other kart's velocity
+  velocity: Vector3;
+};
+
+const tempForwardA = new Vector3();
+const tempRightA = new Vector3();
+const tempForwardB = new Vector3();
+const tempRightB = new Vector3();
+const tempOffset = new Vector3();
+const up = new Vector3(0, 1, 0);
+
+function getHorizontalAxes(body: KartCollisionBody, forward: Vector3, right: Vector3) {
+  forward.set(0, 0, 1).applyQuaternion(body.quaternion).setY(0);
+  if (forward.lengthSq() < 1e-6) {
+    // Pointing straight up or down - fall back to an unrotated footprint
+    forward.set(0, 0, 1);
+  }
+  forward.normalize();
+  right.crossVectors(forward, up).normalize();
+}
+
+function projectedRadius(
+  body: KartCollisionBody,
+  forward: Vector3,
+  right: Vector3,
+  axis: Vector3,
+): number {
+  return body.halfLength * Math.abs(forward.dot(axis)) + body.halfWidth * Math.abs(right.dot(axis));
+}
+
+/*
+ Karts are treated as boxes on the horizontal plane (using the separating axis test), which is a good fit for their
+ footprint and is cheap enough to run against every nearby kart every frame.
+*/
+export function getKartOverlap(a: KartCollisionBody, b: KartCollisionBody): KartOverlap | null {
+  if (Math.abs(a.position.y - b.position.y) > (a.height + b.height) / 2) {
+    return null;
+  }
+  tempOffset.subVectors(b.position, a.position).setY(0);
+  const maximumReach =
+    Math.hypot(a.halfLength, a.halfWidth) + Math.hypot(b.halfLength, b.halfWidth);
+  if (tempOffset.lengthSq() > maximumReach * maximumReach) {
+    return null;
+  }
+
+  getHorizontalAxes(a, tempForwardA, tempRightA);
+  getHorizontalAxes(b, tempForwardB, tempRightB);
+
+  let minimumOverlap = Number.POSITIVE_INFINITY;
+  let minimumAxis: Vector3 | null = null;
+  let minimumSign = 1;
+  for (const axis of [tempForwardA, tempRightA, tempForwardB, tempRightB]) {
+    const distance = tempOffset.dot(axis);
+    const overlap =
+      projectedRadius(a, tempForwardA, tempRightA, axis) +
+      projectedRadius(b, tempForwardB, tempRightB, axis) -
+      Math.abs(distance);
+    if (overlap <= 0) {
+      return null;
+    }
+    if (overlap < minimumOverlap) {
+      minimumOverlap = overlap;
+      minimumAxis = axis;
+      // Push away from the other kart
+      minimumSign = distance > 0 ? -1 : 1;
+    }
+  }
+
+  return {
+    normal: minimumAxis!.clone().multiplyScalar(minimumSign),
+    penetration: minimumOverlap,
+  };
+}
@@ -0,0 +1,497 @@
+import { Vector3 } from "three";
+
+import { KartCollisionBody, KartContact } from "../src/kartCollisions";
+import {
+  KartCollisionQueries,
+  KartControlInput,
+  KartPhysics,
+  KartRaycastHit,
+} from "../src/KartPhysics";
+import { KartSurfaceType } from "../src/KartSurfaces";
+
+const stepDuration = 1 / 60;
+
+type Plane = { normal: Vector3; constant: number };
+
+// A world made of infinite planes (e.g. flat ground and walls)
+function createPlaneWorld(planes: Array<Plane>): KartCollisionQueries {
+  return {
+    raycast(
+      origin: Vector3,
+      direction: Vector3,
+      maximumDistance: number | null,
+    ): KartRaycastHit | null {
+      let closest: KartRaycastHit | null = null;
+      for (const plane of planes) {
+        const denominator = plane.normal.dot(direction);
+        if (denominator >= 0) {
+          // Parallel to the plane or hitting its back face
+          continue;
+        }
+        const distance = -(plane.normal.dot(origin) + plane.constant) / denominator;
+        if (distance < 0 || (maximumDistance !== null && distance > maximumDistance)) {
+          continue;
+        }
+        if (closest === null || distance < closest.distance) {
+          closest = {
+            distance,
+            normal: plane.normal.clone(),
+            point: origin.clone().addScaledVector(direction, distance),
+          };
+        }
+      }
+      return closest;
+    },
+  };
+}
+
+const ground: Plane = { normal: new Vector3(0, 1, 0), constant: 0 };
+
+// Flat ground where the surface depends on how far along the z axis it is
+function createSurfaceWorld(getSurface: (z: number) => KartSurfaceType): KartCollisionQueries {
+  const world = createPlaneWorld([ground]);
+  return {
+    raycast(origin, direction, maximumDistance) {
+      const hit = world.raycast(origin, direction, maximumDistance);
+      return hit ? { ...hit, surface: getSurface(hit.point.z) } : null;
+    },
+  };
+}
+
+// Flat ground with a ramp rising 3 meters between z = 10 and z = 20 that ends in a sheer drop
+const rampSlope = 0.3;
+const rampNormal = new Vector3(0, 1, -rampSlope).normalize();
+function createRampWorld(): KartCollisionQueries {
+  return {
+    raycast(origin: Vector3, direction: Vector3): KartRaycastHit | null {
+      if (direction.y > -0.999) {
+        // Only the ground is modelled - there are no walls to hit
+        return null;
+      }
+      const onRamp = origin.z >= 10 && origin.z <= 20;
+      const height = onRamp ? (origin.z - 10) * rampSlope : 0;
+      if (origin.y < height) {
+        return null;
+      }
+      return {
+        distance: origin.y - height,
+        normal: onRamp ? rampNormal.clone() : new Vector3(0, 1, 0),
+        point: new Vector3(origin.x, height, origin.z),
+      };
+    },
+  };
+}
+
+function createKart(collisions: KartCollisionQueries = createPlaneWorld([ground])): KartPhysics {
+  const kart = new KartPhysics({ collisions });
+  // Resting on the ground, facing +Z
+  kart.reset(new Vector3(0, 0.25, 0));
+  return kart;
+}
+
+function run(kart: KartPhysics, input: KartControlInput | null, steps: number) {
+  for (let i = 0; i < steps; i++) {
+    kart.step(input, stepDuration);
+  }
+}
+
+describe("KartPhysics", () => {
+  test("acceleration respects speed limits", () => {
+    const kart = createKart();
+    // Simulate acceleration for 10 seconds
+    run(kart, { throttle: 1, steering: 0, drift: false }, 600);
+
+    expect(kart.velocity.length()).toBeGreaterThan(0);
+    expect(kart.velocity.length()).toBeLessThanOrEqual(kart.getConfig().maxSpeed);
+    expect(kart.position.z).toBeGreaterThan(0);
+  });
+
+  test("acceleration respects a lowered speed limit", () => {
+    const kart = createKart();
+    kart.updateConfig({ maxSpeed: 5 });
+    run(kart, { throttle: 1, steering: 0, drift: false }, 600);
+
+    expect(kart.velocity.length()).toBeLessThanOrEqual(5);
+  });
+
+  test("drift reduces lateral friction", () => {
+    const drifting = createKart();
+    const gripping = createKart();
+    drifting.velocity.set(0, 0, 30);
+    gripping.velocity.set(0, 0, 30);
+
+    // Only a hard turn at speed starts a drift
+    run(drifting, { throttle: 1, steering: 1, drift: true }, 30);
+    run(gripping, { throttle: 1, steering: 0.25, drift: false }, 30);
+
+    expect(drifting.isDrifting).toBe(true);
+    expect(gripping.isDrifting).toBe(false);
+    expect(drifting.velocity.length()).toBeGreaterThan(gripping.velocity.length());
+  });
+
+  test("braking from rest reverses the kart", () => {
+    const kart = createKart();
+    run(kart, { throttle: -1, steering: 0, drift: false }, 60);
+
+    expect(kart.isReversing).toBe(true);
+    expect(kart.position.z).toBeLessThan(0);
+  });
+
+  test("coasting slows the kart down", () => {
+    const kart = createKart();
+    kart.velocity.set(0, 0, 20);
+    run(kart, null, 120);
+
+    expect(kart.velocity.length()).toBeLessThan(20);
+    expect(kart.throttleInput).toBe(0);
+  });
+
+  test("bounces off walls using the bounce restitution", () => {
+    const wall: Plane = { normal: new Vector3(0, 0, -1), constant: 5 };
+    const kart = createKart(createPlaneWorld([ground, wall]));
+    kart.velocity.set(0, 0, 20);
+    run(kart, null, 60);
+
+    // Pushed back out of the wall and moving away from it
+    expect(kart.position.z).toBeLessThan(5);
+    expect(kart.velocity.z).toBeLessThan(0);
+  });
+
+  test("reports the speed of impacts for the step that they happen in", () => {
+    const wall: Plane = { normal: new Vector3(0, 0, -1), constant: 5 };
+    const kart = createKart(createPlaneWorld([ground, wall]));
+    kart.velocity.set(0, 0, 20);
+    const impacts: Array<number> = [];
+    for (let i = 0; i < 60; i++) {
+      kart.step(null, stepDuration);
+      if (kart.collisionImpact > 0) {
+        impacts.push(kart.collisionImpact);
+      }
+    }
+
+    expect(impacts[0]).toBeGreaterThan(15);
+    // Reset once the kart has bounced away
+    expect(kart.collisionImpact).toEqual(0);
+  });
+
+  test("takes half of an equal-mass impulse when hitting another kart", () => {
+    const contactNormal = new Vector3(0, 0, -1);
+    const withContact = createKart({
+      ...createPlaneWorld([ground]),
+      getKartContacts: (): Array<KartContact> => [
+        { id: 1, normal: contactNormal, penetration: 0.1, velocity: new Vector3() },
+      ],
+    });
+    const withoutContact = createKart();
+    withContact.velocity.set(0, 0, 10);
+    withoutContact.velocity.set(0, 0, 10);
+
+    withContact.step(null, stepDuration);
+    withoutContact.step(null, stepDuration);
+
+    const restitution = withContact.getConfig().bounceRestitution;
+    expect(withContact.velocity.z).toBeCloseTo(
+      withoutContact.velocity.z * (1 - (1 + restitution) / 2),
+    );
+    // Pushed apart by half of the overlap
+    expect(withContact.position.z).toBeCloseTo(withoutContact.position.z - 0.05);
+  });
+
+  test("ignores karts that are already separating", () => {
+    const contactNormal = new Vector3(0, 0, -1);
+    const kart = createKart({
+      ...createPlaneWorld([ground]),
+      getKartContacts: (): Array<KartContact> => [
+        // The other kart is moving away faster than this kart is approaching
+        { id: 1, normal: contactNormal, penetration: 0.1, velocity: new Vector3(0, 0, 20) },
+      ],
+    });
+    kart.velocity.set(0, 0, 10);
+    kart.step(null, stepDuration);
+
+    expect(kart.velocity.z).toBeGreaterThan(9);
+  });
+
+  test("passes the kart's body and tolerance to kart contact queries", () => {
+    const queries: Array<{ body: KartCollisionBody; tolerance: number }> = [];
+    const kart = new KartPhysics({
+      collisions: {
+        ...createPlaneWorld([ground]),
+        getKartContacts: (body, tolerance) => {
+          queries.push({ body: { ...body, position: body.position.clone() }, tolerance });
+          return [];
+        },
+      },
+      kartCollisionTolerance: 0.3,
+    });
+    kart.reset(new Vector3(1, 0.25, 2));
+    kart.step(null, stepDuration);
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].tolerance).toBe(0.3);
+    expect(queries[0].body.position.x).toBeCloseTo(1);
+    expect(queries[0].body.position.z).toBeCloseTo(2);
+  });
+
+  test("falls when there is no ground", () => {
+    const kart = createKart(createPlaneWorld([]));
+    run(kart, null, 30);
+
+    expect(kart.isGrounded).toBe(false);
+    expect(kart.position.y).toBeLessThan(0.25);
+  });
+
+  test("tilts to follow the slope of a ramp", () => {
+    const kart = createKart(createRampWorld());
+    kart.velocity.set(0, 0, 10);
+    for (let i = 0; i < 600 && kart.position.z < 16; i++) {
+      kart.step({ throttle: 1, steering: 0, drift: false }, stepDuration);
+    }
+
+    expect(kart.position.z).toBeGreaterThanOrEqual(16);
+    expect(kart.isGrounded).toBe(true);
+    // Driven up the ramp rather than bounced off it
+    expect(kart.position.y).toBeCloseTo((kart.position.z - 10) * rampSlope + 0.25, 0);
+    const up = kart.getUp(new Vector3());
+    expect(up.angleTo(rampNormal)).toBeLessThan(0.05);
+  });
+
+  test("flies off the end of a ramp and lands", () => {
+    const kart = createKart(createRampWorld());
+    kart.velocity.set(0, 0, 25);
+    let maximumAirTime = 0;
+    let landingImpact = 0;
+    for (let i = 0; i < 600; i++) {
+      kart.step({ throttle: 1, steering: 0, drift: false }, stepDuration);
+      maximumAirTime = Math.max(maximumAirTime, kart.airTime);
+      if (kart.landingImpact > 0) {
+        landingImpact = kart.landingImpact;
+        break;
+      }
+    }
+
+    // Falling 3 meters takes over three quarters of a second
+    expect(maximumAirTime).toBeGreaterThan(0.75);
+    expect(landingImpact).toBeGreaterThan(5);
+    expect(kart.isGrounded).toBe(true);
+    expect(kart.position.y).toBeGreaterThanOrEqual(0.25);
+    expect(kart.position.z).toBeGreaterThan(30);
+
+    // Levels out on the flat ground after landing
+    run(kart, null, 60);
+    expect(kart.getUp(new Vector3()).y).toBeCloseTo(1);
+  });
+
+  test("stays level on flat ground", () => {
+    const kart = createKart();
+    run(kart, { throttle: 1, steering: 1, drift: false }, 300);
+
+    expect(kart.isGrounded).toBe(true);
+    expect(kart.airTime).toBe(0);
+    expect(kart.position.y).toBeCloseTo(0.25);
+    expect(kart.getUp(new Vector3()).y).toBeCloseTo(1);
+  });
+
+  test("off-road surfaces slow the kart down", () => {
+    const onAsphalt = createKart(createSurfaceWorld(() => "asphalt"));
+    const onGrass = createKart(createSurfaceWorld(() => "grass"));
+    run(onAsphalt, { throttle: 1, steering: 0, drift: false }, 300);
+    run(onGrass, { throttle: 1, steering: 0, drift: false }, 300);
+
+    expect(onGrass.surface).toBe("grass");
+    expect(onGrass.velocity.length()).toBeLessThan(onAsphalt.velocity.length() * 0.8);
+  });
+
+  test("ice keeps the kart sliding", () => {
+    const onAsphalt = createKart(createSurfaceWorld(() => "asphalt"));
+    const onIce = createKart(createSurfaceWorld(() => "ice"));
+    // Facing +Z whilst sliding sideways
+    onAsphalt.velocity.set(10, 0, 10);
+    onIce.velocity.set(10, 0, 10);
+    run(onAsphalt, { throttle: 1, steering: 0, drift: false }, 60);
+    run(onIce, { throttle: 1, steering: 0, drift: false }, 60);
+
+    const slip = (kart: KartPhysics) => kart.velocity.x / kart.velocity.length();
+    expect(slip(onIce)).toBeGreaterThan(slip(onAsphalt) * 2);
+  });
+
+  test("boost pads push the kart forwards when it drives onto them", () => {
+    const kart = createKart(createSurfaceWorld((z) => (z > 1 ? "boost" : "asphalt")));
+    kart.velocity.set(0, 0, 10);
+    let boostedSpeed = 0;
+    for (let i = 0; i < 60 && kart.surface !== "boost"; i++) {
+      kart.step(null, stepDuration);
+      boostedSpeed = kart.velocity.z;
+    }
+
+    expect(kart.surface).toBe("boost");
+    expect(boostedSpeed).toBeGreaterThan(20);
+    // Only applied once rather than every step on the pad
+    run(kart, null, 10);
+    expect(kart.velocity.z).toBeLessThan(boostedSpeed);
+  });
+
+  test("slow zones never push the kart backwards", () => {
+    const kart = createKart(createSurfaceWorld((z) => (z > 0.1 ? "slow" : "asphalt")));
+    kart.velocity.set(0, 0, 3);
+    run(kart, null, 10);
+
+    expect(kart.surface).toBe("slow");
+    expect(kart.velocity.z).toBeGreaterThanOrEqual(0);
+    expect(kart.velocity.z).toBeLessThan(1);
+  });
+
+  test("pressing the drift button makes the kart hop", () => {
+    const kart = createKart();
+    kart.velocity.set(0, 0, 10);
+    run(kart, { throttle: 1, steering: 0, drift: true }, 5);
+
+    expect(kart.isGrounded).toBe(false);
+    expect(kart.position.y).toBeGreaterThan(0.25);
+    // Lands again without drifting as the kart wasn't steering
+    run(kart, { throttle: 1, steering: 0, drift: true }, 30);
+    expect(kart.isGrounded).toBe(true);
+    expect(kart.isDrifting).toBe(false);
+  });
+
+  test("drifting charges a mini-turbo that is released with the drift button", () => {
+    const kart = createKart();
+    kart.velocity.set(0, 0, 25);
+    run(kart, { throttle: 1, steering: 1, drift: true }, 150);
+
+    expect(kart.isDrifting).toBe(true);
+    expect(kart.driftDirection).toBe(1);
+    expect(kart.getMiniTurboTier()).toBeGreaterThanOrEqual(2);
+
+    const tier = kart.getMiniTurboTier();
+    const speedBeforeRelease = kart.velocity.length();
+    kart.step({ throttle: 1, steering: 0, drift: false }, stepDuration);
+
+    expect(kart.isDrifting).toBe(false);
+    expect(kart.getMiniTurboTier()).toBe(0);
+    expect(kart.boostTime).toBeGreaterThan(0);
+    expect(kart.velocity.length()).toBeGreaterThan(
+      speedBeforeRelease + kart.getConfig().miniTurboSpeed * tier * 0.8,
+    );
+  });
+
+  test("releasing a drift before it has charged gives no mini-turbo", () => {
+    const kart = createKart();
+    kart.velocity.set(0, 0, 25);
+    run(kart, { throttle: 1, steering: 1, drift: true }, 30);
+    expect(kart.isDrifting).toBe(true);
+    expect(kart.getMiniTurboTier()).toBe(0);
+
+    kart.step({ throttle: 1, steering: 0, drift: false }, stepDuration);
+    expect(kart.isDrifting).toBe(false);
+    expect(kart.boostTime).toBe(0);
+  });
+
+  test("boosting lets the kart exceed its maximum speed until the boost runs out", () => {
+    const kart = createKart();
+    const maxSpeed = kart.getConfig().maxSpeed;
+    kart.velocity.set(0, 0, maxSpeed);
+    kart.applyBoost(10, 1);
+    run(kart, { throttle: 1, steering: 0, drift: false }, 30);
+    expect(kart.velocity.length()).toBeGreaterThan(maxSpeed + 5);
+
+    run(kart, { throttle: 1, steering: 0, drift: false }, 60);
+    expect(kart.boostTime).toBe(0);
+    expect(kart.velocity.length()).toBeLessThanOrEqual(maxSpeed + 0.01);
+  });
+
+  test("spinning out slows the kart and ignores the controls", () => {
+    const kart = createKart();
+    kart.velocity.set(0, 0, 20);
+    kart.spinOut(1);
+    expect(kart.velocity.length()).toBeCloseTo(6);
+
+    run(kart, { throttle: 1, steering: 0, drift: false }, 30);
+    expect(kart.spinOutTime).toBeCloseTo(0.5);
+    expect(kart.throttleInput).toBe(0);
+    expect(kart.velocity.length()).toBeLessThan(6);
+
+    run(kart, { throttle: 1, steering: 0, drift: false }, 60);
+    expect(kart.spinOutTime).toBe(0);
+    expect(kart.throttleInput).toBeGreaterThan(0);
+  });
+
+  test("only drifts automatically when automatic drift is enabled", () => {
+    const manual = createKart();
+    const automatic = new KartPhysics({
+      collisions: createPlaneWorld([ground]),
+      automaticDrift: true,
+    });
+    automatic.reset(new Vector3(0, 0.25, 0));
+    manual.velocity.set(0, 0, 30);
+    automatic.velocity.set(0, 0, 30);
+    run(manual, { throttle: 1, steering: 1, drift: false }, 30);
+    run(automatic, { throttle: 1, steering: 1, drift: false }, 30);
+
+    expect(manual.isDrifting).toBe(false);
+    expect(automatic.isDrifting).toBe(true);
+    expect(automatic.getMiniTurboTier()).toBe(0);
+  });
+
+  test("produces identical results for identical inputs", () => {
+    const inputs: Array<KartControlInput | null> = [];
+    for (let i = 0; i < 600; i++) {
+      const phase = Math.floor(i / 60) % 4;
+      inputs.push(
+        phase === 3
+          ? null
+          : { throttle: phase === 2 ? -1 : 1, steering: phase === 1 ? 1 : 0, drift: false },
+      );
+    }
+    const first = createKart();
+    const second = createKart();
+    for (const input of inputs) {
+      first.step(input, stepDuration);
+      second.step(input, stepDuration);
+    }
+
+    expect(first.getState()).toEqual(second.getState());
+  });
+
+  test("reaches the same speed at any tick rate", () => {
+    // Runs the kart for the given number of seconds at a tick rate
+    const runFor = (
+      kart: KartPhysics,
+      input: KartControlInput | null,
+      seconds: number,
+      rate: number,
+    ) => {
+      for (let i = 0; i < seconds * rate; i++) {
+        kart.step(input, 1 / rate);
+      }
+    };
+    const slow = createKart();
+    const fast = createKart();
+    runFor(slow, { throttle: 1, steering: 0, drift: false }, 5, 30);
+    runFor(fast, { throttle: 1, steering: 0, drift: false }, 5, 120);
+    const topSpeed = fast.velocity.length();
+    expect(topSpeed).toBeGreaterThan(20);
+    // Within 5% (acceleration is still applied before friction in each step)
+    expect(Math.abs(slow.velocity.length() - topSpeed) / topSpeed).toBeLessThan(0.05);
+
+    runFor(slow, null, 2, 30);
+    runFor(fast, null, 2, 120);
+    expect(fast.velocity.length()).toBeLessThan(topSpeed);
+    expect(
+      Math.abs(slow.velocity.length() - fast.velocity.length()) / fast.velocity.length(),
+    ).toBeLessThan(0.05);
+  });
+
+  test("continues identically after restoring a saved state", () => {
+    const original = createKart();
+    run(original, { throttle: 1, steering: 0.5, drift: false }, 90);
+
+    const restored = createKart();
+    restored.setState(original.getState());
+
+    run(original, { throttle: 1, steering: -1, drift: false }, 90);
+    run(restored, { throttle: 1, steering: -1, drift: false }, 90);
+
+    expect(restored.getState()).toEqual(original.getState());
+  });
+});
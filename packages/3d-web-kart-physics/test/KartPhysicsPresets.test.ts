@@ -0,0 +1,70 @@
+import { Vector3 } from "three";
+
+import { defaultKartPhysicsConfig, KartPhysics, KartRaycastHit } from "../src/KartPhysics";
+import { kartPhysicsPresets, resolveKartPhysicsConfig } from "../src/KartPhysicsPresets";
+
+function createKart(configuration: Parameters<typeof resolveKartPhysicsConfig>[0]): KartPhysics {
+  const kart = new KartPhysics({
+    collisions: {
+      // Flat ground at y=0
+      raycast: (origin: Vector3, direction: Vector3): KartRaycastHit | null =>
+        direction.y < 0 && origin.y >= 0
+          ? {
+              distance: origin.y,
+              normal: new Vector3(0, 1, 0),
+              point: new Vector3(origin.x, 0, origin.z),
+            }
+          : null,
+    },
+    physicsConfig: resolveKartPhysicsConfig(configuration),
+  });
+  kart.reset(new Vector3(0, 0.25, 0));
+  return kart;
+}
+
+describe("resolveKartPhysicsConfig", () => {
+  test("defaults to the arcade preset", () => {
+    expect(resolveKartPhysicsConfig()).toEqual(defaultKartPhysicsConfig);
+    expect(kartPhysicsPresets.arcade).toEqual(defaultKartPhysicsConfig);
+  });
+
+  test("applies overrides on top of the preset", () => {
+    const config = resolveKartPhysicsConfig({ preset: "beginner", overrides: { maxSpeed: 42 } });
+    expect(config).toEqual({ ...kartPhysicsPresets.beginner, maxSpeed: 42 });
+  });
+
+  test("survives serialization", () => {
+    const configuration = { preset: "simulation" as const, overrides: { gravity: 20 } };
+    expect(resolveKartPhysicsConfig(JSON.parse(JSON.stringify(configuration)))).toEqual(
+      resolveKartPhysicsConfig(configuration),
+    );
+  });
+
+  test("rejects unknown presets and values", () => {
+    expect(() => resolveKartPhysicsConfig({ preset: "rally" as any })).toThrow(
+      "Unknown kart physics preset: rally",
+    );
+    expect(() => resolveKartPhysicsConfig({ overrides: { grip: 1 } as any })).toThrow(
+      "Unknown kart physics value: grip",
+    );
+    expect(() => resolveKartPhysicsConfig({ overrides: { maxSpeed: NaN } })).toThrow(
+      "Invalid kart physics value for maxSpeed: NaN",
+    );
+  });
+});
+
+describe("kartPhysicsPresets", () => {
+  test("presets change how the kart drives", () => {
+    const speeds = (["beginner", "arcade", "simulation"] as const).map((preset) => {
+      const kart = createKart({ preset });
+      // Long enough to reach the top speed of every preset
+      for (let i = 0; i < 1200; i++) {
+        kart.step({ throttle: 1, steering: 0, drift: false }, 1 / 60);
+      }
+      return kart.velocity.length();
+    });
+
+    expect(speeds[0]).toBeLessThan(speeds[1]);
+    expect(speeds[1]).toBeLessThan(speeds[2]);
+  });
+});
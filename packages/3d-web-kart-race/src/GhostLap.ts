@@ -0,0 +1,243 @@
+import { RaceVector3 } from "./RaceVolume";
+
+export type RaceQuaternion = {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+};
+
+export type GhostLapSample = {
+  // Milliseconds since the start of the lap
+  time: number;
+  position: RaceVector3;
+  rotation: RaceQuaternion;
+};
+
+// A lap stored as a time-indexed trajectory that can be driven by a ghost kart
+export type GhostLap = {
+  lapTime: number;
+  // Ordered by time, starting at 0 and ending at lapTime
+  samples: Array<GhostLapSample>;
+  username?: string;
+};
+
+export type GhostLapRecorderConfig = {
+  // Minimum milliseconds between samples
+  sampleInterval?: number;
+  // Laps with more samples than this are discarded rather than recorded (e.g. if a player stops mid-lap)
+  maxSamples?: number;
+};
+
+const defaultSampleInterval = 50;
+const defaultMaxSamples = 12000;
+
+function round(value: number, precision: number): number {
+  return Math.round(value * precision) / precision;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isVector(value: any): value is RaceVector3 {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    isFiniteNumber(value.x) &&
+    isFiniteNumber(value.y) &&
+    isFiniteNumber(value.z)
+  );
+}
+
+function isQuaternion(value: any): value is RaceQuaternion {
+  return isVector(value) && isFiniteNumber((value as RaceQuaternion).w);
+}
+
+// Checks that a ghost lap received from storage or the network is well-formed
+export function validateGhostLap(value: unknown, maxSamples = defaultMaxSamples): GhostLap {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("A ghost lap must be an object");
+  }
+  const { lapTime, samples, username } = value as Record<string, unknown>;
+  if (!isFiniteNumber(lapTime) || lapTime <= 0) {
+    throw new Error(`Invalid ghost lap time: ${lapTime}`);
+  }
+  if (!Array.isArray(samples) || samples.length < 2 || samples.length > maxSamples) {
+    throw new Error(`A ghost lap requires between 2 and ${maxSamples} samples`);
+  }
+  let previousTime = -1;
+  for (const sample of samples) {
+    if (
+      typeof sample !== "object" ||
+      sample === null ||
+      !isFiniteNumber(sample.time) ||
+      !isVector(sample.position) ||
+      !isQuaternion(sample.rotation)
+    ) {
+      throw new Error("Invalid ghost lap sample");
+    }
+    if (sample.time <= previousTime || sample.time > lapTime) {
+      throw new Error("Ghost lap samples must be ordered by time within the lap");
+    }
+    previousTime = sample.time;
+  }
+  if (username !== undefined && typeof username !== "string") {
+    throw new Error("Invalid ghost lap username");
+  }
+  return {
+    lapTime,
+    samples: samples.map((sample: GhostLapSample) => ({
+      time: sample.time,
+      position: { x: sample.position.x, y: sample.position.y, z: sample.position.z },
+      rotation: {
+        x: sample.rotation.x,
+        y: sample.rotation.y,
+        z: sample.rotation.z,
+        w: sample.rotation.w,
+      },
+    })),
+    username,
+  };
+}
+
+// The pose of a ghost at the given lap time (clamped to the start and end of the lap)
+export function sampleGhostLap(ghost: GhostLap, time: number): GhostLapSample {
+  const samples = ghost.samples;
+  if (time <= samples[0].time) {
+    return samples[0];
+  }
+  if (time >= samples[samples.length - 1].time) {
+    return samples[samples.length - 1];
+  }
+
+  // Binary search for the last sample at or before the time
+  let low = 0;
+  let high = samples.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (samples[middle].time <= time) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const from = samples[low];
+  const to = samples[high];
+  const t = (time - from.time) / (to.time - from.time);
+  // Normalized linear interpolation is close enough to a slerp for samples that are this close together
+  const sign =
+    from.rotation.x * to.rotation.x +
+      from.rotation.y * to.rotation.y +
+      from.rotation.z * to.rotation.z +
+      from.rotation.w * to.rotation.w <
+    0
+      ? -1
+      : 1;
+  const x = from.rotation.x + (to.rotation.x * sign - from.rotation.x) * t;
+  const y = from.rotation.y + (to.rotation.y * sign - from.rotation.y) * t;
+  const z = from.rotation.z + (to.rotation.z * sign - from.rotation.z) * t;
+  const w = from.rotation.w + (to.rotation.w * sign - from.rotation.w) * t;
+  const length = Math.sqrt(x * x + y * y + z * z + w * w) || 1;
+  return {
+    time,
+    position: {
+      x: from.position.x + (to.position.x - from.position.x) * t,
+      y: from.position.y + (to.position.y - from.position.y) * t,
+      z: from.position.z + (to.position.z - from.position.z) * t,
+    },
+    rotation: { x: x / length, y: y / length, z: z / length, w: w / length },
+  };
+}
+
+/*
+ Records the trajectory of a kart during a lap. Each completed lap starts the next one from the pose that the kart
+ crossed the line with, so consecutive laps can all be recorded without gaps.
+*/
+export class GhostLapRecorder {
+  private samples: Array<GhostLapSample> = [];
+  private recording: boolean = false;
+  private overflowed: boolean = false;
+
+  constructor(private config: GhostLapRecorderConfig = {}) {}
+
+  public isRecording(): boolean {
+    return this.recording;
+  }
+
+  // Starts recording a new lap, discarding any samples from an incomplete lap
+  public start() {
+    this.samples = [];
+    this.overflowed = false;
+    this.recording = true;
+  }
+
+  public stop() {
+    this.samples = [];
+    this.recording = false;
+  }
+
+  // time is in milliseconds since the start of the lap
+  public record(time: number, position: RaceVector3, rotation: RaceQuaternion) {
+    if (!this.recording || this.overflowed) {
+      return;
+    }
+    const lastSample = this.samples[this.samples.length - 1];
+    if (
+      lastSample &&
+      time - lastSample.time < (this.config.sampleInterval ?? defaultSampleInterval)
+    ) {
+      return;
+    }
+    if (this.samples.length >= (this.config.maxSamples ?? defaultMaxSamples) - 1) {
+      // Leave room for the final sample, but don't keep the lap
+      this.overflowed = true;
+      return;
+    }
+    this.samples.push(GhostLapRecorder.createSample(time, position, rotation));
+  }
+
+  /*
+   Completes the lap at the pose the kart crossed the line with and starts recording the next lap. Returns null if the
+   lap was not fully recorded (e.g. recording started part way through it).
+  */
+  public finishLap(
+    lapTime: number,
+    position: RaceVector3,
+    rotation: RaceQuaternion,
+  ): GhostLap | null {
+    const wasRecording = this.recording;
+    const samples = this.samples.filter((sample) => sample.time < lapTime);
+    const finalSample = GhostLapRecorder.createSample(lapTime, position, rotation);
+    samples.push(finalSample);
+    const complete =
+      wasRecording && !this.overflowed && samples.length >= 2 && samples[0].time === 0;
+
+    this.start();
+    this.samples.push({ ...finalSample, time: 0 });
+    return complete ? { lapTime, samples } : null;
+  }
+
+  private static createSample(
+    time: number,
+    position: RaceVector3,
+    rotation: RaceQuaternion,
+  ): GhostLapSample {
+    // Rounded to keep stored and transmitted laps small
+    return {
+      time: Math.max(0, time),
+      position: {
+        x: round(position.x, 1000),
+        y: round(position.y, 1000),
+        z: round(position.z, 1000),
+      },
+      rotation: {
+        x: round(rotation.x, 10000),
+        y: round(rotation.y, 10000),
+        z: round(rotation.z, 10000),
+        w: round(rotation.w, 10000),
+      },
+    };
+  }
+}
@@ -0,0 +1,344 @@
+import { KartItemDefinition, KartItemHit, KartItemRegistry } from "./KartItems";
+import { RaceVector3 } from "./RaceVolume";
+
+// A projectile or hazard that is in the world
+export type ItemEntity = {
+  id: number;
+  itemId: string;
+  ownerId: number;
+  type: "projectile" | "hazard";
+  position: RaceVector3;
+  // Meters per second (hazards don't move)
+  velocity: RaceVector3;
+  radius: number;
+  hit: KartItemHit;
+  createdAt: number;
+  expiresAt: number;
+};
+
+export type ItemParticipantState = {
+  participantId: number;
+  item: string | null;
+  // Milliseconds until the participant's shield runs out (0 without a shield)
+  shieldRemaining: number;
+};
+
+// An item box in the world (matching the item boxes that clients find in MML)
+export type ItemBoxConfig = {
+  id: string;
+  position: RaceVector3;
+};
+
+export type ItemBoxCooldown = {
+  id: string;
+  // Milliseconds until the item box can be collected again
+  respawnRemaining: number;
+};
+
+export type ItemSessionEvent =
+  | { type: "pickup"; participantId: number; itemId: string; boxId: string }
+  | { type: "use"; participantId: number; item: KartItemDefinition }
+  | { type: "hit"; participantId: number; ownerId: number; itemId: string; hit: KartItemHit }
+  | { type: "blocked"; participantId: number; ownerId: number; itemId: string };
+
+export type ItemSessionConfig = {
+  registry: KartItemRegistry;
+  // The only item boxes that can be collected, which are checked against the participants' positions
+  itemBoxes: Array<ItemBoxConfig>;
+  // Milliseconds before a collected item box can be collected again
+  itemBoxRespawnTime?: number;
+  // The furthest (in meters) that a participant can be from an item box that they collect
+  pickupDistance?: number;
+  // Returns a value between 0 (inclusive) and 1 (exclusive) to pick items with
+  random?: () => number;
+  onEvent?: (event: ItemSessionEvent) => void;
+};
+
+type ItemParticipant = {
+  item: string | null;
+  position: RaceVector3 | null;
+  // Radians around the vertical axis (0 faces along positive z)
+  heading: number;
+  shieldExpiresAt: number | null;
+};
+
+const defaultItemBoxRespawnTime = 3000;
+const defaultPickupDistance = 5;
+// Items are placed this far ahead of (projectiles) or behind (hazards) the kart so that they don't hit it straight away
+const itemSpawnDistance = 2.5;
+// Items can't hit the kart that used them until this many milliseconds have passed
+const ownerImmunityTime = 1000;
+// Added to an item's radius to approximate the size of a kart
+const kartRadius = 1;
+
+function distanceBetween(a: RaceVector3, b: RaceVector3): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+}
+
+// The distance from point to the closest point on the segment between from and to
+function distanceToSegment(point: RaceVector3, from: RaceVector3, to: RaceVector3): number {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const dz = to.z - from.z;
+  const lengthSquared = dx * dx + dy * dy + dz * dz;
+  let t = 0;
+  if (lengthSquared > 0) {
+    t =
+      ((point.x - from.x) * dx + (point.y - from.y) * dy + (point.z - from.z) * dz) / lengthSquared;
+    t = Math.max(0, Math.min(1, t));
+  }
+  return distanceBetween(point, { x: from.x + dx * t, y: from.y + dy * t, z: from.z + dz * t });
+}
+
+/*
+ Tracks which items participants hold, which item boxes have been collected and the projectiles and hazards in the
+ world, and decides which karts are hit. It only knows the positions that it is given, so projectiles travel in
+ straight lines and pass through the track's walls.
+*/
+export class ItemSession {
+  private participants = new Map<number, ItemParticipant>();
+  private itemBoxPositions = new Map<string, RaceVector3>();
+  private itemBoxRespawnTimes = new Map<string, number>();
+  private entities = new Map<number, ItemEntity>();
+  private nextEntityId = 1;
+  private lastUpdateTime: number | null = null;
+
+  constructor(private config: ItemSessionConfig) {
+    for (const itemBox of config.itemBoxes) {
+      if (this.itemBoxPositions.has(itemBox.id)) {
+        throw new Error(`An item box with the id "${itemBox.id}" is already declared`);
+      }
+      this.itemBoxPositions.set(itemBox.id, itemBox.position);
+    }
+  }
+
+  public get registry(): KartItemRegistry {
+    return this.config.registry;
+  }
+
+  public getParticipantIds(): Array<number> {
+    return Array.from(this.participants.keys());
+  }
+
+  public addParticipant(participantId: number) {
+    if (this.participants.has(participantId)) {
+      return;
+    }
+    this.participants.set(participantId, {
+      item: null,
+      position: null,
+      heading: 0,
+      shieldExpiresAt: null,
+    });
+  }
+
+  public removeParticipant(participantId: number) {
+    this.participants.delete(participantId);
+  }
+
+  public updateParticipantPosition(participantId: number, position: RaceVector3, heading: number) {
+    const participant = this.participants.get(participantId);
+    if (!participant) {
+      return;
+    }
+    participant.position = { x: position.x, y: position.y, z: position.z };
+    participant.heading = heading;
+  }
+
+  public getItem(participantId: number): string | null {
+    return this.participants.get(participantId)?.item ?? null;
+  }
+
+  // Gives an item to a participant (replacing any item that they hold), e.g. as a reward
+  public giveItem(participantId: number, itemId: string) {
+    const participant = this.participants.get(participantId);
+    if (!participant) {
+      throw new Error(`Unknown participant: ${participantId}`);
+    }
+    if (!this.config.registry.get(itemId)) {
+      throw new Error(`Unknown item: ${itemId}`);
+    }
+    participant.item = itemId;
+  }
+
+  /*
+   Gives the participant a random item from the item box if they don't already hold an item, the box hasn't been
+   collected recently and the participant is close enough to it.
+  */
+  public collectItemBox(participantId: number, boxId: string, now: number): boolean {
+    const participant = this.participants.get(participantId);
+    const boxPosition = this.itemBoxPositions.get(boxId);
+    if (
+      !participant ||
+      !boxPosition ||
+      participant.item !== null ||
+      participant.position === null
+    ) {
+      return false;
+    }
+    const respawnTime = this.itemBoxRespawnTimes.get(boxId);
+    if (respawnTime !== undefined && respawnTime > now) {
+      return false;
+    }
+    const pickupDistance = this.config.pickupDistance ?? defaultPickupDistance;
+    if (distanceBetween(participant.position, boxPosition) > pickupDistance) {
+      return false;
+    }
+    const item = this.config.registry.pickRandom((this.config.random ?? Math.random)());
+    if (!item) {
+      return false;
+    }
+    participant.item = item.id;
+    this.itemBoxRespawnTimes.set(
+      boxId,
+      now + (this.config.itemBoxRespawnTime ?? defaultItemBoxRespawnTime),
+    );
+    this.config.onEvent?.({ type: "pickup", participantId, itemId: item.id, boxId });
+    return true;
+  }
+
+  // Uses the participant's item, returning it (or null if they didn't hold one)
+  public useItem(participantId: number, now: number): KartItemDefinition | null {
+    const participant = this.participants.get(participantId);
+    if (!participant || participant.item === null || participant.position === null) {
+      return null;
+    }
+    const item = this.config.registry.get(participant.item);
+    participant.item = null;
+    if (!item) {
+      // The item has been unregistered since it was collected
+      return null;
+    }
+
+    const forwardX = Math.sin(participant.heading);
+    const forwardZ = Math.cos(participant.heading);
+    const effect = item.effect;
+    switch (effect.type) {
+      case "shield":
+        participant.shieldExpiresAt = now + effect.duration * 1000;
+        break;
+      case "projectile":
+      case "hazard": {
+        const direction = effect.type === "projectile" ? 1 : -1;
+        const speed = effect.type === "projectile" ? effect.speed : 0;
+        const id = this.nextEntityId++;
+        this.entities.set(id, {
+          id,
+          itemId: item.id,
+          ownerId: participantId,
+          type: effect.type,
+          position: {
+            x: participant.position.x + forwardX * itemSpawnDistance * direction,
+            y: participant.position.y,
+            z: participant.position.z + forwardZ * itemSpawnDistance * direction,
+          },
+          velocity: { x: forwardX * speed, y: 0, z: forwardZ * speed },
+          radius: effect.radius,
+          hit: effect.hit,
+          createdAt: now,
+          expiresAt: now + effect.lifetime * 1000,
+        });
+        break;
+      }
+    }
+    this.config.onEvent?.({ type: "use", participantId, item });
+    return item;
+  }
+
+  // Moves projectiles, removes expired items and hits any karts that items have reached
+  public update(now: number) {
+    const elapsed =
+      this.lastUpdateTime === null ? 0 : Math.max(0, now - this.lastUpdateTime) / 1000;
+    this.lastUpdateTime = now;
+
+    for (const [id, entity] of this.entities) {
+      const from = entity.position;
+      const to = {
+        x: from.x + entity.velocity.x * elapsed,
+        y: from.y + entity.velocity.y * elapsed,
+        z: from.z + entity.velocity.z * elapsed,
+      };
+      entity.position = to;
+      // The whole path travelled since the last update is checked so that fast projectiles can't pass through karts
+      const target = this.findHitParticipant(entity, from, to, now);
+      if (target !== null) {
+        this.entities.delete(id);
+        this.hitParticipant(target, entity, now);
+      } else if (now >= entity.expiresAt) {
+        this.entities.delete(id);
+      }
+    }
+  }
+
+  private findHitParticipant(
+    entity: ItemEntity,
+    from: RaceVector3,
+    to: RaceVector3,
+    now: number,
+  ): number | null {
+    let closestId: number | null = null;
+    let closestDistance = entity.radius + kartRadius;
+    for (const [participantId, participant] of this.participants) {
+      if (participant.position === null) {
+        continue;
+      }
+      if (participantId === entity.ownerId && now - entity.createdAt < ownerImmunityTime) {
+        continue;
+      }
+      const distance = distanceToSegment(participant.position, from, to);
+      if (distance <= closestDistance) {
+        closestId = participantId;
+        closestDistance = distance;
+      }
+    }
+    return closestId;
+  }
+
+  private hitParticipant(participantId: number, entity: ItemEntity, now: number) {
+    const participant = this.participants.get(participantId)!;
+    if (participant.shieldExpiresAt !== null && participant.shieldExpiresAt > now) {
+      // A shield absorbs a single hit
+      participant.shieldExpiresAt = null;
+      this.config.onEvent?.({
+        type: "blocked",
+        participantId,
+        ownerId: entity.ownerId,
+        itemId: entity.itemId,
+      });
+      return;
+    }
+    this.config.onEvent?.({
+      type: "hit",
+      participantId,
+      ownerId: entity.ownerId,
+      itemId: entity.itemId,
+      hit: entity.hit,
+    });
+  }
+
+  public getParticipantStates(now: number): Array<ItemParticipantState> {
+    return Array.from(this.participants.entries()).map(([participantId, participant]) => ({
+      participantId,
+      item: participant.item,
+      shieldRemaining:
+        participant.shieldExpiresAt !== null ? Math.max(0, participant.shieldExpiresAt - now) : 0,
+    }));
+  }
+
+  // The item boxes that have been collected and can't yet be collected again
+  public getItemBoxCooldowns(now: number): Array<ItemBoxCooldown> {
+    const cooldowns: Array<ItemBoxCooldown> = [];
+    for (const [id, respawnTime] of this.itemBoxRespawnTimes) {
+      if (respawnTime > now) {
+        cooldowns.push({ id, respawnRemaining: respawnTime - now });
+      } else {
+        this.itemBoxRespawnTimes.delete(id);
+      }
+    }
+    return cooldowns;
+  }
+
+  public getEntities(): Array<ItemEntity> {
+    return Array.from(this.entities.values());
+  }
+}
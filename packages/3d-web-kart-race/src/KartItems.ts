@@ -0,0 +1,142 @@
+export type KartItemHit = {
+  // Seconds that a kart that is hit spins out for
+  spinOutDuration: number;
+};
+
+/*
+ What happens when an item is used. Items are built from these behaviours so that new items can be registered with
+ their own values (on the server and on clients) without writing any new code. Durations, lifetimes and speeds are in
+ seconds and meters per second to match the kart physics.
+*/
+export type KartItemEffect =
+  // Pushes the user's kart forwards and lets it exceed its maximum speed by speed until the boost runs out
+  | { type: "boost"; speed: number; duration: number }
+  // Protects the user's kart from the next hit
+  | { type: "shield"; duration: number }
+  // Fired ahead of the user's kart in a straight line, hitting the first kart that comes within radius of it
+  | { type: "projectile"; speed: number; lifetime: number; radius: number; hit: KartItemHit }
+  // Dropped behind the user's kart, hitting the first kart that drives within radius of it
+  | { type: "hazard"; lifetime: number; radius: number; hit: KartItemHit };
+
+export type KartItemDefinition = {
+  id: string;
+  name: string;
+  // Used for the item in the HUD and (for projectiles and hazards) for its object in the world
+  color: number;
+  // The relative chance of an item box giving out this item (0 for it to never be given out by item boxes)
+  weight: number;
+  effect: KartItemEffect;
+};
+
+export const defaultKartItems: Array<KartItemDefinition> = [
+  {
+    id: "speed-boost",
+    name: "Speed Boost",
+    color: 0xffb000,
+    weight: 3,
+    effect: { type: "boost", speed: 12, duration: 1.5 },
+  },
+  {
+    id: "projectile",
+    name: "Projectile",
+    color: 0x2fbf4f,
+    weight: 2,
+    effect: {
+      type: "projectile",
+      speed: 60,
+      lifetime: 3,
+      radius: 1.5,
+      hit: { spinOutDuration: 1.2 },
+    },
+  },
+  {
+    id: "oil-slick",
+    name: "Oil Slick",
+    color: 0x3a3a3a,
+    weight: 2,
+    effect: { type: "hazard", lifetime: 30, radius: 1.5, hit: { spinOutDuration: 1 } },
+  },
+  {
+    id: "shield",
+    name: "Shield",
+    color: 0x3fa9ff,
+    weight: 1,
+    effect: { type: "shield", duration: 8 },
+  },
+];
+
+function getEffectValues(effect: KartItemEffect): Array<number> | null {
+  switch (effect.type) {
+    case "boost":
+      return [effect.speed, effect.duration];
+    case "shield":
+      return [effect.duration];
+    case "projectile":
+      return [effect.speed, effect.lifetime, effect.radius, effect.hit.spinOutDuration];
+    case "hazard":
+      return [effect.lifetime, effect.radius, effect.hit.spinOutDuration];
+    default:
+      return null;
+  }
+}
+
+export function validateKartItemDefinition(definition: KartItemDefinition) {
+  if (typeof definition.id !== "string" || definition.id.length === 0) {
+    throw new Error("An item requires an id");
+  }
+  if (!Number.isFinite(definition.weight) || definition.weight < 0) {
+    throw new Error(`Invalid weight for item "${definition.id}": ${definition.weight}`);
+  }
+  const values = getEffectValues(definition.effect);
+  if (values === null) {
+    throw new Error(`Unknown effect for item "${definition.id}"`);
+  }
+  if (values.some((value) => !Number.isFinite(value) || value < 0)) {
+    throw new Error(`Invalid effect values for item "${definition.id}"`);
+  }
+}
+
+// The items that can be given out and used - the server and clients should register the same items
+export class KartItemRegistry {
+  private definitions = new Map<string, KartItemDefinition>();
+
+  constructor(definitions: Array<KartItemDefinition> = defaultKartItems) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  public register(definition: KartItemDefinition) {
+    validateKartItemDefinition(definition);
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`An item with the id "${definition.id}" is already registered`);
+    }
+    this.definitions.set(definition.id, definition);
+  }
+
+  public unregister(id: string): boolean {
+    return this.definitions.delete(id);
+  }
+
+  public get(id: string): KartItemDefinition | null {
+    return this.definitions.get(id) ?? null;
+  }
+
+  public getAll(): Array<KartItemDefinition> {
+    return Array.from(this.definitions.values());
+  }
+
+  // Picks an item by weight using a random value between 0 (inclusive) and 1 (exclusive)
+  public pickRandom(random: number): KartItemDefinition | null {
+    const definitions = this.getAll().filter((definition) => definition.weight > 0);
+    const totalWeight = definitions.reduce((total, definition) => total + definition.weight, 0);
+    let remaining = random * totalWeight;
+    for (const definition of definitions) {
+      remaining -= definition.weight;
+      if (remaining < 0) {
+        return definition;
+      }
+    }
+    return definitions[definitions.length - 1] ?? null;
+  }
+}
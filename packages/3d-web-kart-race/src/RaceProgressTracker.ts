@@ -0,0 +1,108 @@
+import { RaceTrackConfig } from "./RaceTrack";
+import {
+  distanceToRaceVolume,
+  RaceVector3,
+  RaceVolume,
+  segmentIntersectsRaceVolume,
+} from "./RaceVolume";
+
+export type RaceProgressEvent =
+  | { type: "checkpoint"; checkpointIndex: number; time: number }
+  | { type: "lap"; lap: number; lapTime: number; time: number }
+  | { type: "finish"; totalTime: number; time: number };
+
+export class RaceProgressTracker {
+  // The number of completed laps
+  public lap: number = 0;
+  public nextCheckpointIndex: number = 0;
+  public lapTimes: Array<number> = [];
+  public finishTime: number | null = null;
+
+  private lapStartTime: number;
+  private lastPosition: RaceVector3 | null = null;
+
+  constructor(
+    private track: RaceTrackConfig,
+    private raceStartTime: number,
+  ) {
+    this.lapStartTime = raceStartTime;
+  }
+
+  public get hasFinished(): boolean {
+    return this.finishTime !== null;
+  }
+
+  public get bestLapTime(): number | null {
+    if (this.lapTimes.length === 0) {
+      return null;
+    }
+    return Math.min(...this.lapTimes);
+  }
+
+  public getCurrentLapTime(time: number): number {
+    return Math.max(0, time - this.lapStartTime);
+  }
+
+  // The volume that must be crossed next (the start/finish line once all checkpoints of the lap are passed)
+  public getNextTarget(): RaceVolume {
+    if (this.nextCheckpointIndex >= this.track.checkpoints.length) {
+      return this.track.startFinishLine;
+    }
+    return this.track.checkpoints[this.nextCheckpointIndex];
+  }
+
+  // A monotonically increasing value used to order participants that have not finished
+  public getProgress(): number {
+    return this.lap * (this.track.checkpoints.length + 1) + this.nextCheckpointIndex;
+  }
+
+  public getDistanceToNextTarget(): number {
+    if (this.lastPosition === null) {
+      return Number.POSITIVE_INFINITY;
+    }
+    return distanceToRaceVolume(this.getNextTarget(), this.lastPosition);
+  }
+
+  // Records a position without evaluating progress (e.g. whilst on the grid during the countdown)
+  public setPosition(position: RaceVector3) {
+    this.lastPosition = { x: position.x, y: position.y, z: position.z };
+  }
+
+  public update(position: RaceVector3, time: number): Array<RaceProgressEvent> {
+    const previousPosition = this.lastPosition;
+    this.setPosition(position);
+    if (previousPosition === null || this.hasFinished) {
+      return [];
+    }
+
+    const events: Array<RaceProgressEvent> = [];
+    // A single (long) movement can pass multiple consecutive volumes
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const target = this.getNextTarget();
+      if (!segmentIntersectsRaceVolume(target, previousPosition, position)) {
+        break;
+      }
+      if (this.nextCheckpointIndex < this.track.checkpoints.length) {
+        events.push({ type: "checkpoint", checkpointIndex: this.nextCheckpointIndex, time });
+        this.nextCheckpointIndex++;
+        continue;
+      }
+
+      const lapTime = time - this.lapStartTime;
+      this.lapTimes.push(lapTime);
+      this.lap++;
+      this.nextCheckpointIndex = 0;
+      this.lapStartTime = time;
+      events.push({ type: "lap", lap: this.lap, lapTime, time });
+
+      if (this.lap >= this.track.laps) {
+        this.finishTime = time;
+        events.push({ type: "finish", totalTime: time - this.raceStartTime, time });
+      }
+      // The start/finish line cannot count for more than one lap in the same movement
+      break;
+    }
+    return events;
+  }
+}
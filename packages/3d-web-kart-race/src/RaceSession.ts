@@ -0,0 +1,245 @@
+import { RaceProgressEvent, RaceProgressTracker } from "./RaceProgressTracker";
+import { RaceTrackConfig, validateRaceTrack } from "./RaceTrack";
+import { RaceVector3 } from "./RaceVolume";
+
+export type RacePhase = "idle" | "countdown" | "racing" | "finished";
+
+export type RaceSessionEvent =
+  | { type: "phase"; phase: RacePhase; time: number }
+  | (RaceProgressEvent & { participantId: number });
+
+export type RaceStanding = {
+  participantId: number;
+  position: number;
+  lap: number;
+  nextCheckpointIndex: number;
+  lapTimes: Array<number>;
+  bestLapTime: number | null;
+  finishTime: number | null;
+  // The time taken from the start of the race to finishing
+  totalTime: number | null;
+};
+
+export type RaceSessionConfig = {
+  track: RaceTrackConfig;
+  // Milliseconds between starting the countdown and the race starting
+  countdownDuration?: number;
+  // Milliseconds after the first finisher before the race is closed for everyone else
+  finishTimeout?: number;
+  onEvent?: (event: RaceSessionEvent) => void;
+};
+
+const defaultCountdownDuration = 3000;
+const defaultFinishTimeout = 30000;
+
+export class RaceSession {
+  private phase: RacePhase = "idle";
+  private countdownStartTime: number | null = null;
+  private raceStartTime: number | null = null;
+  private firstFinishTime: number | null = null;
+  private participantIds = new Set<number>();
+  private trackers = new Map<number, RaceProgressTracker>();
+  private pendingPositions = new Map<number, RaceVector3>();
+
+  constructor(private config: RaceSessionConfig) {
+    validateRaceTrack(config.track);
+  }
+
+  public get track(): RaceTrackConfig {
+    return this.config.track;
+  }
+
+  public getPhase(): RacePhase {
+    return this.phase;
+  }
+
+  public getRaceStartTime(): number | null {
+    return this.raceStartTime;
+  }
+
+  // Milliseconds until the race starts, or null if the countdown is not running
+  public getCountdownRemaining(now: number): number | null {
+    if (this.phase !== "countdown" || this.countdownStartTime === null) {
+      return null;
+    }
+    return Math.max(0, this.countdownStartTime + this.getCountdownDuration() - now);
+  }
+
+  public getElapsedTime(now: number): number {
+    if (this.raceStartTime === null) {
+      return 0;
+    }
+    return Math.max(0, now - this.raceStartTime);
+  }
+
+  public getParticipantIds(): Array<number> {
+    return Array.from(this.participantIds);
+  }
+
+  public getTracker(participantId: number): RaceProgressTracker | null {
+    return this.trackers.get(participantId) ?? null;
+  }
+
+  public addParticipant(participantId: number) {
+    if (this.participantIds.has(participantId)) {
+      return;
+    }
+    this.participantIds.add(participantId);
+    if (this.phase === "racing" && this.raceStartTime !== null) {
+      // Late joiners can still race, but start from the race start time
+      this.createTracker(participantId, this.raceStartTime);
+    }
+  }
+
+  public removeParticipant(participantId: number, now: number) {
+    this.participantIds.delete(participantId);
+    const removedTracker = this.trackers.delete(participantId);
+    this.pendingPositions.delete(participantId);
+    // The race doesn't wait for racers that have left, so it ends if the rest have finished or nobody is left
+    if (
+      this.phase === "racing" &&
+      removedTracker &&
+      (this.trackers.size === 0 || this.allParticipantsFinished())
+    ) {
+      this.setPhase("finished", now);
+    }
+  }
+
+  public startCountdown(now: number) {
+    if (this.phase === "countdown" || this.phase === "racing") {
+      throw new Error(`Cannot start a race whilst in the ${this.phase} phase`);
+    }
+    this.trackers.clear();
+    this.raceStartTime = null;
+    this.firstFinishTime = null;
+    this.countdownStartTime = now;
+    this.setPhase("countdown", now);
+    if (this.getCountdownDuration() <= 0) {
+      this.startRacing(now);
+    }
+  }
+
+  public abort(now: number) {
+    this.countdownStartTime = null;
+    this.raceStartTime = null;
+    this.firstFinishTime = null;
+    this.trackers.clear();
+    if (this.phase !== "idle") {
+      this.setPhase("idle", now);
+    }
+  }
+
+  public update(now: number) {
+    if (this.phase === "countdown" && this.countdownStartTime !== null) {
+      if (now - this.countdownStartTime >= this.getCountdownDuration()) {
+        this.startRacing(this.countdownStartTime + this.getCountdownDuration());
+      }
+    } else if (this.phase === "racing") {
+      if (
+        this.firstFinishTime !== null &&
+        now - this.firstFinishTime >= (this.config.finishTimeout ?? defaultFinishTimeout)
+      ) {
+        this.setPhase("finished", now);
+      }
+    }
+  }
+
+  public updateParticipantPosition(participantId: number, position: RaceVector3, now: number) {
+    if (!this.participantIds.has(participantId)) {
+      return;
+    }
+    const tracker = this.trackers.get(participantId);
+    if (this.phase !== "racing" || !tracker) {
+      // Remembered so that movement from the grid is measured from the last known position
+      this.pendingPositions.set(participantId, { x: position.x, y: position.y, z: position.z });
+      return;
+    }
+    const events = tracker.update(position, now);
+    for (const event of events) {
+      this.emit({ ...event, participantId });
+      if (event.type === "finish" && this.firstFinishTime === null) {
+        this.firstFinishTime = now;
+      }
+    }
+    if (events.length > 0 && this.allParticipantsFinished()) {
+      this.setPhase("finished", now);
+    }
+  }
+
+  public getStandings(): Array<RaceStanding> {
+    const trackers = Array.from(this.trackers.entries());
+    trackers.sort(([, a], [, b]) => {
+      if (a.finishTime !== null && b.finishTime !== null) {
+        return a.finishTime - b.finishTime;
+      }
+      if (a.finishTime !== null) {
+        return -1;
+      }
+      if (b.finishTime !== null) {
+        return 1;
+      }
+      const progressDifference = b.getProgress() - a.getProgress();
+      if (progressDifference !== 0) {
+        return progressDifference;
+      }
+      return a.getDistanceToNextTarget() - b.getDistanceToNextTarget();
+    });
+    return trackers.map(([participantId, tracker], index) => ({
+      participantId,
+      position: index + 1,
+      lap: tracker.lap,
+      nextCheckpointIndex: tracker.nextCheckpointIndex,
+      lapTimes: [...tracker.lapTimes],
+      bestLapTime: tracker.bestLapTime,
+      finishTime: tracker.finishTime,
+      totalTime:
+        tracker.finishTime !== null && this.raceStartTime !== null
+          ? tracker.finishTime - this.raceStartTime
+          : null,
+    }));
+  }
+
+  private getCountdownDuration(): number {
+    return this.config.countdownDuration ?? defaultCountdownDuration;
+  }
+
+  private startRacing(startTime: number) {
+    this.raceStartTime = startTime;
+    for (const participantId of this.participantIds) {
+      this.createTracker(participantId, startTime);
+    }
+    this.setPhase("racing", startTime);
+  }
+
+  private createTracker(participantId: number, startTime: number) {
+    const tracker = new RaceProgressTracker(this.config.track, startTime);
+    const pendingPosition = this.pendingPositions.get(participantId);
+    if (pendingPosition) {
+      tracker.setPosition(pendingPosition);
+    }
+    this.trackers.set(participantId, tracker);
+  }
+
+  private allParticipantsFinished(): boolean {
+    if (this.trackers.size === 0) {
+      return false;
+    }
+    for (const tracker of this.trackers.values()) {
+      if (!tracker.hasFinished) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private setPhase(phase: RacePhase, time: number) {
+    this.phase = phase;
+    this.emit({ type: "phase", phase, time });
+  }
+
+  private emit(event: RaceSessionEvent) {
+    if (this.config.onEvent) {
+      this.config.onEvent(event);
+    }
+  }
+}
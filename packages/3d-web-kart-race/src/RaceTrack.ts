@@ -0,0 +1,17 @@
+import { RaceVolume } from "./RaceVolume";
+
+export type RaceTrackConfig = {
+  // Checkpoints must be passed in this order before crossing the start/finish line completes a lap
+  checkpoints: Array<RaceVolume>;
+  startFinishLine: RaceVolume;
+  laps: number;
+};
+
+export function validateRaceTrack(track: RaceTrackConfig) {
+  if (track.checkpoints.length === 0) {
+    throw new Error("A race track requires at least one checkpoint");
+  }
+  if (!Number.isInteger(track.laps) || track.laps < 1) {
+    throw new Error(`Invalid number of laps: ${track.laps}`);
+  }
+}
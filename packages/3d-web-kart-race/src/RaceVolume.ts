@@ -0,0 +1,89 @@
+export type RaceVector3 = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+/*
+ A box-shaped region of the track (e.g. a checkpoint gate or the start/finish line). The box is centered on position,
+ has the full extents given by size and can be rotated around the vertical axis by rotationY (radians).
+*/
+export type RaceVolume = {
+  position: RaceVector3;
+  size: RaceVector3;
+  rotationY?: number;
+};
+
+function toVolumeSpace(volume: RaceVolume, point: RaceVector3): RaceVector3 {
+  const dx = point.x - volume.position.x;
+  const dy = point.y - volume.position.y;
+  const dz = point.z - volume.position.z;
+  const rotationY = volume.rotationY ?? 0;
+  if (rotationY === 0) {
+    return { x: dx, y: dy, z: dz };
+  }
+  // Apply the inverse of the volume's rotation around Y
+  const cos = Math.cos(-rotationY);
+  const sin = Math.sin(-rotationY);
+  return {
+    x: dx * cos + dz * sin,
+    y: dy,
+    z: -dx * sin + dz * cos,
+  };
+}
+
+export function isPointInRaceVolume(volume: RaceVolume, point: RaceVector3): boolean {
+  const local = toVolumeSpace(volume, point);
+  return (
+    Math.abs(local.x) <= volume.size.x / 2 &&
+    Math.abs(local.y) <= volume.size.y / 2 &&
+    Math.abs(local.z) <= volume.size.z / 2
+  );
+}
+
+/*
+ Determines whether the segment travelled between two updates touches the volume. Karts can move several meters
+ between network updates, so testing only the latest position would allow thin gates to be skipped over.
+*/
+export function segmentIntersectsRaceVolume(
+  volume: RaceVolume,
+  from: RaceVector3,
+  to: RaceVector3,
+): boolean {
+  const start = toVolumeSpace(volume, from);
+  const end = toVolumeSpace(volume, to);
+
+  let tMin = 0;
+  let tMax = 1;
+  for (const axis of ["x", "y", "z"] as const) {
+    const halfExtent = volume.size[axis] / 2;
+    const delta = end[axis] - start[axis];
+    if (Math.abs(delta) < 1e-9) {
+      // The segment is parallel to this slab - it must start within it
+      if (Math.abs(start[axis]) > halfExtent) {
+        return false;
+      }
+      continue;
+    }
+    let t1 = (-halfExtent - start[axis]) / delta;
+    let t2 = (halfExtent - start[axis]) / delta;
+    if (t1 > t2) {
+      const swap = t1;
+      t1 = t2;
+      t2 = swap;
+    }
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin > tMax) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function distanceToRaceVolume(volume: RaceVolume, point: RaceVector3): number {
+  const dx = point.x - volume.position.x;
+  const dy = point.y - volume.position.y;
+  const dz = point.z - volume.position.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
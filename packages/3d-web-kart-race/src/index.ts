@@ -0,0 +1,7 @@
+export * from "./GhostLap";
+export * from "./ItemSession";
+export * from "./KartItems";
+export * from "./RaceProgressTracker";
+export * from "./RaceSession";
+export * from "./RaceTrack";
+export * from "./RaceVolume";
@@ -0,0 +1,100 @@
+import { GhostLap, GhostLapRecorder, sampleGhostLap, validateGhostLap } from "../src/GhostLap";
+
+const identity = { x: 0, y: 0, z: 0, w: 1 };
+// A quarter turn around Y
+const turned = { x: 0, y: Math.SQRT1_2, z: 0, w: Math.SQRT1_2 };
+
+function createLap(): GhostLap {
+  return {
+    lapTime: 2000,
+    samples: [
+      { time: 0, position: { x: 0, y: 0, z: 0 }, rotation: identity },
+      { time: 1000, position: { x: 10, y: 0, z: 0 }, rotation: identity },
+      { time: 2000, position: { x: 10, y: 0, z: 10 }, rotation: turned },
+    ],
+  };
+}
+
+describe("sampleGhostLap", () => {
+  test("interpolates between samples", () => {
+    const sample = sampleGhostLap(createLap(), 500);
+    expect(sample.position).toEqual({ x: 5, y: 0, z: 0 });
+    expect(sample.rotation).toEqual(identity);
+
+    const turning = sampleGhostLap(createLap(), 1500);
+    expect(turning.position).toEqual({ x: 10, y: 0, z: 5 });
+    const { x, y, z, w } = turning.rotation;
+    expect(Math.sqrt(x * x + y * y + z * z + w * w)).toBeCloseTo(1);
+    expect(y).toBeGreaterThan(0);
+    expect(y).toBeLessThan(turned.y);
+  });
+
+  test("clamps to the start and end of the lap", () => {
+    expect(sampleGhostLap(createLap(), -100).position).toEqual({ x: 0, y: 0, z: 0 });
+    expect(sampleGhostLap(createLap(), 5000).position).toEqual({ x: 10, y: 0, z: 10 });
+  });
+});
+
+describe("validateGhostLap", () => {
+  test("accepts a well-formed lap", () => {
+    expect(validateGhostLap(JSON.parse(JSON.stringify(createLap())))).toEqual(createLap());
+  });
+
+  test("rejects malformed laps", () => {
+    expect(() => validateGhostLap(null)).toThrow("A ghost lap must be an object");
+    expect(() => validateGhostLap({ ...createLap(), lapTime: -1 })).toThrow(
+      "Invalid ghost lap time: -1",
+    );
+    expect(() => validateGhostLap({ ...createLap(), samples: [] })).toThrow(
+      "A ghost lap requires between 2 and",
+    );
+    const unordered = createLap();
+    unordered.samples.reverse();
+    expect(() => validateGhostLap(unordered)).toThrow(
+      "Ghost lap samples must be ordered by time within the lap",
+    );
+    const invalidSample = createLap();
+    (invalidSample.samples[1] as any).position = { x: "1", y: 0, z: 0 };
+    expect(() => validateGhostLap(invalidSample)).toThrow("Invalid ghost lap sample");
+  });
+});
+
+describe("GhostLapRecorder", () => {
+  test("records consecutive laps at the sample interval", () => {
+    const recorder = new GhostLapRecorder({ sampleInterval: 100 });
+    recorder.start();
+    for (let time = 0; time < 1000; time += 20) {
+      recorder.record(time, { x: time / 100, y: 0, z: 0 }, identity);
+    }
+    const firstLap = recorder.finishLap(1000, { x: 10, y: 0, z: 0 }, identity);
+    expect(firstLap).not.toBeNull();
+    expect(firstLap!.lapTime).toEqual(1000);
+    expect(firstLap!.samples.map((sample) => sample.time)).toEqual([
+      0, 100, 200, 300, 400, 500, 600, 700, 800, 900, 1000,
+    ]);
+    expect(() => validateGhostLap(firstLap)).not.toThrow();
+
+    // The next lap starts from where the previous one finished
+    recorder.record(500, { x: 15, y: 0, z: 0 }, identity);
+    const secondLap = recorder.finishLap(800, { x: 20, y: 0, z: 0 }, identity);
+    expect(secondLap!.samples.map((sample) => sample.position.x)).toEqual([10, 15, 20]);
+  });
+
+  test("does not return a lap that was only partially recorded", () => {
+    const recorder = new GhostLapRecorder();
+    expect(recorder.finishLap(1000, { x: 0, y: 0, z: 0 }, identity)).toBeNull();
+    // Recording starts from the line
+    expect(recorder.isRecording()).toBe(true);
+    recorder.record(500, { x: 5, y: 0, z: 0 }, identity);
+    expect(recorder.finishLap(1000, { x: 10, y: 0, z: 0 }, identity)).not.toBeNull();
+  });
+
+  test("discards laps with too many samples", () => {
+    const recorder = new GhostLapRecorder({ sampleInterval: 10, maxSamples: 5 });
+    recorder.start();
+    for (let time = 0; time < 1000; time += 10) {
+      recorder.record(time, { x: 0, y: 0, z: 0 }, identity);
+    }
+    expect(recorder.finishLap(1000, { x: 0, y: 0, z: 0 }, identity)).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+import { ItemSession, ItemSessionEvent } from "../src/ItemSession";
+import { KartItemDefinition, KartItemRegistry, defaultKartItems } from "../src/KartItems";
+
+const boost: KartItemDefinition = {
+  id: "boost",
+  name: "Boost",
+  color: 0xffffff,
+  weight: 1,
+  effect: { type: "boost", speed: 10, duration: 1 },
+};
+const projectile: KartItemDefinition = {
+  id: "projectile",
+  name: "Projectile",
+  color: 0xffffff,
+  weight: 0,
+  effect: { type: "projectile", speed: 50, lifetime: 2, radius: 1, hit: { spinOutDuration: 1 } },
+};
+const hazard: KartItemDefinition = {
+  id: "hazard",
+  name: "Hazard",
+  color: 0xffffff,
+  weight: 0,
+  effect: { type: "hazard", lifetime: 10, radius: 1, hit: { spinOutDuration: 2 } },
+};
+const shield: KartItemDefinition = {
+  id: "shield",
+  name: "Shield",
+  color: 0xffffff,
+  weight: 0,
+  effect: { type: "shield", duration: 5 },
+};
+
+function createSession(events: Array<ItemSessionEvent> = []): ItemSession {
+  const session = new ItemSession({
+    registry: new KartItemRegistry([boost, projectile, hazard, shield]),
+    itemBoxes: [
+      { id: "box-1", position: { x: 1, y: 0, z: 0 } },
+      { id: "box-2", position: { x: 0, y: 0, z: 3 } },
+      { id: "far-box", position: { x: 20, y: 0, z: 0 } },
+    ],
+    itemBoxRespawnTime: 3000,
+    random: () => 0,
+    onEvent: (event) => events.push(event),
+  });
+  session.addParticipant(1);
+  session.addParticipant(2);
+  session.updateParticipantPosition(1, { x: 0, y: 0, z: 0 }, 0);
+  return session;
+}
+
+describe("KartItemRegistry", () => {
+  test("registers the default items", () => {
+    const registry = new KartItemRegistry();
+    expect(registry.getAll().map((item) => item.id)).toEqual(
+      defaultKartItems.map((item) => item.id),
+    );
+  });
+
+  test("rejects duplicate and invalid items", () => {
+    const registry = new KartItemRegistry([boost]);
+    expect(() => registry.register(boost)).toThrow(
+      'An item with the id "boost" is already registered',
+    );
+    expect(() =>
+      registry.register({ ...boost, id: "broken", effect: { type: "shield", duration: -1 } }),
+    ).toThrow('Invalid effect values for item "broken"');
+  });
+
+  test("picks items by weight", () => {
+    const registry = new KartItemRegistry([
+      { ...boost, id: "common", weight: 3 },
+      { ...boost, id: "rare", weight: 1 },
+      { ...boost, id: "never", weight: 0 },
+    ]);
+    expect(registry.pickRandom(0)!.id).toEqual("common");
+    expect(registry.pickRandom(0.7)!.id).toEqual("common");
+    expect(registry.pickRandom(0.8)!.id).toEqual("rare");
+  });
+});
+
+describe("ItemSession", () => {
+  test("gives an item from an item box until it respawns", () => {
+    const events: Array<ItemSessionEvent> = [];
+    const session = createSession(events);
+    expect(session.collectItemBox(1, "box-1", 1000)).toBe(true);
+    expect(session.getItem(1)).toEqual("boost");
+    expect(events).toEqual([{ type: "pickup", participantId: 1, itemId: "boost", boxId: "box-1" }]);
+    expect(session.getItemBoxCooldowns(2000)).toEqual([{ id: "box-1", respawnRemaining: 2000 }]);
+
+    // The box can't be collected by anyone else until it respawns
+    session.updateParticipantPosition(2, { x: 2, y: 0, z: 0 }, 0);
+    expect(session.collectItemBox(2, "box-1", 2000)).toBe(false);
+    expect(session.collectItemBox(2, "box-1", 4000)).toBe(true);
+    expect(session.getItemBoxCooldowns(4000)).toEqual([{ id: "box-1", respawnRemaining: 3000 }]);
+  });
+
+  test("only gives items to participants that are near the box and have no item", () => {
+    const session = createSession();
+    expect(session.collectItemBox(1, "far-box", 1000)).toBe(false);
+    expect(session.collectItemBox(1, "box-1", 1000)).toBe(true);
+    expect(session.collectItemBox(1, "box-2", 1000)).toBe(false);
+    // Participants without a known position can't collect items
+    expect(session.collectItemBox(2, "box-2", 1000)).toBe(false);
+  });
+
+  test("only gives items from the declared item boxes", () => {
+    const session = createSession();
+    expect(session.collectItemBox(1, "unknown-box", 1000)).toBe(false);
+    expect(session.getItem(1)).toBeNull();
+    expect(session.getItemBoxCooldowns(1000)).toEqual([]);
+    expect(
+      () =>
+        new ItemSession({
+          registry: new KartItemRegistry([boost]),
+          itemBoxes: [
+            { id: "box-1", position: { x: 0, y: 0, z: 0 } },
+            { id: "box-1", position: { x: 5, y: 0, z: 0 } },
+          ],
+        }),
+    ).toThrow('An item box with the id "box-1" is already declared');
+  });
+
+  test("fires projectiles that hit the first kart in their path", () => {
+    const events: Array<ItemSessionEvent> = [];
+    const session = createSession(events);
+    session.giveItem(1, "projectile");
+    // Participant 2 is 20 meters ahead of participant 1, which is facing along positive z
+    session.updateParticipantPosition(2, { x: 0, y: 0, z: 20 }, 0);
+    session.update(1000);
+    expect(session.useItem(1, 1000)!.id).toEqual("projectile");
+    expect(session.getItem(1)).toBeNull();
+    expect(session.getEntities()[0].position).toEqual({ x: 0, y: 0, z: 2.5 });
+
+    // Travels 25 meters in half a second - passing through participant 2 between updates
+    session.update(1500);
+    expect(session.getEntities()).toEqual([]);
+    expect(events.slice(1)).toEqual([
+      {
+        type: "hit",
+        participantId: 2,
+        ownerId: 1,
+        itemId: "projectile",
+        hit: { spinOutDuration: 1 },
+      },
+    ]);
+  });
+
+  test("drops hazards behind the kart that can hit anyone after a moment", () => {
+    const events: Array<ItemSessionEvent> = [];
+    const session = createSession(events);
+    session.giveItem(1, "hazard");
+    session.update(0);
+    session.useItem(1, 0);
+    expect(session.getEntities()[0].position).toEqual({ x: 0, y: 0, z: -2.5 });
+
+    // The kart that dropped it is immune at first
+    session.updateParticipantPosition(1, { x: 0, y: 0, z: -2 }, 0);
+    session.update(500);
+    expect(session.getEntities()).toHaveLength(1);
+    session.update(1500);
+    expect(session.getEntities()).toEqual([]);
+    expect(events[events.length - 1]).toEqual({
+      type: "hit",
+      participantId: 1,
+      ownerId: 1,
+      itemId: "hazard",
+      hit: { spinOutDuration: 2 },
+    });
+  });
+
+  test("shields block a single hit", () => {
+    const events: Array<ItemSessionEvent> = [];
+    const session = createSession(events);
+    session.updateParticipantPosition(2, { x: 0, y: 0, z: -3 }, 0);
+    session.giveItem(2, "shield");
+    session.useItem(2, 0);
+    expect(session.getParticipantStates(1000)).toContainEqual({
+      participantId: 2,
+      item: null,
+      shieldRemaining: 4000,
+    });
+
+    session.giveItem(1, "hazard");
+    session.update(0);
+    session.useItem(1, 0);
+    session.update(100);
+    expect(events[events.length - 1]).toEqual({
+      type: "blocked",
+      participantId: 2,
+      ownerId: 1,
+      itemId: "hazard",
+    });
+    expect(session.getParticipantStates(100)).toContainEqual({
+      participantId: 2,
+      item: null,
+      shieldRemaining: 0,
+    });
+  });
+
+  test("removes items when they expire", () => {
+    const session = createSession();
+    session.giveItem(1, "projectile");
+    session.update(0);
+    session.useItem(1, 0);
+    session.update(1000);
+    expect(session.getEntities()).toHaveLength(1);
+    session.update(2000);
+    expect(session.getEntities()).toEqual([]);
+  });
+});
@@ -0,0 +1,184 @@
+import { RaceSession, RaceSessionEvent } from "../src/RaceSession";
+import { RaceTrackConfig } from "../src/RaceTrack";
+
+// A straight track along X: checkpoints at x=10 and x=20, start/finish line at x=0
+function createTrack(laps: number): RaceTrackConfig {
+  return {
+    checkpoints: [
+      { position: { x: 10, y: 0, z: 0 }, size: { x: 1, y: 4, z: 10 } },
+      { position: { x: 20, y: 0, z: 0 }, size: { x: 1, y: 4, z: 10 } },
+    ],
+    startFinishLine: { position: { x: 0, y: 0, z: 0 }, size: { x: 1, y: 4, z: 10 } },
+    laps,
+  };
+}
+
+// Drives a participant through both checkpoints and back over the start/finish line
+function driveLap(session: RaceSession, participantId: number, time: number) {
+  session.updateParticipantPosition(participantId, { x: 15, y: 0, z: 0 }, time);
+  session.updateParticipantPosition(participantId, { x: 25, y: 0, z: 0 }, time);
+  session.updateParticipantPosition(participantId, { x: 25, y: 0, z: 8 }, time);
+  session.updateParticipantPosition(participantId, { x: -5, y: 0, z: 8 }, time);
+  session.updateParticipantPosition(participantId, { x: -5, y: 0, z: 0 }, time);
+  session.updateParticipantPosition(participantId, { x: 2, y: 0, z: 0 }, time);
+}
+
+describe("RaceSession", () => {
+  test("requires at least one checkpoint", () => {
+    expect(
+      () =>
+        new RaceSession({
+          track: { ...createTrack(1), checkpoints: [] },
+        }),
+    ).toThrow("A race track requires at least one checkpoint");
+  });
+
+  test("progresses from countdown to racing", () => {
+    const events: Array<RaceSessionEvent> = [];
+    const session = new RaceSession({
+      track: createTrack(1),
+      countdownDuration: 3000,
+      onEvent: (event) => events.push(event),
+    });
+    session.addParticipant(1);
+    session.startCountdown(1000);
+    expect(session.getPhase()).toEqual("countdown");
+    expect(session.getCountdownRemaining(2000)).toEqual(2000);
+
+    // Movement during the countdown does not count
+    session.updateParticipantPosition(1, { x: 15, y: 0, z: 0 }, 2000);
+    session.update(4000);
+    expect(session.getPhase()).toEqual("racing");
+    expect(session.getRaceStartTime()).toEqual(4000);
+    expect(session.getTracker(1)!.nextCheckpointIndex).toEqual(0);
+    expect(events).toEqual([
+      { type: "phase", phase: "countdown", time: 1000 },
+      { type: "phase", phase: "racing", time: 4000 },
+    ]);
+  });
+
+  test("only counts checkpoints in order", () => {
+    const session = new RaceSession({ track: createTrack(1), countdownDuration: 0 });
+    session.addParticipant(1);
+    session.updateParticipantPosition(1, { x: 2, y: 0, z: 0 }, 0);
+    session.startCountdown(0);
+
+    // Driving around both checkpoints and crossing them backwards
+    session.updateParticipantPosition(1, { x: 2, y: 0, z: 8 }, 50);
+    session.updateParticipantPosition(1, { x: 25, y: 0, z: 8 }, 100);
+    session.updateParticipantPosition(1, { x: 25, y: 0, z: 0 }, 200);
+    session.updateParticipantPosition(1, { x: 15, y: 0, z: 0 }, 300);
+    session.updateParticipantPosition(1, { x: -5, y: 0, z: 0 }, 400);
+    const tracker = session.getTracker(1)!;
+    expect(tracker.lap).toEqual(0);
+    // Only the first checkpoint was crossed on the way back
+    expect(tracker.nextCheckpointIndex).toEqual(1);
+  });
+
+  test("detects checkpoints crossed between updates", () => {
+    const session = new RaceSession({ track: createTrack(1), countdownDuration: 0 });
+    session.addParticipant(1);
+    session.updateParticipantPosition(1, { x: 2, y: 0, z: 0 }, 0);
+    session.startCountdown(0);
+    // A single update passing through both checkpoints
+    session.updateParticipantPosition(1, { x: 30, y: 0, z: 0 }, 100);
+    expect(session.getTracker(1)!.nextCheckpointIndex).toEqual(2);
+  });
+
+  test("records laps and finishes the race", () => {
+    const events: Array<RaceSessionEvent> = [];
+    const session = new RaceSession({
+      track: createTrack(2),
+      countdownDuration: 0,
+      onEvent: (event) => events.push(event),
+    });
+    session.addParticipant(1);
+    session.updateParticipantPosition(1, { x: 2, y: 0, z: 0 }, 0);
+    session.startCountdown(0);
+
+    driveLap(session, 1, 10000);
+    driveLap(session, 1, 18000);
+
+    const tracker = session.getTracker(1)!;
+    expect(tracker.lapTimes).toEqual([10000, 8000]);
+    expect(tracker.bestLapTime).toEqual(8000);
+    expect(tracker.finishTime).toEqual(18000);
+    expect(session.getPhase()).toEqual("finished");
+    expect(events.filter((event) => event.type === "lap")).toEqual([
+      { type: "lap", participantId: 1, lap: 1, lapTime: 10000, time: 10000 },
+      { type: "lap", participantId: 1, lap: 2, lapTime: 8000, time: 18000 },
+    ]);
+    expect(events).toContainEqual({
+      type: "finish",
+      participantId: 1,
+      totalTime: 18000,
+      time: 18000,
+    });
+  });
+
+  test("ranks participants by finish time and then by progress", () => {
+    const session = new RaceSession({
+      track: createTrack(1),
+      countdownDuration: 0,
+      finishTimeout: 5000,
+    });
+    for (const id of [1, 2, 3]) {
+      session.addParticipant(id);
+      session.updateParticipantPosition(id, { x: 2, y: 0, z: 0 }, 0);
+    }
+    session.startCountdown(0);
+
+    driveLap(session, 2, 9000);
+    session.updateParticipantPosition(1, { x: 12, y: 0, z: 0 }, 9000);
+    session.updateParticipantPosition(3, { x: 15, y: 0, z: 0 }, 9000);
+
+    const standings = session.getStandings();
+    expect(standings.map((standing) => standing.participantId)).toEqual([2, 3, 1]);
+    expect(standings[0]).toMatchObject({ position: 1, finishTime: 9000, totalTime: 9000 });
+
+    session.update(13999);
+    expect(session.getPhase()).toEqual("racing");
+    session.update(14000);
+    expect(session.getPhase()).toEqual("finished");
+  });
+
+  test("finishes when the racers that haven't finished leave", () => {
+    const session = new RaceSession({
+      track: createTrack(1),
+      countdownDuration: 0,
+      finishTimeout: 5000,
+    });
+    for (const id of [1, 2, 3]) {
+      session.addParticipant(id);
+      session.updateParticipantPosition(id, { x: 2, y: 0, z: 0 }, 0);
+    }
+    session.startCountdown(0);
+
+    driveLap(session, 1, 9000);
+    session.removeParticipant(2, 9500);
+    expect(session.getPhase()).toEqual("racing");
+    session.removeParticipant(3, 10000);
+    expect(session.getPhase()).toEqual("finished");
+    expect(session.getStandings().map((standing) => standing.participantId)).toEqual([1]);
+  });
+
+  test("finishes when every racer leaves before finishing", () => {
+    const session = new RaceSession({ track: createTrack(1), countdownDuration: 0 });
+    session.addParticipant(1);
+    session.startCountdown(0);
+    session.removeParticipant(1, 1000);
+    expect(session.getPhase()).toEqual("finished");
+  });
+
+  test("can be aborted and restarted", () => {
+    const session = new RaceSession({ track: createTrack(1), countdownDuration: 1000 });
+    session.addParticipant(1);
+    session.startCountdown(0);
+    expect(() => session.startCountdown(10)).toThrow();
+    session.abort(20);
+    expect(session.getPhase()).toEqual("idle");
+    expect(session.getStandings()).toEqual([]);
+    session.startCountdown(30);
+    expect(session.getPhase()).toEqual("countdown");
+  });
+});
@@ -77,16 +77,19 @@ export abstract class ReconnectingWebSocket {
 
   protected abstract handleIncomingWebsocketMessage(message: MessageEvent): void;
 
-  protected send(message: object | Uint8Array): void {
+  // Returns the number of bytes sent (0 if there is no connection to send them on)
+  protected send(message: object | Uint8Array): number {
     if (!this.websocket) {
       console.error("Not connected to the server");
-      return;
+      return 0;
     }
     if (message instanceof Uint8Array) {
       this.websocket.send(message);
-    } else {
-      this.websocket.send(JSON.stringify(message));
+      return message.byteLength;
     }
+    const messageString = JSON.stringify(message);
+    this.websocket.send(messageString);
+    return messageString.length;
   }
 
   private createWebsocketWithTimeout(timeout: number): Promise<WebSocket> {
@@ -1,22 +1,42 @@
 import { ReconnectingWebSocket, WebsocketFactory, WebsocketStatus } from "./ReconnectingWebSocket";
+import { frameAckRate } from "./user-networking-settings";
 import { UserNetworkingClientUpdate, UserNetworkingCodec } from "./UserNetworkingCodec";
+import { UserNetworkingFrameDecoder, UserNetworkingInputAck } from "./UserNetworkingFrameCodec";
 import {
   CharacterDescription,
   FromUserNetworkingClientMessage,
   FromUserNetworkingServerMessage,
   USER_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
+  USER_NETWORKING_FRAME_ACK_MESSAGE_TYPE,
   USER_NETWORKING_IDENTITY_MESSAGE_TYPE,
+  USER_NETWORKING_ITEM_EVENT_MESSAGE_TYPE,
+  USER_NETWORKING_ITEM_STATE_MESSAGE_TYPE,
   USER_NETWORKING_PING_MESSAGE_TYPE,
+  USER_NETWORKING_PONG_MESSAGE_TYPE,
+  USER_NETWORKING_RACE_RESULTS_MESSAGE_TYPE,
+  USER_NETWORKING_RACE_STATE_MESSAGE_TYPE,
   USER_NETWORKING_SERVER_BROADCAST_MESSAGE_TYPE,
   USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
   USER_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE,
   USER_NETWORKING_USER_PROFILE_MESSAGE_TYPE,
+  UserNetworkingItemEvent,
+  UserNetworkingItemStateMessage,
+  UserNetworkingRaceResultsMessage,
+  UserNetworkingRaceStateMessage,
   UserNetworkingServerErrorType,
 } from "./UserNetworkingMessages";
+import {
+  UserNetworkingConnectionStats,
+  UserNetworkingLatencyStats,
+  UserNetworkingTrafficCounter,
+  UserNetworkingTrafficStats,
+} from "./UserNetworkingNetworkStats";
 
 export type UserNetworkingClientConfig = {
   url: string;
   sessionToken: string;
+  // Joins without a kart - the client receives every racer's state but doesn't appear to other clients
+  spectator?: boolean;
   websocketFactory: WebsocketFactory;
   statusUpdateCallback: (status: WebsocketStatus) => void;
   assignedIdentity: (clientId: number) => void;
@@ -28,15 +48,49 @@ export type UserNetworkingClientConfig = {
   ) => void;
   onServerError: (error: { message: string; errorType: UserNetworkingServerErrorType }) => void;
   onServerBroadcast?: (broadcast: { broadcastType: string; payload: any }) => void;
+  onRaceState?: (raceState: UserNetworkingRaceStateMessage) => void;
+  onRaceResults?: (raceResults: UserNetworkingRaceResultsMessage) => void;
+  onItemState?: (itemState: UserNetworkingItemStateMessage) => void;
+  onItemEvent?: (itemEvent: UserNetworkingItemEvent) => void;
+  // Called with every frame once the server has processed any of the inputs numbered in this client's updates
+  onInputAck?: (inputAck: UserNetworkingInputAck) => void;
+};
+
+export type UserNetworkingClientNetworkStats = UserNetworkingConnectionStats & {
+  // The update frames received from the server (also counted in received)
+  frames: UserNetworkingTrafficStats;
+  // Mean variation in milliseconds of the time between frames arriving
+  frameJitter: number;
 };
 
+// Weight of each new sample in the smoothed frame interval and jitter
+const frameIntervalSmoothing = 0.1;
+
 export class UserNetworkingClient extends ReconnectingWebSocket {
+  private frameDecoder = new UserNetworkingFrameDecoder();
+  private lastFrameAckTime = 0;
+
+  // The server measures the round trip time and sends it to the client with each ping
+  private latency: UserNetworkingLatencyStats = { rtt: null, jitter: 0, packetLoss: 0 };
+  private received = new UserNetworkingTrafficCounter();
+  private sent = new UserNetworkingTrafficCounter();
+  private frames = new UserNetworkingTrafficCounter();
+  private lastFrameTime: number | null = null;
+  private meanFrameInterval: number | null = null;
+  private frameJitter = 0;
+
   constructor(private config: UserNetworkingClientConfig) {
     super(config.url, config.websocketFactory, (status: WebsocketStatus) => {
       if (status === WebsocketStatus.Connected) {
+        // Frames from a previous connection can't be used as baselines
+        this.frameDecoder.reset();
+        // The server measures each connection afresh
+        this.latency = { rtt: null, jitter: 0, packetLoss: 0 };
+        this.lastFrameTime = null;
         this.sendMessage({
           type: USER_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE,
           sessionToken: config.sessionToken,
+          spectator: config.spectator,
         });
       }
       config.statusUpdateCallback(status);
@@ -52,8 +106,72 @@ export class UserNetworkingClient extends ReconnectingWebSocket {
     this.send(message);
   }
 
+  protected send(message: object | Uint8Array): number {
+    const bytes = super.send(message);
+    if (bytes > 0) {
+      this.sent.record(bytes, Date.now());
+    }
+    return bytes;
+  }
+
+  public getNetworkStats(): UserNetworkingClientNetworkStats {
+    const now = Date.now();
+    return {
+      latency: this.latency,
+      received: this.received.getStats(now),
+      sent: this.sent.getStats(now),
+      frames: this.frames.getStats(now),
+      frameJitter: this.frameJitter,
+    };
+  }
+
+  private recordFrameArrival(bytes: number, now: number) {
+    this.frames.record(bytes, now);
+    if (this.lastFrameTime !== null) {
+      const interval = now - this.lastFrameTime;
+      if (this.meanFrameInterval === null) {
+        this.meanFrameInterval = interval;
+      } else {
+        this.meanFrameInterval += (interval - this.meanFrameInterval) * frameIntervalSmoothing;
+        this.frameJitter +=
+          (Math.abs(interval - this.meanFrameInterval) - this.frameJitter) * frameIntervalSmoothing;
+      }
+    }
+    this.lastFrameTime = now;
+  }
+
+  private handleFrame(data: ArrayBuffer) {
+    let frame;
+    try {
+      frame = this.frameDecoder.decodeFrame(data);
+    } catch (e) {
+      console.error("Unable to decode update frame", e);
+      // Ask for a full frame to start afresh from
+      this.frameDecoder.reset();
+      this.sendMessage({ type: USER_NETWORKING_FRAME_ACK_MESSAGE_TYPE, tick: null });
+      return;
+    }
+    for (const update of frame.updates) {
+      this.config.clientUpdate(update.id, update);
+    }
+    // Clients that have disconnected or gone out of range
+    for (const id of frame.removedIds) {
+      this.config.clientUpdate(id, null);
+    }
+    if (frame.inputAck) {
+      this.config.onInputAck?.(frame.inputAck);
+    }
+    const now = Date.now();
+    if (now - this.lastFrameAckTime >= frameAckRate) {
+      this.lastFrameAckTime = now;
+      this.sendMessage({ type: USER_NETWORKING_FRAME_ACK_MESSAGE_TYPE, tick: frame.tick });
+    }
+  }
+
   protected handleIncomingWebsocketMessage(message: MessageEvent) {
+    const now = Date.now();
     if (typeof message.data === "string") {
+      this.received.record(message.data.length, now);
       const parsed = JSON.parse(message.data) as FromUserNetworkingServerMessage;
       switch (parsed.type) {
         case USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE:
@@ -62,6 +180,7 @@ export class UserNetworkingClient extends ReconnectingWebSocket {
           break;
         case USER_NETWORKING_DISCONNECTED_MESSAGE_TYPE:
           console.log(`Client ID: ${parsed.id} left`);
+          this.frameDecoder.removeClient(parsed.id);
           this.config.clientUpdate(parsed.id, null);
           break;
         case USER_NETWORKING_IDENTITY_MESSAGE_TYPE:
@@ -73,7 +192,10 @@ export class UserNetworkingClient extends ReconnectingWebSocket {
           this.config.clientProfileUpdated(parsed.id, parsed.username, parsed.characterDescription);
           break;
         case USER_NETWORKING_PING_MESSAGE_TYPE: {
-          this.sendMessage({ type: "pong" } as FromUserNetworkingClientMessage);
+          if (parsed.latency) {
+            this.latency = parsed.latency;
+          }
+          this.sendMessage({ type: USER_NETWORKING_PONG_MESSAGE_TYPE, id: parsed.id });
           break;
         }
         case USER_NETWORKING_SERVER_BROADCAST_MESSAGE_TYPE: {
@@ -87,12 +209,29 @@ export class UserNetworkingClient extends ReconnectingWebSocket {
           }
           break;
         }
+        case USER_NETWORKING_RACE_STATE_MESSAGE_TYPE: {
+          this.config.onRaceState?.(parsed);
+          break;
+        }
+        case USER_NETWORKING_RACE_RESULTS_MESSAGE_TYPE: {
+          this.config.onRaceResults?.(parsed);
+          break;
+        }
+        case USER_NETWORKING_ITEM_STATE_MESSAGE_TYPE: {
+          this.config.onItemState?.(parsed);
+          break;
+        }
+        case USER_NETWORKING_ITEM_EVENT_MESSAGE_TYPE: {
+          this.config.onItemEvent?.(parsed.event);
+          break;
+        }
         default:
           console.error("Unhandled message", parsed);
       }
     } else if (message.data instanceof ArrayBuffer) {
-      const userNetworkingClientUpdate = UserNetworkingCodec.decodeUpdate(message.data);
-      this.config.clientUpdate(userNetworkingClientUpdate.id, userNetworkingClientUpdate);
+      this.received.record(message.data.byteLength, now);
+      this.recordFrameArrival(message.data.byteLength, now);
+      this.handleFrame(message.data);
     } else {
       console.error("Unhandled message type", message.data);
     }
@@ -1,13 +1,107 @@
+export type UserNetworkingKartState = {
+  velocity: { x: number; y: number; z: number };
+  // -1 (right) to 1 (left)
+  steering: number;
+  // -1 (braking/reversing) to 1 (full throttle)
+  throttle: number;
+  drifting: boolean;
+  skidding: boolean;
+  reversing: boolean;
+  // The index of the surface the kart is driving on (omitted for the default surface)
+  surface?: number;
+  // The mini-turbo charged by the current drift (1 to 3, omitted when there is none)
+  miniTurboTier?: number;
+  // The number of physics steps (i.e. inputs) that the sender's kart has run, so that the server can acknowledge the
+  // inputs it has processed (omitted if the sender doesn't number its inputs)
+  inputSequence?: number;
+};
+
 export type UserNetworkingClientUpdate = {
   id: number;
   position: { x: number; y: number; z: number };
-  rotation: { quaternionY: number; quaternionW: number };
+  // quaternionX and quaternionZ (a kart's pitch and roll) are only sent with a kart payload
+  rotation: {
+    quaternionX?: number;
+    quaternionY: number;
+    quaternionZ?: number;
+    quaternionW: number;
+  };
   state: number;
+  kart?: UserNetworkingKartState;
 };
 
+/*
+ The base update is 19 bytes. Updates for karts append a payload that starts with a version byte so that the payload
+ can evolve without breaking the base format - decoders that only read the first 19 bytes (or don't recognise the
+ version) still decode the base update correctly.
+
+ Version 2 of the payload appends the x and z components of the kart's rotation, so karts that are tilted on slopes
+ or in the air are rotated fully. Version 3 appends the kart's input sequence. Payloads of earlier versions are still
+ decoded.
+*/
+const baseUpdateLength = 19;
+export const USER_NETWORKING_KART_PAYLOAD_VERSION = 3;
+const kartPayloadLengthByVersion: { [version: number]: number } = { 1: 10, 2: 14, 3: 18 };
+const kartPayloadLength = kartPayloadLengthByVersion[USER_NETWORKING_KART_PAYLOAD_VERSION];
+
+const kartFlagDrifting = 1 << 0;
+const kartFlagSkidding = 1 << 1;
+const kartFlagReversing = 1 << 2;
+// The surface index is held in the bits above the flags
+const kartSurfaceShift = 3;
+const kartSurfaceMask = 0b111;
+// The mini-turbo tier is held in the bits above the surface
+const kartMiniTurboShift = 6;
+const kartMiniTurboMask = 0b11;
+
+// Velocities are sent with centimeter-per-second precision
+export const kartVelocityScale = 100;
+
+export function clampInt16(value: number): number {
+  return Math.max(-32767, Math.min(32767, Math.round(value)));
+}
+
+export function clampInt8(value: number): number {
+  return Math.max(-127, Math.min(127, Math.round(value)));
+}
+
+// Packs the kart's flags, surface and mini-turbo tier into a byte
+export function encodeKartFlags(kart: UserNetworkingKartState): number {
+  return (
+    (kart.drifting ? kartFlagDrifting : 0) |
+    (kart.skidding ? kartFlagSkidding : 0) |
+    (kart.reversing ? kartFlagReversing : 0) |
+    (((kart.surface ?? 0) & kartSurfaceMask) << kartSurfaceShift) |
+    (((kart.miniTurboTier ?? 0) & kartMiniTurboMask) << kartMiniTurboShift)
+  );
+}
+
+export function decodeKartFlags(
+  flags: number,
+): Pick<
+  UserNetworkingKartState,
+  "drifting" | "skidding" | "reversing" | "surface" | "miniTurboTier"
+> {
+  const decoded: ReturnType<typeof decodeKartFlags> = {
+    drifting: (flags & kartFlagDrifting) !== 0,
+    skidding: (flags & kartFlagSkidding) !== 0,
+    reversing: (flags & kartFlagReversing) !== 0,
+  };
+  const surface = (flags >> kartSurfaceShift) & kartSurfaceMask;
+  if (surface !== 0) {
+    decoded.surface = surface;
+  }
+  const miniTurboTier = (flags >> kartMiniTurboShift) & kartMiniTurboMask;
+  if (miniTurboTier !== 0) {
+    decoded.miniTurboTier = miniTurboTier;
+  }
+  return decoded;
+}
+
 export class UserNetworkingCodec {
   static encodeUpdate(update: UserNetworkingClientUpdate): Uint8Array {
-    const buffer = new ArrayBuffer(19);
+    const length = update.kart ? baseUpdateLength + kartPayloadLength : baseUpdateLength;
+    const buffer = new ArrayBuffer(length);
     const dataView = new DataView(buffer);
     dataView.setUint16(0, update.id); // id
     dataView.setFloat32(2, update.position.x); // position.x
@@ -16,6 +110,19 @@ export class UserNetworkingCodec {
     dataView.setInt16(14, update.rotation.quaternionY * 32767); // quaternion.y
     dataView.setInt16(16, update.rotation.quaternionW * 32767); // quaternion.w
     dataView.setUint8(18, update.state); // animationState
+    if (update.kart) {
+      const kart = update.kart;
+      dataView.setUint8(19, USER_NETWORKING_KART_PAYLOAD_VERSION); // kart payload version
+      dataView.setInt16(20, clampInt16(kart.velocity.x * kartVelocityScale)); // velocity.x
+      dataView.setInt16(22, clampInt16(kart.velocity.y * kartVelocityScale)); // velocity.y
+      dataView.setInt16(24, clampInt16(kart.velocity.z * kartVelocityScale)); // velocity.z
+      dataView.setInt8(26, clampInt8(kart.steering * 127)); // steering
+      dataView.setInt8(27, clampInt8(kart.throttle * 127)); // throttle
+      dataView.setUint8(28, encodeKartFlags(kart)); // flags, surface and mini-turbo tier
+      dataView.setInt16(29, (update.rotation.quaternionX ?? 0) * 32767); // quaternion.x
+      dataView.setInt16(31, (update.rotation.quaternionZ ?? 0) * 32767); // quaternion.z
+      dataView.setUint32(33, kart.inputSequence ?? 0); // input sequence (0 if there is none)
+    }
     return new Uint8Array(buffer);
   }
 
@@ -29,7 +136,38 @@ export class UserNetworkingCodec {
     const quaternionW = dataView.getInt16(16) / 32767; // quaternion.w
     const state = dataView.getUint8(18); // animationState
     const position = { x, y, z };
-    const rotation = { quaternionY, quaternionW };
-    return { id, position, rotation, state };
+    const rotation: UserNetworkingClientUpdate["rotation"] = { quaternionY, quaternionW };
+    const update: UserNetworkingClientUpdate = { id, position, rotation, state };
+    const payloadVersion = dataView.byteLength > baseUpdateLength ? dataView.getUint8(19) : null;
+    const payloadLength =
+      payloadVersion !== null ? kartPayloadLengthByVersion[payloadVersion] : undefined;
+    if (
+      payloadVersion !== null &&
+      payloadLength !== undefined &&
+      dataView.byteLength >= baseUpdateLength + payloadLength
+    ) {
+      const flags = dataView.getUint8(28); // flags
+      update.kart = {
+        velocity: {
+          x: dataView.getInt16(20) / kartVelocityScale, // velocity.x
+          y: dataView.getInt16(22) / kartVelocityScale, // velocity.y
+          z: dataView.getInt16(24) / kartVelocityScale, // velocity.z
+        },
+        steering: dataView.getInt8(26) / 127, // steering
+        throttle: dataView.getInt8(27) / 127, // throttle
+        ...decodeKartFlags(flags),
+      };
+      if (payloadVersion >= 2) {
+        rotation.quaternionX = dataView.getInt16(29) / 32767; // quaternion.x
+        rotation.quaternionZ = dataView.getInt16(31) / 32767; // quaternion.z
+      }
+      if (payloadVersion >= 3) {
+        const inputSequence = dataView.getUint32(33); // input sequence
+        if (inputSequence !== 0) {
+          update.kart.inputSequence = inputSequence;
+        }
+      }
+    }
+    return update;
   }
 }
@@ -0,0 +1,582 @@
+import { frameHistoryLength } from "./user-networking-settings";
+import {
+  clampInt16,
+  clampInt8,
+  decodeKartFlags,
+  encodeKartFlags,
+  kartVelocityScale,
+  UserNetworkingClientUpdate,
+} from "./UserNetworkingCodec";
+
+/*
+ Update frames carry the state of every other client to a client once per tick, in place of one message per client.
+
+ Each frame is encoded against the last tick that its recipient acknowledged (its baseline). Only the clients whose
+ state has changed since the baseline are included, and only the parts of their state that changed, as the difference
+ from the baseline. Frames can be limited to the clients that the recipient is interested in, with some of them sent
+ less often than every tick. Values are quantized (positions to millimeters, the rest to the precision of the single
+ update format) so that the client reconstructs exactly the state that the server encoded against.
+
+ Version 2 appends the clients that are being held at the state they were last sent (so that the recipient doesn't
+ report them as updated). Version 3 also appends the acknowledgement of the recipient's own inputs, with the state that
+ the server corrected its kart to (if it did). Version 1 and 2 frames are still decoded.
+
+ Format (varints are unsigned LEB128, deltas are zigzag-encoded varints):
+   uint8  version
+   varint tick
+   varint ticks since the baseline (0 for a full frame without a baseline)
+   varint number of clients, then for each client:
+     varint id
+     uint8  fields that changed (see the field flags below), followed by each of those fields
+   varint number of clients that have been removed since the baseline, then each of their ids
+   varint number of clients held at the state they were last sent, then each of their ids
+   varint the latest input sequence of the recipient that the server has processed (0 if there is none)
+   uint8  1 if the server corrected the recipient's kart, followed by its state as a client without a baseline
+*/
+export const USER_NETWORKING_FRAME_VERSION = 3;
+
+const positionScale = 1000;
+const rotationScale = 32767;
+
+const fieldPosition = 1 << 0; // 3 deltas
+const fieldRotation = 1 << 1; // 2 deltas (quaternion y and w)
+const fieldState = 1 << 2; // uint8
+const fieldKart = 1 << 3; // set whenever the client has a kart payload (not a field by itself)
+const fieldKartVelocity = 1 << 4; // 3 deltas
+const fieldKartControls = 1 << 5; // int8 steering, int8 throttle and uint8 flags
+const fieldKartTilt = 1 << 6; // 2 deltas (quaternion x and z)
+
+type QuantizedKartState = {
+  velocity: Array<number>;
+  // Steering, throttle and flags
+  controls: Array<number>;
+  // The x and z components of the kart's rotation
+  tilt: Array<number>;
+};
+
+type QuantizedUpdate = {
+  position: Array<number>;
+  rotation: Array<number>;
+  state: number;
+  kart: QuantizedKartState | null;
+};
+
+type QuantizedSnapshot = Map<number, QuantizedUpdate>;
+
+type RecipientState = {
+  // The state of the other clients that the recipient reconstructed at each tick, i.e. what it can be sent deltas from
+  views: Map<number, QuantizedSnapshot>;
+  // The state of each client that was last sent to the recipient
+  sent: QuantizedSnapshot;
+};
+
+const zeroKartState: QuantizedKartState = {
+  velocity: [0, 0, 0],
+  controls: [0, 0, 0],
+  tilt: [0, 0],
+};
+
+/*
+ The clients that a recipient is interested in, mapped to whether their state is due to be sent this tick. Clients that
+ aren't due are held at the state the recipient was last sent, and clients that aren't included are removed.
+*/
+export type UserNetworkingFrameInterest = Map<number, boolean>;
+
+// The latest of the recipient's inputs that the server has processed
+export type UserNetworkingInputAck = {
+  inputSequence: number;
+  // The state of the recipient's kart after the input, if the server changed it from what the recipient sent
+  correction: UserNetworkingClientUpdate | null;
+};
+
+export type UserNetworkingFrame = {
+  tick: number;
+  // The latest state of every client that the recipient knows about (including those that haven't changed), except for
+  // those that the server is holding at the state they were last sent
+  updates: Array<UserNetworkingClientUpdate>;
+  // Clients that the recipient knew about and that have been removed
+  removedIds: Array<number>;
+  // Null if the server hasn't processed any numbered inputs from the recipient
+  inputAck: UserNetworkingInputAck | null;
+};
+
+function quantizeUpdate(update: UserNetworkingClientUpdate): QuantizedUpdate {
+  const { position, rotation, kart } = update;
+  return {
+    position: [position.x, position.y, position.z].map((value) =>
+      Math.round(value * positionScale),
+    ),
+    rotation: [rotation.quaternionY, rotation.quaternionW].map((value) =>
+      clampInt16(value * rotationScale),
+    ),
+    state: update.state & 0xff,
+    kart: kart
+      ? {
+          velocity: [kart.velocity.x, kart.velocity.y, kart.velocity.z].map((value) =>
+            clampInt16(value * kartVelocityScale),
+          ),
+          controls: [
+            clampInt8(kart.steering * 127),
+            clampInt8(kart.throttle * 127),
+            encodeKartFlags(kart),
+          ],
+          tilt: [rotation.quaternionX ?? 0, rotation.quaternionZ ?? 0].map((value) =>
+            clampInt16(value * rotationScale),
+          ),
+        }
+      : null,
+  };
+}
+
+function dequantizeUpdate(id: number, quantized: QuantizedUpdate): UserNetworkingClientUpdate {
+  const [x, y, z] = quantized.position.map((value) => value / positionScale);
+  const [quaternionY, quaternionW] = quantized.rotation.map((value) => value / rotationScale);
+  const update: UserNetworkingClientUpdate = {
+    id,
+    position: { x, y, z },
+    rotation: { quaternionY, quaternionW },
+    state: quantized.state,
+  };
+  if (quantized.kart) {
+    const [velocityX, velocityY, velocityZ] = quantized.kart.velocity.map(
+      (value) => value / kartVelocityScale,
+    );
+    const [steering, throttle, flags] = quantized.kart.controls;
+    update.kart = {
+      velocity: { x: velocityX, y: velocityY, z: velocityZ },
+      steering: steering / 127,
+      throttle: throttle / 127,
+      ...decodeKartFlags(flags),
+    };
+    update.rotation.quaternionX = quantized.kart.tilt[0] / rotationScale;
+    update.rotation.quaternionZ = quantized.kart.tilt[1] / rotationScale;
+  }
+  return update;
+}
+
+function valuesEqual(a: Array<number>, b: Array<number>): boolean {
+  return a.every((value, index) => value === b[index]);
+}
+
+function quantizedUpdatesEqual(a: QuantizedUpdate, b: QuantizedUpdate): boolean {
+  if (
+    !valuesEqual(a.position, b.position) ||
+    !valuesEqual(a.rotation, b.rotation) ||
+    a.state !== b.state
+  ) {
+    return false;
+  }
+  if (!a.kart || !b.kart) {
+    return !a.kart && !b.kart;
+  }
+  return (
+    valuesEqual(a.kart.velocity, b.kart.velocity) &&
+    valuesEqual(a.kart.controls, b.kart.controls) &&
+    valuesEqual(a.kart.tilt, b.kart.tilt)
+  );
+}
+
+class FrameWriter {
+  private bytes: Array<number> = [];
+
+  public writeUint8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  public writeVarint(value: number) {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.bytes.push(remaining % 0x80 | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.bytes.push(remaining);
+  }
+
+  public writeDeltas(values: Array<number>, baseline: Array<number>) {
+    values.forEach((value, index) => {
+      const delta = value - baseline[index];
+      // Zigzag encoding keeps small negative deltas small
+      this.writeVarint(delta >= 0 ? delta * 2 : -delta * 2 - 1);
+    });
+  }
+
+  public writeBytes(other: FrameWriter) {
+    for (const byte of other.bytes) {
+      this.bytes.push(byte);
+    }
+  }
+
+  public toUint8Array(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+class FrameReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  public readUint8(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error("Unexpected end of update frame");
+    }
+    return this.bytes[this.offset++];
+  }
+
+  public readVarint(): number {
+    let value = 0;
+    let multiplier = 1;
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const byte = this.readUint8();
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) {
+        return value;
+      }
+      multiplier *= 0x80;
+    }
+  }
+
+  public readDeltas(baseline: Array<number>): Array<number> {
+    return baseline.map((baselineValue) => {
+      const zigzag = this.readVarint();
+      const delta = zigzag % 2 === 0 ? zigzag / 2 : -(zigzag + 1) / 2;
+      return baselineValue + delta;
+    });
+  }
+
+  public readInt8(): number {
+    const value = this.readUint8();
+    return value > 127 ? value - 256 : value;
+  }
+}
+
+/*
+ Writes the parts of the client's state that differ from the baseline, or nothing (returning false) if none do. Forced
+ updates are written even if they match the baseline (with no fields if need be) so that the recipient reports them.
+*/
+function writeUpdate(
+  writer: FrameWriter,
+  id: number,
+  update: QuantizedUpdate,
+  baseline: QuantizedUpdate | undefined,
+  force: boolean,
+): boolean {
+  const baselineKart = baseline?.kart ?? zeroKartState;
+  let fields = 0;
+  if (!baseline || !valuesEqual(update.position, baseline.position)) {
+    fields |= fieldPosition;
+  }
+  if (!baseline || !valuesEqual(update.rotation, baseline.rotation)) {
+    fields |= fieldRotation;
+  }
+  if (!baseline || update.state !== baseline.state) {
+    fields |= fieldState;
+  }
+  if (update.kart) {
+    fields |= fieldKart;
+    if (!baseline?.kart || !valuesEqual(update.kart.velocity, baselineKart.velocity)) {
+      fields |= fieldKartVelocity;
+    }
+    if (!baseline?.kart || !valuesEqual(update.kart.controls, baselineKart.controls)) {
+      fields |= fieldKartControls;
+    }
+    if (!baseline?.kart || !valuesEqual(update.kart.tilt, baselineKart.tilt)) {
+      fields |= fieldKartTilt;
+    }
+  }
+  const kartChanged = !baseline?.kart !== !update.kart;
+  if (baseline && (fields & ~fieldKart) === 0 && !kartChanged && !force) {
+    // Nothing has changed since the baseline
+    return false;
+  }
+
+  writer.writeVarint(id);
+  writer.writeUint8(fields);
+  if (fields & fieldPosition) {
+    writer.writeDeltas(update.position, baseline?.position ?? [0, 0, 0]);
+  }
+  if (fields & fieldRotation) {
+    writer.writeDeltas(update.rotation, baseline?.rotation ?? [0, 0]);
+  }
+  if (fields & fieldState) {
+    writer.writeUint8(update.state);
+  }
+  if (update.kart) {
+    if (fields & fieldKartVelocity) {
+      writer.writeDeltas(update.kart.velocity, baselineKart.velocity);
+    }
+    if (fields & fieldKartControls) {
+      for (const control of update.kart.controls) {
+        writer.writeUint8(control);
+      }
+    }
+    if (fields & fieldKartTilt) {
+      writer.writeDeltas(update.kart.tilt, baselineKart.tilt);
+    }
+  }
+  return true;
+}
+
+function readUpdate(reader: FrameReader, baseline: QuantizedUpdate | undefined): QuantizedUpdate {
+  const fields = reader.readUint8();
+  const update: QuantizedUpdate = {
+    position:
+      fields & fieldPosition
+        ? reader.readDeltas(baseline?.position ?? [0, 0, 0])
+        : (baseline?.position ?? [0, 0, 0]),
+    rotation:
+      fields & fieldRotation
+        ? reader.readDeltas(baseline?.rotation ?? [0, 0])
+        : (baseline?.rotation ?? [0, 0]),
+    state: fields & fieldState ? reader.readUint8() : (baseline?.state ?? 0),
+    kart: null,
+  };
+  if (fields & fieldKart) {
+    const baselineKart = baseline?.kart ?? zeroKartState;
+    update.kart = {
+      velocity:
+        fields & fieldKartVelocity
+          ? reader.readDeltas(baselineKart.velocity)
+          : baselineKart.velocity,
+      controls:
+        fields & fieldKartControls
+          ? [reader.readInt8(), reader.readInt8(), reader.readUint8()]
+          : baselineKart.controls,
+      tilt: fields & fieldKartTilt ? reader.readDeltas(baselineKart.tilt) : baselineKart.tilt,
+    };
+  }
+  return update;
+}
+
+/*
+ Keeps the state of every client for the most recent ticks on the server, and encodes frames for each recipient against
+ the tick that it last acknowledged. Each recipient's view of the other clients is kept separately, as frames can be
+ limited to the clients that the recipient is interested in.
+*/
+export class UserNetworkingFrameEncoder {
+  private tick = 0;
+  private snapshots = new Map<number, QuantizedSnapshot>();
+  private recipients = new Map<number, RecipientState>();
+
+  public getTick(): number {
+    return this.tick;
+  }
+
+  // Whether the tick is still in the history
+  public hasTick(tick: number): boolean {
+    return this.snapshots.has(tick);
+  }
+
+  // Whether frames for the recipient can be encoded against the tick (i.e. it was sent and hasn't been discarded)
+  public hasBaseline(recipientId: number, tick: number): boolean {
+    return this.recipients.get(recipientId)?.views.has(tick) ?? false;
+  }
+
+  // Starts a new tick with the current state of every client
+  public beginTick(updates: Iterable<UserNetworkingClientUpdate>): number {
+    this.tick++;
+    const snapshot: QuantizedSnapshot = new Map();
+    for (const update of updates) {
+      snapshot.set(update.id, quantizeUpdate(update));
+    }
+    this.snapshots.set(this.tick, snapshot);
+    this.snapshots.delete(this.tick - frameHistoryLength);
+    for (const [, recipient] of this.recipients) {
+      recipient.views.delete(this.tick - frameHistoryLength);
+    }
+    return this.tick;
+  }
+
+  /*
+   Encodes the current tick for the recipient (without its own state), as a full frame if there is no baseline. Without
+   an interest the frame covers every other client. The input acknowledgement is sent as it is, not as a delta.
+  */
+  public encodeFrame(
+    recipientId: number,
+    baselineTick: number | null,
+    interest?: UserNetworkingFrameInterest,
+    inputAck?: UserNetworkingInputAck,
+  ): Uint8Array {
+    const snapshot = this.snapshots.get(this.tick);
+    if (!snapshot) {
+      throw new Error("A tick must be started before encoding frames");
+    }
+    let recipient = this.recipients.get(recipientId);
+    if (!recipient) {
+      recipient = { views: new Map(), sent: new Map() };
+      this.recipients.set(recipientId, recipient);
+    }
+    let baseline: QuantizedSnapshot | undefined;
+    if (baselineTick !== null) {
+      baseline = recipient.views.get(baselineTick);
+      if (!baseline) {
+        throw new Error(`Tick ${baselineTick} is no longer available as a baseline`);
+      }
+    } else {
+      // A full frame replaces everything that the recipient knew about
+      recipient.sent = new Map();
+    }
+
+    const view: QuantizedSnapshot = new Map();
+    const includedIds = new Set<number>();
+    const heldIds: Array<number> = [];
+    const updates = new FrameWriter();
+    let updateCount = 0;
+    for (const [id, update] of snapshot) {
+      const due = interest ? interest.get(id) : true;
+      if (id === recipientId || due === undefined) {
+        continue;
+      }
+      includedIds.add(id);
+      const baselineUpdate = baseline?.get(id);
+      const sent = recipient.sent.get(id);
+      if (!due && sent) {
+        // The recipient holds the client at the state it was last sent until it is due again
+        if (baselineUpdate) {
+          view.set(id, baselineUpdate);
+        }
+        heldIds.push(id);
+        continue;
+      }
+      const changedSinceSent = !sent || !quantizedUpdatesEqual(update, sent);
+      if (writeUpdate(updates, id, update, baselineUpdate, changedSinceSent)) {
+        updateCount++;
+      }
+      view.set(id, update);
+      recipient.sent.set(id, update);
+    }
+    const removedIds: Array<number> = [];
+    for (const id of new Set([...(baseline?.keys() ?? []), ...recipient.sent.keys()])) {
+      if (id !== recipientId && !includedIds.has(id)) {
+        removedIds.push(id);
+        recipient.sent.delete(id);
+      }
+    }
+    recipient.views.set(this.tick, view);
+
+    const writer = new FrameWriter();
+    writer.writeUint8(USER_NETWORKING_FRAME_VERSION);
+    writer.writeVarint(this.tick);
+    writer.writeVarint(baselineTick !== null ? this.tick - baselineTick : 0);
+    writer.writeVarint(updateCount);
+    writer.writeBytes(updates);
+    writer.writeVarint(removedIds.length);
+    for (const id of removedIds) {
+      writer.writeVarint(id);
+    }
+    writer.writeVarint(heldIds.length);
+    for (const id of heldIds) {
+      writer.writeVarint(id);
+    }
+    writer.writeVarint(inputAck?.inputSequence ?? 0);
+    if (inputAck?.correction) {
+      writer.writeUint8(1);
+      writeUpdate(writer, recipientId, quantizeUpdate(inputAck.correction), undefined, true);
+    } else {
+      writer.writeUint8(0);
+    }
+    return writer.toUint8Array();
+  }
+
+  // Forgets the recipient's history, e.g. when it disconnects and its id could be reused
+  public removeRecipient(recipientId: number) {
+    this.recipients.delete(recipientId);
+  }
+}
+
+// Reconstructs the state of every client from frames on the client, keeping the recent ticks to decode frames against
+export class UserNetworkingFrameDecoder {
+  private snapshots = new Map<number, QuantizedSnapshot>();
+  // The latest state that each client was sent at, which can be newer than the snapshots for clients that are held
+  private latest: QuantizedSnapshot = new Map();
+
+  public decodeFrame(buffer: ArrayBuffer): UserNetworkingFrame {
+    const reader = new FrameReader(new Uint8Array(buffer));
+    const version = reader.readUint8();
+    if (version < 1 || version > USER_NETWORKING_FRAME_VERSION) {
+      throw new Error(`Unsupported update frame version: ${version}`);
+    }
+    const tick = reader.readVarint();
+    const baselineAge = reader.readVarint();
+    let baseline: QuantizedSnapshot | undefined;
+    if (baselineAge !== 0) {
+      baseline = this.snapshots.get(tick - baselineAge);
+      if (!baseline) {
+        throw new Error(`Update frame ${tick} is encoded against an unknown tick`);
+      }
+    }
+
+    const snapshot: QuantizedSnapshot = new Map(baseline);
+    const latest: QuantizedSnapshot = baseline ? this.latest : new Map();
+    const updateCount = reader.readVarint();
+    for (let i = 0; i < updateCount; i++) {
+      const id = reader.readVarint();
+      const update = readUpdate(reader, baseline?.get(id));
+      snapshot.set(id, update);
+      latest.set(id, update);
+    }
+    const removedIds: Array<number> = [];
+    const removedCount = reader.readVarint();
+    for (let i = 0; i < removedCount; i++) {
+      const id = reader.readVarint();
+      snapshot.delete(id);
+      if (latest.delete(id)) {
+        removedIds.push(id);
+      }
+    }
+    if (!baseline) {
+      // A full frame includes every client that the recipient should know about
+      for (const id of this.latest.keys()) {
+        if (!latest.has(id)) {
+          removedIds.push(id);
+        }
+      }
+      this.latest = latest;
+    }
+
+    this.snapshots.set(tick, snapshot);
+    for (const snapshotTick of this.snapshots.keys()) {
+      if (snapshotTick <= tick - frameHistoryLength) {
+        this.snapshots.delete(snapshotTick);
+      }
+    }
+
+    const heldIds = new Set<number>();
+    if (version >= 2) {
+      const heldCount = reader.readVarint();
+      for (let i = 0; i < heldCount; i++) {
+        heldIds.add(reader.readVarint());
+      }
+    }
+    let inputAck: UserNetworkingInputAck | null = null;
+    if (version >= 3) {
+      const inputSequence = reader.readVarint();
+      let correction: UserNetworkingClientUpdate | null = null;
+      if (reader.readUint8() === 1) {
+        const id = reader.readVarint();
+        correction = dequantizeUpdate(id, readUpdate(reader, undefined));
+      }
+      if (inputSequence !== 0) {
+        inputAck = { inputSequence, correction };
+      }
+    }
+    const updates: Array<UserNetworkingClientUpdate> = [];
+    for (const [id, update] of this.latest) {
+      if (!heldIds.has(id)) {
+        updates.push(dequantizeUpdate(id, update));
+      }
+    }
+    return { tick, updates, removedIds, inputAck };
+  }
+
+  // Stops reporting the client (e.g. when it has disconnected) until it is sent again
+  public removeClient(id: number) {
+    this.latest.delete(id);
+  }
+
+  public reset() {
+    this.snapshots.clear();
+    this.latest.clear();
+  }
+}
@@ -0,0 +1,111 @@
+import { UserNetworkingClientUpdate } from "./UserNetworkingCodec";
+import { UserNetworkingFrameInterest } from "./UserNetworkingFrameCodec";
+
+export type UserNetworkingInterestTier = {
+  // Karts within this distance (in meters) of the recipient are sent at this tier's rate
+  radius: number;
+  // Karts are sent every this many ticks (1 is every tick)
+  interval: number;
+};
+
+export type UserNetworkingInterestConfig = {
+  // Tiers in order of increasing radius. Karts beyond the last tier's radius aren't sent at all.
+  tiers: Array<UserNetworkingInterestTier>;
+  // Meters beyond the last tier's radius that a kart has to go before it is removed, so that karts near the edge
+  // aren't repeatedly removed and added
+  hysteresis?: number;
+  // The angle (in radians) in front of the recipient's kart that is in view
+  viewAngle?: number;
+  // Karts outside of the view are treated as if they were this many times further away
+  outOfViewDistanceScale?: number;
+};
+
+const defaultHysteresis = 20;
+const defaultViewAngle = (Math.PI * 2) / 3;
+const defaultOutOfViewDistanceScale = 1.5;
+
+/*
+ Decides which karts each recipient is sent and how often, based on their distance from the recipient's kart (and
+ whether they are in front of it). Nearby karts are sent every tick, further ones less often and distant ones not at
+ all.
+*/
+export class UserNetworkingInterestManager {
+  // The karts that each recipient is currently interested in
+  private interests = new Map<number, Set<number>>();
+
+  constructor(private config: UserNetworkingInterestConfig) {
+    if (config.tiers.length === 0) {
+      throw new Error("At least one interest tier is required");
+    }
+    config.tiers.forEach((tier, index) => {
+      if (!Number.isInteger(tier.interval) || tier.interval < 1) {
+        throw new Error(`Interest tier interval must be a positive integer: ${tier.interval}`);
+      }
+      if (index > 0 && tier.radius <= config.tiers[index - 1].radius) {
+        throw new Error("Interest tiers must be in order of increasing radius");
+      }
+    });
+  }
+
+  // Returns the distance to the kart as seen from the recipient, scaled up if the kart is outside of the view
+  private getEffectiveDistance(
+    recipient: UserNetworkingClientUpdate,
+    update: UserNetworkingClientUpdate,
+  ): number {
+    const dx = update.position.x - recipient.position.x;
+    const dz = update.position.z - recipient.position.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    if (distance === 0) {
+      return 0;
+    }
+    // Karts face along +z rotated by their yaw
+    const { quaternionY, quaternionW } = recipient.rotation;
+    const yaw = 2 * Math.atan2(quaternionY, quaternionW);
+    const facing = (Math.sin(yaw) * dx + Math.cos(yaw) * dz) / distance;
+    const viewAngle = this.config.viewAngle ?? defaultViewAngle;
+    if (facing >= Math.cos(viewAngle / 2)) {
+      return distance;
+    }
+    return distance * (this.config.outOfViewDistanceScale ?? defaultOutOfViewDistanceScale);
+  }
+
+  // Returns the karts that the recipient is interested in for the tick, and whether each is due to be sent
+  public getInterest(
+    recipient: UserNetworkingClientUpdate,
+    updates: Iterable<UserNetworkingClientUpdate>,
+    tick: number,
+  ): UserNetworkingFrameInterest {
+    const { tiers } = this.config;
+    const lastTier = tiers[tiers.length - 1];
+    const previous = this.interests.get(recipient.id) ?? new Set<number>();
+    const current = new Set<number>();
+    const interest: UserNetworkingFrameInterest = new Map();
+    for (const update of updates) {
+      if (update.id === recipient.id) {
+        continue;
+      }
+      const distance = this.getEffectiveDistance(recipient, update);
+      const wasInterested = previous.has(update.id);
+      const maxDistance =
+        lastTier.radius + (wasInterested ? (this.config.hysteresis ?? defaultHysteresis) : 0);
+      if (distance > maxDistance) {
+        continue;
+      }
+      current.add(update.id);
+      // Karts within the hysteresis zone stay at the last tier's rate
+      const tier = tiers.find((candidate) => distance <= candidate.radius) ?? lastTier;
+      // Karts that have just come into range are sent straight away. The rest are staggered by id so that each tick
+      // carries a similar share of them.
+      interest.set(update.id, !wasInterested || (tick + update.id) % tier.interval === 0);
+    }
+    this.interests.set(recipient.id, current);
+    return interest;
+  }
+
+  public removeClient(clientId: number) {
+    this.interests.delete(clientId);
+    for (const [, interest] of this.interests) {
+      interest.delete(clientId);
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { UserNetworkingLatencyStats } from "./UserNetworkingNetworkStats";
+
 export const USER_NETWORKING_DISCONNECTED_MESSAGE_TYPE = "disconnected";
 export const USER_NETWORKING_IDENTITY_MESSAGE_TYPE = "identity";
 export const USER_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE = "user_auth";
@@ -7,6 +9,13 @@ export const USER_NETWORKING_SERVER_BROADCAST_MESSAGE_TYPE = "broadcast";
 export const USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE = "error";
 export const USER_NETWORKING_PING_MESSAGE_TYPE = "ping";
 export const USER_NETWORKING_PONG_MESSAGE_TYPE = "pong";
+export const USER_NETWORKING_RACE_STATE_MESSAGE_TYPE = "race_state";
+export const USER_NETWORKING_RACE_RESULTS_MESSAGE_TYPE = "race_results";
+export const USER_NETWORKING_ITEM_STATE_MESSAGE_TYPE = "item_state";
+export const USER_NETWORKING_ITEM_EVENT_MESSAGE_TYPE = "item_event";
+export const USER_NETWORKING_ITEM_PICKUP_MESSAGE_TYPE = "item_pickup";
+export const USER_NETWORKING_ITEM_USE_MESSAGE_TYPE = "item_use";
+export const USER_NETWORKING_FRAME_ACK_MESSAGE_TYPE = "frame_ack";
 
 export type UserNetworkingIdentityMessage = {
   type: typeof USER_NETWORKING_IDENTITY_MESSAGE_TYPE;
@@ -45,12 +54,14 @@ export type UserNetworkingDisconnectedMessage = {
 export const USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE = "CONNECTION_LIMIT_REACHED";
 export const USER_NETWORKING_AUTHENTICATION_FAILED_ERROR_TYPE = "AUTHENTICATION_FAILED";
 export const USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE = "SERVER_SHUTDOWN";
+export const USER_NETWORKING_KICKED_ERROR_TYPE = "KICKED";
 export const USER_NETWORKING_UNKNOWN_ERROR = "UNKNOWN_ERROR";
 
 export type UserNetworkingServerErrorType =
   | typeof USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE
   | typeof USER_NETWORKING_AUTHENTICATION_FAILED_ERROR_TYPE
   | typeof USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE
+  | typeof USER_NETWORKING_KICKED_ERROR_TYPE
   | typeof USER_NETWORKING_UNKNOWN_ERROR;
 
 export type UserNetworkingServerError = {
@@ -65,8 +76,80 @@ export type UserNetworkingServerBroadcast = {
   payload: any;
 };
 
+// The client answers with a pong carrying the same id, which the server uses to measure the round trip time
 export type UserNetworkingServerPingMessage = {
   type: typeof USER_NETWORKING_PING_MESSAGE_TYPE;
+  id?: number;
+  // The server's latest measurements of the connection to this client
+  latency?: UserNetworkingLatencyStats;
+};
+
+export type UserNetworkingRacePhase = "idle" | "countdown" | "racing" | "finished";
+
+export type UserNetworkingRaceStanding = {
+  id: number;
+  position: number;
+  // The number of completed laps
+  lap: number;
+  nextCheckpointIndex: number;
+  lapTimes: Array<number>;
+  bestLapTime: number | null;
+  // Milliseconds from the start of the race to finishing, or null if the participant has not finished
+  totalTime: number | null;
+};
+
+/*
+ Times are sent relative to when the message was sent (rather than as timestamps) so that clients do not need to
+ share a clock with the server.
+*/
+export type UserNetworkingRaceStateMessage = {
+  type: typeof USER_NETWORKING_RACE_STATE_MESSAGE_TYPE;
+  phase: UserNetworkingRacePhase;
+  laps: number;
+  countdownRemaining: number | null;
+  elapsedTime: number;
+  standings: Array<UserNetworkingRaceStanding>;
+};
+
+export type UserNetworkingRaceResultsMessage = {
+  type: typeof USER_NETWORKING_RACE_RESULTS_MESSAGE_TYPE;
+  laps: number;
+  results: Array<UserNetworkingRaceStanding>;
+};
+
+export type UserNetworkingItemPlayerState = {
+  id: number;
+  item: string | null;
+  shieldRemaining: number;
+};
+
+export type UserNetworkingItemEntity = {
+  id: number;
+  itemId: string;
+  ownerId: number;
+  position: { x: number; y: number; z: number };
+  velocity: { x: number; y: number; z: number };
+};
+
+// As with race state, durations are relative to when the message was sent
+export type UserNetworkingItemStateMessage = {
+  type: typeof USER_NETWORKING_ITEM_STATE_MESSAGE_TYPE;
+  // The item boxes that have been collected and the milliseconds until they can be collected again
+  itemBoxes: Array<{ id: string; respawnRemaining: number }>;
+  players: Array<UserNetworkingItemPlayerState>;
+  entities: Array<UserNetworkingItemEntity>;
+};
+
+export type UserNetworkingItemEvent =
+  | { type: "pickup"; id: number; itemId: string; boxId: string }
+  // boost is included when the item boosts the kart of the user that used it
+  | { type: "use"; id: number; itemId: string; boost?: { speed: number; duration: number } }
+  | { type: "hit"; id: number; ownerId: number; itemId: string; spinOutDuration: number }
+  | { type: "blocked"; id: number; ownerId: number; itemId: string };
+
+export type UserNetworkingItemEventMessage = {
+  type: typeof USER_NETWORKING_ITEM_EVENT_MESSAGE_TYPE;
+  event: UserNetworkingItemEvent;
 };
 
 export type FromUserNetworkingServerMessage =
@@ -75,10 +158,16 @@ export type FromUserNetworkingServerMessage =
   | UserNetworkingDisconnectedMessage
   | UserNetworkingServerPingMessage
   | UserNetworkingServerBroadcast
+  | UserNetworkingRaceStateMessage
+  | UserNetworkingRaceResultsMessage
+  | UserNetworkingItemStateMessage
+  | UserNetworkingItemEventMessage
   | UserNetworkingServerError;
 
 export type UserNetworkingClientPongMessage = {
   type: typeof USER_NETWORKING_PONG_MESSAGE_TYPE;
+  // The id of the ping being answered
+  id?: number;
 };
 
 export type UserIdentity = {
@@ -91,6 +180,8 @@ export type UserNetworkingAuthenticateMessage = {
   sessionToken: string;
   // The client can send a UserIdentity to use as the initial user profile and the server can choose to accept it or not
   userIdentity?: UserIdentity;
+  // Spectators receive the state of every racer but never appear to other clients themselves
+  spectator?: boolean;
 };
 
 export type UserNetworkingUserUpdateMessage = {
@@ -98,7 +189,28 @@ export type UserNetworkingUserUpdateMessage = {
   userIdentity: UserIdentity;
 };
 
+// The server decides whether the item box can be collected and which item it gives
+export type UserNetworkingItemPickupMessage = {
+  type: typeof USER_NETWORKING_ITEM_PICKUP_MESSAGE_TYPE;
+  boxId: string;
+  position: { x: number; y: number; z: number };
+};
+
+export type UserNetworkingItemUseMessage = {
+  type: typeof USER_NETWORKING_ITEM_USE_MESSAGE_TYPE;
+};
+
+// Acknowledges the latest update frame that the client has received, so that later frames are encoded against it
+export type UserNetworkingFrameAckMessage = {
+  type: typeof USER_NETWORKING_FRAME_ACK_MESSAGE_TYPE;
+  // null asks for the next frame to be sent in full (e.g. if the client could not decode a frame)
+  tick: number | null;
+};
+
 export type FromUserNetworkingClientMessage =
   | UserNetworkingClientPongMessage
   | UserNetworkingAuthenticateMessage
-  | UserNetworkingUserUpdateMessage;
+  | UserNetworkingUserUpdateMessage
+  | UserNetworkingItemPickupMessage
+  | UserNetworkingItemUseMessage
+  | UserNetworkingFrameAckMessage;
@@ -0,0 +1,212 @@
+import { UserNetworkingClientUpdate } from "./UserNetworkingCodec";
+
+export type UserNetworkingUpdateViolationType = "speed" | "acceleration" | "teleport" | "spawn";
+
+export type UserNetworkingUpdateViolation = {
+  type: UserNetworkingUpdateViolationType;
+  // The measured value (m/s for speed, m/s gained for acceleration and meters for teleports and spawns) and the limit
+  // that it exceeded
+  value: number;
+  limit: number;
+};
+
+export type UserNetworkingUpdateValidation = {
+  // The update to accept (corrected if it was clamped), or null if it was rejected
+  update: UserNetworkingClientUpdate | null;
+  violations: Array<UserNetworkingUpdateViolation>;
+};
+
+// Checks the position updates that the server receives from racers before they are passed on to other clients
+export interface UserNetworkingUpdateValidator {
+  validateUpdate(
+    clientId: number,
+    update: UserNetworkingClientUpdate,
+    now: number,
+  ): UserNetworkingUpdateValidation;
+  removeClient(clientId: number): void;
+}
+
+// An area that karts spawn (and respawn) within - matches the client's spawn position and its variance
+export type UserNetworkingSpawnArea = {
+  position: { x: number; z: number };
+  variance?: { x: number; z: number };
+};
+
+export type UserNetworkingMovementValidatorConfig = {
+  // The fastest (in m/s) that a kart can travel horizontally, including any boosts
+  maxSpeed: number;
+  // The fastest (in m/s per second) that a kart can gain speed by accelerating
+  maxAcceleration: number;
+  // Speed (in m/s) that a kart can gain instantly on top of its acceleration, e.g. from boost pads or items
+  speedImpulse?: number;
+  // Meters that a kart can move beyond what its maximum speed allows before the move counts as a teleport
+  teleportTolerance?: number;
+  // Seconds of movement that can arrive at once (e.g. updates that were held up by the network and then delivered
+  // together)
+  latencyTolerance?: number;
+  /*
+   Karts must first appear within one of these areas and can only teleport (i.e. respawn) back into one of them. If
+   there are none then karts can first appear anywhere, but can never teleport.
+  */
+  spawnAreas?: Array<UserNetworkingSpawnArea>;
+  // "clamp" (the default) corrects offending updates to the nearest allowed movement, "reject" discards them
+  correction?: "clamp" | "reject";
+};
+
+type TrackedKart = {
+  position: { x: number; y: number; z: number };
+  // The speed the kart reported (null if its updates don't include a kart payload)
+  speed: number | null;
+  // Meters that the kart can move before it exceeds its maximum speed
+  movementAllowance: number;
+  time: number;
+};
+
+const defaultTeleportTolerance = 5;
+const defaultLatencyTolerance = 1;
+
+function horizontalLength(x: number, z: number): number {
+  return Math.sqrt(x * x + z * z);
+}
+
+/*
+ Validates kart movement against the limits of the kart physics. Only horizontal movement is checked - karts fall (and
+ are launched off ramps) faster than they can drive.
+
+ Movement is allowed from an allowance that builds up at the maximum speed (up to latencyTolerance seconds of it) so
+ that a burst of delayed updates isn't mistaken for a teleport. Rejected updates don't move the tracked kart, so a kart
+ that teleported is only accepted again once it is back within reach of where it was last accepted (or respawns).
+*/
+export class UserNetworkingMovementValidator implements UserNetworkingUpdateValidator {
+  private karts = new Map<number, TrackedKart>();
+
+  constructor(private config: UserNetworkingMovementValidatorConfig) {}
+
+  private getMaxMovementAllowance(): number {
+    return this.config.maxSpeed * (this.config.latencyTolerance ?? defaultLatencyTolerance);
+  }
+
+  // Returns the distance (in meters) from the closest spawn area, or null if there are no spawn areas
+  private getSpawnAreaDistance(position: { x: number; z: number }): number | null {
+    let closest: number | null = null;
+    for (const spawnArea of this.config.spawnAreas ?? []) {
+      const distance = horizontalLength(
+        Math.max(Math.abs(position.x - spawnArea.position.x) - (spawnArea.variance?.x ?? 0), 0),
+        Math.max(Math.abs(position.z - spawnArea.position.z) - (spawnArea.variance?.z ?? 0), 0),
+      );
+      closest = closest === null ? distance : Math.min(closest, distance);
+    }
+    return closest;
+  }
+
+  private getClosestSpawnPosition(position: { x: number; z: number }): { x: number; z: number } {
+    let closest: { x: number; z: number } = position;
+    let closestDistance = Number.POSITIVE_INFINITY;
+    for (const spawnArea of this.config.spawnAreas ?? []) {
+      const varianceX = spawnArea.variance?.x ?? 0;
+      const varianceZ = spawnArea.variance?.z ?? 0;
+      const clamped = {
+        x: Math.max(
+          spawnArea.position.x - varianceX,
+          Math.min(spawnArea.position.x + varianceX, position.x),
+        ),
+        z: Math.max(
+          spawnArea.position.z - varianceZ,
+          Math.min(spawnArea.position.z + varianceZ, position.z),
+        ),
+      };
+      const distance = horizontalLength(clamped.x - position.x, clamped.z - position.z);
+      if (distance < closestDistance) {
+        closest = clamped;
+        closestDistance = distance;
+      }
+    }
+    return closest;
+  }
+
+  public validateUpdate(
+    clientId: number,
+    update: UserNetworkingClientUpdate,
+    now: number,
+  ): UserNetworkingUpdateValidation {
+    const violations: Array<UserNetworkingUpdateViolation> = [];
+    const clamp = (this.config.correction ?? "clamp") === "clamp";
+    const previous = this.karts.get(clientId);
+    const position = { ...update.position };
+    const velocity = update.kart ? { ...update.kart.velocity } : null;
+    const teleportTolerance = this.config.teleportTolerance ?? defaultTeleportTolerance;
+    const spawnAreaDistance = this.getSpawnAreaDistance(position);
+    const inSpawnArea = spawnAreaDistance !== null && spawnAreaDistance <= teleportTolerance;
+
+    let speed = velocity ? horizontalLength(velocity.x, velocity.z) : null;
+    let speedLimit = this.config.maxSpeed;
+    if (previous && previous.speed !== null && speed !== null && !inSpawnArea) {
+      const elapsed = Math.max(now - previous.time, 0) / 1000;
+      const maxSpeedGain = this.config.maxAcceleration * elapsed + (this.config.speedImpulse ?? 0);
+      if (speed - previous.speed > maxSpeedGain) {
+        violations.push({
+          type: "acceleration",
+          value: speed - previous.speed,
+          limit: maxSpeedGain,
+        });
+      }
+      speedLimit = Math.min(speedLimit, previous.speed + maxSpeedGain);
+    }
+    if (speed !== null && speed > this.config.maxSpeed) {
+      violations.push({ type: "speed", value: speed, limit: this.config.maxSpeed });
+    }
+    if (velocity && speed !== null && speed > speedLimit) {
+      const scale = speedLimit / speed;
+      velocity.x *= scale;
+      velocity.z *= scale;
+      speed = speedLimit;
+    }
+
+    let movementAllowance = this.getMaxMovementAllowance();
+    if (!previous) {
+      if (spawnAreaDistance !== null && !inSpawnArea) {
+        violations.push({ type: "spawn", value: spawnAreaDistance, limit: teleportTolerance });
+        const spawnPosition = this.getClosestSpawnPosition(position);
+        position.x = spawnPosition.x;
+        position.z = spawnPosition.z;
+      }
+    } else if (!inSpawnArea) {
+      const elapsed = Math.max(now - previous.time, 0) / 1000;
+      movementAllowance = Math.min(
+        previous.movementAllowance + this.config.maxSpeed * elapsed,
+        this.getMaxMovementAllowance(),
+      );
+      const dx = position.x - previous.position.x;
+      const dz = position.z - previous.position.z;
+      const distance = horizontalLength(dx, dz);
+      const maxDistance = movementAllowance + teleportTolerance;
+      if (distance > maxDistance) {
+        violations.push({ type: "teleport", value: distance, limit: maxDistance });
+        position.x = previous.position.x + (dx / distance) * maxDistance;
+        position.z = previous.position.z + (dz / distance) * maxDistance;
+      }
+      // Movement within the tolerance is borrowed from the allowance so that it can't be repeated with every update
+      movementAllowance -= Math.min(distance, maxDistance);
+    }
+
+    if (violations.length > 0 && !clamp) {
+      return { update: null, violations };
+    }
+    this.karts.set(clientId, { position, speed, movementAllowance, time: now });
+    if (violations.length === 0) {
+      return { update, violations };
+    }
+    return {
+      update: {
+        ...update,
+        position,
+        kart: update.kart && velocity ? { ...update.kart, velocity } : update.kart,
+      },
+      violations,
+    };
+  }
+
+  public removeClient(clientId: number) {
+    this.karts.delete(clientId);
+  }
+}
@@ -0,0 +1,147 @@
+import { pingPongRate } from "./user-networking-settings";
+
+export type UserNetworkingLatencyStats = {
+  // Smoothed round trip time in milliseconds (null until the first pong has been received)
+  rtt: number | null;
+  // Mean variation in milliseconds between consecutive round trip times
+  jitter: number;
+  // The proportion (0-1) of recent pings that weren't answered in time
+  packetLoss: number;
+};
+
+export type UserNetworkingTrafficStats = {
+  // Totals since connecting
+  bytes: number;
+  messages: number;
+  // Measured over roughly the last second
+  bytesPerSecond: number;
+  messagesPerSecond: number;
+};
+
+export type UserNetworkingConnectionStats = {
+  latency: UserNetworkingLatencyStats;
+  received: UserNetworkingTrafficStats;
+  sent: UserNetworkingTrafficStats;
+};
+
+// Pings that haven't been answered within this many milliseconds are counted as lost
+const pingTimeout = pingPongRate * 2;
+// The number of most recent pings that packet loss is measured over
+const packetLossWindow = 20;
+// Weight of each new sample in the smoothed round trip time and jitter (as for TCP's smoothed RTT)
+const rttSmoothing = 1 / 8;
+const jitterSmoothing = 1 / 16;
+// Milliseconds over which traffic rates are measured
+const rateWindow = 1000;
+
+/*
+ Measures the round trip time to a client from the server's pings. Each ping carries an id that the client's pong
+ echoes, so that pongs can be matched to the time that their ping was sent even if some of them are late or never
+ arrive.
+*/
+export class UserNetworkingLatencyTracker {
+  private nextPingId = 1;
+  // The time that each unanswered ping was sent, by id
+  private pendingPings = new Map<number, number>();
+  // Whether each of the recent pings was answered, oldest first
+  private pingResults: Array<boolean> = [];
+  private rtt: number | null = null;
+  private lastSample: number | null = null;
+  private jitter = 0;
+
+  // Returns the id to send with a new ping
+  public createPing(now: number): number {
+    for (const [id, sentTime] of this.pendingPings) {
+      if (now - sentTime > pingTimeout) {
+        this.pendingPings.delete(id);
+        this.addPingResult(false);
+      }
+    }
+    const id = this.nextPingId++;
+    this.pendingPings.set(id, now);
+    return id;
+  }
+
+  // Returns false if the pong doesn't match a ping that is still awaiting an answer
+  public receivePong(id: number, now: number): boolean {
+    const sentTime = this.pendingPings.get(id);
+    if (sentTime === undefined) {
+      return false;
+    }
+    this.pendingPings.delete(id);
+    this.addPingResult(true);
+
+    const sample = now - sentTime;
+    if (this.rtt === null) {
+      this.rtt = sample;
+    } else {
+      this.rtt += (sample - this.rtt) * rttSmoothing;
+    }
+    if (this.lastSample !== null) {
+      this.jitter += (Math.abs(sample - this.lastSample) - this.jitter) * jitterSmoothing;
+    }
+    this.lastSample = sample;
+    return true;
+  }
+
+  private addPingResult(answered: boolean) {
+    this.pingResults.push(answered);
+    if (this.pingResults.length > packetLossWindow) {
+      this.pingResults.shift();
+    }
+  }
+
+  public getStats(): UserNetworkingLatencyStats {
+    const lost = this.pingResults.filter((answered) => !answered).length;
+    return {
+      rtt: this.rtt,
+      jitter: this.jitter,
+      packetLoss: this.pingResults.length > 0 ? lost / this.pingResults.length : 0,
+    };
+  }
+}
+
+// Counts the messages (and their bytes) sent in one direction, measuring the rate over roughly the last second
+export class UserNetworkingTrafficCounter {
+  private bytes = 0;
+  private messages = 0;
+  private windowStart: number | null = null;
+  private windowBytes = 0;
+  private windowMessages = 0;
+  private bytesPerSecond = 0;
+  private messagesPerSecond = 0;
+
+  public record(bytes: number, now: number) {
+    this.updateRates(now);
+    this.bytes += bytes;
+    this.messages++;
+    this.windowBytes += bytes;
+    this.windowMessages++;
+  }
+
+  private updateRates(now: number) {
+    if (this.windowStart === null) {
+      this.windowStart = now;
+      return;
+    }
+    const elapsed = now - this.windowStart;
+    if (elapsed < rateWindow) {
+      return;
+    }
+    this.bytesPerSecond = (this.windowBytes * 1000) / elapsed;
+    this.messagesPerSecond = (this.windowMessages * 1000) / elapsed;
+    this.windowStart = now;
+    this.windowBytes = 0;
+    this.windowMessages = 0;
+  }
+
+  public getStats(now: number): UserNetworkingTrafficStats {
+    this.updateRates(now);
+    return {
+      bytes: this.bytes,
+      messages: this.messages,
+      bytesPerSecond: this.bytesPerSecond,
+      messagesPerSecond: this.messagesPerSecond,
+    };
+  }
+}
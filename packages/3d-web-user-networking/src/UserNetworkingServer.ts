@@ -3,13 +3,22 @@ import WebSocket from "ws";
 import { heartBeatRate, packetsUpdateRate, pingPongRate } from "./user-networking-settings";
 import { UserData } from "./UserData";
 import { UserNetworkingClientUpdate, UserNetworkingCodec } from "./UserNetworkingCodec";
+import { UserNetworkingFrameEncoder } from "./UserNetworkingFrameCodec";
+import {
+  UserNetworkingInterestConfig,
+  UserNetworkingInterestManager,
+} from "./UserNetworkingInterestManager";
 import {
   FromUserNetworkingClientMessage,
   FromUserNetworkingServerMessage,
   USER_NETWORKING_AUTHENTICATION_FAILED_ERROR_TYPE,
   USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE,
   USER_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
+  USER_NETWORKING_FRAME_ACK_MESSAGE_TYPE,
   USER_NETWORKING_IDENTITY_MESSAGE_TYPE,
+  USER_NETWORKING_ITEM_PICKUP_MESSAGE_TYPE,
+  USER_NETWORKING_ITEM_USE_MESSAGE_TYPE,
+  USER_NETWORKING_KICKED_ERROR_TYPE,
   USER_NETWORKING_PONG_MESSAGE_TYPE,
   USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
   USER_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE,
@@ -17,9 +26,19 @@ import {
   USER_NETWORKING_USER_UPDATE_MESSAGE_TYPE,
   UserIdentity,
   UserNetworkingAuthenticateMessage,
+  UserNetworkingItemPickupMessage,
   UserNetworkingServerError,
   UserNetworkingUserUpdateMessage,
 } from "./UserNetworkingMessages";
+import {
+  UserNetworkingUpdateValidator,
+  UserNetworkingUpdateViolation,
+} from "./UserNetworkingMovementValidator";
+import {
+  UserNetworkingConnectionStats,
+  UserNetworkingLatencyTracker,
+  UserNetworkingTrafficCounter,
+} from "./UserNetworkingNetworkStats";
 
 export type UserNetworkingServerClient = {
   socket: WebSocket;
@@ -27,12 +46,53 @@ export type UserNetworkingServerClient = {
   lastPong: number;
   update: UserNetworkingClientUpdate;
   authenticatedUser: UserData | null;
+  spectator: boolean;
+  // The number of violations in the client's updates that failed validation
+  violationCount: number;
+  // The latest update frame that the client has acknowledged (null until it has acknowledged one)
+  frameAckTick: number | null;
+  // The input sequence of the latest update from the client (null if its updates aren't numbered)
+  inputSequence: number | null;
+  // The state that the client's kart was corrected to since its last frame (null if it wasn't corrected)
+  correction: UserNetworkingClientUpdate | null;
+  latency: UserNetworkingLatencyTracker;
+  received: UserNetworkingTrafficCounter;
+  sent: UserNetworkingTrafficCounter;
 };
 
 const WebSocketOpenStatus = 1;
 
+function getDataSize(data: WebSocket.Data): number {
+  if (typeof data === "string") {
+    // JSON messages are almost entirely ASCII, so their length is close enough to their size in bytes
+    return data.length;
+  }
+  if (Array.isArray(data)) {
+    return data.reduce((size, buffer) => size + buffer.byteLength, 0);
+  }
+  return data.byteLength;
+}
+
+// Messages come straight from clients, so their contents are checked before they are passed on
+function isItemPickupMessage(
+  message: FromUserNetworkingClientMessage,
+): message is UserNetworkingItemPickupMessage {
+  const { boxId, position } = message as Partial<UserNetworkingItemPickupMessage>;
+  return (
+    typeof boxId === "string" &&
+    typeof position === "object" &&
+    position !== null &&
+    Number.isFinite(position.x) &&
+    Number.isFinite(position.y) &&
+    Number.isFinite(position.z)
+  );
+}
+
 export type UserNetworkingServerOptions = {
+  // The maximum number of racers (spectators are limited separately)
   connectionLimit?: number;
+  // The maximum number of spectators (0 to not allow spectators)
+  spectatorLimit?: number;
   onClientConnect: (
     clientId: number,
     sessionToken: string,
@@ -43,17 +103,37 @@ export type UserNetworkingServerOptions = {
     userIdentity: UserIdentity,
   ) => Promise<UserData | null> | UserData | null;
   onClientDisconnect: (clientId: number) => void;
+  // Called with each position update received from an authenticated client
+  onClientUpdate?: (clientId: number, update: UserNetworkingClientUpdate) => void;
+  // Called when an authenticated client asks to collect an item box or to use its item
+  onClientItemPickup?: (clientId: number, message: UserNetworkingItemPickupMessage) => void;
+  onClientItemUse?: (clientId: number) => void;
+  // Checks each position update from a racer before it is accepted (updates are trusted if there is no validator)
+  updateValidator?: UserNetworkingUpdateValidator;
+  // Called for each violation in an update that failed validation, e.g. to kick or flag the player
+  onClientViolation?: (
+    clientId: number,
+    violation: UserNetworkingUpdateViolation,
+    violationCount: number,
+  ) => void;
+  // Limits the racers that each racer is sent to those nearby (spectators are always sent every racer)
+  interest?: UserNetworkingInterestConfig;
 };
 
 export class UserNetworkingServer {
   private allClientsById = new Map<number, UserNetworkingServerClient>();
   private authenticatedClientsById: Map<number, UserNetworkingServerClient> = new Map();
+  private frameEncoder = new UserNetworkingFrameEncoder();
+  private interestManager: UserNetworkingInterestManager | null;
 
   private sendUpdatesIntervalTimer: NodeJS.Timeout;
   private pingClientsIntervalTimer: NodeJS.Timeout;
   private heartbeatIntervalTimer: NodeJS.Timeout;
 
   constructor(private options: UserNetworkingServerOptions) {
+    this.interestManager = options.interest
+      ? new UserNetworkingInterestManager(options.interest)
+      : null;
     this.sendUpdatesIntervalTimer = setInterval(this.sendUpdates.bind(this), packetsUpdateRate);
     this.pingClientsIntervalTimer = setInterval(this.pingClients.bind(this), pingPongRate);
     this.heartbeatIntervalTimer = setInterval(this.heartBeat.bind(this), heartBeatRate);
@@ -69,16 +149,40 @@ export class UserNetworkingServer {
     });
   }
 
+  // Each client is sent its own ping id and the latest measurements of its connection
   private pingClients() {
-    const message: FromUserNetworkingServerMessage = { type: "ping" };
-    const messageString = JSON.stringify(message);
+    const now = Date.now();
     this.authenticatedClientsById.forEach((client) => {
       if (client.socket.readyState === WebSocketOpenStatus) {
-        client.socket.send(messageString);
+        const message: FromUserNetworkingServerMessage = {
+          type: "ping",
+          id: client.latency.createPing(now),
+          latency: client.latency.getStats(),
+        };
+        this.sendToClient(client, JSON.stringify(message));
       }
     });
   }
 
+  private sendToClient(client: UserNetworkingServerClient, data: string | Uint8Array) {
+    client.sent.record(getDataSize(data), Date.now());
+    client.socket.send(data);
+  }
+
+  private countAuthenticatedClients(spectators: boolean): number {
+    let count = 0;
+    for (const [, client] of this.authenticatedClientsById) {
+      if (client.spectator === spectators) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  public isSpectator(clientId: number): boolean {
+    return this.authenticatedClientsById.get(clientId)?.spectator ?? false;
+  }
+
   private getId(): number {
     let id = 1;
     while (this.allClientsById.has(id)) {
@@ -88,15 +192,18 @@ export class UserNetworkingServer {
   }
 
   public broadcastMessage(broadcastType: string, broadcastPayload: any) {
-    const message: FromUserNetworkingServerMessage = {
+    this.sendMessageToAllClients({
       type: "broadcast",
       broadcastType,
       payload: broadcastPayload,
-    };
+    });
+  }
+
+  public sendMessageToAllClients(message: FromUserNetworkingServerMessage) {
     const messageString = JSON.stringify(message);
     for (const [, client] of this.authenticatedClientsById) {
       if (client.socket.readyState === WebSocketOpenStatus) {
-        client.socket.send(messageString);
+        this.sendToClient(client, messageString);
       }
     }
   }
@@ -111,6 +218,14 @@ export class UserNetworkingServer {
       lastPong: Date.now(),
       socket: socket as WebSocket,
       authenticatedUser: null,
+      spectator: false,
+      violationCount: 0,
+      frameAckTick: null,
+      inputSequence: null,
+      correction: null,
+      latency: new UserNetworkingLatencyTracker(),
+      received: new UserNetworkingTrafficCounter(),
+      sent: new UserNetworkingTrafficCounter(),
       update: {
         id,
         position: { x: 0, y: 0, z: 0 },
@@ -121,11 +236,31 @@ export class UserNetworkingServer {
     this.allClientsById.set(id, client);
 
     socket.on("message", (message: WebSocket.Data, _isBinary: boolean) => {
+      client.received.record(getDataSize(message), Date.now());
       if (message instanceof Buffer) {
+        if (client.authenticatedUser === null || client.spectator) {
+          // Updates are only accepted from authenticated racers (spectators have no kart to update)
+          return;
+        }
         const arrayBuffer = new Uint8Array(message).buffer;
-        const update = UserNetworkingCodec.decodeUpdate(arrayBuffer);
+        let decoded;
+        try {
+          decoded = UserNetworkingCodec.decodeUpdate(arrayBuffer);
+        } catch (e) {
+          console.error("Error decoding update", e);
+          return;
+        }
+        const update = this.validateUpdate(client, decoded);
+        // The input is acknowledged in the next frame, whether or not the update was accepted
+        client.inputSequence = decoded.kart?.inputSequence ?? null;
+        if (update === null) {
+          return;
+        }
         update.id = id;
         client.update = update;
+        if (this.options.onClientUpdate) {
+          this.options.onClientUpdate(id, update);
+        }
       } else {
         let parsed;
         try {
@@ -148,26 +283,28 @@ export class UserNetworkingServer {
                   errorType: USER_NETWORKING_AUTHENTICATION_FAILED_ERROR_TYPE,
                   message: "Authentication failed",
                 } as FromUserNetworkingServerMessage);
-                socket.send(serverError);
+                this.sendToClient(client, serverError);
                 socket.close();
               } else {
-                if (
-                  this.options.connectionLimit !== undefined &&
-                  this.authenticatedClientsById.size >= this.options.connectionLimit
-                ) {
+                const spectator = parsed.spectator === true;
+                const limit = spectator
+                  ? this.options.spectatorLimit
+                  : this.options.connectionLimit;
+                if (limit !== undefined && this.countAuthenticatedClients(spectator) >= limit) {
                   // There is a connection limit and it has been met - disconnect the user
                   const serverError = JSON.stringify({
                     type: USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
                     errorType: USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE,
-                    message: "Connection limit reached",
+                    message: spectator ? "Spectator limit reached" : "Connection limit reached",
                   } as FromUserNetworkingServerMessage);
-                  socket.send(serverError);
+                  this.sendToClient(client, serverError);
                   socket.close();
                   return;
                 }
 
                 const userData = authResult;
                 client.authenticatedUser = userData;
+                client.spectator = spectator;
 
                 // Give the client its own profile
                 const userProfileMessage = JSON.stringify({
@@ -176,18 +313,17 @@ export class UserNetworkingServer {
                   username: userData.username,
                   characterDescription: userData.characterDescription,
                 } as FromUserNetworkingServerMessage);
-                client.socket.send(userProfileMessage);
+                this.sendToClient(client, userProfileMessage);
 
                 // Give the client its own identity
                 const identityMessage = JSON.stringify({
                   id: client.id,
                   type: USER_NETWORKING_IDENTITY_MESSAGE_TYPE,
                 } as FromUserNetworkingServerMessage);
-                client.socket.send(identityMessage);
-
-                const userUpdateMessage = UserNetworkingCodec.encodeUpdate(client.update);
+                this.sendToClient(client, identityMessage);
 
-                // Send information about all other clients to the freshly connected client and vice versa
+                // Send the profiles of all other clients to the freshly connected client and vice versa (their
+                // states follow in the next update frame)
                 for (const [, otherClient] of this.authenticatedClientsById) {
                   if (
                     otherClient.socket.readyState !== WebSocketOpenStatus ||
@@ -196,8 +332,17 @@ export class UserNetworkingServer {
                     // Do not send updates for any clients which have not yet authenticated or not yet connected
                     continue;
                   }
+                  if (!client.spectator) {
+                    // Every other client (including spectators) sees the new racer
+                    this.sendToClient(otherClient, userProfileMessage);
+                  }
+                  if (otherClient.spectator) {
+                    // Spectators are not shown to anyone
+                    continue;
+                  }
                   // Send the character information
-                  client.socket.send(
+                  this.sendToClient(
+                    client,
                     JSON.stringify({
                       id: otherClient.update.id,
                       type: USER_NETWORKING_USER_PROFILE_MESSAGE_TYPE,
@@ -205,10 +350,6 @@ export class UserNetworkingServer {
                       characterDescription: otherClient.authenticatedUser?.characterDescription,
                     } as FromUserNetworkingServerMessage),
                   );
-                  client.socket.send(UserNetworkingCodec.encodeUpdate(otherClient.update));
-
-                  otherClient.socket.send(userProfileMessage);
-                  otherClient.socket.send(userUpdateMessage);
                 }
 
                 this.authenticatedClientsById.set(id, client);
@@ -222,12 +363,37 @@ export class UserNetworkingServer {
           switch (parsed.type) {
             case USER_NETWORKING_PONG_MESSAGE_TYPE:
               client.lastPong = Date.now();
+              if (parsed.id !== undefined) {
+                client.latency.receivePong(parsed.id, client.lastPong);
+              }
+              break;
+
+            case USER_NETWORKING_FRAME_ACK_MESSAGE_TYPE:
+              // Frames can only be encoded against ticks that the server still has
+              client.frameAckTick =
+                parsed.tick !== null && this.frameEncoder.hasBaseline(id, parsed.tick)
+                  ? parsed.tick
+                  : null;
               break;
 
             case USER_NETWORKING_USER_UPDATE_MESSAGE_TYPE:
               this.handleUserUpdate(id, parsed as UserNetworkingUserUpdateMessage);
               break;
 
+            case USER_NETWORKING_ITEM_PICKUP_MESSAGE_TYPE:
+              if (!isItemPickupMessage(parsed)) {
+                console.error(`Invalid item pickup: ${JSON.stringify(parsed)}`);
+              } else if (!client.spectator) {
+                this.options.onClientItemPickup?.(id, parsed);
+              }
+              break;
+
+            case USER_NETWORKING_ITEM_USE_MESSAGE_TYPE:
+              if (!client.spectator) {
+                this.options.onClientItemUse?.(id);
+              }
+              break;
+
             default:
               console.error(`Unhandled message: ${JSON.stringify(parsed)}`);
           }
@@ -241,22 +407,89 @@ export class UserNetworkingServer {
     });
   }
 
+  /*
+   Returns the update to apply (corrected by the validator if it was clamped), or null if it was rejected. The client is
+   sent the state that was accepted in place of its update so that it can correct its kart.
+  */
+  private validateUpdate(
+    client: UserNetworkingServerClient,
+    update: UserNetworkingClientUpdate,
+  ): UserNetworkingClientUpdate | null {
+    if (!this.options.updateValidator) {
+      return update;
+    }
+    const validation = this.options.updateValidator.validateUpdate(client.id, update, Date.now());
+    for (const violation of validation.violations) {
+      client.violationCount++;
+      this.options.onClientViolation?.(client.id, violation, client.violationCount);
+    }
+    if (validation.violations.length > 0) {
+      client.correction = { ...(validation.update ?? client.update), id: client.id };
+    }
+    return validation.update;
+  }
+
+  public getViolationCount(clientId: number): number {
+    return this.allClientsById.get(clientId)?.violationCount ?? 0;
+  }
+
+  // Returns the round trip time, packet loss and traffic of the client's connection (null if it isn't connected)
+  public getClientNetworkStats(clientId: number): UserNetworkingConnectionStats | null {
+    const client = this.allClientsById.get(clientId);
+    if (!client) {
+      return null;
+    }
+    const now = Date.now();
+    return {
+      latency: client.latency.getStats(),
+      received: client.received.getStats(now),
+      sent: client.sent.getStats(now),
+    };
+  }
+
+  // Disconnects the client, telling it why first if a message is given
+  public kickClient(clientId: number, message?: string) {
+    const client = this.allClientsById.get(clientId);
+    if (!client) {
+      return;
+    }
+    if (message !== undefined && client.socket.readyState === WebSocketOpenStatus) {
+      this.sendToClient(
+        client,
+        JSON.stringify({
+          type: USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+          errorType: USER_NETWORKING_KICKED_ERROR_TYPE,
+          message,
+        } as FromUserNetworkingServerMessage),
+      );
+    }
+    client.socket.close();
+    this.handleDisconnectedClient(client);
+  }
+
   private handleDisconnectedClient(client: UserNetworkingServerClient) {
     if (!this.allClientsById.has(client.id)) {
       return;
     }
     this.allClientsById.delete(client.id);
+    this.options.updateValidator?.removeClient(client.id);
+    this.interestManager?.removeClient(client.id);
+    this.frameEncoder.removeRecipient(client.id);
     if (client.authenticatedUser !== null) {
       // Only report disconnections of clients that were authenticated
       this.options.onClientDisconnect(client.id);
       this.authenticatedClientsById.delete(client.id);
+      if (client.spectator) {
+        // Other clients never knew about the spectator
+        return;
+      }
       const disconnectMessage = JSON.stringify({
         id: client.id,
         type: USER_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
       } as FromUserNetworkingServerMessage);
       for (const [, otherClient] of this.authenticatedClientsById) {
         if (otherClient.socket.readyState === WebSocketOpenStatus) {
-          otherClient.socket.send(disconnectMessage);
+          this.sendToClient(otherClient, disconnectMessage);
         }
       }
     }
@@ -287,6 +520,10 @@ export class UserNetworkingServer {
     return resolvedUserData;
   }
 
+  public getUserData(clientId: number): UserData | null {
+    return this.authenticatedClientsById.get(clientId)?.authenticatedUser ?? null;
+  }
+
   public updateUserCharacter(clientId: number, userData: UserData) {
     this.internalUpdateUser(clientId, userData);
   }
@@ -309,8 +546,12 @@ export class UserNetworkingServer {
     // Clients will always render based on the public userProfile.
     // This makes it intuitive, as it is "what you see is what other's see" from a user's perspective.
     for (const [otherClientId, otherClient] of this.authenticatedClientsById) {
+      if (client.spectator && otherClient !== client) {
+        // Only the spectator itself sees its profile
+        continue;
+      }
       if (otherClient.socket.readyState === WebSocketOpenStatus) {
-        otherClient.socket.send(newUserData);
+        this.sendToClient(otherClient, newUserData);
       }
     }
   }
@@ -346,16 +587,37 @@ export class UserNetworkingServer {
     this.internalUpdateUser(clientId, resolvedAuthorizedUserData);
   }
 
+  // Sends every client a single frame with the state of the other racers (that it is interested in)
   private sendUpdates(): void {
-    for (const [clientId, client] of this.authenticatedClientsById) {
-      const update = client.update;
-      const encodedUpdate = UserNetworkingCodec.encodeUpdate(update);
+    const racerUpdates: Array<UserNetworkingClientUpdate> = [];
+    for (const [, client] of this.authenticatedClientsById) {
+      if (!client.spectator) {
+        racerUpdates.push(client.update);
+      }
+    }
+    const tick = this.frameEncoder.beginTick(racerUpdates);
 
-      for (const [otherClientId, otherClient] of this.authenticatedClientsById) {
-        if (otherClientId !== clientId && otherClient.socket.readyState === WebSocketOpenStatus) {
-          otherClient.socket.send(encodedUpdate);
-        }
+    for (const [clientId, client] of this.authenticatedClientsById) {
+      if (client.socket.readyState !== WebSocketOpenStatus) {
+        continue;
       }
+      const baselineTick =
+        client.frameAckTick !== null && this.frameEncoder.hasBaseline(clientId, client.frameAckTick)
+          ? client.frameAckTick
+          : null;
+      const interest =
+        this.interestManager && !client.spectator
+          ? this.interestManager.getInterest(client.update, racerUpdates, tick)
+          : undefined;
+      const inputAck =
+        client.inputSequence !== null
+          ? { inputSequence: client.inputSequence, correction: client.correction }
+          : undefined;
+      client.correction = null;
+      this.sendToClient(
+        client,
+        this.frameEncoder.encodeFrame(clientId, baselineTick, interest, inputAck),
+      );
     }
   }
 
@@ -368,7 +630,7 @@ export class UserNetworkingServer {
 
     for (const [, client] of this.authenticatedClientsById) {
       if (stringifiedError) {
-        client.socket.send(stringifiedError);
+        this.sendToClient(client, stringifiedError);
       }
       client.socket.close();
     }
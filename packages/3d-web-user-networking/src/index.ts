@@ -1,5 +1,9 @@
 export * from "./UserNetworkingCodec";
+export * from "./UserNetworkingFrameCodec";
 export * from "./UserNetworkingServer";
+export * from "./UserNetworkingMovementValidator";
+export * from "./UserNetworkingInterestManager";
+export * from "./UserNetworkingNetworkStats";
 export * from "./UserNetworkingClient";
 export * from "./UserData";
 export * from "./ReconnectingWebSocket";
@@ -1,3 +1,7 @@
 export const pingPongRate: number = 1500;
 export const heartBeatRate: number = 15000;
 export const packetsUpdateRate: number = (1 / 30) * 1000;
+// Ticks of update frames that the server and clients keep for frames to be encoded against
+export const frameHistoryLength: number = 64;
+// The most often that clients acknowledge the update frames they have received
+export const frameAckRate: number = 100;
@@ -5,7 +5,20 @@
 import express from "express";
 import enableWs from "express-ws";
 
-import { UserData, UserIdentity, UserNetworkingClientUpdate } from "../src";
+import {
+  USER_NETWORKING_KICKED_ERROR_TYPE,
+  UserData,
+  UserIdentity,
+  UserNetworkingClientUpdate,
+  UserNetworkingInputAck,
+  UserNetworkingItemEvent,
+  UserNetworkingItemPickupMessage,
+  UserNetworkingItemStateMessage,
+  UserNetworkingMovementValidator,
+  UserNetworkingRaceResultsMessage,
+  UserNetworkingRaceStateMessage,
+  UserNetworkingUpdateViolation,
+} from "../src";
 import { WebsocketStatus } from "../src/ReconnectingWebSocket";
 import { UserNetworkingClient } from "../src/UserNetworkingClient";
 import { UserNetworkingServer } from "../src/UserNetworkingServer";
@@ -233,4 +246,554 @@ describe("UserNetworking", () => {
 
     listener.close();
   });
+
+  test("should deliver client updates to the server and race messages to clients", async () => {
+    const receivedUpdates: Array<[number, UserNetworkingClientUpdate]> = [];
+    const server = new UserNetworkingServer({
+      onClientConnect: (): UserData | null => {
+        return {
+          username: "racer",
+          characterDescription: { meshFileUrl: "http://example.com/racer.glb" },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => {
+        return null;
+      },
+      onClientDisconnect: (): void => {},
+      onClientUpdate: (clientId: number, update: UserNetworkingClientUpdate) => {
+        receivedUpdates.push([clientId, update]);
+      },
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8586);
+
+    const [identityPromise, identityResolve] = await createWaitable<number>();
+    const raceStates: Array<UserNetworkingRaceStateMessage> = [];
+    const raceResults: Array<UserNetworkingRaceResultsMessage> = [];
+    const client = new UserNetworkingClient({
+      url: "ws://localhost:8586/user-networking",
+      sessionToken: "session-token",
+      websocketFactory: (url) => new WebSocket(url),
+      statusUpdateCallback: () => {},
+      assignedIdentity: (clientId: number) => {
+        identityResolve(clientId);
+      },
+      clientUpdate: () => {},
+      clientProfileUpdated: () => {},
+      onServerError: (error) => {
+        console.error("Received server error", error);
+      },
+      onRaceState: (raceState) => {
+        raceStates.push(raceState);
+      },
+      onRaceResults: (results) => {
+        raceResults.push(results);
+      },
+    });
+    expect(await identityPromise).toEqual(1);
+
+    client.sendUpdate({
+      id: 1,
+      position: { x: 5, y: 0, z: -5 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+    });
+    await waitUntil(() => receivedUpdates.length > 0, "wait for the server to see the update");
+    expect(receivedUpdates[0][0]).toEqual(1);
+    expect(receivedUpdates[0][1].position).toEqual({ x: 5, y: 0, z: -5 });
+
+    const standing = {
+      id: 1,
+      position: 1,
+      lap: 1,
+      nextCheckpointIndex: 0,
+      lapTimes: [12345],
+      bestLapTime: 12345,
+      totalTime: 12345,
+    };
+    server.sendMessageToAllClients({
+      type: "race_state",
+      phase: "finished",
+      laps: 1,
+      countdownRemaining: null,
+      elapsedTime: 12345,
+      standings: [standing],
+    });
+    server.sendMessageToAllClients({ type: "race_results", laps: 1, results: [standing] });
+
+    await waitUntil(
+      () => raceStates.length === 1 && raceResults.length === 1,
+      "wait for the client to receive the race messages",
+    );
+    expect(raceStates[0]).toMatchObject({ phase: "finished", standings: [standing] });
+    expect(raceResults[0].results).toEqual([standing]);
+
+    client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of the client",
+    );
+    server.dispose();
+    listener.close();
+  });
+
+  test("should deliver item requests to the server and item messages to clients", async () => {
+    const pickups: Array<[number, UserNetworkingItemPickupMessage]> = [];
+    const uses: Array<number> = [];
+    const server = new UserNetworkingServer({
+      onClientConnect: (): UserData | null => {
+        return {
+          username: "racer",
+          characterDescription: { meshFileUrl: "http://example.com/racer.glb" },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => {
+        return null;
+      },
+      onClientDisconnect: (): void => {},
+      onClientItemPickup: (clientId: number, message: UserNetworkingItemPickupMessage) => {
+        pickups.push([clientId, message]);
+      },
+      onClientItemUse: (clientId: number) => {
+        uses.push(clientId);
+      },
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8587);
+
+    const [identityPromise, identityResolve] = await createWaitable<number>();
+    const itemStates: Array<UserNetworkingItemStateMessage> = [];
+    const itemEvents: Array<UserNetworkingItemEvent> = [];
+    const client = new UserNetworkingClient({
+      url: "ws://localhost:8587/user-networking",
+      sessionToken: "session-token",
+      websocketFactory: (url) => new WebSocket(url),
+      statusUpdateCallback: () => {},
+      assignedIdentity: (clientId: number) => {
+        identityResolve(clientId);
+      },
+      clientUpdate: () => {},
+      clientProfileUpdated: () => {},
+      onServerError: (error) => {
+        console.error("Received server error", error);
+      },
+      onItemState: (itemState) => {
+        itemStates.push(itemState);
+      },
+      onItemEvent: (itemEvent) => {
+        itemEvents.push(itemEvent);
+      },
+    });
+    expect(await identityPromise).toEqual(1);
+
+    // Malformed pickups (e.g. from modified clients) don't reach the server's item handling
+    const malformedPickups = [
+      { type: "item_pickup", boxId: "box-1" },
+      { type: "item_pickup", boxId: "box-1", position: null },
+      { type: "item_pickup", boxId: "box-1", position: { x: "1", y: 2, z: 3 } },
+      { type: "item_pickup", boxId: "box-1", position: { x: 1, y: 2 } },
+      { type: "item_pickup", boxId: 1, position: { x: 1, y: 2, z: 3 } },
+    ];
+    for (const malformedPickup of malformedPickups) {
+      client.sendMessage(malformedPickup as unknown as UserNetworkingItemPickupMessage);
+    }
+    client.sendMessage({ type: "item_pickup", boxId: "box-1", position: { x: 1, y: 2, z: 3 } });
+    client.sendMessage({ type: "item_use" });
+    await waitUntil(
+      () => pickups.length === 1 && uses.length === 1,
+      "wait for the server to see the item requests",
+    );
+    expect(pickups).toEqual([
+      [1, { type: "item_pickup", boxId: "box-1", position: { x: 1, y: 2, z: 3 } }],
+    ]);
+    expect(uses).toEqual([1]);
+
+    server.sendMessageToAllClients({
+      type: "item_state",
+      itemBoxes: [{ id: "box-1", respawnRemaining: 3000 }],
+      players: [{ id: 1, item: "shield", shieldRemaining: 0 }],
+      entities: [],
+    });
+    server.sendMessageToAllClients({
+      type: "item_event",
+      event: { type: "pickup", id: 1, itemId: "shield", boxId: "box-1" },
+    });
+    await waitUntil(
+      () => itemStates.length === 1 && itemEvents.length === 1,
+      "wait for the client to receive the item messages",
+    );
+    expect(itemStates[0].players).toEqual([{ id: 1, item: "shield", shieldRemaining: 0 }]);
+    expect(itemEvents[0]).toEqual({ type: "pickup", id: 1, itemId: "shield", boxId: "box-1" });
+
+    client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of the client",
+    );
+    server.dispose();
+    listener.close();
+  });
+
+  test("should send racers to spectators without showing spectators to racers", async () => {
+    const receivedUpdates: Array<number> = [];
+    const server = new UserNetworkingServer({
+      connectionLimit: 1,
+      spectatorLimit: 1,
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => {
+        return null;
+      },
+      onClientDisconnect: (): void => {},
+      onClientUpdate: (clientId: number) => {
+        receivedUpdates.push(clientId);
+      },
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8588);
+    const serverAddress = "ws://localhost:8588/user-networking";
+
+    const [racerIdentityPromise, racerIdentityResolve] = await createWaitable<number>();
+    const racerProfiles: Map<number, string> = new Map();
+    const racer = new UserNetworkingClient({
+      url: serverAddress,
+      sessionToken: "racer",
+      websocketFactory: (url) => new WebSocket(url),
+      statusUpdateCallback: () => {},
+      assignedIdentity: (clientId: number) => {
+        racerIdentityResolve(clientId);
+      },
+      clientUpdate: () => {},
+      clientProfileUpdated: (id, username) => {
+        racerProfiles.set(id, username);
+      },
+      onServerError: (error) => {
+        console.error("Received server error", error);
+      },
+    });
+    expect(await racerIdentityPromise).toEqual(1);
+
+    // The connection limit only applies to racers
+    const [spectatorIdentityPromise, spectatorIdentityResolve] = await createWaitable<number>();
+    const spectatorUserStates: Map<number, UserNetworkingClientUpdate> = new Map();
+    const spectatorProfiles: Map<number, string> = new Map();
+    const spectator = new UserNetworkingClient({
+      url: serverAddress,
+      sessionToken: "spectator",
+      spectator: true,
+      websocketFactory: (url) => new WebSocket(url),
+      statusUpdateCallback: () => {},
+      assignedIdentity: (clientId: number) => {
+        spectatorIdentityResolve(clientId);
+      },
+      clientUpdate: (clientId: number, update: null | UserNetworkingClientUpdate) => {
+        if (update === null) {
+          spectatorUserStates.delete(clientId);
+        } else {
+          spectatorUserStates.set(clientId, update);
+        }
+      },
+      clientProfileUpdated: (id, username) => {
+        spectatorProfiles.set(id, username);
+      },
+      onServerError: (error) => {
+        console.error("Received server error", error);
+      },
+    });
+    expect(await spectatorIdentityPromise).toEqual(2);
+    await waitUntil(
+      () => spectatorProfiles.get(1) === "racer" && spectatorProfiles.get(2) === "spectator",
+      "wait for the spectator to see the racer's profile and its own",
+    );
+    expect(server.isSpectator(2)).toEqual(true);
+    expect(server.isSpectator(1)).toEqual(false);
+
+    racer.sendUpdate({
+      id: 1,
+      position: { x: 1, y: 2, z: 3 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+    });
+    spectator.sendUpdate({
+      id: 2,
+      position: { x: 4, y: 5, z: 6 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+    });
+    await waitUntil(
+      () => spectatorUserStates.get(1)?.position.x === 1,
+      "wait for the spectator to see the racer's update",
+    );
+    // The spectator's update is ignored and it is never shown to the racer
+    expect(receivedUpdates.every((clientId) => clientId === 1)).toEqual(true);
+    expect(Array.from(racerProfiles.keys())).toEqual([1]);
+    expect(Array.from(spectatorUserStates.keys())).toEqual([1]);
+
+    racer.stop();
+    await waitUntil(
+      () => !spectatorUserStates.has(1),
+      "wait for the spectator to see the removal of the racer",
+    );
+
+    spectator.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of the clients",
+    );
+    server.dispose();
+    listener.close();
+  });
+
+  test("should correct invalid updates and report violations", async () => {
+    const receivedUpdates: Array<UserNetworkingClientUpdate> = [];
+    const violations: Array<[number, UserNetworkingUpdateViolation, number]> = [];
+    const server = new UserNetworkingServer({
+      onClientConnect: (): UserData | null => {
+        return {
+          username: "racer",
+          characterDescription: { meshFileUrl: "http://example.com/racer.glb" },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => {
+        return null;
+      },
+      onClientDisconnect: (): void => {},
+      onClientUpdate: (clientId: number, update: UserNetworkingClientUpdate) => {
+        receivedUpdates.push(update);
+      },
+      updateValidator: new UserNetworkingMovementValidator({
+        maxSpeed: 20,
+        maxAcceleration: 10,
+        teleportTolerance: 1,
+        spawnAreas: [{ position: { x: 0, z: 0 }, variance: { x: 5, z: 5 } }],
+      }),
+      onClientViolation: (clientId, violation, violationCount) => {
+        violations.push([clientId, violation, violationCount]);
+      },
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8589);
+
+    const [identityPromise, identityResolve] = await createWaitable<number>();
+    const serverErrors: Array<{ message: string; errorType: string }> = [];
+    const client = new UserNetworkingClient({
+      url: "ws://localhost:8589/user-networking",
+      sessionToken: "session-token",
+      websocketFactory: (url) => new WebSocket(url),
+      statusUpdateCallback: () => {},
+      assignedIdentity: (clientId: number) => {
+        identityResolve(clientId);
+      },
+      clientUpdate: () => {},
+      clientProfileUpdated: () => {},
+      onServerError: (error) => {
+        serverErrors.push(error);
+        // Clients stop rather than reconnecting after a server error
+        client.stop();
+      },
+    });
+    expect(await identityPromise).toEqual(1);
+
+    client.sendUpdate({
+      id: 1,
+      position: { x: 2, y: 10, z: 2 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+    });
+    await waitUntil(() => receivedUpdates.length === 1, "wait for the server to see the spawn");
+    expect(violations).toEqual([]);
+
+    client.sendUpdate({
+      id: 1,
+      position: { x: 1000, y: 10, z: 2 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+    });
+    await waitUntil(() => receivedUpdates.length === 2, "wait for the server to see the teleport");
+    // The kart is moved no further than it could have driven
+    expect(receivedUpdates[1].position.x).toBeLessThan(100);
+    expect(violations).toHaveLength(1);
+    expect(violations[0][0]).toEqual(1);
+    expect(violations[0][1].type).toEqual("teleport");
+    expect(violations[0][2]).toEqual(1);
+    expect(server.getViolationCount(1)).toEqual(1);
+
+    server.kickClient(1, "Kicked for cheating");
+    await waitUntil(() => serverErrors.length === 1, "wait for the client to be told why");
+    expect(serverErrors[0]).toMatchObject({
+      errorType: USER_NETWORKING_KICKED_ERROR_TYPE,
+      message: "Kicked for cheating",
+    });
+    expect((server as any).allClientsById.size).toEqual(0);
+
+    server.dispose();
+    listener.close();
+  });
+
+  test("should acknowledge inputs and send corrections to the client", async () => {
+    const server = new UserNetworkingServer({
+      onClientConnect: (): UserData | null => {
+        return {
+          username: "racer",
+          characterDescription: { meshFileUrl: "http://example.com/racer.glb" },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => {
+        return null;
+      },
+      onClientDisconnect: (): void => {},
+      updateValidator: new UserNetworkingMovementValidator({
+        maxSpeed: 20,
+        maxAcceleration: 10,
+        teleportTolerance: 1,
+      }),
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8590);
+
+    const [identityPromise, identityResolve] = await createWaitable<number>();
+    const inputAcks: Array<UserNetworkingInputAck> = [];
+    const client = new UserNetworkingClient({
+      url: "ws://localhost:8590/user-networking",
+      sessionToken: "session-token",
+      websocketFactory: (url) => new WebSocket(url),
+      statusUpdateCallback: () => {},
+      assignedIdentity: (clientId: number) => {
+        identityResolve(clientId);
+      },
+      clientUpdate: () => {},
+      clientProfileUpdated: () => {},
+      onServerError: () => {},
+      onInputAck: (inputAck) => {
+        inputAcks.push(inputAck);
+      },
+    });
+    expect(await identityPromise).toEqual(1);
+
+    const createUpdate = (x: number, inputSequence: number): UserNetworkingClientUpdate => ({
+      id: 1,
+      position: { x, y: 0, z: 0 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+      kart: {
+        velocity: { x: 0, y: 0, z: 0 },
+        steering: 0,
+        throttle: 0,
+        drifting: false,
+        skidding: false,
+        reversing: false,
+        inputSequence,
+      },
+    });
+    client.sendUpdate(createUpdate(0, 10));
+    await waitUntil(
+      () => inputAcks.some((inputAck) => inputAck.inputSequence === 10),
+      "wait for the input to be acknowledged",
+    );
+    expect(inputAcks.every((inputAck) => inputAck.correction === null)).toBe(true);
+
+    client.sendUpdate(createUpdate(1000, 11));
+    await waitUntil(
+      () => inputAcks.some((inputAck) => inputAck.inputSequence === 11),
+      "wait for the correction",
+    );
+    const corrections = inputAcks.filter((inputAck) => inputAck.correction !== null);
+    // The correction is only sent once, with the position the server accepted
+    expect(corrections).toHaveLength(1);
+    expect(corrections[0].inputSequence).toEqual(11);
+    expect(corrections[0].correction!.position.x).toBeLessThan(100);
+
+    client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for the server to see the disconnection",
+    );
+    server.dispose();
+    listener.close();
+  });
+
+  test("should measure the round trip time and traffic of each client", async () => {
+    const server = new UserNetworkingServer({
+      onClientConnect: (): UserData | null => {
+        return {
+          username: "racer",
+          characterDescription: { meshFileUrl: "http://example.com/racer.glb" },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => {
+        return null;
+      },
+      onClientDisconnect: (): void => {},
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8591);
+
+    const [identityPromise, identityResolve] = await createWaitable<number>();
+    const client = new UserNetworkingClient({
+      url: "ws://localhost:8591/user-networking",
+      sessionToken: "session-token",
+      websocketFactory: (url) => new WebSocket(url),
+      statusUpdateCallback: () => {},
+      assignedIdentity: (clientId: number) => {
+        identityResolve(clientId);
+      },
+      clientUpdate: () => {},
+      clientProfileUpdated: () => {},
+      onServerError: () => {},
+    });
+    expect(await identityPromise).toEqual(1);
+    expect(server.getClientNetworkStats(2)).toBeNull();
+
+    // The first ping is sent shortly after the server starts
+    await waitUntil(
+      () => server.getClientNetworkStats(1)!.latency.rtt !== null,
+      "wait for the round trip time to be measured",
+    );
+    const serverStats = server.getClientNetworkStats(1)!;
+    expect(serverStats.latency.rtt).toBeGreaterThanOrEqual(0);
+    expect(serverStats.latency.packetLoss).toEqual(0);
+
+    const clientStats = client.getNetworkStats();
+    expect(clientStats.frames.messages).toBeGreaterThan(0);
+    expect(clientStats.received.bytes).toBeGreaterThan(clientStats.frames.bytes);
+    // The server has received everything that the client sent, except for any messages still on their way
+    expect(serverStats.received.bytes).toBeGreaterThan(0);
+    expect(serverStats.received.bytes).toBeLessThanOrEqual(clientStats.sent.bytes);
+
+    client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for the server to see the disconnection",
+    );
+    server.dispose();
+    listener.close();
+  });
 });
@@ -0,0 +1,192 @@
+import {
+  USER_NETWORKING_KART_PAYLOAD_VERSION,
+  UserNetworkingClientUpdate,
+  UserNetworkingCodec,
+} from "../src/UserNetworkingCodec";
+
+describe("UserNetworkingCodec kart payload", () => {
+  const baseUpdate: UserNetworkingClientUpdate = {
+    id: 123,
+    position: { x: 1, y: 2, z: 3 },
+    rotation: { quaternionY: 0.25, quaternionW: 0.5 },
+    state: 3,
+  };
+  const baseBytes = [0, 123, 63, 128, 0, 0, 64, 0, 0, 0, 64, 64, 0, 0, 31, 255, 63, 255, 3];
+
+  const kartUpdate: UserNetworkingClientUpdate = {
+    ...baseUpdate,
+    kart: {
+      velocity: { x: 12.5, y: -1, z: 0.01 },
+      steering: 1,
+      throttle: -0.5,
+      drifting: true,
+      skidding: false,
+      reversing: true,
+    },
+  };
+
+  test("should append a versioned kart payload to the base update", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate(kartUpdate);
+    expect(encoded).toStrictEqual(
+      new Uint8Array([
+        ...baseBytes,
+        USER_NETWORKING_KART_PAYLOAD_VERSION,
+        4,
+        226, // velocity.x = 1250
+        255,
+        156, // velocity.y = -100
+        0,
+        1, // velocity.z = 1
+        127, // steering
+        193, // throttle = -64
+        5, // flags (drifting | reversing)
+        0,
+        0, // quaternion.x
+        0,
+        0, // quaternion.z
+        0,
+        0,
+        0,
+        0, // input sequence
+      ]),
+    );
+
+    const decoded = UserNetworkingCodec.decodeUpdate(encoded.buffer);
+    expect(decoded.kart).toEqual({
+      velocity: { x: 12.5, y: -1, z: 0.01 },
+      steering: 1,
+      throttle: expect.closeTo(-0.5, 2),
+      drifting: true,
+      skidding: false,
+      reversing: true,
+    });
+  });
+
+  test("should send the full rotation of karts", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate({
+      ...kartUpdate,
+      rotation: { quaternionX: 0.1, quaternionY: 0.25, quaternionZ: -0.2, quaternionW: 0.5 },
+    });
+    const decoded = UserNetworkingCodec.decodeUpdate(encoded.buffer);
+    expect(decoded.rotation).toEqual({
+      quaternionX: expect.closeTo(0.1, 4),
+      quaternionY: expect.closeTo(0.25, 4),
+      quaternionZ: expect.closeTo(-0.2, 4),
+      quaternionW: expect.closeTo(0.5, 4),
+    });
+  });
+
+  test("should send the surface the kart is on alongside the flags", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate({
+      ...kartUpdate,
+      kart: { ...kartUpdate.kart!, surface: 4 },
+    });
+    expect(encoded[28]).toEqual(5 | (4 << 3));
+    const decoded = UserNetworkingCodec.decodeUpdate(encoded.buffer);
+    expect(decoded.kart?.surface).toEqual(4);
+    expect(decoded.kart?.drifting).toBe(true);
+  });
+
+  test("should send the mini-turbo tier alongside the surface", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate({
+      ...kartUpdate,
+      kart: { ...kartUpdate.kart!, surface: 5, miniTurboTier: 3 },
+    });
+    expect(encoded[28]).toEqual(5 | (5 << 3) | (3 << 6));
+    const decoded = UserNetworkingCodec.decodeUpdate(encoded.buffer);
+    expect(decoded.kart?.miniTurboTier).toEqual(3);
+    expect(decoded.kart?.surface).toEqual(5);
+    expect(decoded.kart?.reversing).toBe(true);
+  });
+
+  test("should send the kart's input sequence", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate({
+      ...kartUpdate,
+      kart: { ...kartUpdate.kart!, inputSequence: 70000 },
+    });
+    expect(Array.from(encoded.slice(33))).toEqual([0, 1, 17, 112]);
+    expect(UserNetworkingCodec.decodeUpdate(encoded.buffer).kart?.inputSequence).toEqual(70000);
+  });
+
+  test("should decode version 2 payloads without the input sequence", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate({
+      ...kartUpdate,
+      kart: { ...kartUpdate.kart!, inputSequence: 5 },
+    });
+    const versionTwo = encoded.slice(0, 33);
+    versionTwo[19] = 2;
+    const decoded = UserNetworkingCodec.decodeUpdate(versionTwo.buffer);
+    expect(decoded.kart?.inputSequence).toBeUndefined();
+    expect(decoded.rotation.quaternionX).toEqual(0);
+  });
+
+  test("should decode version 1 payloads without the full rotation", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate(kartUpdate);
+    // A version 1 payload is the version 2 payload without the rotation
+    const versionOne = encoded.slice(0, 29);
+    versionOne[19] = 1;
+    const decoded = UserNetworkingCodec.decodeUpdate(versionOne.buffer);
+    expect(decoded.kart).toEqual({
+      velocity: { x: 12.5, y: -1, z: 0.01 },
+      steering: 1,
+      throttle: expect.closeTo(-0.5, 2),
+      drifting: true,
+      skidding: false,
+      reversing: true,
+    });
+    expect(decoded.rotation.quaternionX).toBeUndefined();
+    expect(decoded.rotation.quaternionZ).toBeUndefined();
+  });
+
+  test("should not change the base format when there is no kart payload", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate(baseUpdate);
+    expect(encoded).toStrictEqual(new Uint8Array(baseBytes));
+    expect(UserNetworkingCodec.decodeUpdate(encoded.buffer).kart).toBeUndefined();
+  });
+
+  test("should decode the base update from a kart update", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate(kartUpdate);
+    // Equivalent to a decoder that only understands the 19-byte format
+    const decoded = UserNetworkingCodec.decodeUpdate(encoded.buffer.slice(0, 19) as ArrayBuffer);
+    expect(decoded).toEqual({
+      id: 123,
+      position: { x: 1, y: 2, z: 3 },
+      rotation: {
+        quaternionY: expect.closeTo(0.25, 4),
+        quaternionW: expect.closeTo(0.5, 4),
+      },
+      state: 3,
+    });
+  });
+
+  test("should ignore payloads with an unknown version", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate(kartUpdate);
+    encoded[19] = USER_NETWORKING_KART_PAYLOAD_VERSION + 1;
+    const decoded = UserNetworkingCodec.decodeUpdate(encoded.buffer);
+    expect(decoded.kart).toBeUndefined();
+    expect(decoded.id).toEqual(123);
+  });
+
+  test("should clamp values that exceed the payload range", () => {
+    const encoded = UserNetworkingCodec.encodeUpdate({
+      ...kartUpdate,
+      kart: {
+        velocity: { x: 1000, y: -1000, z: 0 },
+        steering: 2,
+        throttle: -2,
+        drifting: false,
+        skidding: true,
+        reversing: false,
+      },
+    });
+    const decoded = UserNetworkingCodec.decodeUpdate(encoded.buffer);
+    expect(decoded.kart).toEqual({
+      velocity: { x: 327.67, y: -327.67, z: 0 },
+      steering: 1,
+      throttle: -1,
+      drifting: false,
+      skidding: true,
+      reversing: false,
+    });
+  });
+});
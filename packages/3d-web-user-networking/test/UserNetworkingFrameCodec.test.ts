@@ -0,0 +1,354 @@
+import { UserNetworkingClientUpdate, UserNetworkingCodec } from "../src/UserNetworkingCodec";
+import {
+  UserNetworkingFrameDecoder,
+  UserNetworkingFrameEncoder,
+} from "../src/UserNetworkingFrameCodec";
+
+function createKartUpdate(id: number, tick: number, driving: boolean): UserNetworkingClientUpdate {
+  // Driving karts go round a 100m circle at 30 m/s, the others are parked on it
+  const angle = driving ? (tick / 30) * 0.3 + id : id;
+  const speed = driving ? 30 : 0;
+  return {
+    id,
+    position: { x: Math.cos(angle) * 100, y: 0.5, z: Math.sin(angle) * 100 },
+    rotation: {
+      quaternionX: 0,
+      quaternionY: Math.sin(-angle / 2),
+      quaternionZ: 0,
+      quaternionW: Math.cos(-angle / 2),
+    },
+    state: 0,
+    kart: {
+      velocity: { x: -Math.sin(angle) * speed, y: 0, z: Math.cos(angle) * speed },
+      steering: driving ? 0.3 : 0,
+      throttle: driving ? 1 : 0,
+      drifting: false,
+      skidding: false,
+      reversing: false,
+    },
+  };
+}
+
+// The bytes sent for a WebSocket message from the server (which doesn't mask its frames)
+function getWebSocketMessageSize(payloadLength: number): number {
+  return payloadLength + (payloadLength < 126 ? 2 : 4);
+}
+
+describe("UserNetworkingFrameCodec", () => {
+  test("should reconstruct the state of other clients from a full frame", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    const decoder = new UserNetworkingFrameDecoder();
+    const kartUpdate = createKartUpdate(2, 0, true);
+    const update: UserNetworkingClientUpdate = {
+      id: 3,
+      position: { x: -1.5, y: 2, z: 1000.25 },
+      rotation: { quaternionY: 0.25, quaternionW: -0.5 },
+      state: 4,
+    };
+    const tick = encoder.beginTick([createKartUpdate(1, 0, true), kartUpdate, update]);
+
+    const frame = decoder.decodeFrame(encoder.encodeFrame(1, null).buffer as ArrayBuffer);
+    expect(frame.tick).toEqual(tick);
+    expect(frame.removedIds).toEqual([]);
+    // The recipient's own state is not included
+    expect(frame.updates.map((decoded) => decoded.id)).toEqual([2, 3]);
+    // The state matches the precision of single updates
+    expect(frame.updates[0]).toEqual({
+      ...UserNetworkingCodec.decodeUpdate(
+        UserNetworkingCodec.encodeUpdate(kartUpdate).buffer as ArrayBuffer,
+      ),
+      position: {
+        x: expect.closeTo(kartUpdate.position.x, 3),
+        y: 0.5,
+        z: expect.closeTo(kartUpdate.position.z, 3),
+      },
+      rotation: {
+        quaternionX: 0,
+        quaternionY: expect.closeTo(kartUpdate.rotation.quaternionY, 4),
+        quaternionZ: 0,
+        quaternionW: expect.closeTo(kartUpdate.rotation.quaternionW, 4),
+      },
+    });
+    expect(frame.updates[1]).toEqual({
+      id: 3,
+      position: { x: -1.5, y: 2, z: 1000.25 },
+      rotation: { quaternionY: expect.closeTo(0.25, 4), quaternionW: expect.closeTo(-0.5, 4) },
+      state: 4,
+    });
+  });
+
+  test("should only send the changes since the acknowledged tick", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    const decoder = new UserNetworkingFrameDecoder();
+    const parked = createKartUpdate(2, 0, false);
+    const baselineTick = encoder.beginTick([createKartUpdate(1, 0, true), parked]);
+    decoder.decodeFrame(encoder.encodeFrame(3, null).buffer as ArrayBuffer);
+
+    encoder.beginTick([createKartUpdate(1, 1, true), parked]);
+    const encoded = encoder.encodeFrame(3, baselineTick);
+    const frame = decoder.decodeFrame(encoded.buffer as ArrayBuffer);
+    // The parked kart is still reported, but isn't in the frame
+    expect(frame.updates.map((update) => update.id)).toEqual([1, 2]);
+    expect(frame.updates[0].position.x).toBeCloseTo(createKartUpdate(1, 1, true).position.x, 3);
+    expect(frame.updates[1].position.x).toBeCloseTo(parked.position.x, 3);
+    expect(encoded.length).toBeLessThan(23);
+
+    encoder.beginTick([createKartUpdate(1, 2, true), parked]);
+    expect(
+      decoder.decodeFrame(encoder.encodeFrame(3, baselineTick).buffer as ArrayBuffer).updates[0]
+        .position.x,
+    ).toBeCloseTo(createKartUpdate(1, 2, true).position.x, 3);
+  });
+
+  test("should report clients that have been removed since the baseline", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    const decoder = new UserNetworkingFrameDecoder();
+    const baselineTick = encoder.beginTick([
+      createKartUpdate(1, 0, true),
+      createKartUpdate(2, 0, true),
+    ]);
+    decoder.decodeFrame(encoder.encodeFrame(3, null).buffer as ArrayBuffer);
+    encoder.beginTick([createKartUpdate(2, 1, true)]);
+    const frame = decoder.decodeFrame(encoder.encodeFrame(3, baselineTick).buffer as ArrayBuffer);
+    expect(frame.removedIds).toEqual([1]);
+    expect(frame.updates.map((update) => update.id)).toEqual([2]);
+  });
+
+  test("should send the kart payload when it is added or removed", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    const decoder = new UserNetworkingFrameDecoder();
+    const { kart, ...withoutKart } = createKartUpdate(1, 0, true);
+    const baselineTick = encoder.beginTick([withoutKart]);
+    decoder.decodeFrame(encoder.encodeFrame(2, null).buffer as ArrayBuffer);
+    const withKartTick = encoder.beginTick([{ ...withoutKart, kart }]);
+    let frame = decoder.decodeFrame(encoder.encodeFrame(2, baselineTick).buffer as ArrayBuffer);
+    expect(frame.updates[0].kart).toMatchObject({ throttle: 1, velocity: { y: 0 } });
+    encoder.beginTick([withoutKart]);
+    frame = decoder.decodeFrame(encoder.encodeFrame(2, withKartTick).buffer as ArrayBuffer);
+    expect(frame.updates[0].kart).toBeUndefined();
+  });
+
+  test("should hold clients that aren't due and remove those outside of the interest", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    const decoder = new UserNetworkingFrameDecoder();
+    const interest = new Map([
+      [1, true],
+      [2, true],
+    ]);
+    const baselineTick = encoder.beginTick([
+      createKartUpdate(1, 0, true),
+      createKartUpdate(2, 0, true),
+    ]);
+    decoder.decodeFrame(encoder.encodeFrame(3, null, interest).buffer as ArrayBuffer);
+
+    // Client 2 is sent on the next tick but then held, and only sent again once it is due
+    encoder.beginTick([createKartUpdate(1, 1, true), createKartUpdate(2, 1, true)]);
+    decoder.decodeFrame(encoder.encodeFrame(3, baselineTick, interest).buffer as ArrayBuffer);
+    interest.set(2, false);
+    encoder.beginTick([createKartUpdate(1, 2, true), createKartUpdate(2, 2, true)]);
+    let frame = decoder.decodeFrame(
+      encoder.encodeFrame(3, baselineTick, interest).buffer as ArrayBuffer,
+    );
+    // The held client isn't reported again, so that the recipient doesn't treat it as a new update
+    expect(frame.updates.map((update) => update.id)).toEqual([1]);
+    interest.set(2, true);
+    encoder.beginTick([createKartUpdate(1, 3, true), createKartUpdate(2, 3, true)]);
+    frame = decoder.decodeFrame(
+      encoder.encodeFrame(3, baselineTick, interest).buffer as ArrayBuffer,
+    );
+    expect(frame.updates[1].position.x).toBeCloseTo(createKartUpdate(2, 3, true).position.x, 3);
+
+    // Client 1 goes out of range and is only reported as removed once
+    interest.delete(1);
+    encoder.beginTick([createKartUpdate(1, 4, true), createKartUpdate(2, 4, true)]);
+    frame = decoder.decodeFrame(
+      encoder.encodeFrame(3, baselineTick, interest).buffer as ArrayBuffer,
+    );
+    expect(frame.removedIds).toEqual([1]);
+    expect(frame.updates.map((update) => update.id)).toEqual([2]);
+    encoder.beginTick([createKartUpdate(1, 5, true), createKartUpdate(2, 5, true)]);
+    frame = decoder.decodeFrame(
+      encoder.encodeFrame(3, baselineTick, interest).buffer as ArrayBuffer,
+    );
+    expect(frame.removedIds).toEqual([]);
+  });
+
+  test("should report clients that return to their baseline state", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    const decoder = new UserNetworkingFrameDecoder();
+    const parked = createKartUpdate(1, 0, false);
+    const moved = { ...parked, state: 1 };
+    const baselineTick = encoder.beginTick([parked]);
+    decoder.decodeFrame(encoder.encodeFrame(2, null).buffer as ArrayBuffer);
+    encoder.beginTick([moved]);
+    expect(
+      decoder.decodeFrame(encoder.encodeFrame(2, baselineTick).buffer as ArrayBuffer).updates[0]
+        .state,
+    ).toEqual(1);
+    encoder.beginTick([parked]);
+    expect(
+      decoder.decodeFrame(encoder.encodeFrame(2, baselineTick).buffer as ArrayBuffer).updates[0]
+        .state,
+    ).toEqual(0);
+  });
+
+  test("should acknowledge the recipient's inputs with any correction", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    const decoder = new UserNetworkingFrameDecoder();
+    encoder.beginTick([createKartUpdate(1, 0, true), createKartUpdate(2, 0, true)]);
+    expect(decoder.decodeFrame(encoder.encodeFrame(1, null).buffer as ArrayBuffer).inputAck).toBe(
+      null,
+    );
+
+    encoder.beginTick([createKartUpdate(1, 1, true), createKartUpdate(2, 1, true)]);
+    let frame = decoder.decodeFrame(
+      encoder.encodeFrame(1, null, undefined, { inputSequence: 300, correction: null })
+        .buffer as ArrayBuffer,
+    );
+    expect(frame.inputAck).toEqual({ inputSequence: 300, correction: null });
+
+    const correction = createKartUpdate(1, 1, false);
+    encoder.beginTick([createKartUpdate(1, 2, true), createKartUpdate(2, 2, true)]);
+    frame = decoder.decodeFrame(
+      encoder.encodeFrame(1, null, undefined, { inputSequence: 301, correction })
+        .buffer as ArrayBuffer,
+    );
+    expect(frame.inputAck!.inputSequence).toEqual(301);
+    expect(frame.inputAck!.correction!.id).toEqual(1);
+    expect(frame.inputAck!.correction!.position.x).toBeCloseTo(correction.position.x, 3);
+    expect(frame.inputAck!.correction!.kart!.velocity).toEqual({ x: 0, y: 0, z: 0 });
+    // The correction isn't reported as the state of another client
+    expect(frame.updates.map((update) => update.id)).toEqual([2]);
+  });
+
+  test("should decode version 1 frames without held clients or an input acknowledgement", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    encoder.beginTick([createKartUpdate(1, 0, true)]);
+    const encoded = encoder.encodeFrame(2, null);
+    // A version 1 frame is the version 3 frame without the held clients and the acknowledgement
+    const versionOne = encoded.slice(0, encoded.length - 3);
+    versionOne[0] = 1;
+    const frame = new UserNetworkingFrameDecoder().decodeFrame(versionOne.buffer as ArrayBuffer);
+    expect(frame.updates.map((update) => update.id)).toEqual([1]);
+    expect(frame.inputAck).toBeNull();
+  });
+
+  test("should decode version 2 frames without an input acknowledgement", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    const decoder = new UserNetworkingFrameDecoder();
+    const baselineTick = encoder.beginTick([createKartUpdate(1, 0, true)]);
+    decoder.decodeFrame(encoder.encodeFrame(2, null).buffer as ArrayBuffer);
+    encoder.beginTick([createKartUpdate(1, 1, true)]);
+    const encoded = encoder.encodeFrame(2, baselineTick, new Map([[1, false]]));
+    // A version 2 frame is the version 3 frame without the acknowledgement
+    const versionTwo = encoded.slice(0, encoded.length - 2);
+    versionTwo[0] = 2;
+    const frame = decoder.decodeFrame(versionTwo.buffer as ArrayBuffer);
+    // The held client isn't reported
+    expect(frame.updates).toEqual([]);
+    expect(frame.inputAck).toBeNull();
+  });
+
+  test("should not decode frames against unknown ticks", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    const baselineTick = encoder.beginTick([createKartUpdate(1, 0, true)]);
+    // The frame for the baseline never reaches the decoder
+    encoder.encodeFrame(2, null);
+    encoder.beginTick([createKartUpdate(1, 1, true)]);
+    const decoder = new UserNetworkingFrameDecoder();
+    expect(() =>
+      decoder.decodeFrame(encoder.encodeFrame(2, baselineTick).buffer as ArrayBuffer),
+    ).toThrow("unknown tick");
+  });
+
+  test("should only keep a limited history of ticks", () => {
+    const encoder = new UserNetworkingFrameEncoder();
+    const firstTick = encoder.beginTick([]);
+    for (let i = 0; i < 100; i++) {
+      encoder.beginTick([]);
+    }
+    expect(encoder.hasTick(firstTick)).toEqual(false);
+    expect(encoder.hasTick(encoder.getTick())).toEqual(true);
+    expect(() => encoder.encodeFrame(1, firstTick)).toThrow("no longer available");
+  });
+});
+
+describe("UserNetworkingFrameCodec bandwidth", () => {
+  const clientCount = 32;
+  const ticks = 90;
+  // Clients acknowledge every third frame and the acknowledgement takes two ticks to arrive
+  const ackInterval = 3;
+  const ackDelay = 2;
+
+  /*
+   Simulates every client receiving the state of all other clients for three seconds, returning the bytes and messages
+   sent per tick with frames and with single updates.
+  */
+  function measure(drivingCount: number) {
+    const encoder = new UserNetworkingFrameEncoder();
+    const decoders = new Map<number, UserNetworkingFrameDecoder>();
+    const ackTicks = new Map<number, number | null>();
+    const pendingAcks: Array<{ arrivalTick: number; clientId: number; tick: number }> = [];
+    let frameBytes = 0;
+    let frameMessages = 0;
+    let updateBytes = 0;
+    let updateMessages = 0;
+    for (let clientId = 1; clientId <= clientCount; clientId++) {
+      decoders.set(clientId, new UserNetworkingFrameDecoder());
+      ackTicks.set(clientId, null);
+    }
+
+    for (let tickIndex = 0; tickIndex < ticks; tickIndex++) {
+      const updates: Array<UserNetworkingClientUpdate> = [];
+      for (let clientId = 1; clientId <= clientCount; clientId++) {
+        updates.push(createKartUpdate(clientId, tickIndex, clientId <= drivingCount));
+      }
+      const tick = encoder.beginTick(updates);
+      for (const pendingAck of pendingAcks.filter((ack) => ack.arrivalTick <= tick)) {
+        ackTicks.set(pendingAck.clientId, pendingAck.tick);
+        pendingAcks.splice(pendingAcks.indexOf(pendingAck), 1);
+      }
+
+      for (let clientId = 1; clientId <= clientCount; clientId++) {
+        const frame = encoder.encodeFrame(clientId, ackTicks.get(clientId)!);
+        frameBytes += getWebSocketMessageSize(frame.length);
+        frameMessages++;
+        const decoded = decoders.get(clientId)!.decodeFrame(frame.buffer as ArrayBuffer);
+        expect(decoded.updates).toHaveLength(clientCount - 1);
+        if (tickIndex % ackInterval === 0) {
+          pendingAcks.push({ arrivalTick: tick + ackDelay, clientId, tick });
+        }
+        for (const update of updates) {
+          if (update.id !== clientId) {
+            updateBytes += getWebSocketMessageSize(UserNetworkingCodec.encodeUpdate(update).length);
+            updateMessages++;
+          }
+        }
+      }
+    }
+    return {
+      frameBytesPerTick: frameBytes / ticks,
+      updateBytesPerTick: updateBytes / ticks,
+      frameMessagesPerTick: frameMessages / ticks,
+      updateMessagesPerTick: updateMessages / ticks,
+    };
+  }
+
+  test("should send one message per client per tick", () => {
+    const { frameMessagesPerTick, updateMessagesPerTick } = measure(clientCount);
+    expect(frameMessagesPerTick).toEqual(32);
+    expect(updateMessagesPerTick).toEqual(992);
+  });
+
+  test("should send less than half of the bytes of single updates when every kart is driving", () => {
+    const { frameBytesPerTick, updateBytesPerTick } = measure(clientCount);
+    // 992 updates of 39 bytes
+    expect(updateBytesPerTick).toEqual(38688);
+    expect(frameBytesPerTick).toBeLessThan(updateBytesPerTick * 0.5);
+  });
+
+  test("should send almost nothing for parked karts", () => {
+    const { frameBytesPerTick, updateBytesPerTick } = measure(0);
+    expect(frameBytesPerTick).toBeLessThan(updateBytesPerTick * 0.05);
+  });
+});
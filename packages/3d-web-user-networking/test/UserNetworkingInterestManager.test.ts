@@ -0,0 +1,108 @@
+import { UserNetworkingClientUpdate } from "../src/UserNetworkingCodec";
+import {
+  UserNetworkingInterestConfig,
+  UserNetworkingInterestManager,
+} from "../src/UserNetworkingInterestManager";
+
+// A kart at the position, facing along +z
+function createUpdate(id: number, x: number, z: number): UserNetworkingClientUpdate {
+  return {
+    id,
+    position: { x, y: 0, z },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+  };
+}
+
+describe("UserNetworkingInterestManager", () => {
+  const config: UserNetworkingInterestConfig = {
+    tiers: [
+      { radius: 50, interval: 1 },
+      { radius: 200, interval: 3 },
+    ],
+    hysteresis: 20,
+    outOfViewDistanceScale: 2,
+  };
+
+  test("should send nearby karts every tick and further ones less often", () => {
+    const manager = new UserNetworkingInterestManager(config);
+    const recipient = createUpdate(1, 0, 0);
+    const updates = [recipient, createUpdate(2, 0, 40), createUpdate(3, 0, 150)];
+    const dueTicks = new Map<number, Array<number>>([
+      [2, []],
+      [3, []],
+    ]);
+    for (let tick = 1; tick <= 9; tick++) {
+      for (const [id, due] of manager.getInterest(recipient, updates, tick)) {
+        if (due) {
+          dueTicks.get(id)!.push(tick);
+        }
+      }
+    }
+    expect(dueTicks.get(2)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    // Sent as soon as it came into range, then every third tick
+    expect(dueTicks.get(3)).toEqual([1, 3, 6, 9]);
+  });
+
+  test("should not send karts beyond the last tier", () => {
+    const manager = new UserNetworkingInterestManager(config);
+    const recipient = createUpdate(1, 0, 0);
+    const interest = manager.getInterest(recipient, [recipient, createUpdate(2, 0, 250)], 1);
+    expect(interest.size).toEqual(0);
+  });
+
+  test("should only remove karts once they are beyond the hysteresis zone", () => {
+    const manager = new UserNetworkingInterestManager(config);
+    const recipient = createUpdate(1, 0, 0);
+    expect(manager.getInterest(recipient, [createUpdate(2, 0, 210)], 1).has(2)).toEqual(false);
+    expect(manager.getInterest(recipient, [createUpdate(2, 0, 195)], 2).has(2)).toEqual(true);
+    expect(manager.getInterest(recipient, [createUpdate(2, 0, 215)], 3).has(2)).toEqual(true);
+    expect(manager.getInterest(recipient, [createUpdate(2, 0, 225)], 4).has(2)).toEqual(false);
+    expect(manager.getInterest(recipient, [createUpdate(2, 0, 210)], 5).has(2)).toEqual(false);
+  });
+
+  test("should treat karts outside of the view as further away", () => {
+    const manager = new UserNetworkingInterestManager(config);
+    const recipient = createUpdate(1, 0, 0);
+    const interest = manager.getInterest(
+      recipient,
+      [createUpdate(2, 0, 40), createUpdate(3, 0, -40), createUpdate(4, 0, -150)],
+      1,
+    );
+    expect(Array.from(interest.keys())).toEqual([2, 3]);
+
+    // Turned around (a half turn about y), the karts behind are now in view
+    const turned: UserNetworkingClientUpdate = {
+      ...recipient,
+      rotation: { quaternionY: 1, quaternionW: 0 },
+    };
+    const turnedInterest = manager.getInterest(
+      turned,
+      [createUpdate(2, 0, 150), createUpdate(4, 0, -150)],
+      2,
+    );
+    expect(Array.from(turnedInterest.keys())).toEqual([4]);
+  });
+
+  test("should forget removed clients", () => {
+    const manager = new UserNetworkingInterestManager(config);
+    const recipient = createUpdate(1, 0, 0);
+    manager.getInterest(recipient, [createUpdate(2, 0, 190)], 1);
+    manager.removeClient(2);
+    // A new client with the same id has to come within range to be sent
+    expect(manager.getInterest(recipient, [createUpdate(2, 0, 210)], 2).size).toEqual(0);
+  });
+
+  test("should require tiers in order of increasing radius", () => {
+    expect(() => new UserNetworkingInterestManager({ tiers: [] })).toThrow();
+    expect(
+      () =>
+        new UserNetworkingInterestManager({
+          tiers: [
+            { radius: 100, interval: 1 },
+            { radius: 50, interval: 2 },
+          ],
+        }),
+    ).toThrow("increasing radius");
+  });
+});
@@ -0,0 +1,120 @@
+import { UserNetworkingClientUpdate } from "../src/UserNetworkingCodec";
+import {
+  UserNetworkingMovementValidator,
+  UserNetworkingMovementValidatorConfig,
+} from "../src/UserNetworkingMovementValidator";
+
+function createUpdate(
+  x: number,
+  z: number,
+  velocity?: { x: number; z: number },
+): UserNetworkingClientUpdate {
+  return {
+    id: 1,
+    position: { x, y: 0, z },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+    kart: velocity
+      ? {
+          velocity: { x: velocity.x, y: 0, z: velocity.z },
+          steering: 0,
+          throttle: 1,
+          drifting: false,
+          skidding: false,
+          reversing: false,
+        }
+      : undefined,
+  };
+}
+
+describe("UserNetworkingMovementValidator", () => {
+  const config: UserNetworkingMovementValidatorConfig = {
+    maxSpeed: 20,
+    maxAcceleration: 10,
+    speedImpulse: 5,
+    teleportTolerance: 1,
+    latencyTolerance: 0.5,
+  };
+
+  test("should accept movement within the kart's limits", () => {
+    const validator = new UserNetworkingMovementValidator(config);
+    expect(validator.validateUpdate(1, createUpdate(0, 0, { x: 10, z: 0 }), 0).violations).toEqual(
+      [],
+    );
+    for (let i = 1; i <= 10; i++) {
+      const update = createUpdate(i, 0, { x: 10, z: 0 });
+      expect(validator.validateUpdate(1, update, i * 100)).toEqual({ update, violations: [] });
+    }
+  });
+
+  test("should clamp speeds above the maximum speed", () => {
+    const validator = new UserNetworkingMovementValidator({ ...config, maxAcceleration: 1000 });
+    validator.validateUpdate(1, createUpdate(0, 0, { x: 0, z: 0 }), 0);
+    const validation = validator.validateUpdate(1, createUpdate(1, 0, { x: 30, z: 40 }), 1000);
+    expect(validation.violations).toEqual([{ type: "speed", value: 50, limit: 20 }]);
+    expect(validation.update!.kart!.velocity).toEqual({ x: 12, y: 0, z: 16 });
+  });
+
+  test("should clamp speed gains above the maximum acceleration", () => {
+    const validator = new UserNetworkingMovementValidator(config);
+    validator.validateUpdate(1, createUpdate(0, 0, { x: 0, z: 0 }), 0);
+    // 10 m/s² for 0.5s plus the 5 m/s impulse allows 10 m/s
+    const validation = validator.validateUpdate(1, createUpdate(1, 0, { x: 15, z: 0 }), 500);
+    expect(validation.violations).toEqual([{ type: "acceleration", value: 15, limit: 10 }]);
+    expect(validation.update!.kart!.velocity.x).toBeCloseTo(10);
+  });
+
+  test("should clamp teleports to the furthest the kart could have moved", () => {
+    const validator = new UserNetworkingMovementValidator(config);
+    validator.validateUpdate(1, createUpdate(0, 0), 0);
+    // Half a second of movement at 20 m/s is allowed, plus the 1 meter tolerance
+    const validation = validator.validateUpdate(1, createUpdate(0, 100), 500);
+    expect(validation.violations).toEqual([{ type: "teleport", value: 100, limit: 11 }]);
+    expect(validation.update!.position).toEqual({ x: 0, y: 0, z: 11 });
+  });
+
+  test("should accept delayed updates that arrive together", () => {
+    const validator = new UserNetworkingMovementValidator(config);
+    validator.validateUpdate(1, createUpdate(0, 0), 0);
+    // The kart waited for 0.5s without moving, so it can make up for the time with updates that arrive at once
+    for (let i = 1; i <= 5; i++) {
+      expect(validator.validateUpdate(1, createUpdate(i * 2, 0), 500).violations).toEqual([]);
+    }
+    // The teleport tolerance can only be used once before the allowance builds up again
+    expect(validator.validateUpdate(1, createUpdate(11, 0), 500).violations).toEqual([]);
+    expect(validator.validateUpdate(1, createUpdate(12, 0), 500).violations).toHaveLength(1);
+  });
+
+  test("should reject offending updates when configured to", () => {
+    const validator = new UserNetworkingMovementValidator({ ...config, correction: "reject" });
+    validator.validateUpdate(1, createUpdate(0, 0), 0);
+    const validation = validator.validateUpdate(1, createUpdate(50, 0), 100);
+    expect(validation.update).toBeNull();
+    expect(validation.violations.map((violation) => violation.type)).toEqual(["teleport"]);
+    // The kart is still where it was last accepted
+    expect(validator.validateUpdate(1, createUpdate(2, 0), 200).violations).toEqual([]);
+  });
+
+  test("should only allow karts to spawn and respawn within the spawn areas", () => {
+    const validator = new UserNetworkingMovementValidator({
+      ...config,
+      spawnAreas: [{ position: { x: 100, z: 0 }, variance: { x: 5, z: 5 } }],
+    });
+    const spawnValidation = validator.validateUpdate(1, createUpdate(0, 0), 0);
+    expect(spawnValidation.violations).toEqual([{ type: "spawn", value: 95, limit: 1 }]);
+    expect(spawnValidation.update!.position).toEqual({ x: 95, y: 0, z: 0 });
+
+    expect(validator.validateUpdate(2, createUpdate(104, 3), 0).violations).toEqual([]);
+    expect(validator.validateUpdate(2, createUpdate(110, 3), 100).violations).toEqual([]);
+    expect(validator.validateUpdate(2, createUpdate(300, 3), 200).violations).toHaveLength(1);
+    // Respawning teleports the kart back into the spawn area
+    expect(validator.validateUpdate(2, createUpdate(98, -2), 300).violations).toEqual([]);
+  });
+
+  test("should forget removed clients", () => {
+    const validator = new UserNetworkingMovementValidator(config);
+    validator.validateUpdate(1, createUpdate(0, 0), 0);
+    validator.removeClient(1);
+    expect(validator.validateUpdate(1, createUpdate(500, 500), 100).violations).toEqual([]);
+  });
+});
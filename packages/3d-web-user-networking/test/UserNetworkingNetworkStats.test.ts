@@ -0,0 +1,71 @@
+import {
+  UserNetworkingLatencyTracker,
+  UserNetworkingTrafficCounter,
+} from "../src/UserNetworkingNetworkStats";
+
+describe("UserNetworkingLatencyTracker", () => {
+  test("should measure the round trip time of answered pings", () => {
+    const tracker = new UserNetworkingLatencyTracker();
+    expect(tracker.getStats()).toEqual({ rtt: null, jitter: 0, packetLoss: 0 });
+
+    expect(tracker.receivePong(tracker.createPing(0), 80)).toBe(true);
+    expect(tracker.getStats().rtt).toEqual(80);
+
+    // Later samples are smoothed
+    tracker.receivePong(tracker.createPing(1500), 1660);
+    const stats = tracker.getStats();
+    expect(stats.rtt).toEqual(90);
+    expect(stats.jitter).toEqual(5);
+  });
+
+  test("should match pongs to their pings", () => {
+    const tracker = new UserNetworkingLatencyTracker();
+    const firstId = tracker.createPing(0);
+    const secondId = tracker.createPing(1500);
+    // The second ping is answered first
+    tracker.receivePong(secondId, 1550);
+    expect(tracker.getStats().rtt).toEqual(50);
+    tracker.receivePong(firstId, 1600);
+    expect(tracker.getStats().rtt).toEqual(50 + (1600 - 50) / 8);
+    // Pongs are only counted once
+    expect(tracker.receivePong(firstId, 1700)).toBe(false);
+    expect(tracker.receivePong(1000, 1700)).toBe(false);
+  });
+
+  test("should count pings that aren't answered in time as lost", () => {
+    const tracker = new UserNetworkingLatencyTracker();
+    const lostId = tracker.createPing(0);
+    tracker.receivePong(tracker.createPing(1500), 1550);
+    tracker.receivePong(tracker.createPing(3000), 3050);
+    // The first ping times out when the next ping is sent
+    tracker.receivePong(tracker.createPing(4500), 4550);
+    expect(tracker.getStats().packetLoss).toEqual(0.25);
+    // A late pong isn't counted
+    expect(tracker.receivePong(lostId, 4600)).toBe(false);
+    expect(tracker.getStats().packetLoss).toEqual(0.25);
+  });
+});
+
+describe("UserNetworkingTrafficCounter", () => {
+  test("should count totals and measure rates over each second", () => {
+    const counter = new UserNetworkingTrafficCounter();
+    for (let time = 0; time < 1000; time += 100) {
+      counter.record(50, time);
+    }
+    expect(counter.getStats(999)).toEqual({
+      bytes: 500,
+      messages: 10,
+      bytesPerSecond: 0,
+      messagesPerSecond: 0,
+    });
+    expect(counter.getStats(1000)).toEqual({
+      bytes: 500,
+      messages: 10,
+      bytesPerSecond: 500,
+      messagesPerSecond: 10,
+    });
+    // With nothing sent the rate drops once the next second has passed
+    expect(counter.getStats(2500).bytesPerSecond).toEqual(0);
+    expect(counter.getStats(2500).bytes).toEqual(500);
+  });
+});